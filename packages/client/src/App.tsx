@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { CorrespondencePage } from './components/CorrespondencePage';
 import { Game } from './components/Game';
 import { MainMenu } from './components/MainMenu';
 import { OnlineGame } from './components/OnlineGame';
@@ -8,7 +9,7 @@ import { SocketProvider } from './context/SocketContext';
 import { AuthProvider } from './context/AuthContext';
 import './App.css';
 
-type GameMode = 'menu' | 'local' | 'online' | 'profile';
+type GameMode = 'menu' | 'local' | 'computer' | 'online' | 'profile' | 'correspondence';
 
 function getResetToken(): string | null {
   const params = new URLSearchParams(window.location.search);
@@ -44,8 +45,10 @@ function AppContent() {
       <div className="app">
         <MainMenu
           onLocalPlay={() => setMode('local')}
+          onComputerPlay={() => setMode('computer')}
           onOnlinePlay={() => setMode('online')}
           onProfile={() => setMode('profile')}
+          onCorrespondence={() => setMode('correspondence')}
         />
       </div>
     );
@@ -59,6 +62,14 @@ function AppContent() {
     );
   }
 
+  if (mode === 'computer') {
+    return (
+      <div className="app">
+        <Game vsComputer />
+      </div>
+    );
+  }
+
   if (mode === 'profile') {
     return (
       <div className="app">
@@ -67,6 +78,17 @@ function AppContent() {
     );
   }
 
+  // Correspondence games only use the socket to hear about the opponent's moves
+  if (mode === 'correspondence') {
+    return (
+      <div className="app">
+        <SocketProvider>
+          <CorrespondencePage onBack={() => setMode('menu')} />
+        </SocketProvider>
+      </div>
+    );
+  }
+
   // Online mode - wrap in SocketProvider
   return (
     <div className="app">
@@ -0,0 +1,127 @@
+/**
+ * Correspondence API client - games played over days
+ */
+
+import type {
+  CorrespondencePhase,
+  CorrespondenceSettings,
+  CorrespondenceState,
+  DraftPick,
+  GameResult,
+  PlacementStep,
+  Position,
+} from '@hyper-fairy-chess/shared';
+
+const getApiBase = (): string => {
+  if (import.meta.env.VITE_SERVER_URL) {
+    return import.meta.env.VITE_SERVER_URL;
+  }
+  if (typeof window !== 'undefined' && window.location.hostname !== 'localhost') {
+    return `http://${window.location.hostname}:3001`;
+  }
+  return 'http://localhost:3001';
+};
+
+type Side = 'white' | 'black';
+
+/** A game as listed on the dashboard, with whose turn it is */
+export interface CorrespondenceGameSummary {
+  id: string;
+  whitePlayerName: string;
+  blackPlayerName: string;
+  yourColor: Side | null;
+  phase: CorrespondencePhase;
+  settings: CorrespondenceSettings;
+  toAct: Side[];
+  yourTurn: boolean;
+  deadline: number | null;
+  result: GameResult | null;
+  abandoned: boolean;
+  moveCount: number;
+  updatedAt: string;
+}
+
+/** A game as the signed-in player may see it; the opponent's draft and placement stay hidden until both are in */
+export interface CorrespondenceGameView {
+  id: string;
+  whitePlayerName: string;
+  blackPlayerName: string;
+  yourColor: Side | null;
+  state: CorrespondenceState;
+  updatedAt: string;
+}
+
+type ApiResult<T> = { success: true } & T | { success: false; error: string };
+
+async function request<T>(token: string, path: string, method = 'GET', body?: unknown): Promise<ApiResult<T>> {
+  try {
+    const res = await fetch(`${getApiBase()}/correspondence${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+    if (!res.ok) return { success: false, error: data.error || 'Request failed' };
+    return { success: true, ...data };
+  } catch {
+    return { success: false, error: 'Network error' };
+  }
+}
+
+export function getMyCorrespondenceGames(token: string) {
+  return request<{ games: CorrespondenceGameSummary[] }>(token, '');
+}
+
+export function getOpenChallenges(token: string) {
+  return request<{ games: CorrespondenceGameSummary[] }>(token, '/open');
+}
+
+export function createChallenge(token: string, settings: CorrespondenceSettings, color: Side | null) {
+  return request<{ game: CorrespondenceGameView }>(token, '', 'POST', { ...settings, color });
+}
+
+export function getCorrespondenceGame(token: string, gameId: string) {
+  return request<{ game: CorrespondenceGameView }>(token, `/${gameId}`);
+}
+
+export function cancelChallenge(token: string, gameId: string) {
+  return request<object>(token, `/${gameId}`, 'DELETE');
+}
+
+export function joinChallenge(token: string, gameId: string) {
+  return request<{ game: CorrespondenceGameView }>(token, `/${gameId}/join`, 'POST');
+}
+
+export function submitDraft(token: string, gameId: string, draft: DraftPick[]) {
+  return request<{ game: CorrespondenceGameView }>(token, `/${gameId}/draft`, 'POST', { draft });
+}
+
+export function submitPlacement(token: string, gameId: string, steps: PlacementStep[]) {
+  return request<{ game: CorrespondenceGameView }>(token, `/${gameId}/placement`, 'POST', { steps });
+}
+
+export function makeMove(
+  token: string,
+  gameId: string,
+  from: Position,
+  to: Position,
+  promotionPieceType?: string
+) {
+  return request<{ game: CorrespondenceGameView }>(token, `/${gameId}/move`, 'POST', { from, to, promotionPieceType });
+}
+
+export function resignGame(token: string, gameId: string) {
+  return request<{ game: CorrespondenceGameView }>(token, `/${gameId}/resign`, 'POST');
+}
+
+/**
+ * Time left until a deadline, e.g. "2 days left (10/21/2026, 3:00:00 PM)"
+ */
+export function formatDeadline(deadline: number): string {
+  const hours = Math.max(0, Math.floor((deadline - Date.now()) / 3_600_000));
+  const left = hours >= 48 ? `${Math.floor(hours / 24)} days` : `${hours} hours`;
+  return `${left} left (${new Date(deadline).toLocaleString()})`;
+}
@@ -2,6 +2,8 @@
  * Games API client - game history and replay data
  */
 
+import type { GameState, Move } from '@hyper-fairy-chess/shared';
+
 const getApiBase = (): string => {
   if (import.meta.env.VITE_SERVER_URL) {
     return import.meta.env.VITE_SERVER_URL;
@@ -31,6 +33,12 @@ export interface GameSummary {
   playedAt: string;
 }
 
+/** A full game ready to replay, as returned by GET /games/:id or POST /games/import */
+export interface ReplayGame extends GameSummary {
+  initialBoardState: GameState | null;
+  moves: Move[] | null;
+}
+
 export async function getGames(token: string): Promise<{ success: true; games: GameSummary[] } | { success: false; error: string }> {
   try {
     const res = await fetch(`${getApiBase()}/games`, {
@@ -54,3 +62,24 @@ export async function getGameById(gameId: string): Promise<{ success: true; game
     return { success: false, error: 'Network error' };
   }
 }
+
+/** URL that downloads a stored game as a text game record */
+export function getGameRecordUrl(gameId: string): string {
+  return `${getApiBase()}/games/${gameId}/record`;
+}
+
+export async function importGameRecord(record: string): Promise<{ success: true; game: ReplayGame } | { success: false; error: string }> {
+  try {
+    const res = await fetch(`${getApiBase()}/games/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ record }),
+    });
+    const data = await res.json();
+    if (!res.ok) return { success: false, error: data.error || 'Invalid game record' };
+    // Imported games aren't stored, so they have no ID
+    return { success: true, game: { ...data.game, id: '' } };
+  } catch {
+    return { success: false, error: 'Network error' };
+  }
+}
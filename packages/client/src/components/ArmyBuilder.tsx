@@ -22,6 +22,7 @@ import {
   type PlayerDraft,
 } from '@hyper-fairy-chess/shared';
 import { PieceInfoPopup } from './PieceInfoPopup';
+import { SurpriseDraftButton } from './SurpriseDraftButton';
 import { useAuth } from '../context/AuthContext';
 import { createArmy, updateArmy, type SavedArmy, type ArmyPiece } from '../api/armies';
 import './ArmyBuilder.css';
@@ -282,6 +283,12 @@ export function ArmyBuilder({ editingArmy, onClose }: ArmyBuilderProps) {
         <div className="builder-footer">
           {error && <p className="save-error">{error}</p>}
           <div className="footer-actions">
+            <SurpriseDraftButton
+              budget={budget}
+              boardSize={boardSize}
+              disabled={saving}
+              onDraft={setDraft}
+            />
             <button className="cancel-btn-lg" onClick={onClose}>
               Cancel
             </button>
@@ -3,8 +3,24 @@
  */
 
 import { useState } from 'react';
-import type { PieceInstance, PlayerColor, Position, BoardSize, PieceTier, PieceType } from '@hyper-fairy-chess/shared';
-import { BOARD_CONFIGS, PIECE_BY_ID, getPlacementZones, getValidPlacementSquares } from '@hyper-fairy-chess/shared';
+import type {
+  PieceInstance,
+  PieceOwner,
+  PlayerColor,
+  Position,
+  BoardSize,
+  PieceTier,
+  PieceType,
+  PlacementState,
+} from '@hyper-fairy-chess/shared';
+import {
+  getBoardConfig,
+  PIECE_BY_ID,
+  createBoardState,
+  getPlacementZones,
+  getValidPlacementSquares,
+  planPlacement,
+} from '@hyper-fairy-chess/shared';
 import { Board } from './Board';
 import { PieceInfoPopup } from './PieceInfoPopup';
 import './BlindPlacementUI.css';
@@ -18,28 +34,32 @@ interface PieceInfoState {
 
 interface BlindPlacementUIProps {
   playerColor: PlayerColor;
+  placementState: PlacementState;
   piecesToPlace: PieceInstance[];
   myPlacedPieces: Array<{ pieceId: string; typeId: string; position: Position }>;
   opponentArmy: PieceInstance[]; // Opponent's drafted pieces (for display)
   boardSize: BoardSize;
   myReady: boolean;
   opponentReady: boolean;
+  timeLimit?: number | null; // seconds until unplaced pieces are placed automatically
   onPlacePiece: (pieceId: string, position: Position) => void;
   onUnplacePiece: (pieceId: string) => void;
   onReady: () => void;
   onCancelReady: () => void;
-  onPieceRightClick?: (pieceTypeId: string, color: PlayerColor, x: number, y: number) => void;
+  onPieceRightClick?: (pieceTypeId: string, color: PieceOwner, x: number, y: number) => void;
   roomCode: string;
 }
 
 export function BlindPlacementUI({
   playerColor,
+  placementState,
   piecesToPlace,
   myPlacedPieces,
   opponentArmy,
   boardSize,
   myReady,
   opponentReady,
+  timeLimit,
   onPlacePiece,
   onUnplacePiece,
   onReady,
@@ -65,7 +85,7 @@ export function BlindPlacementUI({
     }
   };
 
-  const boardConfig = BOARD_CONFIGS[boardSize];
+  const boardConfig = getBoardConfig(boardSize);
 
   // Build the board pieces from my placed pieces (only my pieces are visible)
   // The typeId is now sent directly from the server, no parsing needed
@@ -80,22 +100,13 @@ export function BlindPlacementUI({
     };
   });
 
+  const board = createBoardState({ files: boardConfig.files, ranks: boardConfig.ranks }, boardPieces);
+
   // Calculate valid placement squares
   let validPlacementSquares: Position[] = [];
   if (selectedPiece && !myReady) {
     try {
       const zones = getPlacementZones(boardSize, playerColor);
-      const positionMap = new Map<string, string>();
-      for (const piece of boardPieces) {
-        if (piece.position) {
-          positionMap.set(`${piece.position.file}${piece.position.rank}`, piece.id);
-        }
-      }
-      const board = {
-        pieces: boardPieces,
-        positionMap,
-        dimensions: { files: boardConfig.files, ranks: boardConfig.ranks },
-      };
       validPlacementSquares = getValidPlacementSquares(
         board,
         selectedPiece,
@@ -133,6 +144,15 @@ export function BlindPlacementUI({
     }
   };
 
+  // Place all remaining pieces; the server applies them in order
+  const handleAutoPlace = () => {
+    if (myReady) return;
+    for (const { piece, position } of planPlacement(placementState, playerColor, board, boardSize)) {
+      onPlacePiece(piece.id, position);
+    }
+    setSelectedPiece(null);
+  };
+
   const allPiecesPlaced = piecesToPlace.length === 0;
 
   // Group pieces by tier
@@ -157,6 +177,11 @@ export function BlindPlacementUI({
             Opponent is ready!
           </div>
         )}
+        {!myReady && !!timeLimit && (
+          <div className="time-limit-notice">
+            Unplaced pieces are placed automatically after {formatTimeLimit(timeLimit)}
+          </div>
+        )}
       </div>
 
       <div className="blind-placement-main">
@@ -249,6 +274,16 @@ export function BlindPlacementUI({
                 </div>
               )}
 
+              {!allPiecesPlaced && (
+                <button
+                  className="btn-auto-place"
+                  onClick={handleAutoPlace}
+                  title="Place all remaining pieces automatically"
+                >
+                  Auto-place
+                </button>
+              )}
+
               <button
                 className="btn-ready"
                 onClick={onReady}
@@ -365,6 +400,11 @@ function ArmyTierGroup({ tier, pieces, onRightClick }: ArmyTierGroupProps) {
   );
 }
 
+function formatTimeLimit(seconds: number): string {
+  if (seconds % 60 === 0) return `${seconds / 60} min`;
+  return `${seconds}s`;
+}
+
 function groupPiecesByTier(pieces: PieceInstance[]): Record<PieceTier, PieceInstance[]> {
   const groups: Record<PieceTier, PieceInstance[]> = {
     royalty: [],
@@ -2,8 +2,16 @@
  * Chess board component
  */
 
-import type { BoardSize, Position, PieceInstance, Move, PlayerColor } from '@hyper-fairy-chess/shared';
-import { BOARD_CONFIGS, positionToString, PIECE_BY_ID } from '@hyper-fairy-chess/shared';
+import type {
+  BoardSize,
+  BoardTopology,
+  Position,
+  PieceInstance,
+  PieceOwner,
+  Move,
+  PlayerColor,
+} from '@hyper-fairy-chess/shared';
+import { getBoardConfig, getFiles, positionToString, PIECE_BY_ID } from '@hyper-fairy-chess/shared';
 import './Board.css';
 
 interface SpecialCaptureTarget {
@@ -24,13 +32,13 @@ interface BoardProps {
   hoveredMove?: Position | null;
   onSquareHover?: (position: Position | null) => void;
   currentTurn?: PlayerColor;
-  onPieceRightClick?: (pieceTypeId: string, color: PlayerColor, x: number, y: number) => void;
+  onPieceRightClick?: (pieceTypeId: string, color: PieceOwner, x: number, y: number) => void;
   flipped?: boolean;
   isViewingEnemy?: boolean; // True when viewing enemy piece moves (not executable)
+  topology?: BoardTopology; // On a cylinder, ghost columns show the files across the wrap
+  voids?: string[]; // Squares cut out of the board, drawn as gaps that can't be clicked
 }
 
-const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'] as const;
-
 export function Board({
   size,
   pieces,
@@ -47,15 +55,26 @@ export function Board({
   onPieceRightClick,
   flipped = false,
   isViewingEnemy = false,
+  topology = 'flat',
+  voids = [],
 }: BoardProps) {
-  const config = BOARD_CONFIGS[size];
-  const baseFiles = FILES.slice(0, config.files);
+  const config = getBoardConfig(size);
+  const baseFiles = getFiles(config.files);
   const baseRanks = Array.from({ length: config.ranks }, (_, i) => config.ranks - i);
 
   // Flip board for black player (reverse both files and ranks)
   const files = flipped ? [...baseFiles].reverse() : baseFiles;
   const ranks = flipped ? [...baseRanks].reverse() : baseRanks;
 
+  // On a cylinder, repeat the far file as a faded ghost column on each side
+  const isCylinder = topology === 'cylinder';
+  const ghostLeft = files[files.length - 1];
+  const ghostRight = files[0];
+  const columnCount = config.files + (isCylinder ? 2 : 0);
+
+  // Boards wider or taller than 10 squares get more room and smaller pieces
+  const isLargeBoard = columnCount > 10 || config.ranks > 10;
+
   // Create position -> piece lookup
   const pieceMap = new Map<string, PieceInstance>();
   for (const piece of pieces) {
@@ -64,6 +83,8 @@ export function Board({
     }
   }
 
+  const voidSet = new Set(voids);
+
   // Create valid moves set for quick lookup
   const validMoveSet = new Set(validMoves.map(positionToString));
 
@@ -92,20 +113,45 @@ export function Board({
 
   const turnClass = currentTurn ? `${currentTurn}-turn` : '';
 
+  // A faded, non-interactive copy of a square from the other side of the wrap
+  const renderGhostSquare = (file: (typeof files)[number], fileIndex: number, rank: number, side: string) => {
+    const position: Position = { file, rank };
+    const posKey = positionToString(position);
+    const piece = pieceMap.get(posKey);
+    const pieceType = piece ? PIECE_BY_ID[piece.typeId] : null;
+
+    return (
+      <div
+        key={`ghost-${side}-${posKey}`}
+        className={`square ghost ${voidSet.has(posKey) ? 'void' : isLightSquare(fileIndex, rank) ? 'light' : 'dark'}`}
+        aria-hidden="true"
+      >
+        {piece && pieceType && (
+          <div className={`piece ${piece.owner} ${piece.isFrozen ? 'frozen' : ''}`}>{pieceType.symbol}</div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className={`board-container ${turnClass}`}>
       <div
-        className="board"
+        className={`board ${isLargeBoard ? 'large' : ''}`}
         style={{
-          gridTemplateColumns: `repeat(${config.files}, 1fr)`,
+          gridTemplateColumns: `repeat(${columnCount}, 1fr)`,
           gridTemplateRows: `repeat(${config.ranks}, 1fr)`,
-          aspectRatio: `${config.files} / ${config.ranks}`,
+          aspectRatio: `${columnCount} / ${config.ranks}`,
         }}
       >
-        {ranks.map((rank) =>
-          files.map((file, fileIndex) => {
-            const position: Position = { file, rank: rank as 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 };
+        {ranks.map((rank) => [
+          isCylinder && renderGhostSquare(ghostLeft, files.length - 1, rank, 'left'),
+          ...files.map((file, fileIndex) => {
+            const position: Position = { file, rank };
             const posKey = positionToString(position);
+            if (voidSet.has(posKey)) {
+              return <div key={posKey} className="square void" aria-hidden="true" />;
+            }
+
             const piece = pieceMap.get(posKey);
             const pieceType = piece ? PIECE_BY_ID[piece.typeId] : null;
 
@@ -149,20 +195,23 @@ export function Board({
                 {isValidPlacement && !piece && <div className="placement-indicator" />}
               </div>
             );
-          })
-        )}
+          }),
+          isCylinder && renderGhostSquare(ghostRight, 0, rank, 'right'),
+        ])}
       </div>
 
       {/* File labels */}
       <div
         className="file-labels"
-        style={{ gridTemplateColumns: `repeat(${config.files}, 1fr)` }}
+        style={{ gridTemplateColumns: `repeat(${columnCount}, 1fr)` }}
       >
+        {isCylinder && <div className="label ghost">{ghostLeft}</div>}
         {files.map((file) => (
           <div key={file} className="label">
             {file}
           </div>
         ))}
+        {isCylinder && <div className="label ghost">{ghostRight}</div>}
       </div>
 
       {/* Rank labels */}
@@ -0,0 +1,113 @@
+/**
+ * Chat Panel - in-room chat with quick messages and per-player mute
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { ChatEntry, PlayerInfo } from '@hyper-fairy-chess/shared';
+import { CHAT_MAX_LENGTH, QUICK_CHAT_MESSAGES } from '@hyper-fairy-chess/shared';
+import './ChatPanel.css';
+
+interface ChatPanelProps {
+  chat: ChatEntry[];
+  players: PlayerInfo[];
+  myPlayerId: string | null;
+  mutedPlayerIds: string[];
+  canSend: boolean; // Spectators can read the chat but not post
+  error: string | null;
+  onSend: (text: string) => void;
+  onQuickSend: (quickMessageId: string) => void;
+  onToggleMute: (playerId: string) => void;
+}
+
+export function ChatPanel({
+  chat,
+  players,
+  myPlayerId,
+  mutedPlayerIds,
+  canSend,
+  error,
+  onSend,
+  onQuickSend,
+  onToggleMute,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const messagesRef = useRef<HTMLDivElement>(null);
+
+  const visible = chat.filter((entry) => !mutedPlayerIds.includes(entry.playerId));
+  const others = players.filter((p) => p.id !== myPlayerId);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const list = messagesRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [visible.length]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.trim() === '') return;
+    onSend(draft);
+    setDraft('');
+  };
+
+  return (
+    <div className="chat-panel">
+      <div className="chat-header">
+        <h3>Chat</h3>
+        <div className="chat-mute-buttons">
+          {others.map((player) => {
+            const muted = mutedPlayerIds.includes(player.id);
+            return (
+              <button
+                key={player.id}
+                className={`chat-mute ${muted ? 'muted' : ''}`}
+                onClick={() => onToggleMute(player.id)}
+                title={muted ? `Show messages from ${player.name}` : `Hide messages from ${player.name}`}
+              >
+                {muted ? `Unmute ${player.name}` : `Mute ${player.name}`}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="chat-messages" ref={messagesRef}>
+        {visible.length === 0 && <div className="chat-empty">No messages yet</div>}
+        {visible.map((entry) => (
+          <div key={entry.id} className="chat-message">
+            <span className={`chat-author ${entry.color ?? ''}`}>
+              {entry.playerId === myPlayerId ? 'You' : entry.name}:
+            </span>
+            <span className="chat-text">{entry.text}</span>
+          </div>
+        ))}
+      </div>
+
+      {canSend && (
+        <>
+          <div className="chat-quick">
+            {QUICK_CHAT_MESSAGES.map((quick) => (
+              <button key={quick.id} className="chat-quick-button" onClick={() => onQuickSend(quick.id)}>
+                {quick.text}
+              </button>
+            ))}
+          </div>
+
+          <form className="chat-input" onSubmit={handleSubmit}>
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={CHAT_MAX_LENGTH}
+              placeholder="Say something..."
+            />
+            <button type="submit" className="btn btn-primary" disabled={draft.trim() === ''}>
+              Send
+            </button>
+          </form>
+        </>
+      )}
+
+      {error && <div className="chat-error">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+/**
+ * Correspondence Game - one game played over days
+ * Shows whatever the player owes next: their draft, their blind placement or a move
+ */
+
+import { useMemo, useState } from 'react';
+import type {
+  BoardSize,
+  DraftPick,
+  PieceInstance,
+  PieceOwner,
+  PieceType,
+  PlacementState,
+  PlacementStep,
+  Position,
+} from '@hyper-fairy-chess/shared';
+import {
+  PIECE_BY_ID,
+  createPositionMap,
+  generateLegalMoves,
+  getBoardConfig,
+  getColorsToAct,
+  getPromotionOptionsForPiece,
+  getResultDescription,
+  isPromotionMove,
+  replayPlacementSteps,
+} from '@hyper-fairy-chess/shared';
+import type { CorrespondenceGameView } from '../api/correspondence';
+import { cancelChallenge, formatDeadline, makeMove, resignGame, submitDraft, submitPlacement } from '../api/correspondence';
+import { OnlineDraftUI } from './OnlineDraftUI';
+import { BlindPlacementUI } from './BlindPlacementUI';
+import { Board } from './Board';
+import { GameInfo } from './GameInfo';
+import { PromotionDialog } from './PromotionDialog';
+import { PieceInfoPopup } from './PieceInfoPopup';
+import './OnlineGame.css';
+import './CorrespondencePage.css';
+
+type Side = 'white' | 'black';
+
+interface CorrespondenceGameProps {
+  game: CorrespondenceGameView;
+  token: string;
+  onGameChange: (game: CorrespondenceGameView) => void;
+  onBack: () => void;
+}
+
+interface PieceInfoState {
+  pieceType: PieceType;
+  color: PieceOwner;
+  x: number;
+  y: number;
+}
+
+interface PromotionPendingState {
+  from: Position;
+  to: Position;
+  options: PieceType[];
+}
+
+/**
+ * Keep only the placement steps that still apply, in order - taking a Herald
+ * back can strand a pawn that was put behind it
+ */
+function keepValidSteps(army: PieceInstance[], color: Side, boardSize: BoardSize, steps: PlacementStep[]): PlacementStep[] {
+  const kept: PlacementStep[] = [];
+  for (const step of steps) {
+    if (replayPlacementSteps(army, color, boardSize, [...kept, step]).valid) kept.push(step);
+  }
+  return kept;
+}
+
+export function CorrespondenceGame({ game, token, onGameChange, onBack }: CorrespondenceGameProps) {
+  const { state, yourColor } = game;
+  const [error, setError] = useState<string | null>(null);
+  const [draftAttempt, setDraftAttempt] = useState(0);
+  const [steps, setSteps] = useState<PlacementStep[]>([]);
+  const [selectedSquare, setSelectedSquare] = useState<Position | null>(null);
+  const [promotionPending, setPromotionPending] = useState<PromotionPendingState | null>(null);
+  const [pieceInfo, setPieceInfo] = useState<PieceInfoState | null>(null);
+
+  const opponentColor: Side = yourColor === 'black' ? 'white' : 'black';
+  const toAct = getColorsToAct(state);
+  const myTurn = yourColor !== null && toAct.includes(yourColor);
+  const boardSize = state.settings.boardSize;
+
+  // Maps don't survive JSON, so rebuild the board's position map
+  const board = useMemo(() => {
+    if (!state.gameState) return null;
+    return { ...state.gameState.board, positionMap: createPositionMap(state.gameState.board.pieces) };
+  }, [state.gameState]);
+
+  const applyResult = (result: { success: true; game: CorrespondenceGameView } | { success: false; error: string }) => {
+    if (result.success) {
+      setError(null);
+      onGameChange(result.game);
+    } else {
+      setError(result.error);
+    }
+    return result.success;
+  };
+
+  const handlePieceRightClick = (pieceTypeId: string, color: PieceOwner, x: number, y: number) => {
+    const pieceType = PIECE_BY_ID[pieceTypeId];
+    if (pieceType) setPieceInfo({ pieceType, color, x, y });
+  };
+
+  const handleSubmitDraft = async (picks: DraftPick[]) => {
+    // A rejected draft unlocks the draft screen again
+    if (!applyResult(await submitDraft(token, game.id, picks))) setDraftAttempt((n) => n + 1);
+  };
+
+  const handleCancel = async () => {
+    const result = await cancelChallenge(token, game.id);
+    if (result.success) onBack();
+    else setError(result.error);
+  };
+
+  const handleResign = async () => {
+    if (!window.confirm('Resign this game?')) return;
+    applyResult(await resignGame(token, game.id));
+  };
+
+  const sendMove = async (from: Position, to: Position, promotionPieceType?: string) => {
+    setSelectedSquare(null);
+    setPromotionPending(null);
+    applyResult(await makeMove(token, game.id, from, to, promotionPieceType));
+  };
+
+  const header = (
+    <div className="online-game-header">
+      <h2>
+        {game.whitePlayerName || '?'} vs {game.blackPlayerName || '?'}
+      </h2>
+      <div className="room-info">{state.settings.daysPerMove} days per move</div>
+    </div>
+  );
+
+  const status = (
+    <>
+      {state.deadline !== null && (
+        <div className={`opponent-notification ${myTurn ? 'warning' : 'info'}`}>
+          {myTurn ? 'Your move' : "Waiting for your opponent"} - {formatDeadline(state.deadline)}
+        </div>
+      )}
+      {error && <div className="opponent-notification error">{error}</div>}
+    </>
+  );
+
+  const backButton = (
+    <button className="btn-leave" onClick={onBack}>
+      Back to My Games
+    </button>
+  );
+
+  // Waiting for someone to accept the challenge
+  if (state.phase === 'waiting') {
+    return (
+      <div className="online-game-container">
+        {header}
+        {status}
+        <div className="opponent-notification info">Waiting for someone to accept this challenge.</div>
+        {yourColor && (
+          <button className="btn btn-danger" onClick={handleCancel}>
+            Withdraw Challenge
+          </button>
+        )}
+        {backButton}
+      </div>
+    );
+  }
+
+  // Drafting: each player drafts whenever they like
+  if (state.phase === 'drafting' && yourColor && !state.drafts[yourColor]) {
+    return (
+      <div className="correspondence-phase">
+        {status}
+        <OnlineDraftUI
+          key={draftAttempt}
+          playerColor={yourColor}
+          budget={state.settings.budget}
+          boardSize={boardSize}
+          timeRemaining={null}
+          opponentReady={!toAct.includes(opponentColor)}
+          draftRevealed={false}
+          whiteDraft={null}
+          blackDraft={null}
+          onSubmitDraft={handleSubmitDraft}
+        />
+        {backButton}
+      </div>
+    );
+  }
+
+  // Blind placement: pieces are placed locally and sent all at once
+  if (state.phase === 'placement' && yourColor && !state.placements[yourColor]) {
+    const army = state.armies[yourColor] ?? [];
+    const replay = replayPlacementSteps(army, yourColor, boardSize, steps);
+    const placed = replay.valid ? replay.board.pieces : [];
+    const placedIds = new Set(placed.map((p) => p.id));
+    const piecesToPlace = army.filter((p) => !placedIds.has(p.id));
+    const placementState: PlacementState = {
+      whitePiecesToPlace: yourColor === 'white' ? piecesToPlace : [],
+      blackPiecesToPlace: yourColor === 'black' ? piecesToPlace : [],
+      currentPlacer: yourColor,
+      selectedPieceId: null,
+      mode: 'blind',
+      whiteReady: false,
+      blackReady: false,
+    };
+
+    return (
+      <div className="correspondence-phase">
+        {status}
+        <BlindPlacementUI
+          playerColor={yourColor}
+          placementState={placementState}
+          piecesToPlace={piecesToPlace}
+          myPlacedPieces={placed.map((p) => ({ pieceId: p.id, typeId: p.typeId, position: p.position! }))}
+          opponentArmy={state.armies[opponentColor] ?? []}
+          boardSize={boardSize}
+          myReady={false}
+          opponentReady={!toAct.includes(opponentColor)}
+          onPlacePiece={(pieceId, position) =>
+            setSteps((current) => {
+              const next = [...current, { pieceId, position }];
+              return replayPlacementSteps(army, yourColor, boardSize, next).valid ? next : current;
+            })
+          }
+          onUnplacePiece={(pieceId) =>
+            setSteps((current) => keepValidSteps(army, yourColor, boardSize, current.filter((s) => s.pieceId !== pieceId)))
+          }
+          onReady={async () => {
+            if (applyResult(await submitPlacement(token, game.id, steps))) setSteps([]);
+          }}
+          onCancelReady={() => {}}
+          onPieceRightClick={handlePieceRightClick}
+          roomCode="Correspondence"
+        />
+        {backButton}
+      </div>
+    );
+  }
+
+  // Done with this phase; the opponent hasn't been yet
+  if (state.phase === 'drafting' || state.phase === 'placement' || !state.gameState || !board) {
+    return (
+      <div className="online-game-container">
+        {header}
+        {status}
+        {state.abandoned ? (
+          <div className="opponent-notification error">
+            Neither player finished the {state.drafts.white || state.drafts.black ? 'placement' : 'draft'} in time, so the game was abandoned.
+          </div>
+        ) : state.phase !== 'ended' && (
+          <div className="opponent-notification info">
+            {state.phase === 'drafting'
+              ? 'Your draft is in. The armies are revealed once your opponent has drafted.'
+              : 'Your pieces are placed. The board is revealed once your opponent has placed theirs.'}
+          </div>
+        )}
+        {state.result && <div className="opponent-notification info">{getResultDescription(state.result)}</div>}
+        {yourColor && state.phase !== 'ended' && (
+          <button className="btn btn-danger" onClick={handleResign}>
+            Resign
+          </button>
+        )}
+        {backButton}
+      </div>
+    );
+  }
+
+  // Playing, or looking back at a finished game
+  const gameState = state.gameState;
+  const isGameOver = state.phase === 'ended';
+  const selectedPiece = selectedSquare
+    ? board.pieces.find((p) => p.position?.file === selectedSquare.file && p.position?.rank === selectedSquare.rank) ?? null
+    : null;
+  const validMoves = selectedPiece ? generateLegalMoves(board, selectedPiece, gameState.enPassantTarget) : [];
+  const lastMove = gameState.moveHistory.length > 0 ? gameState.moveHistory[gameState.moveHistory.length - 1] : null;
+
+  const handleSquareClick = (position: Position) => {
+    const clicked = board.pieces.find((p) => p.position?.file === position.file && p.position?.rank === position.rank);
+
+    const isMove = validMoves.some((m) => m.file === position.file && m.rank === position.rank);
+    if (selectedSquare && selectedPiece && isMove && myTurn && selectedPiece.owner === yourColor) {
+      const pieceType = PIECE_BY_ID[selectedPiece.typeId];
+      const { files, ranks } = getBoardConfig(boardSize);
+      if (pieceType && isPromotionMove(selectedPiece, pieceType, position, { files, ranks })) {
+        const options = getPromotionOptionsForPiece(pieceType, gameState);
+        if (options.length > 1) {
+          setPromotionPending({ from: selectedSquare, to: position, options });
+          return;
+        }
+        void sendMove(selectedSquare, position, options[0]?.id ?? 'queen');
+        return;
+      }
+      void sendMove(selectedSquare, position);
+      return;
+    }
+
+    // Select any piece: own to move it, the opponent's to see where it can go
+    setSelectedSquare(clicked ? position : null);
+  };
+
+  return (
+    <div className="online-game-container">
+      {header}
+      {status}
+
+      <GameInfo
+        currentTurn={gameState.currentTurn}
+        isCheck={gameState.inCheck !== null}
+        isGameOver={isGameOver}
+        resultDescription={state.result ? getResultDescription(state.result) : null}
+        moveCount={gameState.moveHistory.length}
+      />
+
+      <div className="online-game-main">
+        <div className="board-wrapper">
+          <Board
+            size={boardSize}
+            pieces={board.pieces}
+            selectedSquare={selectedSquare}
+            validMoves={validMoves}
+            onSquareClick={handleSquareClick}
+            lastMove={lastMove}
+            validPlacementSquares={[]}
+            isPlacementMode={false}
+            currentTurn={gameState.currentTurn}
+            onPieceRightClick={handlePieceRightClick}
+            flipped={yourColor === 'black'}
+            isViewingEnemy={selectedPiece !== null && selectedPiece.owner !== yourColor}
+          />
+        </div>
+      </div>
+
+      {promotionPending && yourColor && (
+        <PromotionDialog
+          options={promotionPending.options}
+          color={yourColor}
+          onSelect={(pieceType) => void sendMove(promotionPending.from, promotionPending.to, pieceType)}
+          onCancel={() => setPromotionPending(null)}
+        />
+      )}
+
+      {pieceInfo && (
+        <PieceInfoPopup
+          pieceType={pieceInfo.pieceType}
+          color={pieceInfo.color}
+          x={pieceInfo.x}
+          y={pieceInfo.y}
+          onClose={() => setPieceInfo(null)}
+        />
+      )}
+
+      {yourColor && !isGameOver && (
+        <button className="btn btn-danger" onClick={handleResign}>
+          Resign
+        </button>
+      )}
+      {backButton}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+/**
+ * Correspondence Page Component
+ * "My games" dashboard for games played over days, plus open challenges
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BoardSize, CorrespondenceSettings } from '@hyper-fairy-chess/shared';
+import { CORRESPONDENCE_DAYS_PER_MOVE } from '@hyper-fairy-chess/shared';
+import { useAuth } from '../context/AuthContext';
+import { useSocketContext } from '../context/SocketContext';
+import {
+  createChallenge,
+  formatDeadline,
+  getCorrespondenceGame,
+  getMyCorrespondenceGames,
+  getOpenChallenges,
+  joinChallenge,
+  type CorrespondenceGameSummary,
+  type CorrespondenceGameView,
+} from '../api/correspondence';
+import { CorrespondenceGame } from './CorrespondenceGame';
+import './CorrespondencePage.css';
+
+interface CorrespondencePageProps {
+  onBack: () => void;
+}
+
+const PHASE_LABELS: Record<CorrespondenceGameSummary['phase'], string> = {
+  waiting: 'Waiting for opponent',
+  drafting: 'Drafting',
+  placement: 'Placing pieces',
+  playing: 'Playing',
+  ended: 'Finished',
+};
+
+function describeStatus(game: CorrespondenceGameSummary): string {
+  if (game.phase === 'waiting') return PHASE_LABELS.waiting;
+  if (game.phase === 'ended') {
+    if (game.abandoned) return 'Abandoned';
+    if (!game.result?.winner) return 'Draw';
+    return game.result.winner === game.yourColor ? 'You won' : 'You lost';
+  }
+  return game.yourTurn ? 'Your turn' : "Opponent's turn";
+}
+
+export function CorrespondencePage({ onBack }: CorrespondencePageProps) {
+  const { token } = useAuth();
+  const { isConnected, sendMessage, addMessageListener } = useSocketContext();
+  const [games, setGames] = useState<CorrespondenceGameSummary[]>([]);
+  const [openChallenges, setOpenChallenges] = useState<CorrespondenceGameSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeGame, setActiveGame] = useState<CorrespondenceGameView | null>(null);
+  const [settings, setSettings] = useState<CorrespondenceSettings>({ budget: 360, boardSize: '8x8', daysPerMove: 3 });
+  const [color, setColor] = useState<'white' | 'black' | 'random'>('random');
+
+  // The listener outlives renders, so it reads the open game through a ref
+  const activeGameIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    activeGameIdRef.current = activeGame?.id ?? null;
+  }, [activeGame]);
+
+  const fetchGames = useCallback(() => {
+    if (!token) return;
+    Promise.all([getMyCorrespondenceGames(token), getOpenChallenges(token)]).then(([mine, open]) => {
+      if (mine.success) {
+        setGames(mine.games);
+        setError(null);
+      } else {
+        setError(mine.error);
+      }
+      if (open.success) setOpenChallenges(open.games);
+      setLoading(false);
+    });
+  }, [token]);
+
+  useEffect(fetchGames, [fetchGames]);
+
+  // Hear about moves the opponent makes while this page is open
+  useEffect(() => {
+    if (isConnected && token) {
+      sendMessage({ type: 'CORRESPONDENCE_SUBSCRIBE', timestamp: Date.now(), sessionToken: token });
+    }
+  }, [isConnected, token, sendMessage]);
+
+  useEffect(() => {
+    return addMessageListener(async (message) => {
+      if (message.type !== 'CORRESPONDENCE_UPDATED' || !token) return;
+      fetchGames();
+      if (message.gameId === activeGameIdRef.current) {
+        const result = await getCorrespondenceGame(token, message.gameId);
+        if (result.success) setActiveGame(result.game);
+      }
+    });
+  }, [addMessageListener, fetchGames, token]);
+
+  const openGame = async (gameId: string) => {
+    if (!token) return;
+    const result = await getCorrespondenceGame(token, gameId);
+    if (result.success) setActiveGame(result.game);
+    else setError(result.error);
+  };
+
+  const handleCreate = async () => {
+    if (!token) return;
+    const result = await createChallenge(token, settings, color === 'random' ? null : color);
+    if (result.success) {
+      setActiveGame(result.game);
+      fetchGames();
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const handleJoin = async (gameId: string) => {
+    if (!token) return;
+    const result = await joinChallenge(token, gameId);
+    if (result.success) {
+      setActiveGame(result.game);
+      fetchGames();
+    } else {
+      setError(result.error);
+      fetchGames();
+    }
+  };
+
+  if (activeGame && token) {
+    return (
+      <CorrespondenceGame
+        game={activeGame}
+        token={token}
+        onGameChange={(game) => {
+          setActiveGame(game);
+          fetchGames();
+        }}
+        onBack={() => {
+          setActiveGame(null);
+          fetchGames();
+        }}
+      />
+    );
+  }
+
+  const yourTurnCount = games.filter((game) => game.yourTurn).length;
+
+  return (
+    <div className="correspondence-page">
+      <div className="correspondence-container">
+        <header className="correspondence-header">
+          <button className="back-btn" onClick={onBack}>
+            ← Back to Menu
+          </button>
+          <h1>Correspondence</h1>
+        </header>
+
+        {error && <p className="correspondence-error">{error}</p>}
+
+        <section className="correspondence-section">
+          <h2>
+            My Games
+            {yourTurnCount > 0 && <span className="your-turn-count">{yourTurnCount} waiting on you</span>}
+          </h2>
+          {loading && <p className="loading">Loading games...</p>}
+          {!loading && games.length === 0 && (
+            <p className="correspondence-empty">No correspondence games yet. Open a challenge or accept one below.</p>
+          )}
+          <div className="correspondence-list">
+            {games.map((game) => (
+              <button
+                key={game.id}
+                className={`correspondence-row ${game.yourTurn ? 'your-turn' : ''} ${game.phase === 'ended' ? 'ended' : ''}`}
+                onClick={() => openGame(game.id)}
+              >
+                <span className="correspondence-status">{describeStatus(game)}</span>
+                <span className="correspondence-info">
+                  <span className="correspondence-players">
+                    {game.whitePlayerName || '?'} vs {game.blackPlayerName || '?'}
+                  </span>
+                  <span className="correspondence-meta">
+                    {PHASE_LABELS[game.phase]}
+                    {game.moveCount > 0 && ` · ${game.moveCount} moves`}
+                    {` · ${game.settings.daysPerMove} days/move`}
+                    {game.deadline !== null && ` · ${formatDeadline(game.deadline)}`}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="correspondence-section">
+          <h2>New Challenge</h2>
+          <div className="correspondence-form">
+            <label>
+              Days per move
+              <select
+                value={settings.daysPerMove}
+                onChange={(e) => setSettings({ ...settings, daysPerMove: Number(e.target.value) })}
+              >
+                {CORRESPONDENCE_DAYS_PER_MOVE.map((days) => (
+                  <option key={days} value={days}>
+                    {days} {days === 1 ? 'day' : 'days'}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Budget
+              <select value={settings.budget} onChange={(e) => setSettings({ ...settings, budget: Number(e.target.value) })}>
+                <option value={260}>260 (Quick)</option>
+                <option value={360}>360 (Standard)</option>
+                <option value={500}>500 (Extended)</option>
+                <option value={700}>700 (Long)</option>
+                <option value={900}>900 (Epic)</option>
+              </select>
+            </label>
+            <label>
+              Board Size
+              <select
+                value={settings.boardSize}
+                onChange={(e) => setSettings({ ...settings, boardSize: e.target.value as BoardSize })}
+              >
+                <option value="8x8">8x8 (Standard)</option>
+                <option value="10x8">10x8 (Extended)</option>
+                <option value="10x10">10x10 (Large)</option>
+              </select>
+            </label>
+            <label>
+              Play as
+              <select value={color} onChange={(e) => setColor(e.target.value as 'white' | 'black' | 'random')}>
+                <option value="random">Random</option>
+                <option value="white">White</option>
+                <option value="black">Black</option>
+              </select>
+            </label>
+            <button className="correspondence-btn" onClick={handleCreate}>
+              Open Challenge
+            </button>
+          </div>
+          <p className="correspondence-hint">
+            Drafting and placement are blind: each player submits theirs whenever they like, and the armies are revealed once
+            both are in. Miss a deadline and you lose on time.
+          </p>
+        </section>
+
+        <section className="correspondence-section">
+          <h2>Open Challenges</h2>
+          {openChallenges.length === 0 && <p className="correspondence-empty">No open challenges right now.</p>}
+          <div className="correspondence-list">
+            {openChallenges.map((game) => (
+              <div key={game.id} className="correspondence-row">
+                <span className="correspondence-info">
+                  <span className="correspondence-players">{game.whitePlayerName || game.blackPlayerName}</span>
+                  <span className="correspondence-meta">
+                    {game.settings.daysPerMove} days/move · {game.settings.budget} budget · {game.settings.boardSize} ·
+                    you play {game.whitePlayerName ? 'Black' : 'White'}
+                  </span>
+                </span>
+                <button className="correspondence-btn" onClick={() => handleJoin(game.id)}>
+                  Accept
+                </button>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
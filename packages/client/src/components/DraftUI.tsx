@@ -14,6 +14,7 @@ import {
 } from '@hyper-fairy-chess/shared';
 import { PieceInfoPopup } from './PieceInfoPopup';
 import { SavedArmyMenu } from './SavedArmyMenu';
+import { SurpriseDraftButton } from './SurpriseDraftButton';
 import type { PlayerDraft as PlayerDraftType } from '@hyper-fairy-chess/shared';
 import './DraftUI.css';
 
@@ -182,6 +183,11 @@ export function DraftUI({
           currentDraft={currentDraft}
           onLoad={onLoadArmy}
         />
+        <SurpriseDraftButton
+          budget={budget}
+          boardSize={boardSize}
+          onDraft={onLoadArmy}
+        />
         <button
           className="confirm-btn"
           onClick={onConfirmDraft}
@@ -2,11 +2,11 @@
  * Main game component - connects Board with game logic
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useChessGame } from '../hooks/useChessGame';
 import type { GameMode } from '../hooks/useChessGame';
-import type { Position, PlayerColor, PieceType } from '@hyper-fairy-chess/shared';
-import { PIECE_BY_ID } from '@hyper-fairy-chess/shared';
+import type { Position, PieceOwner, PlayerColor, PieceType } from '@hyper-fairy-chess/shared';
+import { PIECE_BY_ID, getMoverColor } from '@hyper-fairy-chess/shared';
 import { Board } from './Board';
 import { GameInfo } from './GameInfo';
 import { PromotionDialog } from './PromotionDialog';
@@ -15,22 +15,35 @@ import { SetupScreen } from './SetupScreen';
 import { DraftUI } from './DraftUI';
 import { HandoffScreen } from './HandoffScreen';
 import { PieceInfoPopup } from './PieceInfoPopup';
+import { HandsPanel } from './OpponentPiecesPanel';
+import type { ComputerOpponent, Difficulty } from '../utils/computerPlayer';
 import './Game.css';
 
 interface GameProps {
   mode?: GameMode;
+  /** Play against the computer (the human plays white) */
+  vsComputer?: boolean;
 }
 
+const HUMAN_COLOR: PlayerColor = 'white';
+
 interface PieceInfoState {
   pieceType: PieceType;
-  color: PlayerColor;
+  color: PieceOwner;
   x: number;
   y: number;
 }
 
-export function Game({ mode = 'draft' }: GameProps) {
+export function Game({ mode = 'draft', vsComputer = false }: GameProps) {
   const [hoveredMove, setHoveredMove] = useState<Position | null>(null);
   const [pieceInfo, setPieceInfo] = useState<PieceInfoState | null>(null);
+  const [difficulty, setDifficulty] = useState<Difficulty>('medium');
+
+  // Memoized so the computer's effects only re-run when the settings change
+  const computer = useMemo<ComputerOpponent | null>(
+    () => (vsComputer ? { color: 'black', difficulty } : null),
+    [vsComputer, difficulty]
+  );
 
   // Close popup on Escape key
   useEffect(() => {
@@ -43,7 +56,7 @@ export function Game({ mode = 'draft' }: GameProps) {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [pieceInfo]);
 
-  const handlePieceRightClick = useCallback((pieceTypeId: string, color: PlayerColor, x: number, y: number) => {
+  const handlePieceRightClick = useCallback((pieceTypeId: string, color: PieceOwner, x: number, y: number) => {
     const pieceType = PIECE_BY_ID[pieceTypeId];
     if (pieceType) {
       setPieceInfo({ pieceType, color, x, y });
@@ -57,6 +70,7 @@ export function Game({ mode = 'draft' }: GameProps) {
     specialCaptureTargets,
     promotionPending,
     promotionOptions,
+    selectedDropType,
 
     // Placement state
     placementState,
@@ -79,12 +93,14 @@ export function Game({ mode = 'draft' }: GameProps) {
     cancelPromotion,
     resetGame,
     resign,
+    selectDropPiece,
     undoMove,
     canUndo,
 
     // Placement actions
     selectPieceToPlace,
     placePiece,
+    autoPlacePiece,
 
     // Draft actions
     startDraft,
@@ -98,7 +114,8 @@ export function Game({ mode = 'draft' }: GameProps) {
     isGameOver,
     resultDescription,
     currentTurn,
-  } = useChessGame(mode);
+    isComputerTurn,
+  } = useChessGame(mode, computer);
 
   // Handle board click - different behavior for placement vs play
   const handleSquareClick = (position: { file: string; rank: number }) => {
@@ -111,7 +128,13 @@ export function Game({ mode = 'draft' }: GameProps) {
 
   // Setup phase - budget selection
   if (isSetupPhase) {
-    return <SetupScreen onStartGame={startDraft} />;
+    return (
+      <SetupScreen
+        onStartGame={startDraft}
+        difficulty={vsComputer ? difficulty : undefined}
+        onDifficultyChange={setDifficulty}
+      />
+    );
   }
 
   // Draft phase - show handoff screen between players
@@ -151,7 +174,23 @@ export function Game({ mode = 'draft' }: GameProps) {
         />
       )}
 
+      {isComputerTurn && (
+        <div className="computer-thinking">
+          {isPlacementPhase ? 'Computer is placing…' : 'Computer is thinking…'}
+        </div>
+      )}
+
       <div className="game-main">
+        {!isPlacementPhase && gameState.hand && (
+          <HandsPanel
+            hands={gameState.hand}
+            playerColor={vsComputer ? HUMAN_COLOR : currentTurn}
+            selectedTypeId={selectedDropType}
+            canDrop={!isGameOver && !isComputerTurn}
+            onSelect={selectDropPiece}
+          />
+        )}
+
         <div className="board-wrapper">
           <Board
             size={gameState.boardSize}
@@ -172,6 +211,8 @@ export function Game({ mode = 'draft' }: GameProps) {
             currentTurn={gameState.currentTurn}
             onPieceRightClick={handlePieceRightClick}
             isViewingEnemy={!isPlacementPhase && selectedPiece !== null && selectedPiece.owner !== gameState.currentTurn}
+            topology={gameState.board.dimensions.topology}
+            voids={gameState.board.dimensions.voids}
           />
         </div>
 
@@ -183,6 +224,8 @@ export function Game({ mode = 'draft' }: GameProps) {
             currentPlacer={placementState.currentPlacer}
             whitePiecesRemaining={placementState.whitePiecesToPlace.length}
             blackPiecesRemaining={placementState.blackPiecesToPlace.length}
+            onAutoPlace={autoPlacePiece}
+            autoPlaceDisabled={isComputerTurn}
           />
         )}
       </div>
@@ -190,7 +233,7 @@ export function Game({ mode = 'draft' }: GameProps) {
       {promotionPending && (
         <PromotionDialog
           options={promotionOptions}
-          color={promotionPending.piece.owner}
+          color={getMoverColor(promotionPending.piece)}
           onSelect={selectPromotion}
           onCancel={cancelPromotion}
         />
@@ -218,7 +261,7 @@ export function Game({ mode = 'draft' }: GameProps) {
         {!isGameOver && !isPlacementPhase && (
           <button
             className="btn btn-danger"
-            onClick={() => resign(currentTurn)}
+            onClick={() => resign(vsComputer ? HUMAN_COLOR : currentTurn)}
           >
             Resign
           </button>
@@ -30,7 +30,7 @@ export function GameInfo({
         <div className="turn-indicator">
           <div className={`turn-color ${currentTurn}`} />
           <span className="turn-text">
-            {currentTurn === 'white' ? 'White' : 'Black'} to move
+            {currentTurn.charAt(0).toUpperCase() + currentTurn.slice(1)} to move
           </span>
           {isCheck && <span className="check-badge">CHECK!</span>}
         </div>
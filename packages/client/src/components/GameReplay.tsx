@@ -4,19 +4,24 @@
  */
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { executeMove } from '@hyper-fairy-chess/shared';
+import { executeMove, computeZobristKey } from '@hyper-fairy-chess/shared';
 import type { GameState, Move, BoardState } from '@hyper-fairy-chess/shared';
 import { Board } from './Board';
 import { getGameById } from '../api/games';
-import type { GameSummary } from '../api/games';
+import type { GameSummary, ReplayGame } from '../api/games';
 import './GameReplay.css';
 
 interface GameReplayProps {
   gameSummary: GameSummary;
+  /** An imported game to show instead of fetching gameSummary.id from the server */
+  importedGame?: ReplayGame;
   onClose: () => void;
 }
 
-/** Rebuild the positionMap (Map<string,string>) which doesn't survive JSON. */
+/**
+ * Rebuild the positionMap (Map<string,string>) which doesn't survive JSON.
+ * The position key is recomputed too, since older records stored string hashes.
+ */
 function reconstructGameState(gs: GameState): GameState {
   const positionMap = new Map<string, string>();
   for (const piece of gs.board.pieces) {
@@ -25,7 +30,8 @@ function reconstructGameState(gs: GameState): GameState {
     }
   }
   const board: BoardState = { ...gs.board, positionMap };
-  return { ...gs, board };
+  const positionHistory = [computeZobristKey(board, gs.currentTurn, gs.enPassantTarget)];
+  return { ...gs, board, positionHistory };
 }
 
 /** Pre-build every board position by replaying moves from the initial state. */
@@ -44,7 +50,7 @@ function buildStates(initial: GameState, moves: Move[]): GameState[] {
   return states;
 }
 
-export function GameReplay({ gameSummary, onClose }: GameReplayProps) {
+export function GameReplay({ gameSummary, importedGame, onClose }: GameReplayProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [states, setStates] = useState<GameState[]>([]);
@@ -56,7 +62,11 @@ export function GameReplay({ gameSummary, onClose }: GameReplayProps) {
     setLoading(true);
     setError(null);
 
-    getGameById(gameSummary.id).then((result) => {
+    const request = importedGame
+      ? Promise.resolve({ success: true as const, game: importedGame as unknown })
+      : getGameById(gameSummary.id);
+
+    request.then((result) => {
       if (cancelled) return;
       if (!result.success) {
         setError(result.error);
@@ -86,7 +96,7 @@ export function GameReplay({ gameSummary, onClose }: GameReplayProps) {
     });
 
     return () => { cancelled = true; };
-  }, [gameSummary.id]);
+  }, [gameSummary.id, importedGame]);
 
   const goTo = useCallback((newStep: number) => {
     setStep(Math.max(0, Math.min(newStep, states.length - 1)));
@@ -143,6 +153,8 @@ export function GameReplay({ gameSummary, onClose }: GameReplayProps) {
                 validMoves={[]}
                 onSquareClick={() => {}}
                 lastMove={lastMove}
+                topology={currentState.board.dimensions.topology}
+                voids={currentState.board.dimensions.voids}
               />
 
               {/* Controls */}
@@ -10,11 +10,13 @@ import './MainMenu.css';
 
 interface MainMenuProps {
   onLocalPlay: () => void;
+  onComputerPlay: () => void;
   onOnlinePlay: () => void;
   onProfile: () => void;
+  onCorrespondence: () => void;
 }
 
-export function MainMenu({ onLocalPlay, onOnlinePlay, onProfile }: MainMenuProps) {
+export function MainMenu({ onLocalPlay, onComputerPlay, onOnlinePlay, onProfile, onCorrespondence }: MainMenuProps) {
   const { isAuthenticated, user, authAvailable } = useAuth();
   const [showAuthModal, setShowAuthModal] = useState(false);
 
@@ -26,6 +28,14 @@ export function MainMenu({ onLocalPlay, onOnlinePlay, onProfile }: MainMenuProps
     }
   };
 
+  const handleCorrespondenceClick = () => {
+    if (isAuthenticated) {
+      onCorrespondence();
+    } else {
+      setShowAuthModal(true);
+    }
+  };
+
   return (
     <div className="main-menu">
       <div className="menu-card">
@@ -41,6 +51,14 @@ export function MainMenu({ onLocalPlay, onOnlinePlay, onProfile }: MainMenuProps
             </span>
           </button>
 
+          <button className="menu-btn computer" onClick={onComputerPlay}>
+            <span className="btn-icon">♜</span>
+            <span className="btn-text">
+              <span className="btn-title">Play vs Computer</span>
+              <span className="btn-desc">Challenge the AI at your chosen difficulty</span>
+            </span>
+          </button>
+
           <button className="menu-btn online" onClick={onOnlinePlay}>
             <span className="btn-icon">⚔</span>
             <span className="btn-text">
@@ -49,6 +67,16 @@ export function MainMenu({ onLocalPlay, onOnlinePlay, onProfile }: MainMenuProps
             </span>
           </button>
 
+          {authAvailable && (
+            <button className="menu-btn correspondence" onClick={handleCorrespondenceClick}>
+              <span className="btn-icon">✉</span>
+              <span className="btn-text">
+                <span className="btn-title">Correspondence</span>
+                <span className="btn-desc">Games over days - move whenever you're free</span>
+              </span>
+            </button>
+          )}
+
           {authAvailable && (
             <button className="menu-btn profile" onClick={handleProfileClick}>
               <span className="btn-icon">👤</span>
@@ -10,6 +10,7 @@ import type {
   BoardSize,
   DraftPick,
   PlayerDraft,
+  SlotCounts,
 } from '@hyper-fairy-chess/shared';
 import {
   createEmptyDraft,
@@ -25,6 +26,7 @@ import {
 } from '@hyper-fairy-chess/shared';
 import { PieceInfoPopup } from './PieceInfoPopup';
 import { SavedArmyMenu } from './SavedArmyMenu';
+import { SurpriseDraftButton } from './SurpriseDraftButton';
 import './OnlineDraftUI.css';
 
 interface PieceInfoState {
@@ -37,11 +39,13 @@ interface OnlineDraftUIProps {
   playerColor: PlayerColor;
   budget: number;
   boardSize: BoardSize;
+  slots?: SlotCounts; // User-set slot counts for the room, if any
   timeRemaining: number | null;
   opponentReady: boolean;
   draftRevealed: boolean;
   whiteDraft: DraftPick[] | null;
   blackDraft: DraftPick[] | null;
+  drafts?: Partial<Record<PlayerColor, DraftPick[]>> | null; // Every seat's draft in a free-for-all
   onSubmitDraft: (draft: DraftPick[]) => void;
 }
 
@@ -49,18 +53,20 @@ export function OnlineDraftUI({
   playerColor,
   budget,
   boardSize,
+  slots,
   timeRemaining,
   opponentReady,
   draftRevealed,
   whiteDraft,
   blackDraft,
+  drafts,
   onSubmitDraft,
 }: OnlineDraftUIProps) {
   const [draft, setDraft] = useState<PlayerDraft>(createEmptyDraft());
   const [isLocked, setIsLocked] = useState(false);
   const [pieceInfo, setPieceInfo] = useState<PieceInfoState | null>(null);
 
-  const slotLimits = getSlotLimits(boardSize);
+  const slotLimits = getSlotLimits(boardSize, slots);
   const budgetRemaining = budget - draft.budgetSpent;
   const totalPieces = getDraftPieceCount(draft);
 
@@ -114,6 +120,26 @@ export function OnlineDraftUI({
     setPieceInfo({ pieceType: piece, x: e.clientX, y: e.clientY });
   };
 
+  // In a free-for-all, show every army; play starts straight away
+  if (draftRevealed && drafts) {
+    return (
+      <div className="online-draft-reveal">
+        <h2>Draft Revealed!</h2>
+        <div className="reveal-armies">
+          {(Object.keys(drafts) as PlayerColor[]).map((color) => (
+            <DraftRevealArmy
+              key={color}
+              title={`${colorName(color)}'s Army`}
+              draft={drafts[color]!}
+              isYou={playerColor === color}
+            />
+          ))}
+        </div>
+        <p className="transition-notice">The game begins shortly...</p>
+      </div>
+    );
+  }
+
   // If draft is revealed, show both armies
   if (draftRevealed && whiteDraft && blackDraft) {
     return (
@@ -141,7 +167,7 @@ export function OnlineDraftUI({
       {/* Header with timer and status */}
       <div className="draft-header-online">
         <h2 className={`draft-title ${playerColor}`}>
-          {playerColor === 'white' ? 'White' : 'Black'}'s Draft
+          {colorName(playerColor)}'s Draft
         </h2>
 
         <div className="draft-status-row">
@@ -186,10 +212,18 @@ export function OnlineDraftUI({
           <SavedArmyMenu
             budget={budget}
             boardSize={boardSize}
+            slots={slots}
             disabled={isLocked}
             currentDraft={draft}
             onLoad={(newDraft) => setDraft(newDraft)}
           />
+          <SurpriseDraftButton
+            budget={budget}
+            boardSize={boardSize}
+            slots={slots}
+            disabled={isLocked}
+            onDraft={(newDraft) => setDraft(newDraft)}
+          />
         </div>
       )}
 
@@ -205,6 +239,7 @@ export function OnlineDraftUI({
               draft={draft}
               budget={budget}
               boardSize={boardSize}
+              slots={slots}
               isLocked={isLocked}
               onAddPiece={handleAddPiece}
               onRightClick={handlePieceRightClick}
@@ -218,6 +253,7 @@ export function OnlineDraftUI({
               draft={draft}
               budget={budget}
               boardSize={boardSize}
+              slots={slots}
               isLocked={isLocked}
               onAddPiece={handleAddPiece}
               onRightClick={handlePieceRightClick}
@@ -231,6 +267,7 @@ export function OnlineDraftUI({
               draft={draft}
               budget={budget}
               boardSize={boardSize}
+              slots={slots}
               isLocked={isLocked}
               onAddPiece={handleAddPiece}
               onRightClick={handlePieceRightClick}
@@ -316,6 +353,7 @@ interface TierSectionProps {
   draft: PlayerDraft;
   budget: number;
   boardSize: BoardSize;
+  slots?: SlotCounts;
   isLocked: boolean;
   onAddPiece: (pieceType: PieceType) => void;
   onRightClick: (piece: PieceType, e: React.MouseEvent) => void;
@@ -327,6 +365,7 @@ function TierSection({
   draft,
   budget,
   boardSize,
+  slots,
   isLocked,
   onAddPiece,
   onRightClick,
@@ -336,7 +375,7 @@ function TierSection({
       <h4>{title}</h4>
       <div className="piece-list">
         {pieces.map((piece) => {
-          const canAdd = !isLocked && canAddPiece(draft, piece, budget, boardSize);
+          const canAdd = !isLocked && canAddPiece(draft, piece, budget, boardSize, slots);
           const countInDraft = getPieceCountInDraft(draft, piece.id);
 
           return (
@@ -362,6 +401,10 @@ function TierSection({
   );
 }
 
+function colorName(color: PlayerColor): string {
+  return color.charAt(0).toUpperCase() + color.slice(1);
+}
+
 interface DraftRevealArmyProps {
   title: string;
   draft: DraftPick[];
@@ -5,28 +5,42 @@
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useOnlineGame } from '../hooks/useOnlineGame';
-import type { Position, PlayerColor, PieceType, PieceInstance, GameResult } from '@hyper-fairy-chess/shared';
+import type {
+  Position,
+  PieceOwner,
+  PieceType,
+  PieceInstance,
+  GameResult,
+  ClockState,
+  PlayerColor,
+} from '@hyper-fairy-chess/shared';
 
 interface SpecialCaptureTarget {
   position: Position;
   movePosition: Position; // The move that causes this capture
 }
 import {
-  BOARD_CONFIGS,
+  getBoardConfig,
+  createBoardState,
   getPlacementZones,
   getValidPlacementSquares,
+  planPlacement,
   generateLegalMoves,
   isPromotionMove,
   getPromotionOptionsForPiece,
   isNearFiftyMoveRule,
   isNearThreefoldRepetition,
   getCoordinatorCaptures,
+  getMoverColor,
   getBoxerCaptures,
   getWithdrawerCapture,
   getThiefCapture,
   getLongLeaperCaptures,
   getCheckersCaptures,
   getChameleonCaptures,
+  getDropSquares,
+  getRemainingTime,
+  formatClockTime,
   PIECE_BY_ID,
 } from '@hyper-fairy-chess/shared';
 import { OnlineLobby } from './OnlineLobby';
@@ -37,8 +51,9 @@ import { GameInfo } from './GameInfo';
 import { PromotionDialog } from './PromotionDialog';
 import { PlacementUI } from './PlacementUI';
 import { BlindPlacementUI } from './BlindPlacementUI';
-import { OpponentPiecesPanel } from './OpponentPiecesPanel';
+import { OpponentPiecesPanel, HandsPanel } from './OpponentPiecesPanel';
 import { PieceInfoPopup } from './PieceInfoPopup';
+import { ChatPanel } from './ChatPanel';
 import './OnlineGame.css';
 
 interface OnlineGameProps {
@@ -47,7 +62,7 @@ interface OnlineGameProps {
 
 interface PieceInfoState {
   pieceType: PieceType;
-  color: PlayerColor;
+  color: PieceOwner;
   x: number;
   y: number;
 }
@@ -58,8 +73,12 @@ interface PromotionPendingState {
   options: PieceType[];
 }
 
+function colorName(color: PlayerColor): string {
+  return color.charAt(0).toUpperCase() + color.slice(1);
+}
+
 function getResultDescription(result: GameResult): string {
-  const winner = result.winner === 'white' ? 'White' : result.winner === 'black' ? 'Black' : null;
+  const winner = result.winner ? colorName(result.winner) : null;
   switch (result.type) {
     case 'checkmate':
       return `Checkmate! ${winner} wins.`;
@@ -79,11 +98,58 @@ function getResultDescription(result: GameResult): string {
       return 'Draw by fifty-move rule.';
     case 'draw-repetition':
       return 'Draw by threefold repetition.';
+    case 'last-standing':
+      return `${winner} wins as the last player standing.`;
     default:
       return 'Game over.';
   }
 }
 
+interface ChessClocksProps {
+  clock: ClockState;
+  clockOffset: number; // How far the server's time is ahead of ours (ms)
+  seats: PlayerColor[];
+  playerColor: PlayerColor | null;
+  eliminated: PlayerColor[];
+}
+
+/**
+ * Every seat's clock, counting the running one down locally between server updates
+ */
+function ChessClocks({ clock, clockOffset, seats, playerColor, eliminated }: ChessClocksProps) {
+  const [now, setNow] = useState(() => Date.now() + clockOffset);
+
+  // Only the running clock moves, so stopped clocks don't need to tick
+  useEffect(() => {
+    if (!clock.running) return;
+    const interval = setInterval(() => setNow(Date.now() + clockOffset), 100);
+    return () => clearInterval(interval);
+  }, [clock, clockOffset]);
+
+  return (
+    <div className="chess-clocks">
+      {seats.map((color) => {
+        const remaining = getRemainingTime(clock, color, now);
+        const classes = [
+          'chess-clock',
+          color,
+          clock.running === color ? 'running' : '',
+          remaining < 10_000 ? 'low' : '',
+          eliminated.includes(color) ? 'out' : '',
+        ].filter(Boolean).join(' ');
+        return (
+          <div key={color} className={classes}>
+            <span className="chess-clock-name">
+              {colorName(color)}{color === playerColor && ' (You)'}
+            </span>
+            <span className="chess-clock-time">{formatClockTime(remaining)}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export function OnlineGame({ onBack }: OnlineGameProps) {
   const { state, actions } = useOnlineGame();
   const [pieceInfo, setPieceInfo] = useState<PieceInfoState | null>(null);
@@ -91,6 +157,7 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
   const [selectedPieceToPlace, setSelectedPieceToPlace] = useState<PieceInstance | null>(null);
   const [promotionPending, setPromotionPending] = useState<PromotionPendingState | null>(null);
   const [hoveredMove, setHoveredMove] = useState<Position | null>(null);
+  const [selectedDropType, setSelectedDropType] = useState<string | null>(null);
 
   // Close popup on Escape key
   useEffect(() => {
@@ -104,9 +171,10 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [pieceInfo, promotionPending]);
 
-  // No automatic reconnection - user must explicitly click "Rejoin Game"
+  // No automatic rejoin on page load - user must explicitly click "Rejoin Game".
+  // A connection that drops mid-game is picked back up by useOnlineGame.
 
-  const handlePieceRightClick = useCallback((pieceTypeId: string, color: PlayerColor, x: number, y: number) => {
+  const handlePieceRightClick = useCallback((pieceTypeId: string, color: PieceOwner, x: number, y: number) => {
     const pieceType = PIECE_BY_ID[pieceTypeId];
     if (pieceType) {
       setPieceInfo({ pieceType, color, x, y });
@@ -143,8 +211,11 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
     ) || null;
   }, [selectedSquare, isPlayingPhase, state.gameState?.board?.pieces]);
 
-  // Calculate valid moves for selected piece
+  // Calculate valid moves for selected piece, or drop squares for a piece picked from the hand
   const validMovesForGame = useMemo(() => {
+    if (selectedDropType && board && state.gameState) {
+      return getDropSquares({ ...state.gameState, board }, selectedDropType);
+    }
     if (!selectedPieceForGame || !board || !state.gameState) return [];
     try {
       return generateLegalMoves(board, selectedPieceForGame, state.gameState.enPassantTarget);
@@ -152,7 +223,7 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
       console.error('Error calculating valid moves:', err);
       return [];
     }
-  }, [selectedPieceForGame, board, state.gameState?.enPassantTarget]);
+  }, [selectedDropType, selectedPieceForGame, board, state.gameState]);
 
   // Calculate special capture targets for selected piece (withdrawer, coordinator, etc.)
   const specialCaptureTargetsForGame = useMemo((): SpecialCaptureTarget[] => {
@@ -167,32 +238,33 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
     if (!['coordinator', 'boxer', 'withdrawal', 'thief', 'long-leap', 'checkers', 'chameleon'].includes(pieceType.captureType)) {
       return [];
     }
+    const color = getMoverColor(selectedPieceForGame);
 
     for (const move of validMovesForGame) {
       let captures: { pieceId: string; position: Position }[] = [];
 
       switch (pieceType.captureType) {
         case 'coordinator':
-          captures = getCoordinatorCaptures(board, selectedPieceForGame.owner, move);
+          captures = getCoordinatorCaptures(board, color, move);
           break;
         case 'boxer':
-          captures = getBoxerCaptures(board, selectedPieceForGame.owner, move);
+          captures = getBoxerCaptures(board, color, move);
           break;
         case 'withdrawal':
           if (selectedPieceForGame.position) {
-            const capture = getWithdrawerCapture(board, selectedPieceForGame.owner, selectedPieceForGame.position, move);
+            const capture = getWithdrawerCapture(board, color, selectedPieceForGame.position, move);
             if (capture) captures = [capture];
           }
           break;
         case 'thief':
           if (selectedPieceForGame.position) {
-            const capture = getThiefCapture(board, selectedPieceForGame.owner, selectedPieceForGame.position, move);
+            const capture = getThiefCapture(board, color, selectedPieceForGame.position, move);
             if (capture) captures = [capture];
           }
           break;
         case 'long-leap':
           if (selectedPieceForGame.position) {
-            captures = getLongLeaperCaptures(board, selectedPieceForGame.owner, selectedPieceForGame.position, move);
+            captures = getLongLeaperCaptures(board, color, selectedPieceForGame.position, move);
           }
           break;
         case 'checkers':
@@ -228,6 +300,10 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
         error={state.error}
         onCreateRoom={actions.createRoom}
         onJoinRoom={actions.joinRoom}
+        onWatchRoom={actions.watchRoom}
+        queue={state.queue}
+        onJoinQueue={actions.joinQueue}
+        onLeaveQueue={actions.leaveQueue}
         onRejoinGame={actions.reconnect}
         onBack={onBack}
       />
@@ -239,7 +315,7 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
     return (
       <WaitingRoom
         roomCode={state.roomCode}
-        playerColor={state.playerColor!}
+        playerColor={state.playerColor}
         players={state.players}
         settings={state.settings!}
         onLeave={actions.leaveRoom}
@@ -247,6 +323,62 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
     );
   }
 
+  // Spectators can't see the drafts or a blind placement, so until play starts
+  // they get the public board and a note of what's going on
+  if (state.isSpectator && (state.phase === 'drafting' || state.phase === 'placement')) {
+    const status = state.phase === 'drafting'
+      ? 'The players are drafting their armies.'
+      : state.blindMode
+        ? 'The players are placing their pieces in secret. The board is revealed when both are ready.'
+        : 'The players are placing their pieces.';
+
+    return (
+      <div className="online-game-container">
+        <div className="online-game-header">
+          <h2>{state.phase === 'drafting' ? 'Draft Phase' : 'Placement Phase'}</h2>
+          <div className="room-info">Room: {state.roomCode}</div>
+        </div>
+
+        <div className="opponent-notification info">Watching. {status}</div>
+
+        {state.phase === 'placement' && (
+          <div className="online-game-main">
+            <div className="board-wrapper">
+              <Board
+                size={state.settings!.boardSize}
+                pieces={state.gameState?.board.pieces || []}
+                selectedSquare={null}
+                validMoves={[]}
+                onSquareClick={() => {}}
+                lastMove={null}
+                validPlacementSquares={[]}
+                isPlacementMode={false}
+                specialCaptureTargets={[]}
+                onPieceRightClick={handlePieceRightClick}
+                topology={state.settings?.topology}
+                voids={state.gameState?.board.dimensions.voids}
+              />
+            </div>
+          </div>
+        )}
+
+        {pieceInfo && (
+          <PieceInfoPopup
+            pieceType={pieceInfo.pieceType}
+            color={pieceInfo.color}
+            x={pieceInfo.x}
+            y={pieceInfo.y}
+            onClose={() => setPieceInfo(null)}
+          />
+        )}
+
+        <button className="btn-leave" onClick={actions.leaveRoom}>
+          Stop Watching
+        </button>
+      </div>
+    );
+  }
+
   // Drafting phase
   if (state.phase === 'drafting') {
     console.log('[OnlineGame] Rendering draft UI with budget:', state.settings?.budget, 'settings:', state.settings);
@@ -255,11 +387,13 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
         playerColor={state.playerColor!}
         budget={state.settings!.budget}
         boardSize={state.settings!.boardSize}
+        slots={state.settings!.slots}
         timeRemaining={state.draftTimeRemaining}
         opponentReady={state.opponentReady}
         draftRevealed={state.draftRevealed}
         whiteDraft={state.whiteDraft}
         blackDraft={state.blackDraft}
+        drafts={state.drafts}
         onSubmitDraft={actions.submitDraft}
       />
     );
@@ -277,12 +411,14 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
     return (
       <BlindPlacementUI
         playerColor={state.playerColor!}
+        placementState={state.placementState}
         piecesToPlace={myPieces}
         myPlacedPieces={state.myPlacedPieces}
         opponentArmy={opponentArmy}
         boardSize={state.settings!.boardSize}
         myReady={state.myReady}
         opponentReady={state.opponentBlindReady}
+        timeLimit={state.placementTimeLimit}
         onPlacePiece={actions.blindPlacePiece}
         onUnplacePiece={actions.blindUnplacePiece}
         onReady={actions.setBlindReady}
@@ -309,13 +445,31 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
       setSelectedPieceToPlace(null);
     };
 
+    const handleAutoPlace = () => {
+      if (!isMyTurn || !state.playerColor || !state.placementState) return;
+      const config = getBoardConfig(state.settings!.boardSize);
+      const board = createBoardState(
+        { files: config.files, ranks: config.ranks },
+        state.gameState?.board.pieces || []
+      );
+      const [next] = planPlacement(state.placementState, state.playerColor, board, state.settings!.boardSize);
+      if (next) {
+        actions.placePiece(next.piece.id, next.position);
+        setSelectedPieceToPlace(null);
+      }
+    };
+
     // Calculate valid placement squares using proper zone logic
     const boardSize = state.settings!.boardSize;
-    const boardConfig = BOARD_CONFIGS[boardSize];
+    const boardConfig = getBoardConfig(boardSize);
     let validPlacementSquares: Position[] = [];
     if (isMyTurn && selectedPieceToPlace && state.playerColor) {
       try {
-        const zones = getPlacementZones(boardSize, state.playerColor);
+        const zones = getPlacementZones(
+          boardSize,
+          state.playerColor,
+          state.gameState?.board.dimensions.voids
+        );
         // Get board from gameState, ensuring positionMap is a proper Map
         let board = state.gameState?.board;
         if (!board || !(board.positionMap instanceof Map)) {
@@ -383,6 +537,8 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
               currentTurn={state.playerColor!}
               onPieceRightClick={handlePieceRightClick}
               flipped={state.playerColor === 'black'}
+              topology={state.settings?.topology}
+              voids={state.gameState?.board.dimensions.voids}
             />
           </div>
 
@@ -394,9 +550,23 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
             playerColor={state.playerColor!}
             whitePiecesRemaining={state.placementState.whitePiecesToPlace.length}
             blackPiecesRemaining={state.placementState.blackPiecesToPlace.length}
+            onAutoPlace={handleAutoPlace}
+            autoPlaceDisabled={!isMyTurn}
           />
         </div>
 
+        <ChatPanel
+          chat={state.chat}
+          players={state.players}
+          myPlayerId={state.playerId}
+          mutedPlayerIds={state.mutedPlayerIds}
+          canSend={!state.isSpectator}
+          error={state.chatError}
+          onSend={actions.sendChat}
+          onQuickSend={actions.sendQuickChat}
+          onToggleMute={actions.toggleMute}
+        />
+
         {pieceInfo && (
           <PieceInfoPopup
             pieceType={pieceInfo.pieceType}
@@ -418,8 +588,21 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
   if ((state.phase === 'playing' || state.phase === 'ended') && state.gameState) {
     const isMyTurn = state.gameState.currentTurn === state.playerColor;
     const isGameOver = state.gameState.result !== null;
+    const multiplayer = state.gameState.multiplayer;
+    const seats = multiplayer?.seats ?? ['white', 'black'];
+    const eliminated = multiplayer?.eliminated ?? [];
+    const isKnockedOut = state.playerColor !== null && eliminated.includes(state.playerColor);
+    const standings = state.gameState.result?.standings;
 
     const handleSquareClick = (position: Position) => {
+      if (selectedDropType) {
+        if (validMovesForGame.some(m => m.file === position.file && m.rank === position.rank)) {
+          actions.dropPiece(selectedDropType, position);
+        }
+        setSelectedDropType(null);
+        return;
+      }
+
       if (selectedSquare) {
         // If viewing enemy piece, allow switching to any piece or deselecting
         const currentSelectedPiece = state.gameState!.board.pieces.find(
@@ -478,7 +661,7 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
         if (movingPiece && movingPiece.owner === state.playerColor) {
           // Check if this is a promotion move
           const pieceType = PIECE_BY_ID[movingPiece.typeId];
-          const boardConfig = BOARD_CONFIGS[state.settings!.boardSize];
+          const boardConfig = getBoardConfig(state.settings!.boardSize);
           const dimensions = { files: boardConfig.files, ranks: boardConfig.ranks };
 
           if (pieceType && isPromotionMove(movingPiece, pieceType, position, dimensions)) {
@@ -529,19 +712,37 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
       <div className="online-game-container">
         <div className="online-game-header">
           <h2>
-            {isGameOver ? 'Game Over' : (isMyTurn ? 'Your Turn' : "Opponent's Turn")}
+            {isGameOver
+              ? 'Game Over'
+              : isMyTurn
+                ? 'Your Turn'
+                : multiplayer || state.isSpectator
+                  ? `${colorName(state.gameState.currentTurn)}'s Turn`
+                  : "Opponent's Turn"}
           </h2>
           <div className="room-info">Room: {state.roomCode}</div>
         </div>
 
+        {state.isSpectator && (
+          <div className="opponent-notification info">
+            You're watching this game.
+          </div>
+        )}
+
+        {isKnockedOut && !isGameOver && (
+          <div className="opponent-notification warning">
+            You're out of the game. You can keep watching until it ends.
+          </div>
+        )}
+
         {state.opponentStatus === 'disconnected' && (
           <div className="opponent-notification warning">
-            Opponent disconnected. Waiting for them to reconnect...
+            {state.isSpectator ? 'A player' : 'Opponent'} disconnected. Waiting for them to reconnect...
           </div>
         )}
         {state.opponentStatus === 'left' && (
           <div className="opponent-notification error">
-            Opponent has left the game.
+            {state.isSpectator ? 'A player' : 'Opponent'} has left the game.
           </div>
         )}
 
@@ -580,6 +781,30 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
           moveCount={state.gameState.moveHistory.length}
         />
 
+        {state.clock && (
+          <ChessClocks
+            clock={state.clock}
+            clockOffset={state.clockOffset}
+            seats={seats}
+            playerColor={state.playerColor}
+            eliminated={eliminated}
+          />
+        )}
+
+        {/* Free-for-all final standings */}
+        {isGameOver && standings && (
+          <ol className="standings">
+            {standings.map((standing) => (
+              <li key={standing.color} className={standing.color === state.playerColor ? 'you' : ''}>
+                <span className={`standings-color ${standing.color}`}>{colorName(standing.color)}</span>
+                <span className="standings-detail">
+                  {standing.eliminated ? 'Knocked out' : `${standing.victoryPoints} VP`}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+
         {/* ELO change display */}
         {isGameOver && state.eloUpdate && (
           <div className="elo-update-banner">
@@ -596,6 +821,19 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
         )}
 
         <div className="online-game-main">
+          {state.gameState.hand && (
+            <HandsPanel
+              hands={state.gameState.hand}
+              playerColor={state.playerColor}
+              selectedTypeId={selectedDropType}
+              canDrop={isMyTurn && !isGameOver}
+              onSelect={(typeId) => {
+                setSelectedDropType(typeId);
+                setSelectedSquare(null);
+              }}
+            />
+          )}
+
           <div className="board-wrapper">
             <Board
               size={state.settings!.boardSize}
@@ -613,6 +851,8 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
               onPieceRightClick={handlePieceRightClick}
               flipped={state.playerColor === 'black'}
               isViewingEnemy={selectedPieceForGame !== null && selectedPieceForGame.owner !== state.playerColor}
+              topology={state.gameState.board.dimensions.topology}
+              voids={state.gameState.board.dimensions.voids}
             />
           </div>
         </div>
@@ -640,21 +880,24 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
         )}
 
         <div className="online-game-controls">
-          {!isGameOver && (
+          {!isGameOver && !isKnockedOut && !state.isSpectator && (
             <>
               <button className="btn btn-danger" onClick={actions.resign}>
                 Resign
               </button>
-              <button
-                className="btn btn-draw"
-                onClick={actions.offerDraw}
-                disabled={state.drawOfferedBy === state.playerColor}
-              >
-                {state.drawOfferedBy === state.playerColor ? 'Draw Offered' : 'Offer Draw'}
-              </button>
+              {/* There are no draw offers in a free-for-all */}
+              {!multiplayer && (
+                <button
+                  className="btn btn-draw"
+                  onClick={actions.offerDraw}
+                  disabled={state.drawOfferedBy === state.playerColor}
+                >
+                  {state.drawOfferedBy === state.playerColor ? 'Draw Offered' : 'Offer Draw'}
+                </button>
+              )}
             </>
           )}
-          {isGameOver && (
+          {isGameOver && !state.isSpectator && (
             <button
               className={`btn ${state.myRematchProposed ? 'btn-secondary' : 'btn-primary'}`}
               onClick={actions.proposeRematch}
@@ -670,10 +913,22 @@ export function OnlineGame({ onBack }: OnlineGameProps) {
             </button>
           )}
           <button className="btn btn-secondary" onClick={actions.leaveRoom}>
-            Leave Game
+            {state.isSpectator ? 'Stop Watching' : 'Leave Game'}
           </button>
         </div>
 
+        <ChatPanel
+          chat={state.chat}
+          players={state.players}
+          myPlayerId={state.playerId}
+          mutedPlayerIds={state.mutedPlayerIds}
+          canSend={!state.isSpectator}
+          error={state.chatError}
+          onSend={actions.sendChat}
+          onQuickSend={actions.sendQuickChat}
+          onToggleMute={actions.toggleMute}
+        />
+
         {state.gameState.moveHistory.length > 0 && (
           <div className="move-history">
             <h3>Moves</h3>
@@ -1,22 +1,59 @@
 /**
  * Online Lobby Component
- * Handles room creation and joining
+ * Handles room creation and joining, and queueing for a match
  */
 
 import { useState, useEffect } from 'react';
-import type { RoomSettings, LobbyRoom } from '@hyper-fairy-chess/shared';
+import type {
+  BoardLayout,
+  BoardSize,
+  BoardTopology,
+  ClockSettings,
+  DeadPieceRule,
+  RoomSettings,
+  LobbyRoom,
+  MatchPreferences,
+  SlotCounts,
+} from '@hyper-fairy-chess/shared';
+import {
+  BOARD_LAYOUTS,
+  getRatingWindow,
+  MIN_BOARD_DIMENSION,
+  MAX_BOARD_DIMENSION,
+  getBoardConfig,
+  parseBoardSize,
+} from '@hyper-fairy-chess/shared';
 import { getValidSession, clearSession, getSavedPlayerName, savePlayerName } from '../utils/sessionStorage';
 import { useAuth } from '../context/AuthContext';
 import { useSocketContext } from '../context/SocketContext';
 import { AuthModal } from './AuthModal';
 import './OnlineLobby.css';
 
+/** Clock presets offered when creating a room, keyed "base+increment" plus a mode suffix */
+const CLOCK_PRESETS: Record<string, { label: string; clock: ClockSettings }> = {
+  '3+2': { label: '3 min + 2 s', clock: { baseTime: 180, increment: 2, mode: 'fischer' } },
+  '5+3': { label: '5 min + 3 s', clock: { baseTime: 300, increment: 3, mode: 'fischer' } },
+  '10+5': { label: '10 min + 5 s', clock: { baseTime: 600, increment: 5, mode: 'fischer' } },
+  '15+10': { label: '15 min + 10 s', clock: { baseTime: 900, increment: 10, mode: 'fischer' } },
+  '5d5': { label: '5 min, 5 s delay', clock: { baseTime: 300, increment: 5, mode: 'bronstein' } },
+  '10d10': { label: '10 min, 10 s delay', clock: { baseTime: 600, increment: 10, mode: 'bronstein' } },
+};
+
+function formatClock(clock: ClockSettings): string {
+  const base = `${clock.baseTime / 60}m`;
+  return clock.mode === 'fischer' ? `${base}+${clock.increment}s` : `${base} d${clock.increment}s`;
+}
+
 interface OnlineLobbyProps {
   isConnected: boolean;
   connectionError: string | null;
   error: string | null;
   onCreateRoom: (playerName: string, settings: RoomSettings) => void;
   onJoinRoom: (roomCode: string, playerName: string) => void;
+  onWatchRoom: (roomCode: string, playerName: string) => void;
+  queue: { rating: number; queueSize: number; joinedAt: number } | null;
+  onJoinQueue: (playerName: string, preferences: MatchPreferences) => void;
+  onLeaveQueue: () => void;
   onRejoinGame: () => void;
   onBack: () => void;
 }
@@ -27,13 +64,17 @@ export function OnlineLobby({
   error,
   onCreateRoom,
   onJoinRoom,
+  onWatchRoom,
+  queue,
+  onJoinQueue,
+  onLeaveQueue,
   onRejoinGame,
   onBack,
 }: OnlineLobbyProps) {
   const { isAuthenticated, user, logout, authAvailable } = useAuth();
   const [showAuthModal, setShowAuthModal] = useState(false);
   const { sendMessage, addMessageListener } = useSocketContext();
-  const [mode, setMode] = useState<'menu' | 'create' | 'join' | 'browse'>('menu');
+  const [mode, setMode] = useState<'menu' | 'create' | 'join' | 'browse' | 'match'>('menu');
   const [lobbyRooms, setLobbyRooms] = useState<LobbyRoom[]>([]);
   // Use account username as default name if logged in
   const [playerName, setPlayerName] = useState(() => {
@@ -49,6 +90,48 @@ export function OnlineLobby({
     placementMode: 'blind',
   });
   const [budgetOption, setBudgetOption] = useState<string>('360');
+  const [boardSizeOption, setBoardSizeOption] = useState<string>('8x8');
+  const [clockOption, setClockOption] = useState<string>('none');
+  const [preferences, setPreferences] = useState<MatchPreferences>({
+    budget: 360,
+    boardSize: '8x8',
+    placementMode: 'blind',
+    clock: null,
+  });
+  const [matchClockOption, setMatchClockOption] = useState<string>('none');
+  const [now, setNow] = useState(() => Date.now());
+  const isFreeForAll = (settings.playerCount ?? 2) > 2;
+  const customSize = parseBoardSize(settings.boardSize) ?? { files: 8, ranks: 8 };
+  const slotConfig = getBoardConfig(settings.boardSize, settings.slots);
+
+  // Custom sizes are clamped to the supported range; a new size drops any user-set slots
+  const setCustomSize = (files: number, ranks: number) => {
+    const clamp = (n: number) => Math.min(MAX_BOARD_DIMENSION, Math.max(MIN_BOARD_DIMENSION, n || 0));
+    setSettings({ ...settings, boardSize: `${clamp(files)}x${clamp(ranks)}`, slots: undefined });
+  };
+
+  // A free-for-all has its own board and can't use the two-player variants
+  const setPlayerCount = (playerCount: 2 | 3 | 4) => {
+    setSettings(playerCount === 2
+      ? { ...settings, playerCount: undefined, deadPieces: undefined }
+      : {
+          ...settings,
+          playerCount,
+          deadPieces: settings.deadPieces ?? 'obstacles',
+          drops: undefined,
+          mercenaries: undefined,
+          topology: undefined,
+          layout: undefined,
+        });
+  };
+
+  const setSlot = (key: keyof SlotCounts, value: number) => {
+    const { pawnSlots, pieceSlots, royaltySlots } = getBoardConfig(settings.boardSize, {
+      ...slotConfig,
+      [key]: value,
+    });
+    setSettings({ ...settings, slots: { pawnSlots, pieceSlots, royaltySlots } });
+  };
 
   // Check for valid session on each render
   const validSession = getValidSession();
@@ -68,6 +151,13 @@ export function OnlineLobby({
     return unsubscribe;
   }, [mode, sendMessage, addMessageListener]);
 
+  // Tick the time spent waiting while in the matchmaking queue
+  useEffect(() => {
+    if (!queue) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [queue]);
+
   // Auto-paste room code from clipboard when entering join mode
   useEffect(() => {
     if (mode === 'join' && roomCode === '') {
@@ -108,6 +198,12 @@ export function OnlineLobby({
     }
   };
 
+  const handleJoinQueue = () => {
+    if (!playerName.trim()) return;
+    savePlayerName(playerName.trim());
+    onJoinQueue(playerName.trim(), preferences);
+  };
+
   const handleRoomCodeInput = (value: string) => {
     // Allow only alphanumeric, convert to uppercase, max 6 chars
     const cleaned = value.replace(/[^A-Za-z0-9]/g, '').toUpperCase().slice(0, 6);
@@ -140,6 +236,48 @@ export function OnlineLobby({
     );
   }
 
+  if (queue) {
+    const waited = Math.max(0, now - queue.joinedAt);
+    const minutes = Math.floor(waited / 60_000);
+    const seconds = Math.floor(waited / 1000) % 60;
+
+    return (
+      <div className="online-lobby">
+        <div className="lobby-card">
+          <h2>Finding a Match</h2>
+          <div className="connection-status connecting">
+            <span className="status-icon spinning">◌</span>
+            <span>Searching for an opponent...</span>
+          </div>
+
+          <div className="queue-status">
+            <div className="queue-row">
+              <span>Your rating</span>
+              <span>{queue.rating}</span>
+            </div>
+            <div className="queue-row">
+              <span>Waiting</span>
+              <span>{minutes}:{String(seconds).padStart(2, '0')}</span>
+            </div>
+            <div className="queue-row">
+              <span>Rating range</span>
+              <span>±{getRatingWindow(queue.joinedAt, now)}</span>
+            </div>
+            <div className="queue-row">
+              <span>Players queueing</span>
+              <span>{queue.queueSize}</span>
+            </div>
+          </div>
+          <p className="field-hint">The rating range widens the longer you wait.</p>
+
+          <button className="btn-secondary" onClick={onLeaveQueue}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (mode === 'menu') {
     return (
       <div className="online-lobby">
@@ -179,6 +317,9 @@ export function OnlineLobby({
           )}
 
           <div className="lobby-options">
+            <button className="btn-primary large" onClick={() => setMode('match')}>
+              Quick Match
+            </button>
             <button className="btn-primary large" onClick={() => setMode('create')}>
               Create Game
             </button>
@@ -254,27 +395,187 @@ export function OnlineLobby({
           </div>
 
           <div className="form-group">
-            <label htmlFor="boardSize">Board Size</label>
+            <label htmlFor="playerCount">Players</label>
             <select
-              id="boardSize"
-              value={settings.boardSize}
-              onChange={(e) => setSettings({ ...settings, boardSize: e.target.value as '8x8' | '10x8' | '10x10' })}
+              id="playerCount"
+              value={settings.playerCount ?? 2}
+              onChange={(e) => setPlayerCount(Number(e.target.value) as 2 | 3 | 4)}
             >
-              <option value="8x8">8x8 (Standard)</option>
-              <option value="10x8">10x8 (Extended)</option>
-              <option value="10x10">10x10 (Large)</option>
+              <option value={2}>2 (one on one)</option>
+              <option value={3}>3 (free-for-all)</option>
+              <option value={4}>4 (free-for-all)</option>
             </select>
           </div>
 
+          {isFreeForAll && (
+            <div className="form-group">
+              <label htmlFor="deadPieces">Knocked-Out Armies</label>
+              <select
+                id="deadPieces"
+                value={settings.deadPieces ?? 'obstacles'}
+                onChange={(e) => setSettings({ ...settings, deadPieces: e.target.value as DeadPieceRule })}
+              >
+                <option value="obstacles">Stay on the board as obstacles</option>
+                <option value="removed">Are taken off the board</option>
+              </select>
+              <p className="field-hint">Played on a 14x14 cross board; armies are set out automatically.</p>
+            </div>
+          )}
+
+          {!isFreeForAll && (
+            <>
+              <div className="form-group">
+                <label htmlFor="boardSize">Board Size</label>
+                <select
+                  id="boardSize"
+                  value={boardSizeOption}
+                  onChange={(e) => {
+                    setBoardSizeOption(e.target.value);
+                    if (e.target.value !== 'custom') {
+                      setSettings({ ...settings, boardSize: e.target.value as BoardSize, slots: undefined });
+                    }
+                  }}
+                >
+                  <option value="8x8">8x8 (Standard)</option>
+                  <option value="10x8">10x8 (Extended)</option>
+                  <option value="10x10">10x10 (Large)</option>
+                  <option value="custom">Custom</option>
+                </select>
+              </div>
+
+              {boardSizeOption === 'custom' && (
+                <>
+                  <div className="form-group">
+                    <label htmlFor="customFiles">
+                      Files x Ranks ({MIN_BOARD_DIMENSION}-{MAX_BOARD_DIMENSION})
+                    </label>
+                    <div className="form-inline">
+                      <input
+                        id="customFiles"
+                        type="number"
+                        min={MIN_BOARD_DIMENSION}
+                        max={MAX_BOARD_DIMENSION}
+                        value={customSize.files}
+                        onChange={(e) => setCustomSize(Number(e.target.value), customSize.ranks)}
+                      />
+                      <span>x</span>
+                      <input
+                        id="customRanks"
+                        type="number"
+                        min={MIN_BOARD_DIMENSION}
+                        max={MAX_BOARD_DIMENSION}
+                        value={customSize.ranks}
+                        onChange={(e) => setCustomSize(customSize.files, Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="pawnSlots">Pawn / Piece Slots</label>
+                    <div className="form-inline">
+                      <input
+                        id="pawnSlots"
+                        type="number"
+                        min={0}
+                        max={customSize.files}
+                        value={slotConfig.pawnSlots}
+                        onChange={(e) => setSlot('pawnSlots', Number(e.target.value))}
+                      />
+                      <span>/</span>
+                      <input
+                        id="pieceSlots"
+                        type="number"
+                        min={0}
+                        max={customSize.files - 2}
+                        value={slotConfig.pieceSlots}
+                        onChange={(e) => setSlot('pieceSlots', Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <div className="form-group">
+                <label htmlFor="placementMode">Placement Mode</label>
+                <select
+                  id="placementMode"
+                  value={settings.placementMode}
+                  onChange={(e) => setSettings({ ...settings, placementMode: e.target.value as 'alternating' | 'blind' })}
+                >
+                  <option value="alternating">Alternating (take turns)</option>
+                  <option value="blind">Blind (simultaneous, hidden)</option>
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="drops">Captured Pieces</label>
+                <select
+                  id="drops"
+                  value={settings.drops ? 'drops' : 'standard'}
+                  onChange={(e) => setSettings({ ...settings, drops: e.target.value === 'drops' })}
+                >
+                  <option value="standard">Leave play (standard)</option>
+                  <option value="drops">Go to captor's hand (Shogi drops)</option>
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="mercenaries">Mercenaries</label>
+                <select
+                  id="mercenaries"
+                  value={settings.mercenaries ? 'on' : 'off'}
+                  onChange={(e) => setSettings({ ...settings, mercenaries: e.target.value === 'on' })}
+                >
+                  <option value="off">None</option>
+                  <option value="on">Neutral Mercenaries on a5 and h4</option>
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="topology">Board Edges</label>
+                <select
+                  id="topology"
+                  value={settings.topology ?? 'flat'}
+                  onChange={(e) => setSettings({ ...settings, topology: e.target.value as BoardTopology })}
+                >
+                  <option value="flat">Flat</option>
+                  <option value="cylinder">Cylinder (a-file and last file adjacent)</option>
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="layout">Board Layout</label>
+                <select
+                  id="layout"
+                  value={settings.layout ?? 'standard'}
+                  onChange={(e) => setSettings({ ...settings, layout: e.target.value as BoardLayout })}
+                >
+                  {BOARD_LAYOUTS.map((info) => (
+                    <option key={info.id} value={info.id}>
+                      {info.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+
           <div className="form-group">
-            <label htmlFor="placementMode">Placement Mode</label>
+            <label htmlFor="clock">Clock</label>
             <select
-              id="placementMode"
-              value={settings.placementMode}
-              onChange={(e) => setSettings({ ...settings, placementMode: e.target.value as 'alternating' | 'blind' })}
+              id="clock"
+              value={clockOption}
+              onChange={(e) => {
+                setClockOption(e.target.value);
+                setSettings({ ...settings, clock: CLOCK_PRESETS[e.target.value]?.clock });
+              }}
             >
-              <option value="alternating">Alternating (take turns)</option>
-              <option value="blind">Blind (simultaneous, hidden)</option>
+              <option value="none">Untimed</option>
+              {Object.entries(CLOCK_PRESETS).map(([key, preset]) => (
+                <option key={key} value={key}>
+                  {preset.label}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -313,25 +614,126 @@ export function OnlineLobby({
     );
   }
 
+  if (mode === 'match') {
+    return (
+      <div className="online-lobby">
+        <div className="lobby-card">
+          <h2>Quick Match</h2>
+
+          {error && <div className="error-message">{error}</div>}
+
+          <div className="form-group">
+            <label htmlFor="playerName">Your Name</label>
+            <input
+              id="playerName"
+              type="text"
+              value={playerName}
+              onChange={(e) => setPlayerName(e.target.value)}
+              placeholder="Enter your name"
+              maxLength={20}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="matchBudget">Draft Budget</label>
+            <select
+              id="matchBudget"
+              value={preferences.budget}
+              onChange={(e) => setPreferences({ ...preferences, budget: Number(e.target.value) })}
+            >
+              <option value={260}>260 (Quick)</option>
+              <option value={360}>360 (Standard)</option>
+              <option value={500}>500 (Extended)</option>
+              <option value={700}>700 (Long)</option>
+              <option value={900}>900 (Epic)</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="matchBoardSize">Board Size</label>
+            <select
+              id="matchBoardSize"
+              value={preferences.boardSize}
+              onChange={(e) => setPreferences({ ...preferences, boardSize: e.target.value as BoardSize })}
+            >
+              <option value="8x8">8x8 (Standard)</option>
+              <option value="10x8">10x8 (Extended)</option>
+              <option value="10x10">10x10 (Large)</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="matchPlacementMode">Placement Mode</label>
+            <select
+              id="matchPlacementMode"
+              value={preferences.placementMode}
+              onChange={(e) => setPreferences({ ...preferences, placementMode: e.target.value as 'alternating' | 'blind' })}
+            >
+              <option value="alternating">Alternating (take turns)</option>
+              <option value="blind">Blind (simultaneous, hidden)</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="matchClock">Clock</label>
+            <select
+              id="matchClock"
+              value={matchClockOption}
+              onChange={(e) => {
+                setMatchClockOption(e.target.value);
+                setPreferences({ ...preferences, clock: CLOCK_PRESETS[e.target.value]?.clock ?? null });
+              }}
+            >
+              <option value="none">Untimed</option>
+              {Object.entries(CLOCK_PRESETS).map(([key, preset]) => (
+                <option key={key} value={key}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+            <p className="field-hint">
+              You'll be paired with someone who picked the same options, closest in rating first.
+            </p>
+          </div>
+
+          <div className="button-group">
+            <button
+              className="btn-primary"
+              onClick={handleJoinQueue}
+              disabled={!playerName.trim()}
+            >
+              Find Match
+            </button>
+            <button className="btn-secondary" onClick={() => setMode('menu')}>
+              Back
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (mode === 'browse') {
     const formatBudget = (b: number) => b;
     const formatBoardSize = (s: string) => s;
     const formatPlacement = (p: string) => p === 'blind' ? 'Blind' : 'Alternating';
     const formatTime = (t: number | null) => t ? `${t / 60}m` : '∞';
+    const openRooms = lobbyRooms.filter((room) => room.phase === 'waiting');
+    const liveRooms = lobbyRooms.filter((room) => room.phase !== 'waiting');
 
     return (
       <div className="online-lobby">
         <div className="lobby-card lobby-card-wide">
           <h2>Open Games</h2>
 
-          {lobbyRooms.length === 0 ? (
+          {openRooms.length === 0 ? (
             <div className="lobby-empty">
               <p>No open games right now.</p>
               <p className="lobby-empty-hint">Create a game and wait for an opponent, or join by code.</p>
             </div>
           ) : (
             <div className="lobby-room-list">
-              {lobbyRooms.map((room) => (
+              {openRooms.map((room) => (
                 <div key={room.code} className="lobby-room-row">
                   <div className="lobby-room-info">
                     <span className="lobby-room-host">{room.hostName}</span>
@@ -340,6 +742,16 @@ export function OnlineLobby({
                       <span className="lobby-tag">{formatBoardSize(room.boardSize)}</span>
                       <span className="lobby-tag">{formatPlacement(room.placementMode)}</span>
                       <span className="lobby-tag">{formatTime(room.draftTimeLimit)} draft</span>
+                      {room.playerCount > 2 && <span className="lobby-tag">{room.playerCount}-player FFA</span>}
+                      {room.clock && <span className="lobby-tag">{formatClock(room.clock)}</span>}
+                      {room.drops && <span className="lobby-tag">Drops</span>}
+                      {room.mercenaries && <span className="lobby-tag">Mercenaries</span>}
+                      {room.topology === 'cylinder' && <span className="lobby-tag">Cylinder</span>}
+                      {room.layout !== 'standard' && (
+                        <span className="lobby-tag">
+                          {BOARD_LAYOUTS.find((info) => info.id === room.layout)?.name}
+                        </span>
+                      )}
                     </span>
                   </div>
                   <button
@@ -356,6 +768,36 @@ export function OnlineLobby({
             </div>
           )}
 
+          {liveRooms.length > 0 && (
+            <>
+              <h3 className="lobby-section-title">Games in Progress</h3>
+              <div className="lobby-room-list">
+                {liveRooms.map((room) => (
+                  <div key={room.code} className="lobby-room-row">
+                    <div className="lobby-room-info">
+                      <span className="lobby-room-host">{room.hostName}</span>
+                      <span className="lobby-room-tags">
+                        <span className="lobby-tag">{room.phase === 'playing' ? 'Playing' : 'Setting up'}</span>
+                        <span className="lobby-tag">{formatBoardSize(room.boardSize)}</span>
+                        {room.playerCount > 2 && <span className="lobby-tag">{room.playerCount}-player FFA</span>}
+                        {room.clock && <span className="lobby-tag">{formatClock(room.clock)}</span>}
+                        <span className="lobby-tag">
+                          {room.spectatorCount} watching
+                        </span>
+                      </span>
+                    </div>
+                    <button
+                      className="btn-join-room"
+                      onClick={() => onWatchRoom(room.code, playerName.trim() || 'Spectator')}
+                    >
+                      Watch
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
           <button className="btn-secondary" onClick={() => setMode('menu')}>
             Back
           </button>
@@ -1,9 +1,10 @@
 /**
- * Opponent Pieces Panel - shows opponent's remaining pieces during placement
+ * Opponent Pieces Panel - shows opponent's remaining pieces during placement,
+ * and both players' hands during play in drops games
  */
 
-import type { PieceInstance, PlayerColor, PieceTier } from '@hyper-fairy-chess/shared';
-import { PIECE_BY_ID } from '@hyper-fairy-chess/shared';
+import type { Hands, PieceInstance, PlayerColor, PieceTier } from '@hyper-fairy-chess/shared';
+import { PIECE_BY_ID, getHandCounts } from '@hyper-fairy-chess/shared';
 import './OpponentPiecesPanel.css';
 
 interface OpponentPiecesPanelProps {
@@ -45,6 +46,89 @@ export function OpponentPiecesPanel({
   );
 }
 
+interface HandsPanelProps {
+  hands: Hands;
+  playerColor: PlayerColor | null; // null when spectating: White's hand goes at the bottom
+  /** Piece type picked from the player's hand for dropping */
+  selectedTypeId: string | null;
+  /** Whether the player may pick a piece to drop (their turn, game not over) */
+  canDrop: boolean;
+  onSelect: (typeId: string | null) => void;
+}
+
+/**
+ * Both players' hands in a drops game; the opponent's on top, as on the board
+ */
+export function HandsPanel({
+  hands,
+  playerColor,
+  selectedTypeId,
+  canDrop,
+  onSelect,
+}: HandsPanelProps) {
+  const bottomColor: PlayerColor = playerColor ?? 'white';
+  const opponentColor: PlayerColor = bottomColor === 'white' ? 'black' : 'white';
+
+  return (
+    <div className={`opponent-pieces-panel hands-panel ${opponentColor}`}>
+      <div className="panel-header">
+        <h4>Hands</h4>
+        <span className="pieces-count">Captured pieces can be dropped</span>
+      </div>
+
+      <div className="pieces-grid">
+        <HandGroup label={playerColor ? 'Opponent' : 'Black'} hands={hands} color={opponentColor} />
+        <HandGroup
+          label={playerColor ? 'You' : 'White'}
+          hands={hands}
+          color={bottomColor}
+          selectedTypeId={selectedTypeId}
+          onSelect={canDrop ? onSelect : undefined}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface HandGroupProps {
+  label: string;
+  hands: Hands;
+  color: PlayerColor;
+  selectedTypeId?: string | null;
+  onSelect?: (typeId: string | null) => void;
+}
+
+function HandGroup({ label, hands, color, selectedTypeId, onSelect }: HandGroupProps) {
+  const counts = getHandCounts(hands, color);
+
+  return (
+    <div className="tier-group">
+      <div className="tier-label">{label}</div>
+      <div className="piece-list">
+        {counts.map(({ typeId, count }) => {
+          const pieceType = PIECE_BY_ID[typeId];
+          if (!pieceType) return null;
+          const isSelected = selectedTypeId === typeId;
+          return (
+            <button
+              key={typeId}
+              type="button"
+              className={`piece-chip ${color}${onSelect ? ' selectable' : ''}${isSelected ? ' selected' : ''}`}
+              title={pieceType.name}
+              disabled={!onSelect}
+              onClick={() => onSelect?.(isSelected ? null : typeId)}
+            >
+              {pieceType.symbol}
+              {count > 1 && <span className="hand-count">{count}</span>}
+            </button>
+          );
+        })}
+        {counts.length === 0 && <span className="hand-empty">Empty</span>}
+      </div>
+    </div>
+  );
+}
+
 interface TierGroupProps {
   tier: string;
   pieces: PieceInstance[];
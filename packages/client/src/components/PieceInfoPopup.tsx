@@ -2,12 +2,13 @@
  * PieceInfoPopup - right-click popup showing piece details
  */
 
-import type { PieceType, PlayerColor } from '@hyper-fairy-chess/shared';
+import type { PieceOwner, PieceType } from '@hyper-fairy-chess/shared';
+import { describeBetza } from '@hyper-fairy-chess/shared';
 import './PieceInfoPopup.css';
 
 interface PieceInfoPopupProps {
   pieceType: PieceType;
-  color?: PlayerColor;
+  color?: PieceOwner;
   x: number;
   y: number;
   onClose: () => void;
@@ -35,9 +36,15 @@ export function PieceInfoPopup({
   if (!pieceType.canBeCaptured) {
     traits.push({ label: 'Uncapturable', type: 'special' });
   }
+  if (pieceType.startsNeutral) {
+    traits.push({ label: 'Starts Neutral', type: 'special' });
+  }
   if (!pieceType.canBeJumpedOver) {
     traits.push({ label: 'Blocks Jumps', type: 'special' });
   }
+  if (pieceType.movement.leaps.some((leap) => leap.lame)) {
+    traits.push({ label: 'Blockable Leaps', type: 'negative' });
+  }
   if (pieceType.captureType === 'none') {
     traits.push({ label: 'Cannot Capture', type: 'negative' });
   }
@@ -45,6 +52,8 @@ export function PieceInfoPopup({
     traits.push({ label: 'Negative VP', type: 'negative' });
   }
 
+  const betza = describeBetza(pieceType);
+
   // Adjust position to stay on screen
   const adjustedX = Math.min(x, window.innerWidth - 320);
   const adjustedY = Math.min(y + 10, window.innerHeight - 200);
@@ -95,6 +104,12 @@ export function PieceInfoPopup({
           <p className="piece-info-description">{pieceType.description}</p>
         )}
 
+        {betza && (
+          <p className="piece-info-betza" title="Betza notation">
+            <span className="piece-info-stat-label">Betza</span> <code>{betza}</code>
+          </p>
+        )}
+
         {traits.length > 0 && (
           <div className="piece-info-traits">
             {traits.map((trait) => (
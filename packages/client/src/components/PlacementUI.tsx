@@ -14,6 +14,8 @@ interface PlacementUIProps {
   playerColor?: PlayerColor;
   whitePiecesRemaining: number;
   blackPiecesRemaining: number;
+  onAutoPlace?: () => void;
+  autoPlaceDisabled?: boolean;
 }
 
 export function PlacementUI({
@@ -24,6 +26,8 @@ export function PlacementUI({
   playerColor,
   whitePiecesRemaining,
   blackPiecesRemaining,
+  onAutoPlace,
+  autoPlaceDisabled,
 }: PlacementUIProps) {
   // Group pieces by tier
   const piecesByTier = groupPiecesByTier(piecesToPlace);
@@ -48,6 +52,17 @@ export function PlacementUI({
         Select a piece, then click on the board to place it
       </div>
 
+      {onAutoPlace && (
+        <button
+          className="auto-place-btn"
+          onClick={onAutoPlace}
+          disabled={autoPlaceDisabled}
+          title="Place your next piece automatically"
+        >
+          Auto-place
+        </button>
+      )}
+
       {/* Your pieces */}
       <div className="pieces-section your-pieces">
         <h4 className="section-title">Your Pieces</h4>
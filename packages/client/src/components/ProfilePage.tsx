@@ -3,10 +3,16 @@
  * Shows user stats and saved armies management
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { getArmies, deleteArmy, type SavedArmy } from '../api/armies';
-import { getGames, type GameSummary } from '../api/games';
+import {
+  getGames,
+  getGameRecordUrl,
+  importGameRecord,
+  type GameSummary,
+  type ReplayGame,
+} from '../api/games';
 import { PIECE_BY_ID } from '@hyper-fairy-chess/shared';
 import { ArmyBuilder } from './ArmyBuilder';
 import { GameReplay } from './GameReplay';
@@ -26,6 +32,9 @@ export function ProfilePage({ onBack }: ProfilePageProps) {
   const [games, setGames] = useState<GameSummary[]>([]);
   const [gamesLoading, setGamesLoading] = useState(true);
   const [replayGame, setReplayGame] = useState<GameSummary | null>(null);
+  const [importedGame, setImportedGame] = useState<ReplayGame | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Fetch armies and game history on mount
   useEffect(() => {
@@ -84,6 +93,20 @@ export function ProfilePage({ onBack }: ProfilePageProps) {
     fetchArmies(); // Refresh list
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    setImportError(null);
+    const result = await importGameRecord(await file.text());
+    if (result.success) {
+      setImportedGame(result.game);
+    } else {
+      setImportError(result.error);
+    }
+  };
+
   const handleLogout = () => {
     logout();
     onBack();
@@ -152,6 +175,13 @@ export function ProfilePage({ onBack }: ProfilePageProps) {
       {replayGame && (
         <GameReplay gameSummary={replayGame} onClose={() => setReplayGame(null)} />
       )}
+      {importedGame && (
+        <GameReplay
+          gameSummary={importedGame}
+          importedGame={importedGame}
+          onClose={() => setImportedGame(null)}
+        />
+      )}
       <div className="profile-container">
         <header className="profile-header">
           <div className="header-left">
@@ -200,7 +230,25 @@ export function ProfilePage({ onBack }: ProfilePageProps) {
         </section>
 
         <section className="history-section">
-          <h2>Game History</h2>
+          <div className="history-header">
+            <h2>Game History</h2>
+            <button
+              className="watch-btn"
+              onClick={() => importInputRef.current?.click()}
+              title="Replay a game from a downloaded record"
+            >
+              Import Game
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".txt,text/plain"
+              onChange={handleImportFile}
+              hidden
+            />
+          </div>
+
+          {importError && <p className="import-error">{importError}</p>}
 
           {gamesLoading && <p className="loading">Loading games...</p>}
 
@@ -242,6 +290,14 @@ export function ProfilePage({ onBack }: ProfilePageProps) {
                       >
                         ▶ Replay
                       </button>
+                      <a
+                        className="watch-btn"
+                        href={getGameRecordUrl(game.id)}
+                        download
+                        title="Download game record"
+                      >
+                        ⬇ Record
+                      </a>
                     </div>
                   </div>
                 );
@@ -6,7 +6,7 @@
  */
 
 import { useState, useEffect } from 'react';
-import type { BoardSize, PlayerDraft } from '@hyper-fairy-chess/shared';
+import type { BoardSize, PlayerDraft, SlotCounts } from '@hyper-fairy-chess/shared';
 import {
   createEmptyDraft,
   addPieceToDraft,
@@ -22,6 +22,7 @@ import './SavedArmyMenu.css';
 interface SavedArmyMenuProps {
   budget: number;
   boardSize: BoardSize;
+  slots?: SlotCounts;
   disabled?: boolean;
   currentDraft?: PlayerDraft; // When provided, shows the save section
   onLoad: (draft: PlayerDraft) => void;
@@ -51,7 +52,7 @@ function buildDraftFromPreset(preset: ArmyPreset): PlayerDraft {
   return { selections: preset.selections, budgetSpent: preset.budgetUsed, slotsUsed };
 }
 
-export function SavedArmyMenu({ budget, boardSize, disabled, currentDraft, onLoad }: SavedArmyMenuProps) {
+export function SavedArmyMenu({ budget, boardSize, slots, disabled, currentDraft, onLoad }: SavedArmyMenuProps) {
   const { token, isAuthenticated } = useAuth();
   const [open, setOpen] = useState(false);
 
@@ -117,7 +118,8 @@ export function SavedArmyMenu({ budget, boardSize, disabled, currentDraft, onLoa
       a.pieces.map((p) => ({ pieceTypeId: p.pieceTypeId, count: p.count })),
       a.budget,
       budget,
-      boardSize
+      boardSize,
+      slots
     ).valid
   );
 
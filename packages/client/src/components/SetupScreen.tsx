@@ -3,15 +3,30 @@
  */
 
 import { useState } from 'react';
-import { MIN_BUDGET, MAX_BUDGET, BUDGET_STEP, BUDGET_PRESETS } from '@hyper-fairy-chess/shared';
+import {
+  MIN_BUDGET,
+  MAX_BUDGET,
+  BUDGET_STEP,
+  BUDGET_PRESETS,
+  BOARD_LAYOUTS,
+} from '@hyper-fairy-chess/shared';
+import type { BoardLayout, BoardTopology } from '@hyper-fairy-chess/shared';
+import { DIFFICULTIES, DIFFICULTY_SETTINGS } from '../utils/computerPlayer';
+import type { Difficulty } from '../utils/computerPlayer';
 import './SetupScreen.css';
 
 interface SetupScreenProps {
-  onStartGame: (budget: number) => void;
+  onStartGame: (budget: number, drops: boolean, topology: BoardTopology, layout: BoardLayout) => void;
+  /** Current computer difficulty (only shown when playing against the computer) */
+  difficulty?: Difficulty;
+  onDifficultyChange?: (difficulty: Difficulty) => void;
 }
 
-export function SetupScreen({ onStartGame }: SetupScreenProps) {
+export function SetupScreen({ onStartGame, difficulty, onDifficultyChange }: SetupScreenProps) {
   const [budget, setBudget] = useState(400); // Default to "Standard"
+  const [drops, setDrops] = useState(false);
+  const [topology, setTopology] = useState<BoardTopology>('flat');
+  const [layout, setLayout] = useState<BoardLayout>('standard');
 
   return (
     <div className="setup-screen">
@@ -66,7 +81,95 @@ export function SetupScreen({ onStartGame }: SetupScreenProps) {
         </div>
       </div>
 
-      <button className="start-btn" onClick={() => onStartGame(budget)}>
+      <div className="setup-section">
+        <h3>Captured Pieces</h3>
+        <p className="setup-description">
+          {drops
+            ? 'Captured pieces join the captor\'s hand and can be dropped back onto the board, as in Shogi.'
+            : 'Captured pieces leave the game.'}
+        </p>
+
+        <div className="difficulty-options">
+          <button
+            className={`preset-btn ${!drops ? 'selected' : ''}`}
+            onClick={() => setDrops(false)}
+          >
+            <span className="preset-label">Standard</span>
+          </button>
+          <button
+            className={`preset-btn ${drops ? 'selected' : ''}`}
+            onClick={() => setDrops(true)}
+          >
+            <span className="preset-label">Drops</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="setup-section">
+        <h3>Board Edges</h3>
+        <p className="setup-description">
+          {topology === 'cylinder'
+            ? 'The board wraps round: the a-file and the h-file are next to each other.'
+            : 'The board has edges on all four sides.'}
+        </p>
+
+        <div className="difficulty-options">
+          <button
+            className={`preset-btn ${topology === 'flat' ? 'selected' : ''}`}
+            onClick={() => setTopology('flat')}
+          >
+            <span className="preset-label">Flat</span>
+          </button>
+          <button
+            className={`preset-btn ${topology === 'cylinder' ? 'selected' : ''}`}
+            onClick={() => setTopology('cylinder')}
+          >
+            <span className="preset-label">Cylinder</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="setup-section">
+        <h3>Board Layout</h3>
+        <p className="setup-description">
+          {BOARD_LAYOUTS.find((info) => info.id === layout)?.description}
+        </p>
+
+        <div className="difficulty-options">
+          {BOARD_LAYOUTS.map((info) => (
+            <button
+              key={info.id}
+              className={`preset-btn ${layout === info.id ? 'selected' : ''}`}
+              onClick={() => setLayout(info.id)}
+            >
+              <span className="preset-label">{info.name}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {difficulty && (
+        <div className="setup-section">
+          <h3>Computer Difficulty</h3>
+          <p className="setup-description">
+            {DIFFICULTY_SETTINGS[difficulty].description}
+          </p>
+
+          <div className="difficulty-options">
+            {DIFFICULTIES.map((level) => (
+              <button
+                key={level}
+                className={`preset-btn ${difficulty === level ? 'selected' : ''}`}
+                onClick={() => onDifficultyChange?.(level)}
+              >
+                <span className="preset-label">{DIFFICULTY_SETTINGS[level].label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button className="start-btn" onClick={() => onStartGame(budget, drops, topology, layout)}>
         Start Draft
       </button>
     </div>
@@ -0,0 +1,35 @@
+/**
+ * SurpriseDraftButton - fills the draft with an automatic army
+ * in a randomly chosen style.
+ */
+
+import type { BoardSize, PlayerDraft, SlotCounts } from '@hyper-fairy-chess/shared';
+import { createAutoDraft, pickRandom, DRAFT_STYLES } from '@hyper-fairy-chess/shared';
+import './SurpriseDraftButton.css';
+
+interface SurpriseDraftButtonProps {
+  budget: number;
+  boardSize: BoardSize;
+  slots?: SlotCounts;
+  disabled?: boolean;
+  onDraft: (draft: PlayerDraft) => void;
+}
+
+export function SurpriseDraftButton({ budget, boardSize, slots, disabled, onDraft }: SurpriseDraftButtonProps) {
+  const handleClick = () => {
+    const style = pickRandom(DRAFT_STYLES, Math.random);
+    const seed = Math.floor(Math.random() * 2 ** 31);
+    onDraft(createAutoDraft(budget, boardSize, { style, seed, slots }));
+  };
+
+  return (
+    <button
+      className="surprise-draft-btn"
+      onClick={handleClick}
+      disabled={disabled}
+      title="Replace your army with a random automatic draft"
+    >
+      Surprise me
+    </button>
+  );
+}
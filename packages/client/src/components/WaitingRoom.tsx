@@ -5,6 +5,7 @@
 
 import { useState, useEffect } from 'react';
 import type { PlayerInfo, RoomSettings, PlayerColor } from '@hyper-fairy-chess/shared';
+import { BOARD_LAYOUTS, getSeats } from '@hyper-fairy-chess/shared';
 import './WaitingRoom.css';
 
 // Get the server URL from environment or default to localhost
@@ -20,12 +21,19 @@ const getApiBase = (): string => {
 
 interface WaitingRoomProps {
   roomCode: string;
-  playerColor: PlayerColor;
+  playerColor: PlayerColor | null; // null when spectating
   players: PlayerInfo[];
   settings: RoomSettings;
   onLeave: () => void;
 }
 
+const SEAT_SYMBOLS: Record<PlayerColor, string> = {
+  white: '♔',
+  red: '♔',
+  black: '♚',
+  blue: '♚',
+};
+
 interface PlayerElo {
   [username: string]: number | null;
 }
@@ -37,7 +45,8 @@ export function WaitingRoom({
   settings,
   onLeave,
 }: WaitingRoomProps) {
-  const opponent = players.find(p => p.color !== playerColor);
+  const seats = getSeats(settings.playerCount ?? 2);
+  const isFull = seats.every(color => players.some(p => p.color === color));
   const [eloRatings, setEloRatings] = useState<PlayerElo>({});
 
   // Fetch ELO ratings for account users
@@ -97,10 +106,27 @@ export function WaitingRoom({
             <span className="setting-label">Draft Budget:</span>
             <span className="setting-value">{settings.budget}</span>
           </div>
+          {seats.length > 2 && (
+            <div className="setting-row">
+              <span className="setting-label">Players:</span>
+              <span className="setting-value">
+                {seats.length}-player free-for-all
+                {settings.deadPieces === 'removed' ? ', knocked-out armies removed' : ', knocked-out armies stay'}
+              </span>
+            </div>
+          )}
           <div className="setting-row">
             <span className="setting-label">Board Size:</span>
             <span className="setting-value">{settings.boardSize}</span>
           </div>
+          {settings.slots && (
+            <div className="setting-row">
+              <span className="setting-label">Slots:</span>
+              <span className="setting-value">
+                {settings.slots.pawnSlots} pawns, {settings.slots.pieceSlots} pieces, {settings.slots.royaltySlots} royalty
+              </span>
+            </div>
+          )}
           <div className="setting-row">
             <span className="setting-label">Draft Time:</span>
             <span className="setting-value">
@@ -115,32 +141,64 @@ export function WaitingRoom({
               {settings.placementMode === 'blind' ? 'Blind (simultaneous)' : 'Alternating'}
             </span>
           </div>
+          {settings.clock && (
+            <div className="setting-row">
+              <span className="setting-label">Clock:</span>
+              <span className="setting-value">
+                {settings.clock.baseTime / 60} min
+                {settings.clock.mode === 'fischer'
+                  ? ` + ${settings.clock.increment} s per move`
+                  : `, ${settings.clock.increment} s delay`}
+              </span>
+            </div>
+          )}
+          {settings.drops && (
+            <div className="setting-row">
+              <span className="setting-label">Captures:</span>
+              <span className="setting-value">Drops (Shogi-style)</span>
+            </div>
+          )}
+          {settings.mercenaries && (
+            <div className="setting-row">
+              <span className="setting-label">Mercenaries:</span>
+              <span className="setting-value">Neutral, hired by moving next to them</span>
+            </div>
+          )}
+          {settings.topology === 'cylinder' && (
+            <div className="setting-row">
+              <span className="setting-label">Board:</span>
+              <span className="setting-value">Cylinder (a-file and last file adjacent)</span>
+            </div>
+          )}
+          {settings.layout && settings.layout !== 'standard' && (
+            <div className="setting-row">
+              <span className="setting-label">Layout:</span>
+              <span className="setting-value">
+                {BOARD_LAYOUTS.find((info) => info.id === settings.layout)?.description}
+              </span>
+            </div>
+          )}
         </div>
 
         <div className="players-section">
           <h3>Players</h3>
           <div className="player-slots">
-            <div className={`player-slot ${playerColor === 'white' ? 'you' : ''}`}>
-              <span className="player-color white">♔</span>
-              <span className="player-name">
-                {getPlayerDisplay(players.find(p => p.color === 'white'))}
-              </span>
-              {playerColor === 'white' && <span className="you-badge">You</span>}
-            </div>
-            <div className={`player-slot ${playerColor === 'black' ? 'you' : ''}`}>
-              <span className="player-color black">♚</span>
-              <span className="player-name">
-                {getPlayerDisplay(players.find(p => p.color === 'black'))}
-              </span>
-              {playerColor === 'black' && <span className="you-badge">You</span>}
-            </div>
+            {seats.map(color => (
+              <div key={color} className={`player-slot ${playerColor === color ? 'you' : ''}`}>
+                <span className={`player-color ${color}`}>{SEAT_SYMBOLS[color]}</span>
+                <span className="player-name">
+                  {getPlayerDisplay(players.find(p => p.color === color))}
+                </span>
+                {playerColor === color && <span className="you-badge">You</span>}
+              </div>
+            ))}
           </div>
         </div>
 
-        {!opponent && (
+        {!isFull && (
           <div className="waiting-indicator">
             <span className="spinner">◌</span>
-            <span>Waiting for opponent to join...</span>
+            <span>{seats.length > 2 ? 'Waiting for players to join...' : 'Waiting for opponent to join...'}</span>
           </div>
         )}
 
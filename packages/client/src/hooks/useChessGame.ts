@@ -2,8 +2,10 @@
  * React hook for managing chess game state
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import type {
+  BoardLayout,
+  BoardTopology,
   GameState,
   Position,
   PieceInstance,
@@ -25,7 +27,9 @@ import {
   createInitialGameState,
   createStandardChessPieces,
   createEmptyGameState,
+  applyLayout,
   getCoordinatorCaptures,
+  getMoverColor,
   getBoxerCaptures,
   getWithdrawerCapture,
   getThiefCapture,
@@ -42,6 +46,7 @@ import {
   getValidPlacementSquares,
   isValidPlacement,
   getPiecesToPlace,
+  planPlacement,
   isPlacementComplete,
   getNextPlacer,
   isHerald,
@@ -54,7 +59,14 @@ import {
   addPieceToDraft,
   removePieceFromDraft,
   resetDraftPieceIdCounter,
+  notateMove,
+  createEmptyHands,
+  getDropSquares,
+  validateDrop,
 } from '@hyper-fairy-chess/shared';
+import { createComputerDraft, chooseComputerPlacement } from '../utils/computerPlayer';
+import type { ComputerOpponent } from '../utils/computerPlayer';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '../workers/searchWorker';
 
 // =============================================================================
 // Types
@@ -73,6 +85,9 @@ interface SpecialCaptureTarget {
 
 export type GameMode = 'standard' | 'placement' | 'draft';
 
+/** Delay before the computer places a piece, so the human can follow along */
+const COMPUTER_PLACEMENT_DELAY_MS = 300;
+
 export interface UseChessGameReturn {
   // State
   gameState: GameState;
@@ -81,6 +96,8 @@ export interface UseChessGameReturn {
   specialCaptureTargets: SpecialCaptureTarget[];
   promotionPending: PromotionPending | null;
   promotionOptions: PieceType[];
+  /** Piece type picked from the hand to drop (drops games) */
+  selectedDropType: string | null;
 
   // Placement state
   placementState: PlacementState | null;
@@ -104,13 +121,15 @@ export interface UseChessGameReturn {
   cancelPromotion: () => void;
   resetGame: () => void;
   resign: (player: PlayerColor) => void;
+  selectDropPiece: (typeId: string | null) => void;
 
   // Placement actions
   selectPieceToPlace: (piece: PieceInstance) => void;
   placePiece: (position: Position) => void;
+  autoPlacePiece: () => void;
 
   // Draft actions
-  startDraft: (budget: number) => void;
+  startDraft: (budget: number, drops?: boolean, topology?: BoardTopology, layout?: BoardLayout) => void;
   addToDraft: (pieceType: PieceType) => void;
   removeFromDraft: (pieceTypeId: string) => void;
   loadDraft: (draft: PlayerDraft) => void;
@@ -129,6 +148,9 @@ export interface UseChessGameReturn {
   result: GameResult | null;
   resultDescription: string | null;
   currentTurn: PlayerColor;
+
+  // Computer opponent
+  isComputerTurn: boolean;
 }
 
 // =============================================================================
@@ -136,7 +158,8 @@ export interface UseChessGameReturn {
 // =============================================================================
 
 export function useChessGame(
-  mode: GameMode = 'standard'
+  mode: GameMode = 'standard',
+  computer: ComputerOpponent | null = null
 ): UseChessGameReturn {
   // Initialize game state
   const [gameState, setGameState] = useState<GameState>(() => {
@@ -152,6 +175,7 @@ export function useChessGame(
 
   // Selection state (for play phase)
   const [selectedPieceId, setSelectedPieceId] = useState<string | null>(null);
+  const [selectedDropType, setSelectedDropType] = useState<string | null>(null);
 
   // Promotion state
   const [promotionPending, setPromotionPending] = useState<PromotionPending | null>(null);
@@ -164,19 +188,25 @@ export function useChessGame(
 
   // Draft state
   const [budget, setBudget] = useState<number>(400);
+  const [drops, setDrops] = useState(false);
   const [whiteDraft, setWhiteDraft] = useState<PlayerDraft | null>(null);
   const [blackDraft, setBlackDraft] = useState<PlayerDraft | null>(null);
   const [currentDrafter, setCurrentDrafter] = useState<PlayerColor>('white');
   const [showHandoff, setShowHandoff] = useState(false);
 
+  // Computer opponent search worker (created on first use)
+  const workerRef = useRef<Worker | null>(null);
+  const searchRequestIdRef = useRef(0);
+
   // Computed: selected piece
   const selectedPiece = useMemo(() => {
     if (!selectedPieceId) return null;
     return gameState.board.pieces.find((p) => p.id === selectedPieceId) ?? null;
   }, [selectedPieceId, gameState.board.pieces]);
 
-  // Computed: valid moves for selected piece
+  // Computed: valid moves for selected piece, or drop squares for a piece picked from the hand
   const validMoves = useMemo(() => {
+    if (selectedDropType) return getDropSquares(gameState, selectedDropType);
     if (!selectedPiece || !selectedPiece.position) return [];
 
     const pieceType = PIECE_BY_ID[selectedPiece.typeId];
@@ -196,7 +226,7 @@ export function useChessGame(
     }
 
     return moves;
-  }, [selectedPiece, gameState.board, gameState.enPassantTarget]);
+  }, [selectedDropType, selectedPiece, gameState]);
 
   // Computed: special capture targets for selected piece
   const specialCaptureTargets = useMemo(() => {
@@ -211,32 +241,33 @@ export function useChessGame(
     if (!['coordinator', 'boxer', 'withdrawal', 'thief', 'long-leap', 'checkers', 'chameleon'].includes(pieceType.captureType)) {
       return [];
     }
+    const color = getMoverColor(selectedPiece);
 
     for (const move of validMoves) {
       let captures: { pieceId: string; position: Position }[] = [];
 
       switch (pieceType.captureType) {
         case 'coordinator':
-          captures = getCoordinatorCaptures(gameState.board, selectedPiece.owner, move);
+          captures = getCoordinatorCaptures(gameState.board, color, move);
           break;
         case 'boxer':
-          captures = getBoxerCaptures(gameState.board, selectedPiece.owner, move);
+          captures = getBoxerCaptures(gameState.board, color, move);
           break;
         case 'withdrawal':
           if (selectedPiece.position) {
-            const capture = getWithdrawerCapture(gameState.board, selectedPiece.owner, selectedPiece.position, move);
+            const capture = getWithdrawerCapture(gameState.board, color, selectedPiece.position, move);
             if (capture) captures = [capture];
           }
           break;
         case 'thief':
           if (selectedPiece.position) {
-            const capture = getThiefCapture(gameState.board, selectedPiece.owner, selectedPiece.position, move);
+            const capture = getThiefCapture(gameState.board, color, selectedPiece.position, move);
             if (capture) captures = [capture];
           }
           break;
         case 'long-leap':
           if (selectedPiece.position) {
-            captures = getLongLeaperCaptures(gameState.board, selectedPiece.owner, selectedPiece.position, move);
+            captures = getLongLeaperCaptures(gameState.board, color, selectedPiece.position, move);
           }
           break;
         case 'checkers':
@@ -281,6 +312,13 @@ export function useChessGame(
   const isDraftPhase = gameState.phase === 'draft';
   const isPlacementPhase = gameState.phase === 'placement';
 
+  // Computed: whether the computer is to act (place or move)
+  const isComputerTurn =
+    computer !== null &&
+    !result &&
+    ((isPlacementPhase && placementState?.currentPlacer === computer.color) ||
+      (gameState.phase === 'play' && gameState.currentTurn === computer.color));
+
   // Computed: current draft (for current drafter)
   const currentDraft = useMemo(() => {
     if (!isDraftPhase) return null;
@@ -308,7 +346,11 @@ export function useChessGame(
   // Computed: valid placement squares
   const validPlacementSquares = useMemo(() => {
     if (!placementState || !selectedPieceToPlace) return [];
-    const zones = getPlacementZones(gameState.boardSize, placementState.currentPlacer);
+    const zones = getPlacementZones(
+      gameState.boardSize,
+      placementState.currentPlacer,
+      gameState.board.dimensions.voids
+    );
     return getValidPlacementSquares(gameState.board, selectedPieceToPlace, zones, gameState.board.dimensions);
   }, [placementState, selectedPieceToPlace, gameState.board, gameState.boardSize]);
 
@@ -324,6 +366,17 @@ export function useChessGame(
       // Promotion pending - ignore clicks
       if (promotionPending) return;
 
+      // Piece picked from the hand - drop it on a valid square
+      if (selectedDropType) {
+        const drop = validateDrop(gameState, selectedDropType, position);
+        if (drop.valid && !result && !isComputerTurn) {
+          setStateHistory(prev => [...prev, gameState]);
+          setGameState(executeMove(gameState, notateMove(gameState, drop.move)));
+        }
+        setSelectedDropType(null);
+        return;
+      }
+
       const clickedPiece = getPieceAt(gameState.board, position);
 
       // If no piece selected
@@ -357,7 +410,8 @@ export function useChessGame(
       const isValidMove = validMoves.some((m) => arePositionsEqual(m, position));
 
       // If we have an enemy piece selected (viewing mode), allow switching to any piece
-      if (selectedPiece.owner !== gameState.currentTurn) {
+      // The computer's pieces are view-only while it is thinking
+      if (selectedPiece.owner !== gameState.currentTurn || isComputerTurn) {
         if (clickedPiece) {
           setSelectedPieceId(clickedPiece.id);
         } else {
@@ -399,7 +453,7 @@ export function useChessGame(
         if (move) {
           // Save current state to history before executing move
           setStateHistory(prev => [...prev, gameState]);
-          const newState = executeMove(gameState, move);
+          const newState = executeMove(gameState, notateMove(gameState, move));
           setGameState(newState);
           setSelectedPieceId(null);
         }
@@ -408,9 +462,17 @@ export function useChessGame(
         setSelectedPieceId(null);
       }
     },
-    [gameState, selectedPiece, validMoves, result, promotionPending]
+    [gameState, selectedPiece, selectedDropType, validMoves, result, promotionPending, isComputerTurn]
   );
 
+  /**
+   * Pick a piece type from the side to move's hand to drop, or clear the pick
+   */
+  const selectDropPiece = useCallback((typeId: string | null) => {
+    setSelectedDropType(typeId);
+    setSelectedPieceId(null);
+  }, []);
+
   /**
    * Select promotion piece
    */
@@ -429,7 +491,7 @@ export function useChessGame(
       if (move) {
         // Save current state to history before executing move
         setStateHistory(prev => [...prev, gameState]);
-        const newState = executeMove(gameState, move);
+        const newState = executeMove(gameState, notateMove(gameState, move));
         setGameState(newState);
       }
 
@@ -466,6 +528,7 @@ export function useChessGame(
       setPlacementState(null);
     }
     setSelectedPieceId(null);
+    setSelectedDropType(null);
     setPromotionPending(null);
     setStateHistory([]); // Clear undo history
   }, [mode]);
@@ -476,17 +539,28 @@ export function useChessGame(
   const undoMove = useCallback(() => {
     if (stateHistory.length === 0) return;
 
+    // Against the computer, take back its reply as well as our move
+    let steps = 1;
+    if (
+      computer &&
+      stateHistory.length >= 2 &&
+      stateHistory[stateHistory.length - 1].currentTurn === computer.color
+    ) {
+      steps = 2;
+    }
+
     // Get the previous state
-    const previousState = stateHistory[stateHistory.length - 1];
+    const previousState = stateHistory[stateHistory.length - steps];
 
-    // Remove the last state from history
-    setStateHistory(prev => prev.slice(0, -1));
+    // Remove the undone states from history
+    setStateHistory(prev => prev.slice(0, -steps));
 
     // Restore the previous state
     setGameState(previousState);
     setSelectedPieceId(null);
+    setSelectedDropType(null);
     setPromotionPending(null);
-  }, [stateHistory]);
+  }, [stateHistory, computer]);
 
   /**
    * Resign the game
@@ -513,7 +587,7 @@ export function useChessGame(
    */
   const selectPieceToPlace = useCallback(
     (piece: PieceInstance) => {
-      if (!placementState) return;
+      if (!placementState || isComputerTurn) return;
       if (piece.owner !== placementState.currentPlacer) return;
 
       setPlacementState((prev) => {
@@ -524,18 +598,22 @@ export function useChessGame(
         };
       });
     },
-    [placementState]
+    [placementState, isComputerTurn]
   );
 
   /**
-   * Place the selected piece on the board
+   * Place a piece on the board (shared by the human and the computer)
    */
-  const placePiece = useCallback(
-    (position: Position) => {
-      if (!placementState || !selectedPieceToPlace) return;
+  const applyPlacement = useCallback(
+    (piece: PieceInstance, position: Position) => {
+      if (!placementState) return;
 
-      const zones = getPlacementZones(gameState.boardSize, placementState.currentPlacer);
-      if (!isValidPlacement(gameState.board, selectedPieceToPlace, position, zones)) return;
+      const zones = getPlacementZones(
+        gameState.boardSize,
+        placementState.currentPlacer,
+        gameState.board.dimensions.voids
+      );
+      if (!isValidPlacement(gameState.board, piece, position, zones)) return;
 
       const currentPlacer = placementState.currentPlacer;
       let actualPosition = position;
@@ -545,7 +623,7 @@ export function useChessGame(
       let pawnToMove: PieceInstance | null = null;
       let pawnNewPosition: Position | null = null;
 
-      if (isHerald(selectedPieceToPlace)) {
+      if (isHerald(piece)) {
         actualPosition = getHeraldActualPosition(
           position,
           currentPlacer,
@@ -575,7 +653,7 @@ export function useChessGame(
       }
 
       // Pawn special placement: if Herald is already on pawn rank in this file, go to back rank
-      const pieceType = PIECE_BY_ID[selectedPieceToPlace.typeId];
+      const pieceType = PIECE_BY_ID[piece.typeId];
       if (pieceType && pieceType.tier === 'pawn') {
         if (shouldPawnSwapToBackRank(
           gameState.board,
@@ -593,7 +671,7 @@ export function useChessGame(
 
       // Create the placed piece with actual position
       const placedPiece: PieceInstance = {
-        ...selectedPieceToPlace,
+        ...piece,
         position: actualPosition,
       };
 
@@ -615,11 +693,11 @@ export function useChessGame(
       // Update placement state - remove piece from to-place list
       const newWhitePieces =
         currentPlacer === 'white'
-          ? placementState.whitePiecesToPlace.filter((p) => p.id !== selectedPieceToPlace.id)
+          ? placementState.whitePiecesToPlace.filter((p) => p.id !== piece.id)
           : placementState.whitePiecesToPlace;
       const newBlackPieces =
         currentPlacer === 'black'
-          ? placementState.blackPiecesToPlace.filter((p) => p.id !== selectedPieceToPlace.id)
+          ? placementState.blackPiecesToPlace.filter((p) => p.id !== piece.id)
           : placementState.blackPiecesToPlace;
 
       // Create updated placement state to check completion
@@ -657,34 +735,75 @@ export function useChessGame(
           board: newBoard,
           phase: placementComplete ? 'play' : 'placement',
           currentTurn: placementComplete ? 'white' : updatedPlacementState.currentPlacer,
+          // Drops games start play with empty hands
+          ...(placementComplete && drops && { hand: createEmptyHands() }),
         };
       });
 
       // Update placement state
       setPlacementState(placementComplete ? null : updatedPlacementState);
     },
-    [placementState, selectedPieceToPlace, gameState]
+    [placementState, gameState, drops]
+  );
+
+  /**
+   * Place the selected piece on the board
+   */
+  const placePiece = useCallback(
+    (position: Position) => {
+      if (!selectedPieceToPlace || isComputerTurn) return;
+      applyPlacement(selectedPieceToPlace, position);
+    },
+    [selectedPieceToPlace, isComputerTurn, applyPlacement]
   );
 
+  /**
+   * Place the current placer's next piece automatically
+   */
+  const autoPlacePiece = useCallback(() => {
+    if (!placementState || isComputerTurn) return;
+
+    const [next] = planPlacement(
+      placementState,
+      placementState.currentPlacer,
+      gameState.board,
+      gameState.boardSize
+    );
+    if (next) {
+      applyPlacement(next.piece, next.position);
+    }
+  }, [placementState, isComputerTurn, gameState, applyPlacement]);
+
   // ==========================================================================
   // Draft Actions
   // ==========================================================================
 
   /**
-   * Start the draft with a given budget
+   * Start the draft with a given budget, optionally as a drops game, on a cylinder
+   * or with a board layout's void squares cut out
    */
-  const startDraft = useCallback((selectedBudget: number) => {
-    setBudget(selectedBudget);
-    setWhiteDraft(createEmptyDraft());
-    setBlackDraft(null);
-    setCurrentDrafter('white');
-    setShowHandoff(false);
-    setGameState((prev) => ({
-      ...prev,
-      phase: 'draft',
-      pointBudget: selectedBudget,
-    }));
-  }, []);
+  const startDraft = useCallback(
+    (
+      selectedBudget: number,
+      dropsEnabled = false,
+      topology: BoardTopology = 'flat',
+      layout: BoardLayout = 'standard'
+    ) => {
+      setBudget(selectedBudget);
+      setDrops(dropsEnabled);
+      setWhiteDraft(createEmptyDraft());
+      setBlackDraft(null);
+      setCurrentDrafter('white');
+      setShowHandoff(false);
+      setGameState((prev) => ({
+        ...prev,
+        phase: 'draft',
+        pointBudget: selectedBudget,
+        board: { ...prev.board, dimensions: applyLayout({ ...prev.board.dimensions, topology }, layout) },
+      }));
+    },
+    []
+  );
 
   /**
    * Add a piece to the current player's draft
@@ -737,29 +856,41 @@ export function useChessGame(
     [currentDrafter]
   );
 
+  /**
+   * Move from the draft to the placement phase
+   */
+  const startPlacement = useCallback((white: PlayerDraft, black: PlayerDraft) => {
+    resetDraftPieceIdCounter();
+    const newPlacementState = createPlacementStateFromDrafts(white, black);
+    setPlacementState(newPlacementState);
+    setGameState((prev) => ({
+      ...prev,
+      phase: 'placement',
+      currentTurn: 'white',
+    }));
+    setWhiteDraft(null);
+    setBlackDraft(null);
+  }, []);
+
   /**
    * Confirm the current player's draft
    */
   const confirmDraft = useCallback(() => {
     if (currentDrafter === 'white') {
-      // White confirmed, show handoff for black
-      setShowHandoff(true);
+      if (computer && whiteDraft) {
+        // The computer drafts black's army itself - no handoff needed
+        startPlacement(whiteDraft, createComputerDraft(budget, gameState.boardSize));
+      } else {
+        // White confirmed, show handoff for black
+        setShowHandoff(true);
+      }
     } else {
       // Black confirmed, move to placement
       if (whiteDraft && blackDraft) {
-        resetDraftPieceIdCounter();
-        const newPlacementState = createPlacementStateFromDrafts(whiteDraft, blackDraft);
-        setPlacementState(newPlacementState);
-        setGameState((prev) => ({
-          ...prev,
-          phase: 'placement',
-          currentTurn: 'white',
-        }));
-        setWhiteDraft(null);
-        setBlackDraft(null);
+        startPlacement(whiteDraft, blackDraft);
       }
     }
-  }, [currentDrafter, whiteDraft, blackDraft]);
+  }, [currentDrafter, whiteDraft, blackDraft, computer, budget, gameState.boardSize, startPlacement]);
 
   /**
    * Acknowledge handoff and start next player's draft
@@ -770,6 +901,78 @@ export function useChessGame(
     setBlackDraft(createEmptyDraft());
   }, []);
 
+  // ==========================================================================
+  // Computer Opponent
+  // ==========================================================================
+
+  // Computer places its pieces one at a time when it is its turn to place
+  useEffect(() => {
+    if (!computer || !isComputerTurn || !isPlacementPhase || !placementState) return;
+
+    const timer = setTimeout(() => {
+      const placement = chooseComputerPlacement(
+        placementState,
+        gameState.board,
+        gameState.boardSize,
+        computer.color
+      );
+      if (placement) {
+        applyPlacement(placement.piece, placement.position);
+      }
+    }, COMPUTER_PLACEMENT_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [computer, isComputerTurn, isPlacementPhase, placementState, gameState, applyPlacement]);
+
+  // Computer searches for its move in a Web Worker so the board stays responsive
+  useEffect(() => {
+    if (!computer || !isComputerTurn || gameState.phase !== 'play') return;
+
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/searchWorker.ts', import.meta.url), {
+        type: 'module',
+      });
+    }
+    const worker = workerRef.current;
+    const requestId = ++searchRequestIdRef.current;
+    let settled = false;
+
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      if (event.data.requestId !== requestId) return;
+      settled = true;
+
+      const move = event.data.move;
+      if (!move) return;
+
+      setStateHistory(prev => [...prev, gameState]);
+      setGameState(executeMove(gameState, notateMove(gameState, move)));
+      setSelectedPieceId(null);
+    };
+
+    const request: SearchWorkerRequest = {
+      requestId,
+      gameState,
+      difficulty: computer.difficulty,
+    };
+    worker.postMessage(request);
+
+    return () => {
+      // Position changed (undo, reset) before the search finished - abandon it
+      if (!settled) {
+        worker.terminate();
+        workerRef.current = null;
+      }
+    };
+  }, [computer, isComputerTurn, gameState]);
+
+  // Shut down the search worker when the game unmounts
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
   // ==========================================================================
   // Return
   // ==========================================================================
@@ -781,6 +984,7 @@ export function useChessGame(
     specialCaptureTargets,
     promotionPending,
     promotionOptions,
+    selectedDropType,
 
     // Placement state
     placementState,
@@ -803,6 +1007,7 @@ export function useChessGame(
     cancelPromotion,
     resetGame,
     resign,
+    selectDropPiece,
 
     // Undo
     undoMove,
@@ -811,6 +1016,7 @@ export function useChessGame(
     // Placement actions
     selectPieceToPlace,
     placePiece,
+    autoPlacePiece,
 
     // Draft actions
     startDraft,
@@ -827,5 +1033,8 @@ export function useChessGame(
     result,
     resultDescription: result ? getResultDescription(result) : null,
     currentTurn: gameState.currentTurn,
+
+    // Computer opponent
+    isComputerTurn,
   };
 }
@@ -3,7 +3,7 @@
  * Manages multiplayer game state and synchronization
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useSocket } from './useSocket';
 import { saveSession, clearSession } from '../utils/sessionStorage';
 import { getAuthToken } from '../utils/authStorage';
@@ -18,8 +18,14 @@ import type {
   GameState,
   Position,
   BoardState,
+  ClockState,
+  ChatEntry,
+  MatchPreferences,
 } from '@hyper-fairy-chess/shared';
 
+/** How often to measure the offset between our clock and the server's */
+const PING_INTERVAL_MS = 10_000;
+
 /**
  * Reconstruct gameState after receiving over socket.io
  * Maps don't serialize to JSON properly, so we rebuild positionMap from pieces
@@ -49,10 +55,18 @@ export interface OnlineGameState {
   isConnected: boolean;
   connectionError: string | null;
 
+  // Matchmaking - set while waiting in the queue for an opponent
+  queue: {
+    rating: number;
+    queueSize: number;
+    joinedAt: number; // ms since epoch, our clock
+  } | null;
+
   // Room
   roomCode: string | null;
   playerId: string | null;
   playerColor: PlayerColor | null;
+  isSpectator: boolean; // Watching the room rather than playing in it
   settings: RoomSettings | null;
   players: PlayerInfo[];
   phase: RoomPhase;
@@ -63,6 +77,7 @@ export interface OnlineGameState {
   draftRevealed: boolean;
   whiteDraft: DraftPick[] | null;
   blackDraft: DraftPick[] | null;
+  drafts: Partial<Record<PlayerColor, DraftPick[]>> | null; // Every seat's draft in a free-for-all
 
   // Placement
   placementState: PlacementState | null;
@@ -71,14 +86,26 @@ export interface OnlineGameState {
   blindMode: boolean;
   myPlacedPieces: Array<{ pieceId: string; typeId: string; position: Position }>;
   myReady: boolean;
+  placementTimeLimit: number | null; // seconds for blind placement, null = no limit
   opponentBlindReady: boolean;
 
   // Game
   gameState: GameState | null;
 
+  // Chess clock, as last sent by the server, and how far the server's time is
+  // ahead of ours (ms) so the running clock can be counted down locally
+  clock: ClockState | null;
+  clockOffset: number;
+
   // Draw offer
   drawOfferedBy: PlayerColor | null;
 
+  // Chat - room history, why our last message was turned down, and the
+  // players whose messages we've chosen to hide
+  chat: ChatEntry[];
+  chatError: string | null;
+  mutedPlayerIds: string[];
+
   // Errors
   error: string | null;
 
@@ -101,9 +128,11 @@ export interface OnlineGameState {
 const initialState: OnlineGameState = {
   isConnected: false,
   connectionError: null,
+  queue: null,
   roomCode: null,
   playerId: null,
   playerColor: null,
+  isSpectator: false,
   settings: null,
   players: [],
   phase: 'waiting',
@@ -112,13 +141,20 @@ const initialState: OnlineGameState = {
   draftRevealed: false,
   whiteDraft: null,
   blackDraft: null,
+  drafts: null,
   placementState: null,
   blindMode: false,
   myPlacedPieces: [],
   myReady: false,
+  placementTimeLimit: null,
   opponentBlindReady: false,
   gameState: null,
+  clock: null,
+  clockOffset: 0,
   drawOfferedBy: null,
+  chat: [],
+  chatError: null,
+  mutedPlayerIds: [],
   error: null,
   opponentStatus: null,
   eloUpdate: null,
@@ -129,6 +165,9 @@ const initialState: OnlineGameState = {
 export function useOnlineGame() {
   const { isConnected, connectionError, sendMessage, addMessageListener } = useSocket();
   const [state, setState] = useState<OnlineGameState>(initialState);
+  const pingSentAt = useRef<number | null>(null);
+  // Spectators must leave any saved session of their own alone
+  const spectating = useRef(false);
 
   // Update connection status
   useEffect(() => {
@@ -136,9 +175,23 @@ export function useOnlineGame() {
       ...prev,
       isConnected,
       connectionError,
+      // The server drops us from the matchmaking queue when we disconnect
+      queue: isConnected ? prev.queue : null,
     }));
   }, [isConnected, connectionError]);
 
+  // Measure the server's clock while in a room, so clocks tick in step with it
+  useEffect(() => {
+    if (!isConnected || !state.roomCode) return;
+    const ping = () => {
+      pingSentAt.current = Date.now();
+      sendMessage({ type: 'PING', timestamp: pingSentAt.current });
+    };
+    ping();
+    const interval = setInterval(ping, PING_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isConnected, state.roomCode, sendMessage]);
+
   // Handle all incoming messages
   useEffect(() => {
     const unsubscribe = addMessageListener((message: ServerToClientMessage) => {
@@ -173,11 +226,45 @@ export function useOnlineGame() {
           roomCode: message.roomCode,
           playerId: message.playerId,
           playerColor: message.role === 'spectator' ? null : message.role,
+          isSpectator: message.role === 'spectator',
+          settings: message.settings,
+          players: message.players,
+          phase: message.phase,
+          error: null,
+        }));
+        // Spectators have no seat to reconnect to
+        spectating.current = message.role === 'spectator';
+        if (!spectating.current) {
+          saveSession(message.roomCode, message.playerId);
+        }
+        break;
+
+      case 'QUEUE_JOINED':
+        setState(prev => ({
+          ...prev,
+          queue: { rating: message.rating, queueSize: message.queueSize, joinedAt: Date.now() },
+          error: null,
+        }));
+        break;
+
+      case 'QUEUE_LEFT':
+        setState(prev => ({ ...prev, queue: null }));
+        break;
+
+      case 'MATCH_FOUND':
+        setState(prev => ({
+          ...prev,
+          queue: null,
+          roomCode: message.roomCode,
+          playerId: message.playerId,
+          playerColor: message.role,
+          isSpectator: false,
           settings: message.settings,
           players: message.players,
           phase: message.phase,
           error: null,
         }));
+        spectating.current = false;
         saveSession(message.roomCode, message.playerId);
         break;
 
@@ -222,6 +309,7 @@ export function useOnlineGame() {
             draftRevealed: false,
             whiteDraft: null,
             blackDraft: null,
+            drafts: null,
           };
         });
         break;
@@ -250,6 +338,7 @@ export function useOnlineGame() {
           draftRevealed: true,
           whiteDraft: message.whiteDraft,
           blackDraft: message.blackDraft,
+          drafts: message.drafts ?? null,
         }));
         break;
 
@@ -262,6 +351,7 @@ export function useOnlineGame() {
           blindMode: message.placementState.mode === 'blind',
           myPlacedPieces: [],
           myReady: false,
+          placementTimeLimit: message.timeLimit ? message.timeLimit : null,
           opponentBlindReady: false,
         }));
         break;
@@ -381,6 +471,12 @@ export function useOnlineGame() {
           ...prev,
           phase: 'playing',
           gameState: reconstructGameState(message.gameState),
+          clock: message.clock ?? null,
+          // A free-for-all rematch starts straight into play
+          eloUpdate: null,
+          rematchProposedBy: null,
+          myRematchProposed: false,
+          drawOfferedBy: null,
         }));
         break;
 
@@ -388,10 +484,19 @@ export function useOnlineGame() {
         setState(prev => ({
           ...prev,
           gameState: reconstructGameState(message.gameState),
+          clock: message.clock ?? prev.clock,
           drawOfferedBy: null, // Clear any pending draw offer when a move is made
         }));
         break;
 
+      case 'PLAYER_ELIMINATED':
+        setState(prev => ({
+          ...prev,
+          gameState: reconstructGameState(message.gameState),
+          clock: message.clock ?? prev.clock,
+        }));
+        break;
+
       case 'MOVE_REJECTED':
         setState(prev => ({
           ...prev,
@@ -402,11 +507,12 @@ export function useOnlineGame() {
 
       case 'GAME_OVER':
         // Clear session data - game is finished, no need to reconnect
-        clearSession();
+        if (!spectating.current) clearSession();
         setState(prev => ({
           ...prev,
           phase: 'ended',
           gameState: reconstructGameState(message.finalState),
+          clock: message.clock ?? prev.clock,
         }));
         break;
 
@@ -436,8 +542,8 @@ export function useOnlineGame() {
         const playerId = localStorage.getItem('hfc_playerId');
         setState(prev => ({
           ...prev,
-          roomCode: roomCode || prev.roomCode,
-          playerId: playerId || prev.playerId,
+          roomCode: prev.isSpectator ? prev.roomCode : roomCode || prev.roomCode,
+          playerId: prev.isSpectator ? prev.playerId : playerId || prev.playerId,
           playerColor: message.myColor,
           phase: message.phase,
           settings: message.settings,
@@ -446,6 +552,9 @@ export function useOnlineGame() {
           placementState: message.placementState || prev.placementState,
           whiteDraft: message.whiteDraft || prev.whiteDraft,
           blackDraft: message.blackDraft || prev.blackDraft,
+          drafts: message.drafts ?? prev.drafts,
+          clock: message.clock ?? prev.clock,
+          chat: message.chat ?? prev.chat,
           // Restore blind placement state if present
           blindMode: message.placementState?.mode === 'blind',
           myPlacedPieces: message.blindPlacementState?.myPlacedPieces || [],
@@ -456,6 +565,31 @@ export function useOnlineGame() {
         break;
       }
 
+      case 'PONG': {
+        // Assume the server answered halfway through the round trip
+        const sentAt = pingSentAt.current;
+        if (sentAt === null) break;
+        pingSentAt.current = null;
+        const clockOffset = message.serverTime - (sentAt + Date.now()) / 2;
+        setState(prev => ({ ...prev, clockOffset }));
+        break;
+      }
+
+      case 'CHAT_MESSAGE':
+        setState(prev => ({
+          ...prev,
+          chat: [...prev.chat, message.entry],
+          chatError: message.entry.playerId === prev.playerId ? null : prev.chatError,
+        }));
+        break;
+
+      case 'CHAT_REJECTED':
+        setState(prev => ({
+          ...prev,
+          chatError: message.reason,
+        }));
+        break;
+
       case 'DRAW_OFFERED':
         setState(prev => ({
           ...prev,
@@ -492,7 +626,7 @@ export function useOnlineGame() {
 
       case 'REMATCH_START':
         // Save session for the rematch
-        if (state.roomCode && state.playerId) {
+        if (state.roomCode && state.playerId && !spectating.current) {
           saveSession(state.roomCode, state.playerId);
         }
         setState(prev => ({
@@ -503,6 +637,7 @@ export function useOnlineGame() {
           blindMode: message.placementState.mode === 'blind',
           myPlacedPieces: [],
           myReady: false,
+          placementTimeLimit: message.timeLimit ? message.timeLimit : null,
           opponentBlindReady: false,
           eloUpdate: null,
           rematchProposedBy: null,
@@ -536,12 +671,41 @@ export function useOnlineGame() {
     });
   }, [sendMessage]);
 
+  const watchRoom = useCallback((roomCode: string, playerName: string) => {
+    sendMessage({
+      type: 'JOIN_ROOM',
+      timestamp: Date.now(),
+      roomCode: roomCode.toUpperCase(),
+      playerName,
+      spectate: true,
+    });
+  }, [sendMessage]);
+
+  const joinQueue = useCallback((playerName: string, preferences: MatchPreferences) => {
+    const token = getAuthToken();
+    sendMessage({
+      type: 'JOIN_QUEUE',
+      timestamp: Date.now(),
+      playerName,
+      preferences,
+      sessionToken: token || undefined,
+    });
+  }, [sendMessage]);
+
+  const leaveQueue = useCallback(() => {
+    sendMessage({
+      type: 'LEAVE_QUEUE',
+      timestamp: Date.now(),
+    });
+  }, [sendMessage]);
+
   const leaveRoom = useCallback(() => {
     sendMessage({
       type: 'LEAVE_ROOM',
       timestamp: Date.now(),
     });
-    clearSession();
+    if (!spectating.current) clearSession();
+    spectating.current = false;
     // Reset game state but preserve connection status from previous state
     // (the useEffect will sync it with actual socket state)
     setState(prev => ({
@@ -610,6 +774,15 @@ export function useOnlineGame() {
     });
   }, [sendMessage]);
 
+  const dropPiece = useCallback((pieceTypeId: string, to: Position) => {
+    sendMessage({
+      type: 'DROP_PIECE',
+      timestamp: Date.now(),
+      pieceTypeId,
+      to,
+    });
+  }, [sendMessage]);
+
   const resign = useCallback(() => {
     sendMessage({
       type: 'RESIGN',
@@ -648,6 +821,16 @@ export function useOnlineGame() {
     }
   }, [sendMessage]);
 
+  // When the connection drops and comes back while we hold a seat - a network
+  // blip, or the server restarting and restoring its rooms - take the seat back
+  const wasConnected = useRef(false);
+  useEffect(() => {
+    if (isConnected && !wasConnected.current && state.roomCode && !spectating.current) {
+      reconnect();
+    }
+    wasConnected.current = isConnected;
+  }, [isConnected, state.roomCode, reconnect]);
+
   const proposeRematch = useCallback(() => {
     sendMessage({
       type: 'PROPOSE_REMATCH',
@@ -656,6 +839,32 @@ export function useOnlineGame() {
     setState(prev => ({ ...prev, myRematchProposed: true }));
   }, [sendMessage]);
 
+  const sendChat = useCallback((text: string) => {
+    sendMessage({
+      type: 'SEND_CHAT',
+      timestamp: Date.now(),
+      text,
+    });
+  }, [sendMessage]);
+
+  const sendQuickChat = useCallback((quickMessageId: string) => {
+    sendMessage({
+      type: 'SEND_CHAT',
+      timestamp: Date.now(),
+      quickMessageId,
+    });
+  }, [sendMessage]);
+
+  // Muting is local only - the other player never finds out
+  const toggleMute = useCallback((playerId: string) => {
+    setState(prev => ({
+      ...prev,
+      mutedPlayerIds: prev.mutedPlayerIds.includes(playerId)
+        ? prev.mutedPlayerIds.filter(id => id !== playerId)
+        : [...prev.mutedPlayerIds, playerId],
+    }));
+  }, []);
+
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }));
   }, []);
@@ -665,6 +874,9 @@ export function useOnlineGame() {
     actions: {
       createRoom,
       joinRoom,
+      watchRoom,
+      joinQueue,
+      leaveQueue,
       leaveRoom,
       submitDraft,
       placePiece,
@@ -673,11 +885,15 @@ export function useOnlineGame() {
       setBlindReady,
       cancelBlindReady,
       makeMove,
+      dropPiece,
       resign,
       offerDraw,
       respondDraw,
       reconnect,
       proposeRematch,
+      sendChat,
+      sendQuickChat,
+      toggleMute,
       clearError,
     },
   };
@@ -0,0 +1,110 @@
+/**
+ * Computer Player Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateDraft,
+  createPlacementStateFromDrafts,
+  createEmptyGameState,
+  createInitialGameState,
+  createStandardChessPieces,
+  getPlacementZones,
+  isValidPlacement,
+  generateAllMoves,
+  getMoveKey,
+  resetDraftPieceIdCounter,
+  MIN_BUDGET,
+  MAX_BUDGET,
+} from '@hyper-fairy-chess/shared';
+import type { BoardSize } from '@hyper-fairy-chess/shared';
+import {
+  createComputerDraft,
+  chooseComputerPlacement,
+  chooseComputerMove,
+  DIFFICULTIES,
+  DIFFICULTY_SETTINGS,
+} from './computerPlayer';
+
+// Deterministic pseudo-random generator for repeatable tests
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+describe('computerPlayer', () => {
+  describe('DIFFICULTY_SETTINGS', () => {
+    it('gets stronger with each level', () => {
+      for (let i = 1; i < DIFFICULTIES.length; i++) {
+        const weaker = DIFFICULTY_SETTINGS[DIFFICULTIES[i - 1]];
+        const stronger = DIFFICULTY_SETTINGS[DIFFICULTIES[i]];
+        expect(stronger.maxDepth).toBeGreaterThanOrEqual(weaker.maxDepth);
+        expect(stronger.blunderRate).toBeLessThanOrEqual(weaker.blunderRate);
+      }
+    });
+  });
+
+  describe('createComputerDraft', () => {
+    const boardSizes: BoardSize[] = ['8x8', '10x8', '10x10'];
+
+    it.each(boardSizes)('builds a valid draft on a %s board', (boardSize) => {
+      for (const budget of [MIN_BUDGET, 400, MAX_BUDGET]) {
+        const draft = createComputerDraft(budget, boardSize, seededRandom(budget));
+        expect(validateDraft(draft, budget, boardSize).valid).toBe(true);
+        expect(draft.selections.length).toBeGreaterThan(0);
+      }
+    });
+
+    it('spends most of the budget', () => {
+      const draft = createComputerDraft(400, '8x8', seededRandom(7));
+      expect(draft.budgetSpent).toBeGreaterThan(300);
+    });
+  });
+
+  describe('chooseComputerPlacement', () => {
+    it('picks a legal square for one of its own pieces', () => {
+      resetDraftPieceIdCounter();
+      const white = createComputerDraft(400, '8x8', seededRandom(1));
+      const black = createComputerDraft(400, '8x8', seededRandom(2));
+      const placementState = createPlacementStateFromDrafts(white, black);
+      const gameState = createEmptyGameState('8x8');
+
+      const placement = chooseComputerPlacement(placementState, gameState.board, '8x8', 'black');
+
+      expect(placement).not.toBeNull();
+      expect(placement!.piece.owner).toBe('black');
+      const zones = getPlacementZones('8x8', 'black');
+      expect(isValidPlacement(gameState.board, placement!.piece, placement!.position, zones)).toBe(true);
+    });
+
+    it('returns null when there is nothing to place', () => {
+      resetDraftPieceIdCounter();
+      const white = createComputerDraft(400, '8x8', seededRandom(1));
+      const placementState = { ...createPlacementStateFromDrafts(white, white), blackPiecesToPlace: [] };
+      const gameState = createEmptyGameState('8x8');
+      expect(chooseComputerPlacement(placementState, gameState.board, '8x8', 'black')).toBeNull();
+    });
+  });
+
+  describe('chooseComputerMove', () => {
+    it('plays a legal move', () => {
+      const gameState = createInitialGameState(createStandardChessPieces(), '8x8');
+      const move = chooseComputerMove(gameState, 'easy', () => 0.99);
+
+      const legalKeys = generateAllMoves(gameState).map(getMoveKey);
+      expect(move).not.toBeNull();
+      expect(legalKeys).toContain(getMoveKey(move!));
+    });
+
+    it('sometimes plays a weaker move on easy', () => {
+      const gameState = createInitialGameState(createStandardChessPieces(), '8x8');
+      const best = chooseComputerMove(gameState, 'easy', () => 0.99);
+      const blunder = chooseComputerMove(gameState, 'easy', () => 0);
+
+      expect(getMoveKey(blunder!)).not.toBe(getMoveKey(best!));
+    });
+  });
+});
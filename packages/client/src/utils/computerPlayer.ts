@@ -0,0 +1,143 @@
+/**
+ * Computer opponent - difficulty levels and per-phase decisions
+ * (draft, placement, and move choice) for games against the computer
+ */
+
+import type {
+  BoardSize,
+  BoardState,
+  DraftStyle,
+  GameState,
+  Move,
+  PlacementState,
+  PlayerColor,
+  PlayerDraft,
+  PlannedPlacement,
+} from '@hyper-fairy-chess/shared';
+import {
+  createAutoDraft,
+  pickRandom,
+  planPlacement,
+  searchBestMove,
+  generateAllMoves,
+  getMoveKey,
+} from '@hyper-fairy-chess/shared';
+
+// =============================================================================
+// Difficulty
+// =============================================================================
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface DifficultySettings {
+  label: string;
+  description: string;
+  /** Deepest search iteration */
+  maxDepth: number;
+  /** Thinking time per move in milliseconds */
+  timeLimitMs: number;
+  /** Chance (0-1) of deliberately playing a weaker move */
+  blunderRate: number;
+}
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
+  easy: {
+    label: 'Easy',
+    description: 'Looks one move ahead and often blunders',
+    maxDepth: 1,
+    timeLimitMs: 500,
+    blunderRate: 0.35,
+  },
+  medium: {
+    label: 'Medium',
+    description: 'Looks a few moves ahead, occasionally slips',
+    maxDepth: 2,
+    timeLimitMs: 1500,
+    blunderRate: 0.1,
+  },
+  hard: {
+    label: 'Hard',
+    description: 'Searches as deep as it can in 3 seconds',
+    maxDepth: 6,
+    timeLimitMs: 3000,
+    blunderRate: 0,
+  },
+};
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export interface ComputerOpponent {
+  color: PlayerColor;
+  difficulty: Difficulty;
+}
+
+// =============================================================================
+// Draft
+// =============================================================================
+
+/** Draft styles the computer picks between, so each game brings a different army */
+const COMPUTER_DRAFT_STYLES: DraftStyle[] = ['balanced', 'aggressive-sliders', 'freezer-heavy'];
+
+/**
+ * Build a legal draft for the computer in a randomly chosen style
+ */
+export function createComputerDraft(
+  budget: number,
+  boardSize: BoardSize,
+  random: () => number = Math.random
+): PlayerDraft {
+  return createAutoDraft(budget, boardSize, {
+    style: pickRandom(COMPUTER_DRAFT_STYLES, random),
+    seed: Math.floor(random() * 2 ** 31),
+  });
+}
+
+// =============================================================================
+// Placement
+// =============================================================================
+
+/**
+ * Pick the next piece to place and a square for it, following the heuristic
+ * placement plan (king guarded by pawns, freezers in the center)
+ */
+export function chooseComputerPlacement(
+  placementState: PlacementState,
+  board: BoardState,
+  boardSize: BoardSize,
+  color: PlayerColor
+): PlannedPlacement | null {
+  const plan = planPlacement(placementState, color, board, boardSize, { strategy: 'heuristic' });
+  return plan[0] ?? null;
+}
+
+// =============================================================================
+// Moves
+// =============================================================================
+
+/**
+ * Choose the computer's move. With probability `blunderRate` a random
+ * move other than the best one is played instead.
+ */
+export function chooseComputerMove(
+  gameState: GameState,
+  difficulty: Difficulty,
+  random: () => number = Math.random
+): Move | null {
+  const settings = DIFFICULTY_SETTINGS[difficulty];
+  const result = searchBestMove(gameState, {
+    maxDepth: settings.maxDepth,
+    timeLimitMs: settings.timeLimitMs,
+  });
+
+  if (!result.bestMove) return null;
+
+  if (random() < settings.blunderRate) {
+    const bestKey = getMoveKey(result.bestMove);
+    const alternatives = generateAllMoves(gameState).filter((m) => getMoveKey(m) !== bestKey);
+    if (alternatives.length > 0) {
+      return alternatives[Math.floor(random() * alternatives.length)];
+    }
+  }
+
+  return result.bestMove;
+}
@@ -0,0 +1,25 @@
+/**
+ * Web Worker that runs the computer's move search off the main thread
+ */
+
+import type { GameState, Move } from '@hyper-fairy-chess/shared';
+import { chooseComputerMove } from '../utils/computerPlayer';
+import type { Difficulty } from '../utils/computerPlayer';
+
+export interface SearchWorkerRequest {
+  requestId: number;
+  gameState: GameState;
+  difficulty: Difficulty;
+}
+
+export interface SearchWorkerResponse {
+  requestId: number;
+  move: Move | null;
+}
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const { requestId, gameState, difficulty } = event.data;
+  const move = chooseComputerMove(gameState, difficulty);
+  const response: SearchWorkerResponse = { requestId, move };
+  self.postMessage(response);
+};
@@ -73,6 +73,7 @@ export async function initDatabase(): Promise<pg.Pool | null> {
         initial_board_state JSONB,
         moves JSONB,
         move_count INT DEFAULT 0,
+        chat JSONB,
         played_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
       );
     `);
@@ -87,6 +88,7 @@ export async function initDatabase(): Promise<pg.Pool | null> {
       ALTER TABLE games ADD COLUMN IF NOT EXISTS initial_board_state JSONB;
       ALTER TABLE games ADD COLUMN IF NOT EXISTS moves JSONB;
       ALTER TABLE games ADD COLUMN IF NOT EXISTS move_count INT DEFAULT 0;
+      ALTER TABLE games ADD COLUMN IF NOT EXISTS chat JSONB;
     `);
 
     await pool.query(`
@@ -119,6 +121,34 @@ export async function initDatabase(): Promise<pg.Pool | null> {
       CREATE INDEX IF NOT EXISTS idx_prt_user ON password_reset_tokens(user_id);
     `);
 
+    // Create live rooms table - snapshots of rooms in progress, so they survive a restart
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS live_rooms (
+        code VARCHAR(6) PRIMARY KEY,
+        snapshot JSONB NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Create correspondence games table - games played over days, stored rather than held in a room
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS correspondence_games (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        white_user_id UUID REFERENCES users(id),
+        black_user_id UUID REFERENCES users(id),
+        white_player_name VARCHAR(30) NOT NULL DEFAULT '',
+        black_player_name VARCHAR(30) NOT NULL DEFAULT '',
+        phase VARCHAR(10) NOT NULL,
+        state JSONB NOT NULL,
+        deadline TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_correspondence_white_user ON correspondence_games(white_user_id, updated_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_correspondence_black_user ON correspondence_games(black_user_id, updated_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_correspondence_deadline ON correspondence_games(deadline) WHERE deadline IS NOT NULL;
+    `);
+
     console.log('[DB] Migrations complete');
 
     return pool;
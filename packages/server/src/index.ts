@@ -8,15 +8,20 @@ import { Server } from 'socket.io';
 import cors from 'cors';
 import { setupSocketHandlers } from './socket/socketServer.js';
 import { RoomManager } from './rooms/RoomManager.js';
+import { createRoomStore } from './rooms/RoomStore.js';
 import { initDatabase, isDatabaseAvailable } from './db/index.js';
 import { authRouter } from './routes/auth.js';
 import { statsRouter } from './routes/stats.js';
 import { armiesRouter } from './routes/armies.js';
 import { gamesRouter } from './routes/games.js';
+import { correspondenceRouter } from './routes/correspondence.js';
+import { sweepCorrespondenceTimeouts } from './services/correspondenceService.js';
 
 const PORT = process.env.PORT || 3001;
 // Allow all origins in development for LAN play
 const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+// How often correspondence games are checked for missed deadlines
+const CORRESPONDENCE_SWEEP_INTERVAL = 60 * 1000;
 
 // Create Express app
 const app = express();
@@ -35,6 +40,9 @@ app.use('/armies', armiesRouter);
 // Game history routes
 app.use('/games', gamesRouter);
 
+// Correspondence game routes
+app.use('/correspondence', correspondenceRouter);
+
 // Health check endpoint
 app.get('/health', (_req, res) => {
   res.json({
@@ -74,6 +82,18 @@ async function start() {
   // Initialize database (optional - works without it)
   await initDatabase();
 
+  // Bring back the games that were in progress when the server last stopped
+  roomManager.setStore(createRoomStore());
+  await roomManager.restoreRooms(io);
+
+  // Correspondence games that ran out of time while the server was down lose now
+  if (isDatabaseAvailable()) {
+    await sweepCorrespondenceTimeouts();
+    setInterval(() => {
+      void sweepCorrespondenceTimeouts();
+    }, CORRESPONDENCE_SWEEP_INTERVAL);
+  }
+
   // Start server
   httpServer.listen(PORT, () => {
     console.log(`Hyper Fairy Chess server running on port ${PORT}`);
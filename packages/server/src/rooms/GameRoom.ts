@@ -17,9 +17,14 @@ import type {
   GameOverMessage,
   SyncStateMessage,
   DraftPick,
+  ChatEntry,
 } from '@hyper-fairy-chess/shared';
 import type {
+  ClockSettings,
+  ClockState,
+  GameResult,
   GameState,
+  Move,
   PlayerColor,
   Position,
   PieceInstance,
@@ -27,6 +32,8 @@ import type {
 import {
   PlayerDraft,
   createEmptyDraft,
+  createAutoDraft,
+  createPiecesFromDraft,
   validateDraft,
 } from '@hyper-fairy-chess/shared';
 import {
@@ -38,25 +45,56 @@ import {
   getHeraldActualPosition,
   getPawnSwapPosition,
   shouldPawnSwapToBackRank,
+  planPlacement,
 } from '@hyper-fairy-chess/shared';
 import { PIECE_BY_ID } from '@hyper-fairy-chess/shared';
 import {
   createBoardState,
+  createPositionMap,
   getPieceAt,
-  hashPosition,
+  computeZobristKey,
   initializeRoyalTracking,
+  applyLayout,
 } from '@hyper-fairy-chess/shared';
 import {
   generateLegalMoves,
   prepareMoveFromPositions,
   executeMove,
+  notateMove,
 } from '@hyper-fairy-chess/shared';
 import {
   getGameResult,
   createDrawAgreementResult,
+  createResignationResult,
+  createTimeoutResult,
+  createEmptyHands,
+  validateDrop,
+  placeMercenaries,
+} from '@hyper-fairy-chess/shared';
+import {
+  getSeats,
+  createMultiplayerGameState,
+  eliminatePlayer,
+  settleEliminations,
+} from '@hyper-fairy-chess/shared';
+import {
+  createClockState,
+  startClock,
+  pressClock,
+  stopClock,
+  getFlagFallTime,
+  isFlagDown,
+} from '@hyper-fairy-chess/shared';
+import {
+  CHAT_HISTORY_LIMIT,
+  CHAT_RATE_LIMIT,
+  QUICK_CHAT_MESSAGES,
+  isChatRateLimited,
+  prepareChatText,
 } from '@hyper-fairy-chess/shared';
 import { recordGameResult, getUserElo, type EloUpdateResult } from '../services/eloService.js';
 import { saveGame } from '../services/gameService.js';
+import type { RoomSnapshot, RoomStore } from './RoomStore.js';
 
 interface RoomPlayer extends PlayerInfo {
   socketId: string;
@@ -64,6 +102,13 @@ interface RoomPlayer extends PlayerInfo {
   userId: string | null; // Database user ID for ELO tracking
 }
 
+// A read-only watcher: gets every broadcast but holds no seat
+interface RoomSpectator {
+  id: string;
+  socketId: string;
+  name: string;
+}
+
 const DISCONNECT_TIMEOUT = 60000; // 60 seconds
 const REVEAL_DURATION = 3000; // 3 seconds to show reveal
 
@@ -71,12 +116,12 @@ export class GameRoom {
   readonly code: string;
   private phase: RoomPhase = 'waiting';
   private players: Map<string, RoomPlayer> = new Map();
+  private spectators: Map<string, RoomSpectator> = new Map();
   private settings: RoomSettings;
   private lastActivity: number;
 
-  // Draft state
-  private whiteDraft: PlayerDraft | null = null;
-  private blackDraft: PlayerDraft | null = null;
+  // Draft state, by seat
+  private drafts: Map<PlayerColor, PlayerDraft> = new Map();
   private draftDeadline: number | null = null;
 
   // Game state
@@ -84,10 +129,16 @@ export class GameRoom {
   private gameState: GameState | null = null;
   private initialGameState: GameState | null = null; // Snapshot at game start (for replay)
 
+  // Chess clock (null when the room is untimed)
+  private clock: ClockState | null = null;
+
   // Timers
   private countdownTimer: ReturnType<typeof setInterval> | null = null;
   private draftTimer: ReturnType<typeof setTimeout> | null = null;
   private draftTickTimer: ReturnType<typeof setInterval> | null = null;
+  private placementTimer: ReturnType<typeof setTimeout> | null = null;
+  private placementDeadline: number | null = null;
+  private flagTimer: ReturnType<typeof setTimeout> | null = null;
   private disconnectTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
 
   // Draw offer state
@@ -100,12 +151,23 @@ export class GameRoom {
   private blindPlacements: Map<PlayerColor, Map<string, { piece: PieceInstance; position: Position }>> = new Map();
   private blindReady: Map<PlayerColor, boolean> = new Map();
 
+  // Chat - room history, when each player last sent, and how much of the
+  // history has already gone into a saved game record
+  private chat: ChatEntry[] = [];
+  private chatSentAt: Map<string, number[]> = new Map();
+  private chatSavedUpTo = 0;
+
   // Socket.io server reference
   private io: Server | null = null;
 
-  constructor(code: string, settings: RoomSettings) {
+  // Where snapshots go, and the save in flight (saves run one at a time, in order)
+  private store: RoomStore | null;
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(code: string, settings: RoomSettings, store: RoomStore | null = null) {
     this.code = code;
     this.settings = settings;
+    this.store = store;
     this.lastActivity = Date.now();
   }
 
@@ -128,7 +190,8 @@ export class GameRoom {
     this.io = socket.nsp.server;
     this.lastActivity = Date.now();
 
-    if (this.players.size >= 2) {
+    const seats = this.getSeats();
+    if (this.players.size >= seats.length) {
       return { success: false, error: 'Room is full' };
     }
 
@@ -136,7 +199,8 @@ export class GameRoom {
       return { success: false, error: 'Game already started' };
     }
 
-    const color: PlayerColor = this.players.size === 0 ? 'white' : 'black';
+    const taken = new Set(Array.from(this.players.values()).map(p => p.color));
+    const color = seats.find(seat => !taken.has(seat))!;
     const playerId = `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     const player: RoomPlayer = {
@@ -154,14 +218,40 @@ export class GameRoom {
     socket.join(this.code);
     console.log(`[GameRoom] Player ${playerId} (${color}) joined room ${this.code}, socket ${socket.id}`);
 
-    if (this.players.size === 2) {
-      console.log(`[GameRoom] Room ${this.code} now has 2 players, starting draft countdown`);
+    if (this.players.size === seats.length) {
+      console.log(`[GameRoom] Room ${this.code} now has ${seats.length} players, starting draft countdown`);
       this.startDraftCountdown();
     }
 
+    this.persist();
     return { success: true, playerId, color };
   }
 
+  /**
+   * Let a connection watch the room. Spectators join the room's broadcast
+   * channel, so they see everything the players are sent publicly; hidden
+   * drafts and blind placements only ever go to their owner.
+   */
+  addSpectator(socket: Socket, name: string): { spectatorId: string; syncState: SyncStateMessage } {
+    this.io = socket.nsp.server;
+    this.lastActivity = Date.now();
+
+    const spectatorId = `spectator_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.spectators.set(spectatorId, { id: spectatorId, socketId: socket.id, name });
+    socket.join(this.code);
+    console.log(`[GameRoom] Spectator ${spectatorId} (${name}) is watching room ${this.code}`);
+
+    return { spectatorId, syncState: this.buildSyncState(spectatorId) };
+  }
+
+  removeSpectator(spectatorId: string): void {
+    this.spectators.delete(spectatorId);
+  }
+
+  isSpectator(id: string): boolean {
+    return this.spectators.has(id);
+  }
+
   removePlayer(playerId: string): void {
     const player = this.players.get(playerId);
     if (!player) return;
@@ -178,9 +268,14 @@ export class GameRoom {
     if (this.phase === 'playing' && player.color) {
       this.endGameByDisconnect(player.color);
     }
+
+    this.persist();
   }
 
   handleDisconnect(playerId: string): void {
+    // Spectators don't hold a seat, so there's nothing to wait for
+    if (this.spectators.delete(playerId)) return;
+
     const player = this.players.get(playerId);
     if (!player) return;
 
@@ -196,13 +291,21 @@ export class GameRoom {
     });
 
     if (this.phase === 'playing') {
-      const timer = setTimeout(() => {
-        this.handleDisconnectTimeout(playerId);
-      }, DISCONNECT_TIMEOUT);
-      this.disconnectTimers.set(playerId, timer);
+      this.startDisconnectTimer(playerId);
     }
   }
 
+  /**
+   * Give a disconnected player until the timeout to come back before they lose
+   */
+  private startDisconnectTimer(playerId: string): void {
+    const timer = setTimeout(() => {
+      this.disconnectTimers.delete(playerId);
+      this.handleDisconnectTimeout(playerId);
+    }, DISCONNECT_TIMEOUT);
+    this.disconnectTimers.set(playerId, timer);
+  }
+
   handleReconnect(playerId: string, socket: Socket): SyncStateMessage | null {
     const player = this.players.get(playerId);
     if (!player) return null;
@@ -218,6 +321,8 @@ export class GameRoom {
     player.lastSeen = Date.now();
     this.lastActivity = Date.now();
 
+    // A room restored after a restart has no server reference until someone returns
+    this.io = socket.nsp.server;
     socket.join(this.code);
 
     this.broadcast({
@@ -236,26 +341,15 @@ export class GameRoom {
   }
 
   private endGameByDisconnect(disconnectedColor: PlayerColor): void {
-    if (!this.gameState) return;
+    if (!this.gameState || this.gameState.result) return;
 
-    const winner = disconnectedColor === 'white' ? 'black' : 'white';
-    this.gameState.result = {
-      type: 'timeout',
-      winner,
-      whiteVP: 0,
-      blackVP: 0,
-    };
-    this.phase = 'ended';
-
-    this.broadcast({
-      type: 'GAME_OVER',
-      timestamp: Date.now(),
-      result: this.gameState.result,
-      finalState: this.gameState,
-    } as GameOverMessage);
+    // A free-for-all carries on without them
+    if (this.isFreeForAll()) {
+      this.knockOut(disconnectedColor, 'disconnected');
+      return;
+    }
 
-    // Update ELO ratings
-    this.updateEloRatings('timeout', winner);
+    this.endGame(createTimeoutResult(disconnectedColor));
   }
 
   // =========================================================================
@@ -288,8 +382,7 @@ export class GameRoom {
 
   private startDraft(): void {
     this.phase = 'drafting';
-    this.whiteDraft = null;
-    this.blackDraft = null;
+    this.drafts.clear();
 
     // null means no time limit
     const hasTimeLimit = this.settings.draftTimeLimit !== null;
@@ -305,26 +398,36 @@ export class GameRoom {
 
     if (hasTimeLimit && timeLimit > 0) {
       this.draftDeadline = Date.now() + timeLimit * 1000;
-
-      // Send periodic countdown updates every second
-      this.draftTickTimer = setInterval(() => {
-        if (this.draftDeadline) {
-          const remaining = Math.max(0, Math.ceil((this.draftDeadline - Date.now()) / 1000));
-          this.broadcast({
-            type: 'DRAFT_COUNTDOWN',
-            timestamp: Date.now(),
-            timeRemaining: remaining,
-          });
-        }
-      }, 1000);
-
-      this.draftTimer = setTimeout(() => {
-        this.handleDraftTimeout();
-      }, timeLimit * 1000);
+      this.scheduleDraftTimers();
     } else {
       // No time limit - no deadline or timer
       this.draftDeadline = null;
     }
+
+    this.persist();
+  }
+
+  /**
+   * Count down to the draft deadline, defaulting anyone who hasn't drafted by then
+   */
+  private scheduleDraftTimers(): void {
+    if (this.draftDeadline === null) return;
+
+    // Send periodic countdown updates every second
+    this.draftTickTimer = setInterval(() => {
+      if (this.draftDeadline) {
+        const remaining = Math.max(0, Math.ceil((this.draftDeadline - Date.now()) / 1000));
+        this.broadcast({
+          type: 'DRAFT_COUNTDOWN',
+          timestamp: Date.now(),
+          timeRemaining: remaining,
+        });
+      }
+    }, 1000);
+
+    this.draftTimer = setTimeout(() => {
+      this.handleDraftTimeout();
+    }, Math.max(0, this.draftDeadline - Date.now()));
   }
 
   submitDraft(playerId: string, draftPicks: DraftPick[]): { success: boolean; error?: string } {
@@ -344,17 +447,13 @@ export class GameRoom {
     const draft = this.convertDraftPicksToPlayerDraft(draftPicks);
     console.log(`[GameRoom] Draft converted - budgetSpent: ${draft.budgetSpent}, selections:`, draft.selections);
 
-    const validation = validateDraft(draft, this.settings.budget, this.settings.boardSize);
+    const validation = validateDraft(draft, this.settings.budget, this.settings.boardSize, this.settings.slots);
     if (!validation.valid) {
       console.log(`[GameRoom] Draft validation failed - budget: ${this.settings.budget}, errors:`, validation.errors);
       return { success: false, error: validation.errors.join(', ') };
     }
 
-    if (player.color === 'white') {
-      this.whiteDraft = draft;
-    } else {
-      this.blackDraft = draft;
-    }
+    this.drafts.set(player.color, draft);
 
     console.log(`[GameRoom] Broadcasting DRAFT_SUBMITTED for player ${playerId} (${player.color})`);
     this.broadcast({
@@ -363,12 +462,13 @@ export class GameRoom {
       playerId,
     });
 
-    console.log(`[GameRoom] whiteDraft: ${!!this.whiteDraft}, blackDraft: ${!!this.blackDraft}`);
-    if (this.whiteDraft && this.blackDraft) {
-      console.log('[GameRoom] Both drafts submitted - calling completeDraft()');
+    console.log(`[GameRoom] ${this.drafts.size} of ${this.getSeats().length} drafts submitted`);
+    if (this.drafts.size === this.getSeats().length) {
+      console.log('[GameRoom] All drafts submitted - calling completeDraft()');
       this.completeDraft();
     }
 
+    this.persist();
     return { success: true };
   }
 
@@ -422,53 +522,49 @@ export class GameRoom {
       this.draftTickTimer = null;
     }
 
+    const drafts = Object.fromEntries(
+      this.getSeats().map(color => [color, this.convertPlayerDraftToDraftPicks(this.drafts.get(color)!)])
+    );
     this.broadcast({
       type: 'DRAFT_REVEAL',
       timestamp: Date.now(),
-      whiteDraft: this.convertPlayerDraftToDraftPicks(this.whiteDraft!),
-      blackDraft: this.convertPlayerDraftToDraftPicks(this.blackDraft!),
+      whiteDraft: drafts.white,
+      blackDraft: drafts.black,
+      ...(this.isFreeForAll() && { drafts }),
     } as DraftRevealMessage);
 
+    // Free-for-all armies are set out automatically, so play starts straight away
     setTimeout(() => {
-      this.startPlacement();
+      if (this.isFreeForAll()) {
+        this.startFreeForAll();
+      } else {
+        this.startPlacement();
+      }
     }, REVEAL_DURATION);
   }
 
   private handleDraftTimeout(): void {
     const defaultDraft = this.createDefaultDraft();
 
-    if (!this.whiteDraft) {
-      this.whiteDraft = defaultDraft;
-      this.broadcast({
-        type: 'DRAFT_TIMEOUT',
-        timestamp: Date.now(),
-        defaultedPlayer: 'white',
-      });
-    }
-    if (!this.blackDraft) {
-      this.blackDraft = defaultDraft;
+    for (const color of this.getSeats()) {
+      if (this.drafts.has(color)) continue;
+      this.drafts.set(color, defaultDraft);
       this.broadcast({
         type: 'DRAFT_TIMEOUT',
         timestamp: Date.now(),
-        defaultedPlayer: 'black',
+        defaultedPlayer: color,
       });
     }
 
     this.completeDraft();
+    this.persist();
   }
 
   private createDefaultDraft(): PlayerDraft {
-    const draft = createEmptyDraft();
-    draft.selections = [
-      { pieceTypeId: 'queen', count: 1 },
-      { pieceTypeId: 'rook', count: 2 },
-      { pieceTypeId: 'bishop', count: 2 },
-      { pieceTypeId: 'knight', count: 2 },
-      { pieceTypeId: 'pawn', count: 8 },
-    ];
-    draft.budgetSpent = 39;
-    draft.slotsUsed = { pawn: 8, piece: 6, royalty: 1 };
-    return draft;
+    return createAutoDraft(this.settings.budget, this.settings.boardSize, {
+      style: 'balanced',
+      slots: this.settings.slots,
+    });
   }
 
   // =========================================================================
@@ -481,19 +577,21 @@ export class GameRoom {
     const placementMode = this.settings.placementMode || 'alternating';
 
     this.placementState = createPlacementStateFromDrafts(
-      this.whiteDraft!,
-      this.blackDraft!,
+      this.drafts.get('white')!,
+      this.drafts.get('black')!,
       placementMode
     );
 
     this.gameState = this.createEmptyGameState();
 
     // Initialize blind placement state if in blind mode
+    let timeLimit = 0;
     if (placementMode === 'blind') {
       this.blindPlacements.set('white', new Map());
       this.blindPlacements.set('black', new Map());
       this.blindReady.set('white', false);
       this.blindReady.set('black', false);
+      timeLimit = this.startBlindPlacementTimer();
     }
 
     this.broadcast({
@@ -501,7 +599,63 @@ export class GameRoom {
       timestamp: Date.now(),
       placementState: this.placementState,
       gameState: this.gameState!,
+      timeLimit,
     } as PlacementStartMessage);
+
+    this.persist();
+  }
+
+  /**
+   * Blind placement shares the draft time limit. Returns the limit in seconds (0 = no limit).
+   */
+  private startBlindPlacementTimer(): number {
+    const timeLimit = this.settings.draftTimeLimit ?? 0;
+    this.placementDeadline = timeLimit > 0 ? Date.now() + timeLimit * 1000 : null;
+    this.schedulePlacementTimeout();
+    return timeLimit;
+  }
+
+  private schedulePlacementTimeout(): void {
+    if (this.placementTimer) {
+      clearTimeout(this.placementTimer);
+      this.placementTimer = null;
+    }
+
+    if (this.placementDeadline !== null) {
+      this.placementTimer = setTimeout(() => {
+        this.handleBlindPlacementTimeout();
+      }, Math.max(0, this.placementDeadline - Date.now()));
+    }
+  }
+
+  /**
+   * Auto-place whatever each player hasn't placed yet, then reveal the board
+   */
+  private handleBlindPlacementTimeout(): void {
+    this.placementTimer = null;
+    this.placementDeadline = null;
+    if (this.phase !== 'placement' || !this.placementState || !this.gameState) {
+      return;
+    }
+
+    for (const player of this.players.values()) {
+      // The board is revealed as soon as both players are ready
+      if (this.phase !== 'placement') break;
+      if (!player.color || this.blindReady.get(player.color)) continue;
+
+      const placements = this.blindPlacements.get(player.color);
+      const placedPieces = Array.from(placements?.values() ?? []).map(({ piece, position }) => ({
+        ...piece,
+        position,
+      }));
+      const board = createBoardState(this.gameState.board.dimensions, placedPieces);
+      const plan = planPlacement(this.placementState, player.color, board, this.settings.boardSize);
+
+      for (const { piece, position } of plan) {
+        this.handleBlindPlacePiece(player.id, piece.id, position);
+      }
+      this.handleBlindReady(player.id);
+    }
   }
 
   private createEmptyGameState(): GameState {
@@ -509,10 +663,14 @@ export class GameRoom {
     // Parse board size properly - it's a string like '8x8' or '10x10'
     const boardSizeStr = String(this.settings.boardSize);
     const [filesStr, ranksStr] = boardSizeStr.split('x');
-    const dimensions = {
-      files: parseInt(filesStr, 10) || 8,
-      ranks: parseInt(ranksStr, 10) || 8,
-    };
+    const dimensions = applyLayout(
+      {
+        files: parseInt(filesStr, 10) || 8,
+        ranks: parseInt(ranksStr, 10) || 8,
+        topology: this.settings.topology,
+      },
+      this.settings.layout ?? 'standard'
+    );
 
     return {
       phase: 'placement',
@@ -612,6 +770,7 @@ export class GameRoom {
       this.startPlay();
     }
 
+    this.persist();
     return { success: true };
   }
 
@@ -743,6 +902,8 @@ export class GameRoom {
       actualPosition: isHerald(piece) ? actualPosition : undefined,
       pawnSwap: pawnSwapInfo,
     });
+
+    this.persist();
   }
 
   handleBlindUnplacePiece(playerId: string, pieceId: string): void {
@@ -797,9 +958,11 @@ export class GameRoom {
       piece: {
         id: pieceToRestore.id,
         typeId: pieceToRestore.typeId,
-        owner: pieceToRestore.owner,
+        owner: player.color,
       },
     });
+
+    this.persist();
   }
 
   handleBlindReady(playerId: string): void {
@@ -843,6 +1006,8 @@ export class GameRoom {
     if (this.blindReady.get('white') && this.blindReady.get('black')) {
       this.revealBlindPlacements();
     }
+
+    this.persist();
   }
 
   handleBlindUnready(playerId: string): void {
@@ -874,6 +1039,8 @@ export class GameRoom {
       color: player.color,
       ready: false,
     });
+
+    this.persist();
   }
 
   private revealBlindPlacements(): void {
@@ -897,6 +1064,11 @@ export class GameRoom {
     }
 
     // Clear blind placement state
+    if (this.placementTimer) {
+      clearTimeout(this.placementTimer);
+      this.placementTimer = null;
+    }
+    this.placementDeadline = null;
     this.blindPlacements.clear();
     this.blindReady.clear();
 
@@ -911,6 +1083,99 @@ export class GameRoom {
     this.startPlay();
   }
 
+  // =========================================================================
+  // Free-for-all
+  // =========================================================================
+
+  /**
+   * Set out every seat's army on the cross board and start play
+   */
+  private startFreeForAll(): void {
+    const armies = Object.fromEntries(
+      this.getSeats().map(color => [color, createPiecesFromDraft(this.drafts.get(color)!, color)])
+    );
+    this.placementState = null;
+    this.gameState = createMultiplayerGameState(armies, this.settings.deadPieces, this.settings.budget);
+    this.startPlay();
+  }
+
+  /**
+   * Knock a free-for-all player out without a move (resigned, out of time or gone),
+   * passing the turn on if it was theirs
+   */
+  private knockOut(color: PlayerColor, reason: 'resignation' | 'timeout' | 'disconnected'): void {
+    if (!this.gameState || this.gameState.result) return;
+    if (this.gameState.multiplayer?.eliminated.includes(color)) return;
+
+    const previousTurn = this.gameState.currentTurn;
+    this.gameState = settleEliminations(eliminatePlayer(this.gameState, color));
+    this.lastActivity = Date.now();
+
+    // The next player's clock starts if the turn moved on
+    if (this.clock && this.gameState.currentTurn !== previousTurn) {
+      const now = Date.now();
+      this.clock = startClock(stopClock(this.clock, now), this.gameState.currentTurn, now);
+      this.scheduleFlagFall();
+    }
+
+    this.broadcast({
+      type: 'PLAYER_ELIMINATED',
+      timestamp: Date.now(),
+      color,
+      reason,
+      gameState: this.gameState,
+      clock: this.clock ?? undefined,
+    });
+
+    const result = getGameResult(this.gameState);
+    if (result) this.endGame(result);
+    this.persist();
+  }
+
+  // =========================================================================
+  // Clock
+  // =========================================================================
+
+  /**
+   * Get the room's clock. A per-move limit on its own is a Bronstein clock whose
+   * delay is the whole bank: every move may take up to the limit, and no longer.
+   */
+  private getClockSettings(): ClockSettings | null {
+    if (this.settings.clock) return this.settings.clock;
+    const limit = this.settings.moveTimeLimit;
+    return limit ? { baseTime: limit, increment: limit, mode: 'bronstein' } : null;
+  }
+
+  /**
+   * (Re)arm the timer for the running player's flag to fall
+   */
+  private scheduleFlagFall(): void {
+    if (this.flagTimer) {
+      clearTimeout(this.flagTimer);
+      this.flagTimer = null;
+    }
+    const flagFall = this.clock ? getFlagFallTime(this.clock) : null;
+    if (flagFall === null) return;
+
+    this.flagTimer = setTimeout(() => {
+      this.flagTimer = null;
+      this.handleFlagFall();
+    }, Math.max(0, flagFall - Date.now()));
+  }
+
+  private handleFlagFall(): void {
+    if (this.phase !== 'playing' || !this.clock?.running || !this.gameState) return;
+
+    const color = this.clock.running;
+    this.clock = stopClock(this.clock, Date.now());
+
+    if (this.isFreeForAll()) {
+      this.knockOut(color, 'timeout');
+    } else {
+      this.endGame(createTimeoutResult(color));
+    }
+  }
+
   // =========================================================================
   // Play Phase
   // =========================================================================
@@ -925,23 +1190,44 @@ export class GameRoom {
       // This tracks whether each player started with multiple royalty-tier pieces
       this.gameState.board = initializeRoyalTracking(this.gameState.board);
 
+      // Neutral Mercenaries join the board once both armies are placed
+      if (this.settings.mercenaries) {
+        this.gameState.board = placeMercenaries(this.gameState.board);
+      }
+
+      // In drops games captured pieces go to the captor's hand
+      if (this.settings.drops) {
+        this.gameState.hand = createEmptyHands();
+      }
+
       // Record the initial position for threefold repetition detection
-      const initialHash = hashPosition(
+      const initialKey = computeZobristKey(
         this.gameState.board,
         this.gameState.currentTurn,
-        this.gameState.enPassantTarget
+        this.gameState.enPassantTarget,
+        this.gameState.hand
       );
-      this.gameState.positionHistory = [initialHash];
+      this.gameState.positionHistory = [initialKey];
 
       // Snapshot initial state for replay (deep copy - no moves yet)
       this.initialGameState = JSON.parse(JSON.stringify(this.gameState));
     }
 
+    // The first player's clock starts now
+    const clockSettings = this.getClockSettings();
+    this.clock = clockSettings && this.gameState
+      ? startClock(createClockState(clockSettings, this.getSeats()), this.gameState.currentTurn, Date.now())
+      : null;
+    this.scheduleFlagFall();
+
     this.broadcast({
       type: 'GAME_START',
       timestamp: Date.now(),
       gameState: this.gameState!,
+      clock: this.clock ?? undefined,
     });
+
+    this.persist();
   }
 
   makeMove(
@@ -950,29 +1236,11 @@ export class GameRoom {
     to: Position,
     promotionPieceType?: string
   ): void {
-    if (this.phase !== 'playing' || !this.gameState) {
-      this.sendMoveRejected(playerId, 'INVALID_MOVE', 'Game not in play phase');
-      return;
-    }
-
-    const player = this.players.get(playerId);
-    if (!player || !player.color) {
-      this.sendMoveRejected(playerId, 'INVALID_MOVE', 'Player not found');
-      return;
-    }
-
-    if (this.gameState.currentTurn !== player.color) {
-      this.sendMoveRejected(playerId, 'NOT_YOUR_TURN', 'Not your turn');
-      return;
-    }
-
-    if (this.gameState.result) {
-      this.sendMoveRejected(playerId, 'GAME_OVER', 'Game is over');
-      return;
-    }
+    const color = this.getMovingColor(playerId);
+    if (!color || !this.gameState) return;
 
     const piece = getPieceAt(this.gameState.board, from);
-    if (!piece || piece.owner !== player.color) {
+    if (!piece || piece.owner !== color) {
       this.sendMoveRejected(playerId, 'INVALID_MOVE', 'No piece at that position');
       return;
     }
@@ -994,7 +1262,7 @@ export class GameRoom {
     // Create and execute the move using prepareMoveFromPositions
     // This handles special moves like castling, en passant, and special captures
     // (withdrawer, coordinator, boxer, chameleon, etc.)
-    const move = prepareMoveFromPositions(
+    const preparedMove = prepareMoveFromPositions(
       this.gameState,
       piece,
       from,
@@ -1002,11 +1270,72 @@ export class GameRoom {
       promotionPieceType
     );
 
-    if (!move) {
+    if (!preparedMove) {
       this.sendMoveRejected(playerId, 'INVALID_MOVE', 'Could not create move');
       return;
     }
 
+    this.playMove(preparedMove);
+  }
+
+  /**
+   * Drop a piece from the player's hand (drops games only)
+   */
+  dropPiece(playerId: string, pieceTypeId: string, to: Position): void {
+    const color = this.getMovingColor(playerId);
+    if (!color || !this.gameState) return;
+
+    const drop = validateDrop(this.gameState, pieceTypeId, to);
+    if (!drop.valid) {
+      this.sendMoveRejected(playerId, 'INVALID_MOVE', drop.reason);
+      return;
+    }
+
+    this.playMove(drop.move);
+  }
+
+  /**
+   * Get the color of a player who may move now, or reject the move and return null
+   */
+  private getMovingColor(playerId: string): PlayerColor | null {
+    if (this.phase !== 'playing' || !this.gameState) {
+      this.sendMoveRejected(playerId, 'INVALID_MOVE', 'Game not in play phase');
+      return null;
+    }
+
+    const player = this.players.get(playerId);
+    if (!player || !player.color) {
+      this.sendMoveRejected(playerId, 'INVALID_MOVE', 'Player not found');
+      return null;
+    }
+
+    if (this.gameState.currentTurn !== player.color) {
+      this.sendMoveRejected(playerId, 'NOT_YOUR_TURN', 'Not your turn');
+      return null;
+    }
+
+    if (this.gameState.result) {
+      this.sendMoveRejected(playerId, 'GAME_OVER', 'Game is over');
+      return null;
+    }
+
+    // A move that arrives after the flag fell but before the flag timer fired is too late
+    if (this.clock && isFlagDown(this.clock, player.color, Date.now())) {
+      this.handleFlagFall();
+      this.sendMoveRejected(playerId, 'GAME_OVER', 'Your time ran out');
+      return null;
+    }
+
+    return player.color;
+  }
+
+  /**
+   * Execute a legal move or drop, broadcast it and check for the end of the game
+   */
+  private playMove(preparedMove: Move): void {
+    if (!this.gameState) return;
+
+    const move = notateMove(this.gameState, preparedMove);
     const newGameState = executeMove(this.gameState, move);
 
     this.gameState = newGameState;
@@ -1015,28 +1344,53 @@ export class GameRoom {
     // Clear any pending draw offer when a move is made
     this.drawOffer = null;
 
+    const result = getGameResult(this.gameState);
+
+    // The mover's clock stops and the next player's starts
+    const clockSettings = this.getClockSettings();
+    if (this.clock && clockSettings) {
+      this.clock = pressClock(this.clock, clockSettings, result ? null : this.gameState.currentTurn, Date.now());
+      this.scheduleFlagFall();
+    }
+
     this.broadcast({
       type: 'MOVE_MADE',
       timestamp: Date.now(),
       move: move,
       gameState: this.gameState,
+      clock: this.clock ?? undefined,
     } as MoveMadeMessage);
 
-    const result = getGameResult(this.gameState);
     if (result) {
-      this.gameState.result = result;
-      this.phase = 'ended';
+      this.endGame(result);
+    }
 
-      this.broadcast({
-        type: 'GAME_OVER',
-        timestamp: Date.now(),
-        result,
-        finalState: this.gameState,
-      } as GameOverMessage);
+    this.persist();
+  }
 
-      // Update ELO ratings
-      this.updateEloRatings(result.type, result.winner);
-    }
+  /**
+   * End the game: stop the clocks, announce the result and record it
+   */
+  private endGame(result: GameResult): void {
+    if (!this.gameState) return;
+
+    this.gameState.result = result;
+    this.phase = 'ended';
+    if (this.clock) this.clock = stopClock(this.clock, Date.now());
+    this.scheduleFlagFall();
+
+    this.broadcast({
+      type: 'GAME_OVER',
+      timestamp: Date.now(),
+      result,
+      finalState: this.gameState,
+      clock: this.clock ?? undefined,
+    } as GameOverMessage);
+
+    this.persist();
+
+    // Update ELO ratings
+    this.updateEloRatings(result.type, result.winner);
   }
 
   private sendMoveRejected(
@@ -1060,26 +1414,14 @@ export class GameRoom {
 
   handleResign(playerId: string): void {
     const player = this.players.get(playerId);
-    if (!player || !player.color || !this.gameState) return;
+    if (!player || !player.color || !this.gameState || this.gameState.result) return;
 
-    const winner = player.color === 'white' ? 'black' : 'white';
-    this.gameState.result = {
-      type: 'resignation',
-      winner,
-      whiteVP: 0,
-      blackVP: 0,
-    };
-    this.phase = 'ended';
-
-    this.broadcast({
-      type: 'GAME_OVER',
-      timestamp: Date.now(),
-      result: this.gameState.result,
-      finalState: this.gameState,
-    } as GameOverMessage);
+    if (this.isFreeForAll()) {
+      this.knockOut(player.color, 'resignation');
+      return;
+    }
 
-    // Update ELO ratings
-    this.updateEloRatings('resignation', winner);
+    this.endGame(createResignationResult(player.color));
   }
 
   // =========================================================================
@@ -1090,8 +1432,8 @@ export class GameRoom {
     const player = this.players.get(playerId);
     if (!player || !player.color || !this.gameState) return;
 
-    // Can't offer draw if game is over
-    if (this.gameState.result || this.phase !== 'playing') return;
+    // Can't offer draw if game is over, or in a free-for-all
+    if (this.gameState.result || this.phase !== 'playing' || this.isFreeForAll()) return;
 
     // Can't offer if you already have a pending offer
     if (this.drawOffer === player.color) return;
@@ -1103,6 +1445,8 @@ export class GameRoom {
       timestamp: Date.now(),
       by: player.color,
     });
+
+    this.persist();
   }
 
   handleRespondDraw(playerId: string, accept: boolean): void {
@@ -1117,19 +1461,8 @@ export class GameRoom {
 
     if (accept) {
       // Game ends in draw by agreement
-      this.gameState.result = createDrawAgreementResult();
-      this.phase = 'ended';
       this.drawOffer = null;
-
-      this.broadcast({
-        type: 'GAME_OVER',
-        timestamp: Date.now(),
-        result: this.gameState.result,
-        finalState: this.gameState,
-      } as GameOverMessage);
-
-      // Update ELO ratings (draw = null winner)
-      this.updateEloRatings('draw-agreement', null);
+      this.endGame(createDrawAgreementResult(this.gameState.board));
     } else {
       // Draw declined
       this.drawOffer = null;
@@ -1138,9 +1471,76 @@ export class GameRoom {
         type: 'DRAW_DECLINED',
         timestamp: Date.now(),
       });
+      this.persist();
     }
   }
 
+  // =========================================================================
+  // Chat
+  // =========================================================================
+
+  handleChat(playerId: string, text?: string, quickMessageId?: string): void {
+    // Only seated players can talk; spectators just read along
+    const player = this.players.get(playerId);
+    if (!player) return;
+
+    const now = Date.now();
+    const sentAt = this.chatSentAt.get(playerId) ?? [];
+    if (isChatRateLimited(sentAt, now)) {
+      this.sendChatRejected(playerId, 'You are sending messages too quickly');
+      return;
+    }
+
+    let messageText: string;
+    if (quickMessageId) {
+      const quick = QUICK_CHAT_MESSAGES.find(m => m.id === quickMessageId);
+      if (!quick) {
+        this.sendChatRejected(playerId, 'Unknown quick message');
+        return;
+      }
+      messageText = quick.text;
+    } else {
+      const prepared = prepareChatText(text ?? '');
+      if (!prepared.valid) {
+        this.sendChatRejected(playerId, prepared.reason);
+        return;
+      }
+      messageText = prepared.text;
+    }
+
+    // Only the most recent sends matter to the rate limit
+    this.chatSentAt.set(playerId, [...sentAt.slice(1 - CHAT_RATE_LIMIT.messages), now]);
+
+    const entry: ChatEntry = {
+      id: `chat_${now}_${Math.random().toString(36).substring(2, 8)}`,
+      playerId,
+      name: player.name,
+      color: player.color,
+      text: messageText,
+      sentAt: now,
+    };
+    this.chat.push(entry);
+    if (this.chat.length > CHAT_HISTORY_LIMIT) {
+      this.chat.shift();
+    }
+
+    this.broadcast({
+      type: 'CHAT_MESSAGE',
+      timestamp: now,
+      entry,
+    });
+
+    this.persist();
+  }
+
+  private sendChatRejected(playerId: string, reason: string): void {
+    this.sendToPlayer(playerId, {
+      type: 'CHAT_REJECTED',
+      timestamp: Date.now(),
+      reason,
+    });
+  }
+
   // =========================================================================
   // Rematch Handling
   // =========================================================================
@@ -1164,35 +1564,45 @@ export class GameRoom {
       by: player.color,
     });
 
-    // Check if both players have proposed
-    if (this.rematchProposals.has('white') && this.rematchProposals.has('black')) {
+    // Check if every player has proposed
+    if (this.getSeats().every(color => this.rematchProposals.has(color))) {
       this.startRematch();
     }
+
+    this.persist();
   }
 
   private startRematch(): void {
     // Clear rematch proposals
     this.rematchProposals.clear();
 
+    // A free-for-all sets the same armies out again and plays straight away
+    if (this.isFreeForAll()) {
+      this.startFreeForAll();
+      return;
+    }
+
     // Reset to placement phase with the same drafts
     this.phase = 'placement';
 
     const placementMode = this.settings.placementMode || 'alternating';
 
     this.placementState = createPlacementStateFromDrafts(
-      this.whiteDraft!,
-      this.blackDraft!,
+      this.drafts.get('white')!,
+      this.drafts.get('black')!,
       placementMode
     );
 
     this.gameState = this.createEmptyGameState();
 
     // Initialize blind placement state if in blind mode
+    let timeLimit = 0;
     if (placementMode === 'blind') {
       this.blindPlacements.set('white', new Map());
       this.blindPlacements.set('black', new Map());
       this.blindReady.set('white', false);
       this.blindReady.set('black', false);
+      timeLimit = this.startBlindPlacementTimer();
     }
 
     this.lastActivity = Date.now();
@@ -1206,6 +1616,7 @@ export class GameRoom {
       timestamp: Date.now(),
       placementState: this.placementState,
       gameState: this.gameState!,
+      timeLimit,
     });
   }
 
@@ -1215,8 +1626,11 @@ export class GameRoom {
 
   private async updateEloRatings(
     resultType: string,
-    winnerColor: 'white' | 'black' | null
+    winnerColor: PlayerColor | null
   ): Promise<void> {
+    // Ratings and saved games are for two-player games only
+    if (this.isFreeForAll() || winnerColor === 'red' || winnerColor === 'blue') return;
+
     // Get players by color
     const whitePlayers = Array.from(this.players.values()).filter(p => p.color === 'white');
     const blackPlayers = Array.from(this.players.values()).filter(p => p.color === 'black');
@@ -1225,8 +1639,8 @@ export class GameRoom {
     const blackPlayer = blackPlayers[0];
 
     // Build draft picks for saving
-    const whiteDraftPicks = this.whiteDraft?.selections ?? null;
-    const blackDraftPicks = this.blackDraft?.selections ?? null;
+    const whiteDraftPicks = this.drafts.get('white')?.selections ?? null;
+    const blackDraftPicks = this.drafts.get('black')?.selections ?? null;
 
     const moves = this.gameState?.moveHistory ?? [];
 
@@ -1272,6 +1686,10 @@ export class GameRoom {
       console.log('[ELO] Skipping ELO update - not both players are authenticated');
     }
 
+    // Chat since the last saved game goes with this one
+    const chat = this.chat.filter(entry => entry.sentAt > this.chatSavedUpTo);
+    this.chatSavedUpTo = Date.now();
+
     // Save game record regardless of ELO eligibility
     try {
       await saveGame({
@@ -1290,12 +1708,164 @@ export class GameRoom {
         blackDraft: blackDraftPicks,
         initialBoardState: this.initialGameState,
         moves,
+        chat,
       });
     } catch (error) {
       console.error('[GameService] Error saving game record:', error);
     }
   }
 
+  // =========================================================================
+  // Persistence
+  // =========================================================================
+
+  /**
+   * Queue a snapshot of the room for the store. The snapshot is taken now,
+   * and saves run one after another, so the store always ends up with the
+   * latest state.
+   */
+  private persist(): void {
+    const store = this.store;
+    if (!store) return;
+
+    const snapshot = this.toSnapshot();
+    this.pendingSave = this.pendingSave
+      .then(() => store.save(snapshot))
+      .catch(error => console.error(`[RoomStore] Error saving room ${this.code}:`, error));
+  }
+
+  /**
+   * Stop saving the room and delete it from the store once any pending save is done
+   */
+  discard(): void {
+    const store = this.store;
+    if (!store) return;
+
+    this.store = null;
+    this.pendingSave = this.pendingSave
+      .then(() => store.remove(this.code))
+      .catch(error => console.error(`[RoomStore] Error removing room ${this.code}:`, error));
+  }
+
+  private toSnapshot(): RoomSnapshot {
+    const snapshot: RoomSnapshot = {
+      code: this.code,
+      settings: this.settings,
+      phase: this.phase,
+      players: Array.from(this.players.values()).map(p => ({
+        id: p.id,
+        name: p.name,
+        color: p.color,
+        isAccountUser: p.isAccountUser,
+        userId: p.userId,
+      })),
+      drafts: Object.fromEntries(this.drafts),
+      draftDeadline: this.draftDeadline,
+      placementState: this.placementState,
+      placementDeadline: this.placementDeadline,
+      blindPlacements: Object.fromEntries(
+        Array.from(this.blindPlacements, ([color, placements]) => [color, Array.from(placements.values())])
+      ),
+      blindReady: Object.fromEntries(this.blindReady),
+      gameState: this.gameState,
+      initialGameState: this.initialGameState,
+      clock: this.clock,
+      drawOffer: this.drawOffer,
+      rematchProposals: Array.from(this.rematchProposals),
+      chat: this.chat,
+      chatSavedUpTo: this.chatSavedUpTo,
+      lastActivity: this.lastActivity,
+      savedAt: Date.now(),
+    };
+
+    // Copy now - the room keeps changing while the save is queued
+    return JSON.parse(JSON.stringify(snapshot));
+  }
+
+  /**
+   * Bring the room back from a snapshot after a restart and pick up its
+   * timers where they left off. Every player starts out disconnected.
+   */
+  restore(snapshot: RoomSnapshot, io: Server): void {
+    this.io = io;
+    this.phase = snapshot.phase;
+    this.lastActivity = snapshot.lastActivity;
+
+    for (const player of snapshot.players) {
+      this.players.set(player.id, {
+        ...player,
+        socketId: '',
+        connected: false,
+        lastSeen: snapshot.savedAt,
+      });
+    }
+
+    this.drafts = new Map(Object.entries(snapshot.drafts) as Array<[PlayerColor, PlayerDraft]>);
+    this.draftDeadline = snapshot.draftDeadline;
+    this.placementState = snapshot.placementState;
+    this.placementDeadline = snapshot.placementDeadline;
+    this.blindPlacements = new Map(
+      (Object.entries(snapshot.blindPlacements) as Array<[PlayerColor, Array<{ piece: PieceInstance; position: Position }>]>)
+        .map(([color, placements]) => [color, new Map(placements.map(p => [p.piece.id, p]))])
+    );
+    this.blindReady = new Map(Object.entries(snapshot.blindReady) as Array<[PlayerColor, boolean]>);
+
+    // JSON drops the board's position map, so rebuild it from the pieces
+    this.gameState = snapshot.gameState && {
+      ...snapshot.gameState,
+      board: {
+        ...snapshot.gameState.board,
+        positionMap: createPositionMap(snapshot.gameState.board.pieces),
+      },
+    };
+    this.initialGameState = snapshot.initialGameState;
+    this.clock = snapshot.clock;
+    this.drawOffer = snapshot.drawOffer;
+    this.rematchProposals = new Set(snapshot.rematchProposals);
+    this.chat = snapshot.chat;
+    this.chatSavedUpTo = snapshot.chatSavedUpTo;
+
+    this.resumeTimers();
+  }
+
+  private resumeTimers(): void {
+    switch (this.phase) {
+      case 'waiting':
+        // The countdown was running when the server stopped
+        if (this.players.size === this.getSeats().length) {
+          this.startDraftCountdown();
+        }
+        break;
+
+      case 'drafting':
+        // Either every draft was in and about to be revealed, or the clock is still running
+        if (this.getSeats().every(color => this.drafts.has(color))) {
+          this.completeDraft();
+        } else {
+          this.scheduleDraftTimers();
+        }
+        break;
+
+      case 'placement':
+        if (this.placementState?.mode === 'blind') {
+          this.schedulePlacementTimeout();
+        }
+        break;
+
+      case 'playing':
+        // Time the server was down isn't charged: the running clock restarts now
+        if (this.clock?.running) {
+          this.clock = { ...this.clock, turnStartedAt: Date.now() };
+          this.scheduleFlagFall();
+        }
+        // Players who don't come back lose, as after any other disconnect
+        for (const playerId of this.players.keys()) {
+          this.startDisconnectTimer(playerId);
+        }
+        break;
+    }
+  }
+
   // =========================================================================
   // Utility Methods
   // =========================================================================
@@ -1341,6 +1911,17 @@ export class GameRoom {
       };
     }
 
+    // Drafts stay hidden until every seat has one and they're revealed
+    const revealed = this.phase !== 'drafting' || this.getSeats().every(color => this.drafts.has(color));
+    const whiteDraft = revealed ? this.drafts.get('white') : undefined;
+    const blackDraft = revealed ? this.drafts.get('black') : undefined;
+    const drafts = revealed && this.isFreeForAll() && this.drafts.size > 0
+      ? Object.fromEntries(
+          Array.from(this.drafts, ([color, draft]) => [color, this.convertPlayerDraftToDraftPicks(draft)])
+        )
+      : undefined;
+    const myDraft = player?.color ? this.drafts.get(player.color) : undefined;
+
     return {
       type: 'SYNC_STATE',
       timestamp: Date.now(),
@@ -1355,17 +1936,18 @@ export class GameRoom {
       })),
       myColor: player?.color || null,
       gameState: this.gameState || undefined,
+      clock: this.clock ?? undefined,
       placementState: this.placementState || undefined,
-      whiteDraft: this.whiteDraft ? this.convertPlayerDraftToDraftPicks(this.whiteDraft) : undefined,
-      blackDraft: this.blackDraft ? this.convertPlayerDraftToDraftPicks(this.blackDraft) : undefined,
+      whiteDraft: whiteDraft ? this.convertPlayerDraftToDraftPicks(whiteDraft) : undefined,
+      blackDraft: blackDraft ? this.convertPlayerDraftToDraftPicks(blackDraft) : undefined,
+      drafts,
       draftState: this.phase === 'drafting' ? {
-        myDraft: player?.color === 'white'
-          ? (this.whiteDraft ? this.convertPlayerDraftToDraftPicks(this.whiteDraft) : undefined)
-          : (this.blackDraft ? this.convertPlayerDraftToDraftPicks(this.blackDraft) : undefined),
-        opponentSubmitted: player?.color === 'white' ? !!this.blackDraft : !!this.whiteDraft,
+        myDraft: myDraft ? this.convertPlayerDraftToDraftPicks(myDraft) : undefined,
+        opponentSubmitted: this.getSeats().some(color => color !== player?.color && this.drafts.has(color)),
         timeRemaining: this.draftDeadline ? Math.max(0, (this.draftDeadline - Date.now()) / 1000) : 0,
       } : undefined,
       blindPlacementState,
+      chat: this.chat,
     };
   }
 
@@ -1373,6 +1955,21 @@ export class GameRoom {
     return this.players.size;
   }
 
+  getSpectatorCount(): number {
+    return this.spectators.size;
+  }
+
+  /**
+   * Get the room's seats in turn order: white and black, or three or four for a free-for-all
+   */
+  getSeats(): PlayerColor[] {
+    return getSeats(this.settings.playerCount ?? 2);
+  }
+
+  private isFreeForAll(): boolean {
+    return this.getSeats().length > 2;
+  }
+
   isPlaying(): boolean {
     return this.phase === 'playing';
   }
@@ -1407,6 +2004,14 @@ export class GameRoom {
       boardSize: this.settings.boardSize,
       placementMode: this.settings.placementMode,
       draftTimeLimit: this.settings.draftTimeLimit,
+      drops: this.settings.drops ?? false,
+      mercenaries: this.settings.mercenaries ?? false,
+      topology: this.settings.topology ?? 'flat',
+      layout: this.settings.layout ?? 'standard',
+      playerCount: this.getSeats().length,
+      clock: this.getClockSettings(),
+      phase: this.phase,
+      spectatorCount: this.spectators.size,
     };
   }
 
@@ -1424,6 +2029,8 @@ export class GameRoom {
     if (this.countdownTimer) clearInterval(this.countdownTimer);
     if (this.draftTimer) clearTimeout(this.draftTimer);
     if (this.draftTickTimer) clearInterval(this.draftTickTimer);
+    if (this.placementTimer) clearTimeout(this.placementTimer);
+    if (this.flagTimer) clearTimeout(this.flagTimer);
     for (const timer of this.disconnectTimers.values()) {
       clearTimeout(timer);
     }
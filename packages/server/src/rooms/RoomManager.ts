@@ -2,16 +2,38 @@
  * Room Manager - handles room lifecycle
  */
 
+import type { Server, Socket } from 'socket.io';
 import { GameRoom } from './GameRoom';
-import type { RoomSettings, LobbyRoom } from '@hyper-fairy-chess/shared';
+import { MemoryRoomStore, type RoomStore } from './RoomStore.js';
+import type { RoomSettings, LobbyRoom, PlayerColor, QueueEntry } from '@hyper-fairy-chess/shared';
+import { findBestMatch, matchPreferencesToSettings } from '@hyper-fairy-chess/shared';
 
 // Characters that are easy to distinguish (no 0/O, 1/I/l)
 const ROOM_CODE_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
 
+// How often the queue is re-checked, so rating windows that have widened can pair
+const MATCHMAKING_INTERVAL = 2000;
+
+/**
+ * A player waiting for a match, keyed by socket ID. `onMatched` runs once
+ * they've been seated in the new room.
+ */
+export interface QueuedPlayer extends QueueEntry {
+  socket: Socket;
+  name: string;
+  isAccountUser: boolean;
+  onMatched: (room: GameRoom, playerId: string, color: PlayerColor, opponentRating: number) => void;
+}
+
 export class RoomManager {
   private rooms: Map<string, GameRoom> = new Map();
+  private store: RoomStore = new MemoryRoomStore();
   private onLobbyChange?: () => void;
 
+  // Matchmaking queue
+  private queue: Map<string, QueuedPlayer> = new Map();
+  private queueTimer: ReturnType<typeof setInterval> | null = null;
+
   setLobbyChangeCallback(cb: () => void) {
     this.onLobbyChange = cb;
   }
@@ -20,6 +42,35 @@ export class RoomManager {
     this.onLobbyChange?.();
   }
 
+  /**
+   * Set where room snapshots are kept. Call before any rooms are created.
+   */
+  setStore(store: RoomStore) {
+    this.store = store;
+  }
+
+  /**
+   * Load the rooms that were live when the server last stopped. Their
+   * players rejoin with the room code and player ID they already hold.
+   */
+  async restoreRooms(io: Server): Promise<void> {
+    try {
+      const snapshots = await this.store.loadAll();
+      for (const snapshot of snapshots) {
+        const room = new GameRoom(snapshot.code, snapshot.settings, this.store);
+        room.restore(snapshot, io);
+        this.rooms.set(snapshot.code, room);
+      }
+
+      if (snapshots.length > 0) {
+        console.log(`Restored ${snapshots.length} room(s)`);
+        this.notifyLobbyChange();
+      }
+    } catch (error) {
+      console.error('[RoomStore] Error restoring rooms:', error);
+    }
+  }
+
   /**
    * Generate a unique 6-character room code
    */
@@ -48,7 +99,7 @@ export class RoomManager {
    */
   createRoom(settings: RoomSettings): GameRoom {
     const code = this.generateRoomCode();
-    const room = new GameRoom(code, settings);
+    const room = new GameRoom(code, settings, this.store);
     this.rooms.set(code, room);
 
     console.log(`Room created: ${code} (budget: ${settings.budget}, board: ${settings.boardSize}, draftTime: ${settings.draftTimeLimit})`);
@@ -71,6 +122,7 @@ export class RoomManager {
     const room = this.rooms.get(code);
     if (room) {
       room.cleanup();
+      room.discard();
       this.rooms.delete(code);
       console.log(`Room removed: ${code}`);
       this.notifyLobbyChange();
@@ -78,18 +130,108 @@ export class RoomManager {
   }
 
   /**
-   * Get all waiting rooms (1 player, not yet started)
+   * Get the rooms to list in the lobby: waiting rooms with a free seat, and
+   * games in progress that can be watched
    */
-  getWaitingRooms(): LobbyRoom[] {
+  getLobbyRooms(): LobbyRoom[] {
     const result: LobbyRoom[] = [];
     for (const room of this.rooms.values()) {
-      if (room.isWaiting() && room.getPlayerCount() === 1) {
+      const seated = room.getPlayerCount();
+      const hasFreeSeat = room.isWaiting() && seated >= 1 && seated < room.getSeats().length;
+      const inProgress = !room.isWaiting() && !room.isEnded();
+      if (hasFreeSeat || inProgress) {
         result.push(room.getLobbyInfo());
       }
     }
     return result;
   }
 
+  // =========================================================================
+  // Matchmaking
+  // =========================================================================
+
+  /**
+   * Add a player to the matchmaking queue (replacing any earlier entry for
+   * the same socket) and try to pair them straight away. Returns the number
+   * of players waiting.
+   */
+  enqueue(player: QueuedPlayer): number {
+    this.queue.set(player.id, player);
+    console.log(`[Matchmaking] ${player.name} queued (rating ${player.rating}, ${this.queue.size} waiting)`);
+
+    if (!this.queueTimer) {
+      this.queueTimer = setInterval(() => this.matchQueue(), MATCHMAKING_INTERVAL);
+    }
+
+    const waiting = this.queue.size;
+    this.matchQueue();
+    return waiting;
+  }
+
+  /**
+   * Take a player out of the queue. Returns false if they weren't in it.
+   */
+  dequeue(socketId: string): boolean {
+    const removed = this.queue.delete(socketId);
+    if (removed && this.queue.size === 0) {
+      this.stopQueueTimer();
+    }
+    return removed;
+  }
+
+  isQueued(socketId: string): boolean {
+    return this.queue.has(socketId);
+  }
+
+  /**
+   * Pair off everyone who can be paired, creating a room for each match
+   */
+  private matchQueue(): void {
+    let match = findBestMatch(Array.from(this.queue.values()), Date.now());
+    while (match) {
+      const [first, second] = match as [QueuedPlayer, QueuedPlayer];
+      this.queue.delete(first.id);
+      this.queue.delete(second.id);
+      this.startMatch(first, second);
+      match = findBestMatch(Array.from(this.queue.values()), Date.now());
+    }
+
+    if (this.queue.size === 0) {
+      this.stopQueueTimer();
+    }
+  }
+
+  private startMatch(first: QueuedPlayer, second: QueuedPlayer): void {
+    const room = this.createRoom(matchPreferencesToSettings(first.preferences));
+
+    // Seat both players before telling either, so each hears about the other
+    const seated: Array<{ player: QueuedPlayer; playerId: string; color: PlayerColor }> = [];
+    for (const player of [first, second]) {
+      const result = room.addPlayer(player.socket, player.name, player.isAccountUser, player.userId);
+      if (!result.success) {
+        console.error(`[Matchmaking] Failed to seat ${player.name} in ${room.code}: ${result.error}`);
+        this.removeRoom(room.code);
+        return;
+      }
+      seated.push({ player, playerId: result.playerId!, color: result.color! });
+    }
+
+    console.log(`[Matchmaking] Matched ${first.name} (${first.rating}) with ${second.name} (${second.rating}) in ${room.code}`);
+
+    this.notifyLobbyChange();
+
+    const [a, b] = seated;
+    a.player.onMatched(room, a.playerId, a.color, b.player.rating);
+    b.player.onMatched(room, b.playerId, b.color, a.player.rating);
+  }
+
+  private stopQueueTimer(): void {
+    if (this.queueTimer) {
+      clearInterval(this.queueTimer);
+      this.queueTimer = null;
+    }
+  }
+
   /**
    * Get server stats
    */
@@ -113,6 +255,7 @@ export class RoomManager {
       activeGames,
       waitingRooms,
       totalPlayers,
+      queuedPlayers: this.queue.size,
     };
   }
 
@@ -0,0 +1,115 @@
+/**
+ * Room Store - durable snapshots of live rooms
+ *
+ * Rooms save a snapshot on every phase change and move, and the server loads
+ * them back on boot, so a restart doesn't end the games in progress.
+ * Postgres is used when the database is available; otherwise rooms are kept
+ * in memory, which keeps the same code path in development but doesn't
+ * survive the process.
+ */
+
+import type {
+  ChatEntry,
+  ClockState,
+  GameState,
+  PieceInstance,
+  PlacementState,
+  PlayerColor,
+  PlayerDraft,
+  Position,
+  RoomPhase,
+  RoomSettings,
+} from '@hyper-fairy-chess/shared';
+import { getPool, isDatabaseAvailable } from '../db/index.js';
+
+// =========================================================================
+// Snapshot Types
+// =========================================================================
+
+/** A seated player; connection details are not kept, everyone reconnects */
+export interface StoredPlayer {
+  id: string;
+  name: string;
+  color: PlayerColor | null;
+  isAccountUser: boolean;
+  userId: string | null;
+}
+
+/**
+ * Everything needed to bring a room back. Plain JSON: Maps are stored as
+ * records or arrays, and the board's position map is rebuilt on load.
+ */
+export interface RoomSnapshot {
+  code: string;
+  settings: RoomSettings;
+  phase: RoomPhase;
+  players: StoredPlayer[];
+  drafts: Partial<Record<PlayerColor, PlayerDraft>>;
+  draftDeadline: number | null;
+  placementState: PlacementState | null;
+  placementDeadline: number | null;
+  blindPlacements: Partial<Record<PlayerColor, Array<{ piece: PieceInstance; position: Position }>>>;
+  blindReady: Partial<Record<PlayerColor, boolean>>;
+  gameState: GameState | null;
+  initialGameState: GameState | null;
+  clock: ClockState | null;
+  drawOffer: PlayerColor | null;
+  rematchProposals: PlayerColor[];
+  chat: ChatEntry[];
+  chatSavedUpTo: number;
+  lastActivity: number;
+  savedAt: number;
+}
+
+export interface RoomStore {
+  save(snapshot: RoomSnapshot): Promise<void>;
+  remove(code: string): Promise<void>;
+  loadAll(): Promise<RoomSnapshot[]>;
+}
+
+// =========================================================================
+// Implementations
+// =========================================================================
+
+export class MemoryRoomStore implements RoomStore {
+  private snapshots: Map<string, RoomSnapshot> = new Map();
+
+  async save(snapshot: RoomSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.code, snapshot);
+  }
+
+  async remove(code: string): Promise<void> {
+    this.snapshots.delete(code);
+  }
+
+  async loadAll(): Promise<RoomSnapshot[]> {
+    return Array.from(this.snapshots.values());
+  }
+}
+
+export class PostgresRoomStore implements RoomStore {
+  async save(snapshot: RoomSnapshot): Promise<void> {
+    await getPool()!.query(
+      `INSERT INTO live_rooms (code, snapshot, updated_at)
+       VALUES ($1, $2, CURRENT_TIMESTAMP)
+       ON CONFLICT (code) DO UPDATE SET snapshot = EXCLUDED.snapshot, updated_at = CURRENT_TIMESTAMP`,
+      [snapshot.code, JSON.stringify(snapshot)]
+    );
+  }
+
+  async remove(code: string): Promise<void> {
+    await getPool()!.query('DELETE FROM live_rooms WHERE code = $1', [code]);
+  }
+
+  async loadAll(): Promise<RoomSnapshot[]> {
+    const result = await getPool()!.query('SELECT snapshot FROM live_rooms');
+    return result.rows.map(row => row.snapshot as RoomSnapshot);
+  }
+}
+
+/**
+ * Pick the store for this server: Postgres if the database is up, memory otherwise
+ */
+export function createRoomStore(): RoomStore {
+  return isDatabaseAvailable() ? new PostgresRoomStore() : new MemoryRoomStore();
+}
@@ -0,0 +1,250 @@
+/**
+ * Correspondence API Routes - games played over days
+ *
+ * Correspondence games are for account users only. Every action answers with
+ * the game as the acting player may see it; the socket server tells both
+ * players about the change.
+ */
+
+import { Router, Request, Response } from 'express';
+import type { CorrespondenceSettings, DraftPick, PlacementStep, Position } from '@hyper-fairy-chess/shared';
+import {
+  getCorrespondenceSettingsError,
+  getCorrespondenceView,
+  playCorrespondenceMove,
+  resignCorrespondenceGame,
+  submitCorrespondenceDraft,
+  submitCorrespondencePlacement,
+} from '@hyper-fairy-chess/shared';
+import { isDatabaseAvailable } from '../db/index.js';
+import { verifyToken } from '../auth/jwt.js';
+import type { CorrespondenceActionResult, CorrespondenceGame } from '../services/correspondenceService.js';
+import {
+  applyCorrespondenceAction,
+  cancelCorrespondenceGame,
+  createCorrespondenceGame,
+  getCorrespondenceGame,
+  getOpenChallenges,
+  getPlayerColor,
+  getUserCorrespondenceGames,
+  joinCorrespondenceGame,
+  summarizeCorrespondenceGame,
+} from '../services/correspondenceService.js';
+
+export const correspondenceRouter = Router();
+
+function getAuthPayload(req: Request): { userId: string; username: string } | null {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+  const token = authHeader.substring(7);
+  return verifyToken(token);
+}
+
+/**
+ * Check the database and the token, answering the request if either is missing
+ */
+function requireAccount(req: Request, res: Response): { userId: string; username: string } | null {
+  if (!isDatabaseAvailable()) {
+    res.status(503).json({ error: 'Database unavailable' });
+    return null;
+  }
+  const payload = getAuthPayload(req);
+  if (!payload) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return null;
+  }
+  return payload;
+}
+
+/**
+ * The game as the given user may see it
+ */
+function toGameView(game: CorrespondenceGame, userId: string) {
+  const yourColor = getPlayerColor(game, userId);
+  return {
+    id: game.id,
+    whitePlayerName: game.whitePlayerName,
+    blackPlayerName: game.blackPlayerName,
+    yourColor,
+    state: getCorrespondenceView(game.state, yourColor),
+    updatedAt: game.updatedAt,
+  };
+}
+
+function sendActionResult(res: Response, result: CorrespondenceActionResult, userId: string): void {
+  if (!result.valid) {
+    res.status(result.reason === 'Game not found' ? 404 : 400).json({ error: result.reason });
+    return;
+  }
+  res.json({ game: toGameView(result.game, userId) });
+}
+
+function isPosition(value: unknown): value is Position {
+  const pos = value as Position | null;
+  return !!pos && typeof pos.file === 'string' && typeof pos.rank === 'number';
+}
+
+/**
+ * GET /correspondence
+ * The user's games, in progress first, with whose turn it is in each
+ */
+correspondenceRouter.get('/', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const games = await getUserCorrespondenceGames(payload.userId);
+  return res.json({ games: games.map((game) => summarizeCorrespondenceGame(game, payload.userId)) });
+});
+
+/**
+ * GET /correspondence/open
+ * Challenges from other players that are waiting for an opponent
+ */
+correspondenceRouter.get('/open', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const games = await getOpenChallenges();
+  return res.json({
+    games: games
+      .filter((game) => !getPlayerColor(game, payload.userId))
+      .map((game) => summarizeCorrespondenceGame(game, payload.userId)),
+  });
+});
+
+/**
+ * POST /correspondence
+ * Open a challenge
+ * Body: { budget, boardSize, daysPerMove, color?: 'white' | 'black' } - color is random if not set
+ */
+correspondenceRouter.post('/', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const { budget, boardSize, daysPerMove, color } = req.body ?? {};
+  const settings: CorrespondenceSettings = { budget, boardSize, daysPerMove };
+  const settingsError = getCorrespondenceSettingsError(settings);
+  if (settingsError) {
+    return res.status(400).json({ error: settingsError });
+  }
+
+  const seat = color === 'white' || color === 'black' ? color : Math.random() < 0.5 ? 'white' : 'black';
+  const game = await createCorrespondenceGame(payload.userId, payload.username, settings, seat);
+  if (!game) {
+    return res.status(500).json({ error: 'Could not create game' });
+  }
+  return res.status(201).json({ game: toGameView(game, payload.userId) });
+});
+
+/**
+ * GET /correspondence/:id
+ * The game as the requesting user may see it
+ */
+correspondenceRouter.get('/:id', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const game = await getCorrespondenceGame(String(req.params.id));
+  if (!game) {
+    return res.status(404).json({ error: 'Game not found' });
+  }
+  return res.json({ game: toGameView(game, payload.userId) });
+});
+
+/**
+ * DELETE /correspondence/:id
+ * Withdraw a challenge nobody has accepted yet
+ */
+correspondenceRouter.delete('/:id', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const cancelled = await cancelCorrespondenceGame(String(req.params.id), payload.userId);
+  if (!cancelled) {
+    return res.status(404).json({ error: 'No open challenge of yours with that ID' });
+  }
+  return res.json({ success: true });
+});
+
+/**
+ * POST /correspondence/:id/join
+ * Accept a challenge; the draft starts straight away
+ */
+correspondenceRouter.post('/:id/join', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const result = await joinCorrespondenceGame(String(req.params.id), payload.userId, payload.username);
+  sendActionResult(res, result, payload.userId);
+});
+
+/**
+ * POST /correspondence/:id/draft
+ * Body: { draft: DraftPick[] }
+ */
+correspondenceRouter.post('/:id/draft', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const picks = req.body?.draft;
+  if (!Array.isArray(picks)) {
+    return res.status(400).json({ error: 'Draft is required' });
+  }
+
+  const result = await applyCorrespondenceAction(String(req.params.id), payload.userId, (state, color, now) =>
+    submitCorrespondenceDraft(state, color, picks as DraftPick[], now)
+  );
+  sendActionResult(res, result, payload.userId);
+});
+
+/**
+ * POST /correspondence/:id/placement
+ * The whole blind placement, in the order the pieces were placed
+ * Body: { steps: PlacementStep[] }
+ */
+correspondenceRouter.post('/:id/placement', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const steps = req.body?.steps;
+  if (!Array.isArray(steps) || !steps.every((step) => typeof step?.pieceId === 'string' && isPosition(step.position))) {
+    return res.status(400).json({ error: 'Placement steps are required' });
+  }
+
+  const result = await applyCorrespondenceAction(String(req.params.id), payload.userId, (state, color, now) =>
+    submitCorrespondencePlacement(state, color, steps as PlacementStep[], now)
+  );
+  sendActionResult(res, result, payload.userId);
+});
+
+/**
+ * POST /correspondence/:id/move
+ * Body: { from: Position, to: Position, promotionPieceType?: string }
+ */
+correspondenceRouter.post('/:id/move', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const { from, to, promotionPieceType } = req.body ?? {};
+  if (!isPosition(from) || !isPosition(to)) {
+    return res.status(400).json({ error: 'Move needs a from and to square' });
+  }
+
+  const result = await applyCorrespondenceAction(String(req.params.id), payload.userId, (state, color, now) =>
+    playCorrespondenceMove(state, color, from, to, promotionPieceType, now)
+  );
+  sendActionResult(res, result, payload.userId);
+});
+
+/**
+ * POST /correspondence/:id/resign
+ */
+correspondenceRouter.post('/:id/resign', async (req: Request, res: Response) => {
+  const payload = requireAccount(req, res);
+  if (!payload) return;
+
+  const result = await applyCorrespondenceAction(String(req.params.id), payload.userId, (state, color) =>
+    resignCorrespondenceGame(state, color)
+  );
+  sendActionResult(res, result, payload.userId);
+});
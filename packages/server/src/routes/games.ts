@@ -5,7 +5,13 @@
 import { Router, Request, Response } from 'express';
 import { isDatabaseAvailable } from '../db/index.js';
 import { verifyToken } from '../auth/jwt.js';
-import { getUserGames, getGame } from '../services/gameService.js';
+import { parseGameRecord } from '@hyper-fairy-chess/shared';
+import {
+  getUserGames,
+  getGame,
+  exportGameRecord,
+  importedGameToRecord,
+} from '../services/gameService.js';
 
 export const gamesRouter = Router();
 
@@ -34,6 +40,26 @@ gamesRouter.get('/', async (req: Request, res: Response) => {
   return res.json({ games });
 });
 
+/**
+ * POST /games/import
+ * Parses a text game record and returns it in the same shape as GET /games/:id,
+ * so it can be replayed locally. Nothing is saved.
+ * Body: { record: string }
+ */
+gamesRouter.post('/import', (req: Request, res: Response) => {
+  const { record } = req.body ?? {};
+  if (typeof record !== 'string' || record.trim() === '') {
+    return res.status(400).json({ error: 'Record text is required' });
+  }
+
+  const result = parseGameRecord(record);
+  if (!result.valid) {
+    return res.status(400).json({ error: result.reason });
+  }
+
+  return res.json({ game: importedGameToRecord(result.game) });
+});
+
 /**
  * GET /games/:id
  * Returns full game record including moves and initial board state (for replay)
@@ -51,3 +77,23 @@ gamesRouter.get('/:id', async (req: Request, res: Response) => {
 
   return res.json({ game });
 });
+
+/**
+ * GET /games/:id/record
+ * Downloads a stored game as a text game record
+ * Public - anyone with the game ID can download it
+ */
+gamesRouter.get('/:id/record', async (req: Request, res: Response) => {
+  if (!isDatabaseAvailable()) {
+    return res.status(503).json({ error: 'Database unavailable' });
+  }
+
+  const game = await getGame(req.params.id as string);
+  if (!game) {
+    return res.status(404).json({ error: 'Game not found' });
+  }
+
+  res.type('text/plain');
+  res.attachment(`hyper-fairy-chess-${game.id}.txt`);
+  return res.send(exportGameRecord(game));
+});
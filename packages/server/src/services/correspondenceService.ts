@@ -0,0 +1,449 @@
+/**
+ * Correspondence Service - storage for games played over days
+ *
+ * Correspondence games aren't held in a live room. Each action loads the game
+ * with its row locked, applies one step of the shared correspondence rules and
+ * stores the result, so two actions on the same game can't interleave.
+ * Listeners (the socket server) hear about every change, and finished games
+ * are rated and saved to the game history like live ones.
+ */
+
+import type {
+  CorrespondencePhase,
+  CorrespondenceSettings,
+  CorrespondenceState,
+  GameResult,
+  RoomSettings,
+} from '@hyper-fairy-chess/shared';
+import {
+  createCorrespondenceState,
+  createPositionMap,
+  getColorsToAct,
+  resolveCorrespondenceTimeout,
+  startCorrespondenceGame,
+} from '@hyper-fairy-chess/shared';
+import { getPool, isDatabaseAvailable } from '../db/index.js';
+import { getUserElo, recordGameResult } from './eloService.js';
+import { saveGame } from './gameService.js';
+
+type Side = 'white' | 'black';
+
+export interface CorrespondenceGame {
+  id: string;
+  whiteUserId: string | null;
+  blackUserId: string | null;
+  whitePlayerName: string;
+  blackPlayerName: string;
+  state: CorrespondenceState;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A game as listed on the "My games" dashboard or among open challenges */
+export interface CorrespondenceGameSummary {
+  id: string;
+  whitePlayerName: string;
+  blackPlayerName: string;
+  yourColor: Side | null;
+  phase: CorrespondencePhase;
+  settings: CorrespondenceSettings;
+  toAct: Side[];
+  yourTurn: boolean;
+  deadline: number | null;
+  result: GameResult | null;
+  abandoned: boolean;
+  moveCount: number;
+  updatedAt: string;
+}
+
+export type CorrespondenceActionResult =
+  | { valid: true; game: CorrespondenceGame }
+  | { valid: false; reason: string };
+
+const GAME_COLUMNS = `id, white_user_id, black_user_id, white_player_name, black_player_name,
+  state, created_at, updated_at`;
+
+// =========================================================================
+// Change Listeners
+// =========================================================================
+
+type CorrespondenceListener = (game: CorrespondenceGame) => void;
+
+const listeners: CorrespondenceListener[] = [];
+
+/**
+ * Be told about every stored change to a correspondence game
+ */
+export function onCorrespondenceGameChanged(listener: CorrespondenceListener): void {
+  listeners.push(listener);
+}
+
+// =========================================================================
+// Reading
+// =========================================================================
+
+function rowToGame(row: Record<string, unknown>): CorrespondenceGame {
+  const state = row.state as CorrespondenceState;
+
+  // JSON drops the board's position map, so rebuild it from the pieces
+  if (state.gameState) {
+    const { board } = state.gameState;
+    state.gameState = { ...state.gameState, board: { ...board, positionMap: createPositionMap(board.pieces) } };
+  }
+
+  return {
+    id: row.id as string,
+    whiteUserId: row.white_user_id as string | null,
+    blackUserId: row.black_user_id as string | null,
+    whitePlayerName: row.white_player_name as string,
+    blackPlayerName: row.black_player_name as string,
+    state,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/**
+ * The color a user plays in a game, or null if they aren't seated in it
+ */
+export function getPlayerColor(game: CorrespondenceGame, userId: string): Side | null {
+  if (game.whiteUserId === userId) return 'white';
+  if (game.blackUserId === userId) return 'black';
+  return null;
+}
+
+export function summarizeCorrespondenceGame(game: CorrespondenceGame, userId: string): CorrespondenceGameSummary {
+  const { state } = game;
+  const yourColor = getPlayerColor(game, userId);
+  const toAct = getColorsToAct(state);
+  return {
+    id: game.id,
+    whitePlayerName: game.whitePlayerName,
+    blackPlayerName: game.blackPlayerName,
+    yourColor,
+    phase: state.phase,
+    settings: state.settings,
+    toAct,
+    yourTurn: yourColor !== null && toAct.includes(yourColor),
+    deadline: state.deadline,
+    result: state.result,
+    abandoned: state.abandoned,
+    moveCount: state.gameState?.moveHistory.length ?? 0,
+    updatedAt: game.updatedAt,
+  };
+}
+
+export async function getCorrespondenceGame(gameId: string): Promise<CorrespondenceGame | null> {
+  if (!isDatabaseAvailable()) return null;
+
+  try {
+    const result = await getPool()!.query(
+      `SELECT ${GAME_COLUMNS} FROM correspondence_games WHERE id = $1`,
+      [gameId]
+    );
+    return result.rows.length > 0 ? rowToGame(result.rows[0]) : null;
+  } catch (error) {
+    console.error('[Correspondence] Error fetching game:', error);
+    return null;
+  }
+}
+
+/**
+ * A user's games: everything in progress, then the most recently finished
+ */
+export async function getUserCorrespondenceGames(userId: string, limit = 50): Promise<CorrespondenceGame[]> {
+  if (!isDatabaseAvailable()) return [];
+
+  try {
+    const result = await getPool()!.query(
+      `SELECT ${GAME_COLUMNS} FROM correspondence_games
+       WHERE white_user_id = $1 OR black_user_id = $1
+       ORDER BY (phase = 'ended'), updated_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows.map(rowToGame);
+  } catch (error) {
+    console.error('[Correspondence] Error fetching user games:', error);
+    return [];
+  }
+}
+
+/**
+ * Challenges still waiting for an opponent, newest first
+ */
+export async function getOpenChallenges(limit = 20): Promise<CorrespondenceGame[]> {
+  if (!isDatabaseAvailable()) return [];
+
+  try {
+    const result = await getPool()!.query(
+      `SELECT ${GAME_COLUMNS} FROM correspondence_games
+       WHERE phase = 'waiting'
+       ORDER BY created_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(rowToGame);
+  } catch (error) {
+    console.error('[Correspondence] Error fetching open challenges:', error);
+    return [];
+  }
+}
+
+// =========================================================================
+// Writing
+// =========================================================================
+
+/**
+ * Open a challenge, seating its creator on the color they chose
+ */
+export async function createCorrespondenceGame(
+  userId: string,
+  username: string,
+  settings: CorrespondenceSettings,
+  color: Side
+): Promise<CorrespondenceGame | null> {
+  if (!isDatabaseAvailable()) return null;
+
+  const state = createCorrespondenceState(settings);
+  try {
+    const result = await getPool()!.query(
+      `INSERT INTO correspondence_games
+         (white_user_id, black_user_id, white_player_name, black_player_name, phase, state)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${GAME_COLUMNS}`,
+      [
+        color === 'white' ? userId : null,
+        color === 'black' ? userId : null,
+        color === 'white' ? username : '',
+        color === 'black' ? username : '',
+        state.phase,
+        JSON.stringify(state),
+      ]
+    );
+    const game = rowToGame(result.rows[0]);
+    notifyChanged(game);
+    return game;
+  } catch (error) {
+    console.error('[Correspondence] Error creating game:', error);
+    return null;
+  }
+}
+
+/**
+ * Take the open seat of a challenge; the draft starts straight away
+ */
+export function joinCorrespondenceGame(
+  gameId: string,
+  userId: string,
+  username: string
+): Promise<CorrespondenceActionResult> {
+  return updateGame(gameId, (game, now) => {
+    if (getPlayerColor(game, userId)) {
+      return { valid: false, reason: 'You are already in this game' };
+    }
+    const started = startCorrespondenceGame(game.state, now);
+    if (!started.valid) return started;
+
+    const seat: Side = game.whiteUserId ? 'black' : 'white';
+    return {
+      valid: true,
+      game: seat === 'white'
+        ? { ...game, whiteUserId: userId, whitePlayerName: username, state: started.state }
+        : { ...game, blackUserId: userId, blackPlayerName: username, state: started.state },
+    };
+  });
+}
+
+/**
+ * Withdraw a challenge nobody has accepted yet
+ */
+export async function cancelCorrespondenceGame(gameId: string, userId: string): Promise<boolean> {
+  if (!isDatabaseAvailable()) return false;
+
+  try {
+    const result = await getPool()!.query(
+      `DELETE FROM correspondence_games
+       WHERE id = $1 AND phase = 'waiting' AND (white_user_id = $2 OR black_user_id = $2)`,
+      [gameId, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } catch (error) {
+    console.error('[Correspondence] Error cancelling game:', error);
+    return false;
+  }
+}
+
+/**
+ * Apply one of a player's actions (draft, placement, move, resignation) to their game
+ */
+export function applyCorrespondenceAction(
+  gameId: string,
+  userId: string,
+  action: (state: CorrespondenceState, color: Side, now: number) =>
+    { valid: true; state: CorrespondenceState } | { valid: false; reason: string }
+): Promise<CorrespondenceActionResult> {
+  return updateGame(gameId, (game, now) => {
+    const color = getPlayerColor(game, userId);
+    if (!color) {
+      return { valid: false, reason: 'You are not playing in this game' };
+    }
+    const result = action(game.state, color, now);
+    return result.valid ? { valid: true, game: { ...game, state: result.state } } : result;
+  });
+}
+
+/**
+ * Resolve every game whose deadline has passed: whoever owes an action loses on time
+ */
+export async function sweepCorrespondenceTimeouts(): Promise<void> {
+  if (!isDatabaseAvailable()) return;
+
+  try {
+    const result = await getPool()!.query(
+      'SELECT id FROM correspondence_games WHERE deadline <= CURRENT_TIMESTAMP'
+    );
+    for (const row of result.rows) {
+      await updateGame(row.id, (game, now) => {
+        const state = resolveCorrespondenceTimeout(game.state, now);
+        return state ? { valid: true, game: { ...game, state } } : { valid: false, reason: 'Deadline not reached' };
+      });
+    }
+  } catch (error) {
+    console.error('[Correspondence] Error sweeping timeouts:', error);
+  }
+}
+
+/**
+ * Load a game with its row locked, apply an update and store it
+ */
+async function updateGame(
+  gameId: string,
+  update: (game: CorrespondenceGame, now: number) => CorrespondenceActionResult
+): Promise<CorrespondenceActionResult> {
+  if (!isDatabaseAvailable()) {
+    return { valid: false, reason: 'Database unavailable' };
+  }
+
+  const client = await getPool()!.connect();
+  let updated: CorrespondenceGame;
+  let ended: boolean;
+  try {
+    await client.query('BEGIN');
+    const current = await client.query(
+      `SELECT ${GAME_COLUMNS} FROM correspondence_games WHERE id = $1 FOR UPDATE`,
+      [gameId]
+    );
+    if (current.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return { valid: false, reason: 'Game not found' };
+    }
+
+    const game = rowToGame(current.rows[0]);
+    const result = update(game, Date.now());
+    if (!result.valid) {
+      await client.query('ROLLBACK');
+      return result;
+    }
+
+    const { state } = result.game;
+    const stored = await client.query(
+      `UPDATE correspondence_games
+       SET white_user_id = $2, black_user_id = $3, white_player_name = $4, black_player_name = $5,
+           phase = $6, state = $7, deadline = $8, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING ${GAME_COLUMNS}`,
+      [
+        gameId,
+        result.game.whiteUserId,
+        result.game.blackUserId,
+        result.game.whitePlayerName,
+        result.game.blackPlayerName,
+        state.phase,
+        JSON.stringify(state),
+        state.deadline !== null ? new Date(state.deadline) : null,
+      ]
+    );
+    await client.query('COMMIT');
+
+    updated = rowToGame(stored.rows[0]);
+    ended = game.state.phase !== 'ended' && state.phase === 'ended';
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    console.error('[Correspondence] Error updating game:', error);
+    return { valid: false, reason: 'Could not update game' };
+  } finally {
+    client.release();
+  }
+
+  if (ended && updated.state.result) {
+    await recordFinishedGame(updated, updated.state.result);
+  }
+  notifyChanged(updated);
+  return { valid: true, game: updated };
+}
+
+function notifyChanged(game: CorrespondenceGame): void {
+  for (const listener of listeners) {
+    try {
+      listener(game);
+    } catch (error) {
+      console.error('[Correspondence] Error notifying listener:', error);
+    }
+  }
+}
+
+/**
+ * Rate a finished game and save it to both players' game history
+ */
+async function recordFinishedGame(game: CorrespondenceGame, result: GameResult): Promise<void> {
+  const { state } = game;
+  const winnerColor = result.winner === 'white' || result.winner === 'black' ? result.winner : null;
+
+  let whiteEloBefore: number | null = null;
+  let blackEloBefore: number | null = null;
+  let whiteEloChange: number | null = null;
+  let blackEloChange: number | null = null;
+
+  if (game.whiteUserId && game.blackUserId) {
+    try {
+      [whiteEloBefore, blackEloBefore] = await Promise.all([
+        getUserElo(game.whiteUserId),
+        getUserElo(game.blackUserId),
+      ]);
+      const eloResult = await recordGameResult(game.whiteUserId, game.blackUserId, result.type, winnerColor);
+      whiteEloChange = eloResult?.whiteEloChange ?? null;
+      blackEloChange = eloResult?.blackEloChange ?? null;
+    } catch (error) {
+      console.error('[ELO] Error updating ELO ratings:', error);
+    }
+  }
+
+  // Saved games carry room settings; a correspondence game is an untimed blind-placement game
+  const settings: RoomSettings = {
+    budget: state.settings.budget,
+    boardSize: state.settings.boardSize,
+    draftTimeLimit: null,
+    moveTimeLimit: null,
+    placementMode: 'blind',
+  };
+
+  await saveGame({
+    whiteUserId: game.whiteUserId,
+    blackUserId: game.blackUserId,
+    whitePlayerName: game.whitePlayerName,
+    blackPlayerName: game.blackPlayerName,
+    resultType: result.type,
+    winnerColor,
+    whiteEloBefore,
+    blackEloBefore,
+    whiteEloChange,
+    blackEloChange,
+    settings,
+    whiteDraft: state.drafts.white?.selections ?? null,
+    blackDraft: state.drafts.black?.selections ?? null,
+    initialBoardState: state.initialGameState,
+    moves: state.gameState?.moveHistory ?? [],
+    chat: [],
+  });
+}
@@ -1,6 +1,11 @@
 import { getPool, isDatabaseAvailable } from '../db/index.js';
 import type { GameState, Move } from '@hyper-fairy-chess/shared';
-import type { RoomSettings, DraftPick } from '@hyper-fairy-chess/shared';
+import type { RoomSettings, DraftPick, RecordedGame, ChatEntry } from '@hyper-fairy-chess/shared';
+import {
+  writeGameRecord,
+  getGameRecordResult,
+  formatGameRecordDate,
+} from '@hyper-fairy-chess/shared';
 
 export interface SaveGameParams {
   whiteUserId: string | null;
@@ -18,6 +23,7 @@ export interface SaveGameParams {
   blackDraft: DraftPick[] | null;
   initialBoardState: GameState | null;
   moves: Move[];
+  chat: ChatEntry[];
 }
 
 export interface GameSummary {
@@ -34,10 +40,13 @@ export interface GameSummary {
 }
 
 export interface GameRecord extends GameSummary {
+  whiteEloBefore: number | null;
+  blackEloBefore: number | null;
   whiteDraft: DraftPick[] | null;
   blackDraft: DraftPick[] | null;
   initialBoardState: GameState | null;
   moves: Move[] | null;
+  chat: ChatEntry[] | null;
 }
 
 export async function saveGame(params: SaveGameParams): Promise<string | null> {
@@ -50,8 +59,9 @@ export async function saveGame(params: SaveGameParams): Promise<string | null> {
         white_user_id, black_user_id, white_player_name, black_player_name,
         result_type, winner_color,
         white_elo_before, black_elo_before, white_elo_change, black_elo_change,
-        settings, white_draft, black_draft, initial_board_state, moves, move_count
-      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)
+        settings, white_draft, black_draft, initial_board_state, moves, move_count,
+        chat
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17)
       RETURNING id`,
       [
         params.whiteUserId,
@@ -70,6 +80,7 @@ export async function saveGame(params: SaveGameParams): Promise<string | null> {
         params.initialBoardState ? JSON.stringify(params.initialBoardState) : null,
         params.moves.length > 0 ? JSON.stringify(params.moves) : null,
         params.moves.length,
+        params.chat.length > 0 ? JSON.stringify(params.chat) : null,
       ]
     );
     return result.rows[0].id;
@@ -120,8 +131,9 @@ export async function getGame(gameId: string): Promise<GameRecord | null> {
   try {
     const result = await pool.query(
       `SELECT id, white_player_name, black_player_name, result_type, winner_color,
-              white_elo_change, black_elo_change, settings, move_count, played_at,
-              white_draft, black_draft, initial_board_state, moves
+              white_elo_before, black_elo_before, white_elo_change, black_elo_change,
+              settings, move_count, played_at,
+              white_draft, black_draft, initial_board_state, moves, chat
        FROM games WHERE id = $1`,
       [gameId]
     );
@@ -135,6 +147,8 @@ export async function getGame(gameId: string): Promise<GameRecord | null> {
       blackPlayerName: row.black_player_name,
       resultType: row.result_type,
       winnerColor: row.winner_color,
+      whiteEloBefore: row.white_elo_before,
+      blackEloBefore: row.black_elo_before,
       whiteEloChange: row.white_elo_change,
       blackEloChange: row.black_elo_change,
       settings: row.settings,
@@ -144,9 +158,62 @@ export async function getGame(gameId: string): Promise<GameRecord | null> {
       blackDraft: row.black_draft,
       initialBoardState: row.initial_board_state,
       moves: row.moves,
+      chat: row.chat,
     };
   } catch (error) {
     console.error('[GameService] Error fetching game:', error);
     return null;
   }
 }
+
+/**
+ * Write a stored game in the text game record format
+ */
+export function exportGameRecord(game: GameRecord): string {
+  const winner = game.winnerColor === 'white' || game.winnerColor === 'black' ? game.winnerColor : null;
+  return writeGameRecord({
+    tags: {
+      white: game.whitePlayerName,
+      black: game.blackPlayerName,
+      whiteElo: game.whiteEloBefore,
+      blackElo: game.blackEloBefore,
+      result: getGameRecordResult(winner),
+      termination: game.resultType,
+      date: formatGameRecordDate(new Date(game.playedAt)),
+      settings: game.settings,
+    },
+    whiteDraft: game.whiteDraft,
+    blackDraft: game.blackDraft,
+    initialState: game.initialBoardState,
+    moves: game.moves ?? [],
+  });
+}
+
+/**
+ * Convert an imported game record into the same shape as a stored game, for replay.
+ * Imported games are not saved, so they have no ID.
+ */
+export function importedGameToRecord(game: RecordedGame): Omit<GameRecord, 'id'> {
+  const { tags } = game;
+  const winnerColor = tags.result === '1-0' ? 'white' : tags.result === '0-1' ? 'black' : null;
+  return {
+    whitePlayerName: tags.white,
+    blackPlayerName: tags.black,
+    resultType: tags.termination ?? (tags.result === '*' ? 'unfinished' : 'unknown'),
+    winnerColor,
+    whiteEloBefore: tags.whiteElo,
+    blackEloBefore: tags.blackElo,
+    whiteEloChange: null,
+    blackEloChange: null,
+    settings: tags.settings,
+    moveCount: game.moves.length,
+    playedAt: tags.date && /^\d{4}\.\d{2}\.\d{2}$/.test(tags.date)
+      ? `${tags.date.replace(/\./g, '-')}T00:00:00.000Z`
+      : new Date().toISOString(),
+    whiteDraft: game.whiteDraft,
+    blackDraft: game.blackDraft,
+    initialBoardState: game.initialState,
+    moves: game.moves,
+    chat: null,
+  };
+}
@@ -4,22 +4,43 @@
 
 import type { Server, Socket } from 'socket.io';
 import type { RoomManager } from '../rooms/RoomManager.js';
+import type { GameRoom } from '../rooms/GameRoom.js';
 import type {
   ClientToServerMessage,
   CreateRoomMessage,
   JoinRoomMessage,
+  JoinQueueMessage,
+  MatchFoundMessage,
   DraftSubmitMessage,
   PlacePieceMessage,
   MakeMoveMessage,
+  DropPieceMessage,
   ReconnectMessage,
   RespondDrawMessage,
+  SendChatMessage,
+  CorrespondenceSubscribeMessage,
+  CorrespondenceMoveMessage,
   RoomCreatedMessage,
   RoomJoinedMessage,
   PlayerJoinedMessage,
   RoomErrorMessage,
+  RoomSettings,
   Position,
 } from '@hyper-fairy-chess/shared';
+import {
+  MATCHMAKING_DEFAULT_RATING,
+  MULTIPLAYER_BOARD_SIZE,
+  MULTIPLAYER_SLOTS,
+  matchPreferencesToSettings,
+  parseBoardSize,
+  playCorrespondenceMove,
+} from '@hyper-fairy-chess/shared';
 import { verifyToken } from '../auth/jwt.js';
+import { getUserElo } from '../services/eloService.js';
+import {
+  applyCorrespondenceAction,
+  onCorrespondenceGameChanged,
+} from '../services/correspondenceService.js';
 
 /**
  * Validate a session token and extract user info.
@@ -47,17 +68,30 @@ export function setupSocketHandlers(io: Server, roomManager: RoomManager): void
   roomManager.setLobbyChangeCallback(() => {
     io.emit('message', {
       type: 'LOBBY_UPDATED',
-      rooms: roomManager.getWaitingRooms(),
+      rooms: roomManager.getLobbyRooms(),
       timestamp: Date.now(),
     });
   });
 
+  // Tell both players whenever one of their correspondence games changes
+  onCorrespondenceGameChanged((game) => {
+    for (const userId of [game.whiteUserId, game.blackUserId]) {
+      if (!userId) continue;
+      io.to(getCorrespondenceChannel(userId)).emit('message', {
+        type: 'CORRESPONDENCE_UPDATED',
+        timestamp: Date.now(),
+        gameId: game.id,
+      });
+    }
+  });
+
   io.on('connection', (socket: Socket) => {
     console.log(`Client connected: ${socket.id}`);
 
     // Track which room/player this socket belongs to
     let currentRoomCode: string | null = null;
     let currentPlayerId: string | null = null;
+    let correspondenceUserId: string | null = null;
 
     socket.on('message', (msg: ClientToServerMessage) => {
       try {
@@ -66,6 +100,8 @@ export function setupSocketHandlers(io: Server, roomManager: RoomManager): void
           set roomCode(code: string | null) { currentRoomCode = code; },
           get playerId() { return currentPlayerId; },
           set playerId(id: string | null) { currentPlayerId = id; },
+          get correspondenceUserId() { return correspondenceUserId; },
+          set correspondenceUserId(id: string | null) { correspondenceUserId = id; },
         });
       } catch (error) {
         console.error('Error handling message:', error);
@@ -81,10 +117,14 @@ export function setupSocketHandlers(io: Server, roomManager: RoomManager): void
     socket.on('disconnect', () => {
       console.log(`Client disconnected: ${socket.id}`);
 
+      roomManager.dequeue(socket.id);
+
       if (currentRoomCode && currentPlayerId) {
         const room = roomManager.getRoom(currentRoomCode);
         if (room) {
+          const wasSpectator = room.isSpectator(currentPlayerId);
           room.handleDisconnect(currentPlayerId);
+          if (wasSpectator) roomManager.notifyLobbyChange();
         }
       }
     });
@@ -99,6 +139,7 @@ export function setupSocketHandlers(io: Server, roomManager: RoomManager): void
 interface SocketState {
   roomCode: string | null;
   playerId: string | null;
+  correspondenceUserId: string | null; // Account whose correspondence games this socket follows
 }
 
 function handleMessage(
@@ -116,6 +157,26 @@ function handleMessage(
       handleJoinRoom(socket, msg as JoinRoomMessage, roomManager, state);
       break;
 
+    case 'JOIN_QUEUE':
+      handleJoinQueue(socket, msg as JoinQueueMessage, roomManager, state).catch((error) => {
+        console.error('[Matchmaking] Error joining queue:', error);
+      });
+      break;
+
+    case 'LEAVE_QUEUE':
+      handleLeaveQueue(socket, roomManager);
+      break;
+
+    case 'CORRESPONDENCE_SUBSCRIBE':
+      handleCorrespondenceSubscribe(socket, msg as CorrespondenceSubscribeMessage, state);
+      break;
+
+    case 'CORRESPONDENCE_MOVE':
+      handleCorrespondenceMove(socket, msg as CorrespondenceMoveMessage, state).catch((error) => {
+        console.error('[Correspondence] Error making move:', error);
+      });
+      break;
+
     case 'LEAVE_ROOM':
       handleLeaveRoom(socket, roomManager, state);
       break;
@@ -148,6 +209,10 @@ function handleMessage(
       handleMakeMove(socket, msg as MakeMoveMessage, roomManager, state);
       break;
 
+    case 'DROP_PIECE':
+      handleDropPiece(socket, msg as DropPieceMessage, roomManager, state);
+      break;
+
     case 'RESIGN':
       handleResign(socket, roomManager, state);
       break;
@@ -164,6 +229,10 @@ function handleMessage(
       handleProposeRematch(socket, roomManager, state);
       break;
 
+    case 'SEND_CHAT':
+      handleSendChat(socket, msg as SendChatMessage, roomManager, state);
+      break;
+
     case 'RECONNECT':
       handleReconnect(socket, msg as ReconnectMessage, roomManager, state);
       break;
@@ -171,7 +240,7 @@ function handleMessage(
     case 'GET_LOBBY':
       socket.emit('message', {
         type: 'LOBBY_LIST',
-        rooms: roomManager.getWaitingRooms(),
+        rooms: roomManager.getLobbyRooms(),
         timestamp: Date.now(),
       });
       break;
@@ -189,6 +258,32 @@ function handleMessage(
   }
 }
 
+/**
+ * Check room settings from a client, returning why they can't be used (or null if they can)
+ */
+function getSettingsError(settings: RoomSettings): string | null {
+  const playerCount = settings.playerCount ?? 2;
+  if (![2, 3, 4].includes(playerCount)) {
+    return `Unsupported player count: ${playerCount}`;
+  }
+  if (playerCount > 2) {
+    if (settings.drops || settings.mercenaries || settings.topology === 'cylinder' || (settings.layout ?? 'standard') !== 'standard') {
+      return 'Free-for-all games cannot use drops, Mercenaries, cylinders or layouts';
+    }
+  } else if (!parseBoardSize(String(settings.boardSize))) {
+    return `Unsupported board size: ${settings.boardSize}`;
+  }
+
+  const { clock } = settings;
+  if (clock) {
+    const validMode = clock.mode === 'fischer' || clock.mode === 'bronstein';
+    if (!validMode || !(clock.baseTime > 0) || !(clock.increment >= 0)) {
+      return 'Invalid clock settings';
+    }
+  }
+  return null;
+}
+
 function handleCreateRoom(
   socket: Socket,
   msg: CreateRoomMessage,
@@ -201,7 +296,26 @@ function handleCreateRoom(
     msg.playerName
   );
 
-  const room = roomManager.createRoom(msg.settings);
+  const settingsError = getSettingsError(msg.settings);
+  if (settingsError) {
+    socket.emit('message', {
+      type: 'ROOM_ERROR',
+      timestamp: Date.now(),
+      error: 'INVALID_SETTINGS',
+      message: settingsError,
+    } as RoomErrorMessage);
+    return;
+  }
+
+  // Free-for-all games are always on the cross board, one two-line arm per army
+  const settings: RoomSettings = (msg.settings.playerCount ?? 2) > 2
+    ? { ...msg.settings, boardSize: MULTIPLAYER_BOARD_SIZE, slots: MULTIPLAYER_SLOTS, placementMode: 'alternating' }
+    : msg.settings;
+
+  // Creating a room takes the player out of matchmaking
+  roomManager.dequeue(socket.id);
+
+  const room = roomManager.createRoom(settings);
   const result = room.addPlayer(socket, verifiedName, isAccountUser, userId);
 
   if (!result.success) {
@@ -251,6 +365,16 @@ function handleJoinRoom(
     msg.playerName
   );
 
+  // Joining or watching a room takes the player out of matchmaking
+  roomManager.dequeue(socket.id);
+
+  // Once every seat is taken, or the game has started, joiners watch instead
+  const isFull = room.getPlayerCount() >= room.getSeats().length;
+  if (msg.spectate || isFull || !room.isWaiting()) {
+    handleSpectate(socket, room, verifiedName, roomManager, state);
+    return;
+  }
+
   const result = room.addPlayer(socket, verifiedName, isAccountUser, userId);
 
   if (!result.success) {
@@ -295,6 +419,171 @@ function handleJoinRoom(
   } as PlayerJoinedMessage);
 }
 
+function handleSpectate(
+  socket: Socket,
+  room: GameRoom,
+  name: string,
+  roomManager: RoomManager,
+  state: SocketState
+): void {
+  const { spectatorId, syncState } = room.addSpectator(socket, name);
+
+  state.roomCode = room.code;
+  state.playerId = spectatorId;
+
+  roomManager.notifyLobbyChange();
+
+  socket.emit('message', {
+    type: 'ROOM_JOINED',
+    timestamp: Date.now(),
+    roomCode: room.code,
+    playerId: spectatorId,
+    role: 'spectator',
+    settings: room.getSettings(),
+    players: room.getPlayers(),
+    phase: room.getPhase(),
+  } as RoomJoinedMessage);
+
+  // Catch the spectator up on the game so far
+  socket.emit('message', syncState);
+}
+
+/**
+ * Queue for a match. Account players are paired by their stored rating,
+ * guests at the default rating; the room is created once a match is found.
+ */
+async function handleJoinQueue(
+  socket: Socket,
+  msg: JoinQueueMessage,
+  roomManager: RoomManager,
+  state: SocketState
+): Promise<void> {
+  if (state.roomCode) return;
+
+  const { isAccountUser, verifiedName, userId } = validateSessionToken(
+    msg.sessionToken,
+    msg.playerName
+  );
+
+  const settingsError = getSettingsError(matchPreferencesToSettings(msg.preferences));
+  if (settingsError) {
+    socket.emit('message', {
+      type: 'ROOM_ERROR',
+      timestamp: Date.now(),
+      error: 'INVALID_SETTINGS',
+      message: settingsError,
+    } as RoomErrorMessage);
+    return;
+  }
+
+  const storedRating = userId ? await getUserElo(userId) : null;
+  const rating = storedRating ?? MATCHMAKING_DEFAULT_RATING;
+
+  // The player may have left, or joined a room, while the rating was looked up
+  if (!socket.connected || state.roomCode) return;
+
+  const queueSize = roomManager.enqueue({
+    id: socket.id,
+    rating,
+    preferences: msg.preferences,
+    queuedAt: Date.now(),
+    socket,
+    name: verifiedName,
+    isAccountUser,
+    userId,
+    onMatched: (room, playerId, color, opponentRating) => {
+      state.roomCode = room.code;
+      state.playerId = playerId;
+
+      socket.emit('message', {
+        type: 'MATCH_FOUND',
+        timestamp: Date.now(),
+        roomCode: room.code,
+        playerId,
+        role: color,
+        settings: room.getSettings(),
+        players: room.getPlayers(),
+        phase: room.getPhase(),
+        opponentRating,
+      } as MatchFoundMessage);
+    },
+  });
+
+  // Skip the acknowledgement if the player was matched straight away
+  if (roomManager.isQueued(socket.id)) {
+    socket.emit('message', {
+      type: 'QUEUE_JOINED',
+      timestamp: Date.now(),
+      rating,
+      queueSize,
+    });
+  }
+}
+
+function handleLeaveQueue(socket: Socket, roomManager: RoomManager): void {
+  roomManager.dequeue(socket.id);
+  socket.emit('message', {
+    type: 'QUEUE_LEFT',
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * The socket.io room that an account's correspondence updates go to
+ */
+function getCorrespondenceChannel(userId: string): string {
+  return `correspondence:${userId}`;
+}
+
+function handleCorrespondenceSubscribe(
+  socket: Socket,
+  msg: CorrespondenceSubscribeMessage,
+  state: SocketState
+): void {
+  const payload = verifyToken(msg.sessionToken);
+  if (!payload) {
+    socket.emit('message', {
+      type: 'CORRESPONDENCE_REJECTED',
+      timestamp: Date.now(),
+      gameId: null,
+      reason: 'Log in to play correspondence games',
+    });
+    return;
+  }
+
+  if (state.correspondenceUserId) {
+    socket.leave(getCorrespondenceChannel(state.correspondenceUserId));
+  }
+  state.correspondenceUserId = payload.userId;
+  socket.join(getCorrespondenceChannel(payload.userId));
+}
+
+async function handleCorrespondenceMove(
+  socket: Socket,
+  msg: CorrespondenceMoveMessage,
+  state: SocketState
+): Promise<void> {
+  const reject = (reason: string) => {
+    socket.emit('message', {
+      type: 'CORRESPONDENCE_REJECTED',
+      timestamp: Date.now(),
+      gameId: msg.gameId,
+      reason,
+    });
+  };
+
+  if (!state.correspondenceUserId) {
+    reject('Subscribe to your correspondence games first');
+    return;
+  }
+
+  const result = await applyCorrespondenceAction(msg.gameId, state.correspondenceUserId, (game, color, now) =>
+    playCorrespondenceMove(game, color, msg.from, msg.to, msg.promotionPieceType, now)
+  );
+  // Success reaches the player through CORRESPONDENCE_UPDATED like any other change
+  if (!result.valid) reject(result.reason);
+}
+
 function handleLeaveRoom(
   socket: Socket,
   roomManager: RoomManager,
@@ -303,7 +592,12 @@ function handleLeaveRoom(
   if (!state.roomCode || !state.playerId) return;
 
   const room = roomManager.getRoom(state.roomCode);
-  if (room) {
+  if (room && room.isSpectator(state.playerId)) {
+    // Spectators leave quietly; the players never saw them arrive
+    room.removeSpectator(state.playerId);
+    socket.leave(state.roomCode);
+    roomManager.notifyLobbyChange();
+  } else if (room) {
     room.removePlayer(state.playerId);
     socket.leave(state.roomCode);
 
@@ -439,6 +733,20 @@ function handleMakeMove(
   room.makeMove(state.playerId, msg.from, msg.to, msg.promotionPieceType);
 }
 
+function handleDropPiece(
+  _socket: Socket,
+  msg: DropPieceMessage,
+  roomManager: RoomManager,
+  state: SocketState
+): void {
+  if (!state.roomCode || !state.playerId) return;
+
+  const room = roomManager.getRoom(state.roomCode);
+  if (!room) return;
+
+  room.dropPiece(state.playerId, msg.pieceTypeId, msg.to);
+}
+
 function handleResign(
   _socket: Socket,
   roomManager: RoomManager,
@@ -527,3 +835,17 @@ function handleProposeRematch(
 
   room.handleProposeRematch(state.playerId);
 }
+
+function handleSendChat(
+  _socket: Socket,
+  msg: SendChatMessage,
+  roomManager: RoomManager,
+  state: SocketState
+): void {
+  if (!state.roomCode || !state.playerId) return;
+
+  const room = roomManager.getRoom(state.roomCode);
+  if (!room) return;
+
+  room.handleChat(state.playerId, msg.text, msg.quickMessageId);
+}
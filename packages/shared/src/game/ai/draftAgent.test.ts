@@ -0,0 +1,105 @@
+/**
+ * Tests for the draft agent
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { BoardSize } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import {
+  validateDraft,
+  getSlotLimits,
+  getPieceCountInDraft,
+  MAX_PIECE_COUNTS,
+  MIN_BUDGET,
+  MAX_BUDGET,
+  type PlayerDraft,
+} from '../rules/draft';
+import { createAutoDraft, DRAFT_STYLES } from './draftAgent';
+import { createSeededRandom } from './random';
+
+const BOARD_SIZES: BoardSize[] = ['8x8', '10x8', '10x10'];
+const BUDGETS = [MIN_BUDGET, 400, 650, MAX_BUDGET];
+
+function countKingReplacers(draft: PlayerDraft): number {
+  return draft.selections
+    .filter((s) => PIECE_BY_ID[s.pieceTypeId]?.replacesKing)
+    .reduce((sum, s) => sum + s.count, 0);
+}
+
+describe('createAutoDraft', () => {
+  describe('legality', () => {
+    for (const style of DRAFT_STYLES) {
+      for (const boardSize of BOARD_SIZES) {
+        it(`builds legal ${style} drafts on ${boardSize}`, () => {
+          for (const budget of BUDGETS) {
+            const draft = createAutoDraft(budget, boardSize, { style, seed: budget });
+
+            expect(validateDraft(draft, budget, boardSize).valid).toBe(true);
+            expect(countKingReplacers(draft)).toBeLessThanOrEqual(1);
+            for (const [pieceTypeId, max] of Object.entries(MAX_PIECE_COUNTS)) {
+              expect(getPieceCountInDraft(draft, pieceTypeId)).toBeLessThanOrEqual(max!);
+            }
+          }
+        });
+      }
+    }
+  });
+
+  it('fills every pawn slot in a balanced draft', () => {
+    const cases: [BoardSize, number][] = [['8x8', 400], ['10x8', 650], ['10x10', 650]];
+    for (const [boardSize, budget] of cases) {
+      const draft = createAutoDraft(budget, boardSize, { style: 'balanced' });
+      expect(draft.slotsUsed.pawn).toBe(getSlotLimits(boardSize).pawn);
+    }
+  });
+
+  it('is deterministic for named styles without a seed', () => {
+    expect(createAutoDraft(400, '8x8', { style: 'balanced' })).toEqual(
+      createAutoDraft(400, '8x8', { style: 'balanced' })
+    );
+  });
+
+  it('is reproducible with a seed', () => {
+    const a = createAutoDraft(500, '10x8', { style: 'random', seed: 42 });
+    const b = createAutoDraft(500, '10x8', { style: 'random', seed: 42 });
+    const c = createAutoDraft(500, '10x8', { style: 'random', seed: 43 });
+
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it('max-vp spends at least as much as balanced', () => {
+    for (const budget of BUDGETS) {
+      const maxVp = createAutoDraft(budget, '8x8', { style: 'max-vp' });
+      const balanced = createAutoDraft(budget, '8x8', { style: 'balanced' });
+      expect(maxVp.budgetSpent).toBeGreaterThanOrEqual(balanced.budgetSpent);
+    }
+  });
+
+  it('aggressive-sliders favours sliding pieces', () => {
+    const draft = createAutoDraft(400, '8x8', { style: 'aggressive-sliders' });
+    const sliders = draft.selections.filter(
+      (s) => (PIECE_BY_ID[s.pieceTypeId]?.movement.slides.length ?? 0) > 0
+    );
+    expect(sliders.reduce((sum, s) => sum + s.count, 0)).toBeGreaterThanOrEqual(3);
+  });
+
+  it('freezer-heavy includes freezing pieces', () => {
+    const draft = createAutoDraft(400, '8x8', { style: 'freezer-heavy' });
+    const freezers = draft.selections.filter((s) => PIECE_BY_ID[s.pieceTypeId]?.canFreeze);
+    expect(freezers.length).toBeGreaterThan(0);
+  });
+});
+
+describe('createSeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createSeededRandom(7);
+    const b = createSeededRandom(7);
+    for (let i = 0; i < 10; i++) {
+      const value = a();
+      expect(value).toBe(b());
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
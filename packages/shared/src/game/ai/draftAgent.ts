@@ -0,0 +1,193 @@
+/**
+ * Draft agent - builds a legal army for a budget and board size
+ *
+ * Pieces are added one at a time through canAddPiece/addPieceToDraft, so the
+ * result always respects slot limits, MAX_PIECE_COUNTS and the single king replacer.
+ */
+
+import type { BoardSize, PieceType, SlotCounts } from '../types';
+import type { PlayerDraft, SlotUsage } from '../rules/draft';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import {
+  createEmptyDraft,
+  getAvailablePieces,
+  getSlotLimits,
+  canAddPiece,
+  addPieceToDraft,
+} from '../rules/draft';
+import { createSeededRandom } from './random';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DraftStyle =
+  | 'max-vp'
+  | 'balanced'
+  | 'aggressive-sliders'
+  | 'freezer-heavy'
+  | 'random';
+
+export const DRAFT_STYLES: DraftStyle[] = [
+  'max-vp',
+  'balanced',
+  'aggressive-sliders',
+  'freezer-heavy',
+  'random',
+];
+
+export interface AutoDraftOptions {
+  /** Drafting style (default 'balanced') */
+  style?: DraftStyle;
+  /** Seed for reproducible drafts. Without a seed, named styles are deterministic and 'random' uses Math.random */
+  seed?: number;
+  /** User-set slot counts for the game, if any */
+  slots?: Partial<SlotCounts>;
+}
+
+interface StyleProfile {
+  /** Share of the budget intended for each tier */
+  budgetShare: SlotUsage;
+  /** Style preference for a piece, added to the pacing score */
+  preference: (pieceType: PieceType) => number;
+}
+
+// =============================================================================
+// Style Profiles
+// =============================================================================
+
+/** Penalty per point a piece's cost is away from the tier's per-slot target */
+const PACING_WEIGHT = 1;
+
+/** Maximum random bonus added to each candidate when a seed is given */
+const SEEDED_JITTER = 8;
+
+/**
+ * How strongly a piece slides (number of sliding directions)
+ */
+function getSlideScore(pieceType: PieceType): number {
+  let score = 0;
+  for (const slide of pieceType.movement.slides) {
+    score += slide === 'all' ? 8 : 4;
+  }
+  return score;
+}
+
+const STYLE_PROFILES: Record<Exclude<DraftStyle, 'max-vp' | 'random'>, StyleProfile> = {
+  balanced: {
+    budgetShare: { pawn: 0.2, piece: 0.55, royalty: 0.25 },
+    preference: () => 0,
+  },
+  'aggressive-sliders': {
+    budgetShare: { pawn: 0.1, piece: 0.6, royalty: 0.3 },
+    preference: (pieceType) => getSlideScore(pieceType) * 4,
+  },
+  'freezer-heavy': {
+    budgetShare: { pawn: 0.15, piece: 0.6, royalty: 0.25 },
+    preference: (pieceType) => (pieceType.canFreeze ? 200 : 0),
+  },
+};
+
+// =============================================================================
+// Draft Agent
+// =============================================================================
+
+/**
+ * Pieces the agent considers. Free and negative-cost pieces (Jester) and
+ * pieces outside the slot system are left out so the greedy fill always terminates.
+ */
+function getDraftCandidates(): PieceType[] {
+  return getAvailablePieces().filter((p) => p.cost > 0 && p.tier !== 'other');
+}
+
+/**
+ * Get the slot key a piece fills, or null for king replacers (which reuse the King's slot)
+ */
+function getSlotKey(pieceType: PieceType): keyof SlotUsage | null {
+  if (pieceType.replacesKing) return null;
+  if (pieceType.tier === 'pawn' || pieceType.tier === 'piece' || pieceType.tier === 'royalty') {
+    return pieceType.tier;
+  }
+  return null;
+}
+
+/**
+ * Points already spent on pieces that fill the given slot type
+ */
+function getTierSpent(draft: PlayerDraft, slotKey: keyof SlotUsage): number {
+  let spent = 0;
+  for (const selection of draft.selections) {
+    const pieceType = PIECE_BY_ID[selection.pieceTypeId];
+    if (pieceType && (getSlotKey(pieceType) ?? 'royalty') === slotKey) {
+      spent += pieceType.cost * selection.count;
+    }
+  }
+  return spent;
+}
+
+/**
+ * Score a candidate for the current draft (higher is better)
+ */
+function scoreCandidate(
+  pieceType: PieceType,
+  draft: PlayerDraft,
+  budget: number,
+  limits: SlotUsage,
+  style: DraftStyle,
+  random: () => number
+): number {
+  if (style === 'random') return random();
+
+  // Max VP spends the budget on the highest VP pieces first
+  if (style === 'max-vp') return pieceType.victoryPoints;
+
+  const profile = STYLE_PROFILES[style];
+  const budgetLeft = budget - draft.budgetSpent;
+
+  // Aim each slot at an even split of what's left of its tier's budget
+  const slotKey = getSlotKey(pieceType) ?? 'royalty';
+  const slotsLeft = Math.max(1, limits[slotKey] - draft.slotsUsed[slotKey]);
+  const tierBudget = Math.min(
+    budgetLeft,
+    Math.max(0, budget * profile.budgetShare[slotKey] - getTierSpent(draft, slotKey))
+  );
+  const target = tierBudget / slotsLeft;
+
+  return profile.preference(pieceType) - Math.abs(pieceType.cost - target) * PACING_WEIGHT;
+}
+
+/**
+ * Build a legal draft for the given budget and board size in the requested style
+ */
+export function createAutoDraft(
+  budget: number,
+  boardSize: BoardSize,
+  options: AutoDraftOptions = {}
+): PlayerDraft {
+  const style = options.style ?? 'balanced';
+  const random = options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+  const jitter = options.seed !== undefined && style !== 'random' ? SEEDED_JITTER : 0;
+
+  const limits = getSlotLimits(boardSize, options.slots);
+  const candidates = getDraftCandidates();
+  let draft = createEmptyDraft();
+
+  for (;;) {
+    const affordable = candidates.filter((p) => canAddPiece(draft, p, budget, boardSize, options.slots));
+    if (affordable.length === 0) break;
+
+    let best = affordable[0];
+    let bestScore = -Infinity;
+    for (const pieceType of affordable) {
+      const score = scoreCandidate(pieceType, draft, budget, limits, style, random) + random() * jitter;
+      if (score > bestScore) {
+        best = pieceType;
+        bestScore = score;
+      }
+    }
+
+    draft = addPieceToDraft(draft, best);
+  }
+
+  return draft;
+}
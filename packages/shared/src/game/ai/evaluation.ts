@@ -0,0 +1,133 @@
+/**
+ * Static evaluation for the search engine
+ *
+ * Scores are in draft points (piece cost), so a rook is worth 50 and a pawn 10.
+ * All scores are from the perspective of the color passed in.
+ */
+
+import type { BoardState, GameResult, GameState, PieceInstance, PlayerColor } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { fileToIndex, getOpponentColor } from '../board/boardUtils';
+import { calculateVictoryPoints } from '../rules/gameEndDetection';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Score for delivering checkmate (reduced by ply so faster wins score higher) */
+export const MATE_SCORE = 100000;
+
+/** Scores beyond this magnitude are decided games, not material estimates */
+export const WIN_THRESHOLD = MATE_SCORE - 1000;
+
+/** Fraction of a piece's value lost while it is frozen */
+const FROZEN_PENALTY = 0.3;
+
+/** Weight of the VP difference, which decides stalemates */
+const VP_WEIGHT = 0.1;
+
+/** Bonus per rank a pawn-tier piece has advanced */
+const PAWN_ADVANCE_BONUS = 1;
+
+/** Bonus for a non-royal piece standing in the center (scaled by distance) */
+const CENTER_BONUS = 2;
+
+/** Fraction of a piece's value it is worth while held in hand */
+const HAND_VALUE = 0.9;
+
+/** Bonus for having the move */
+const TEMPO_BONUS = 2;
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Value of a single piece on the board, including its positional terms
+ */
+function evaluatePiece(board: BoardState, piece: PieceInstance): number {
+  const pieceType = PIECE_BY_ID[piece.typeId];
+  if (!pieceType || !piece.position) return 0;
+
+  let value = pieceType.cost;
+
+  // A frozen piece can't move or capture until its freezer leaves
+  if (piece.isFrozen) {
+    value -= Math.abs(pieceType.cost) * FROZEN_PENALTY;
+  }
+
+  const { files, ranks } = board.dimensions;
+
+  if (pieceType.tier === 'pawn') {
+    // Reward pawns for advancing toward promotion
+    const advanced = piece.owner === 'white' ? piece.position.rank - 1 : ranks - piece.position.rank;
+    value += advanced * PAWN_ADVANCE_BONUS;
+  } else if (!pieceType.isRoyal) {
+    // Reward central pieces, which usually have more scope
+    const centerFile = (files - 1) / 2;
+    const centerRank = (ranks + 1) / 2;
+    const dx = Math.abs(fileToIndex(piece.position.file) - centerFile);
+    const dy = Math.abs(piece.position.rank - centerRank);
+    const maxDistance = Math.max(centerFile, centerRank - 1);
+    value += CENTER_BONUS * (1 - Math.max(dx, dy) / maxDistance);
+  }
+
+  return value;
+}
+
+/**
+ * Value of the pieces a player holds in hand
+ */
+function evaluateHand(hand: string[] | undefined): number {
+  let value = 0;
+  for (const typeId of hand ?? []) {
+    value += (PIECE_BY_ID[typeId]?.cost ?? 0) * HAND_VALUE;
+  }
+  return value;
+}
+
+/**
+ * Evaluate a position that is still in progress.
+ * Positive scores favor `perspective`.
+ */
+export function evaluatePosition(gameState: GameState, perspective: PlayerColor): number {
+  const { board } = gameState;
+  let score = 0;
+
+  for (const piece of board.pieces) {
+    // Neutral pieces count for nobody until they're hired
+    if (!piece.position || piece.owner === 'neutral') continue;
+    const value = evaluatePiece(board, piece);
+    score += piece.owner === perspective ? value : -value;
+  }
+
+  // In a drops game a piece in hand is material too, just not on the board yet
+  if (gameState.hand) {
+    score += evaluateHand(gameState.hand[perspective]) - evaluateHand(gameState.hand[getOpponentColor(perspective)]);
+  }
+
+  // VP decides stalemates, so keep a small preference for being ahead on it
+  const opponent = getOpponentColor(perspective);
+  const vpDiff = calculateVictoryPoints(board, perspective) - calculateVictoryPoints(board, opponent);
+  score += vpDiff * VP_WEIGHT;
+
+  score += gameState.currentTurn === perspective ? TEMPO_BONUS : -TEMPO_BONUS;
+
+  return score;
+}
+
+/**
+ * Score a finished game. `ply` is the distance from the search root,
+ * so quicker wins and slower losses are preferred.
+ */
+export function scoreGameResult(result: GameResult, perspective: PlayerColor, ply: number = 0): number {
+  if (result.winner === null) return 0;
+  return result.winner === perspective ? MATE_SCORE - ply : -(MATE_SCORE - ply);
+}
+
+/**
+ * Check if a score represents a forced win or loss
+ */
+export function isDecisiveScore(score: number): boolean {
+  return Math.abs(score) >= WIN_THRESHOLD;
+}
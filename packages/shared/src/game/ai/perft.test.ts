@@ -0,0 +1,374 @@
+/**
+ * Perft fixtures - node counts for standard chess and for positions that
+ * exercise each special movement and capture type
+ *
+ * The standard chess counts are the published reference values. The fairy
+ * counts were recorded from this move generator after checking the depth 1
+ * moves by hand; a change in any of them means move generation changed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { BoardSize, GameState, PieceInstance, PlayerColor, Position } from '../types';
+import { ALL_PIECES, PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { createInitialGameState } from '../rules/moveExecution';
+import { updateFrozenStates } from '../rules/freeze';
+import { perft, perftDivide } from './perft';
+
+// =============================================================================
+// Position Helpers
+// =============================================================================
+
+const FEN_PIECES: Record<string, string> = {
+  k: 'king',
+  q: 'queen',
+  r: 'rook',
+  b: 'bishop',
+  n: 'knight',
+  p: 'pawn',
+};
+
+function createGame(
+  pieces: PieceInstance[],
+  boardSize: BoardSize,
+  turn: PlayerColor,
+  enPassantTarget: Position | null = null,
+  hadMultipleRoyals?: { white: boolean; black: boolean }
+): GameState {
+  const state = createInitialGameState(pieces, boardSize);
+  const board = updateFrozenStates({ ...state.board, hadMultipleRoyals });
+  return { ...state, board, currentTurn: turn, enPassantTarget };
+}
+
+/**
+ * Build a game from a standard chess FEN (placement, side to move, castling, en passant)
+ */
+function fromFen(fen: string): GameState {
+  const [placement, turn, castling, enPassant] = fen.split(' ');
+  const pieces: PieceInstance[] = [];
+
+  placement.split('/').forEach((row, rowIndex) => {
+    let fileIndex = 0;
+    for (const ch of row) {
+      if (/\d/.test(ch)) {
+        fileIndex += Number(ch);
+        continue;
+      }
+      const owner: PlayerColor = ch === ch.toUpperCase() ? 'white' : 'black';
+      const typeId = FEN_PIECES[ch.toLowerCase()];
+      const position = { file: 'abcdefgh'[fileIndex], rank: 8 - rowIndex } as Position;
+      const hasRight = (side: 'k' | 'q') =>
+        castling.includes(owner === 'white' ? side.toUpperCase() : side);
+
+      // Pieces that lost their castling rights count as moved
+      let hasMoved = false;
+      if (typeId === 'king') hasMoved = !hasRight('k') && !hasRight('q');
+      if (typeId === 'rook') {
+        hasMoved = !(
+          (position.file === 'h' && hasRight('k')) ||
+          (position.file === 'a' && hasRight('q'))
+        );
+      }
+
+      pieces.push({
+        id: `${ch}${position.file}${position.rank}`,
+        typeId,
+        owner,
+        position,
+        hasMoved,
+        isFrozen: false,
+      });
+      fileIndex++;
+    }
+  });
+
+  const enPassantTarget =
+    enPassant !== '-' ? ({ file: enPassant[0], rank: Number(enPassant.slice(1)) } as Position) : null;
+  return createGame(pieces, '8x8', turn === 'w' ? 'white' : 'black', enPassantTarget);
+}
+
+/**
+ * Parse "typeId square" entries, e.g. "long-leaper a1". A trailing "*" marks the piece as moved.
+ */
+function parsePieces(entries: string[], owner: PlayerColor): PieceInstance[] {
+  return entries.map((entry) => {
+    const [typeId, square] = entry.split(' ');
+    const moved = square.endsWith('*');
+    const coords = moved ? square.slice(0, -1) : square;
+    const position = { file: coords[0], rank: Number(coords.slice(1)) } as Position;
+    return {
+      id: `${owner[0]}-${typeId}-${coords}`,
+      typeId,
+      owner,
+      position,
+      hasMoved: moved,
+      isFrozen: false,
+    };
+  });
+}
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+interface StandardFixture {
+  name: string;
+  fen: string;
+  /** Node counts for depth 1, 2, ... */
+  counts: number[];
+}
+
+interface FairyFixture {
+  name: string;
+  boardSize?: BoardSize;
+  turn?: PlayerColor;
+  white: string[];
+  black: string[];
+  hadMultipleRoyals?: { white: boolean; black: boolean };
+  counts: number[];
+}
+
+const STANDARD_FIXTURES: StandardFixture[] = [
+  {
+    name: 'starting position',
+    fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq -',
+    counts: [20, 400, 8902],
+  },
+  {
+    name: 'Kiwipete (castling, en passant, promotions)',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq -',
+    counts: [48, 2039],
+  },
+  {
+    name: 'rook endgame with en passant pins',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - -',
+    counts: [14, 191, 2812],
+  },
+  {
+    name: 'promotions and checks',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq -',
+    counts: [6, 264],
+  },
+  {
+    name: 'promotion with discovered check',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ -',
+    counts: [44, 1486],
+  },
+];
+
+const FAIRY_FIXTURES: FairyFixture[] = [
+  {
+    name: 'shogi pawn and fool',
+    white: ['king a1*', 'shogi-pawn d4', 'fool f6', 'fairy-queen g1'],
+    black: ['king h8*', 'rook d5', 'knight f7', 'pawn c6'],
+    counts: [24, 338, 8994],
+  },
+  {
+    name: 'peasants',
+    white: ['king a1*', 'peasant d2', 'peasant g5*', 'rook h1'],
+    black: ['king f8*', 'pawn d3', 'peasant e7', 'knight g6'],
+    counts: [24, 247, 5220],
+  },
+  {
+    name: 'boxer',
+    white: ['king a1*', 'boxer d2', 'rook f5', 'bishop c3'],
+    black: ['king h8*', 'knight e5', 'bishop c7', 'boxer b6'],
+    counts: [32, 583, 18508],
+  },
+  {
+    name: 'soldier and shogi generals',
+    white: ['king a1*', 'gold-general d4', 'silver-general f4', 'soldier b5'],
+    black: ['king h8*', 'pawn e5', 'pawn g6', 'silver-general c6'],
+    counts: [22, 243, 4912],
+  },
+  {
+    name: 'checkers jumps',
+    white: ['king a1*', 'checker c3', 'checker-king f4', 'checker g3'],
+    black: ['king h8*', 'pawn d4', 'knight e5', 'checker f6', 'checker-king c7'],
+    counts: [10, 156, 1736],
+  },
+  {
+    name: 'leapers and compound pieces on 10x10',
+    boardSize: '10x10',
+    white: [
+      'king a1*',
+      'catapult c3',
+      'lancer e2',
+      'zebra g3',
+      'bison d5',
+      'courtesan h5',
+      'archbishop b7',
+      'chancellor i2',
+    ],
+    black: [
+      'king j10*',
+      'wizard c8',
+      'dragon g8',
+      'dragon-horse e7',
+      'knight h9',
+      'queen c10',
+    ],
+    counts: [63, 4245],
+  },
+  {
+    name: 'swap-adjacent royals',
+    white: ['phantom-king e1', 'chamberlain d1', 'rook h1', 'pawn e2'],
+    black: ['king e8*', 'chamberlain f8', 'rook a8', 'knight c6'],
+    counts: [22, 562, 11941],
+  },
+  {
+    name: 'thief',
+    white: ['king a1*', 'thief d4', 'rook h4'],
+    black: ['king h8*', 'knight d6', 'bishop f6', 'pawn b4', 'rook d2'],
+    counts: [12, 135, 1610],
+  },
+  {
+    name: 'herald freezing and blocked moves',
+    white: ['king a1*', 'herald d4', 'bishop b2'],
+    black: ['king h8*', 'rook d5', 'knight e3', 'pawn d7', 'herald g6'],
+    counts: [8, 47, 483],
+  },
+  {
+    name: 'pontiff bounces',
+    white: ['king a1*', 'pontiff c1', 'pontiff h5'],
+    black: ['king h8*', 'bishop f4', 'rook b6', 'pontiff e8'],
+    counts: [27, 951],
+  },
+  {
+    name: 'chameleon',
+    white: ['king a1*', 'chameleon d4', 'rook g1'],
+    black: ['king h8*', 'knight f5', 'rook d7', 'bishop b6', 'immobilizer h6', 'pawn c5'],
+    counts: [38, 1563],
+  },
+  {
+    name: 'coordinator',
+    white: ['king e1*', 'coordinator c4', 'pawn a2'],
+    black: ['king h8*', 'knight e5', 'knight c3', 'bishop g1', 'coordinator f6'],
+    counts: [25, 1070],
+  },
+  {
+    name: 'long leaper chains',
+    white: ['king h1*', 'long-leaper a1', 'long-leaper f6'],
+    black: ['king h8*', 'pawn b2', 'pawn d4', 'knight a3', 'pawn a6', 'long-leaper d8'],
+    counts: [35, 922],
+  },
+  {
+    name: 'immobilizer and inquisitor',
+    white: ['king a1*', 'immobilizer d4', 'inquisitor f2', 'rook h3'],
+    black: ['king b8*', 'queen e5', 'knight f3', 'inquisitor c6', 'immobilizer g7'],
+    counts: [23, 738, 16283],
+  },
+  {
+    name: 'hoppers and riders',
+    white: ['king a1*', 'grasshopper d1', 'nightrider b3', 'cannon h2', 'pawn d4'],
+    black: ['king h8*', 'cannon h6', 'grasshopper d8', 'nightrider f6', 'pawn h4', 'bishop d6'],
+    counts: [22, 691, 14407],
+  },
+  {
+    name: 'berolina pawns and knight-riders',
+    white: ['king a1*', 'berolina-pawn d2', 'berolina-pawn g5*', 'knight-rider c3', 'rook e1'],
+    black: ['king h8*', 'berolina-pawn e4*', 'pawn d4*', 'berolina-pawn b7', 'knight-rider g6'],
+    counts: [28, 464, 11822],
+  },
+  {
+    name: 'vaos, giraffes and shatranj pieces',
+    white: ['king a1*', 'vao c1', 'giraffe b2', 'wazir d4', 'ferz f3', 'pawn e3*'],
+    black: ['king h8*', 'vao f8', 'giraffe g5', 'wazir e6', 'ferz c6', 'pawn e5*'],
+    counts: [16, 338, 5635],
+  },
+  {
+    name: 'xiangqi and janggi pieces',
+    white: ['king a1*', 'horse c3', 'elephant e3', 'janggi-cannon d1', 'advisor g2', 'pawn d4*'],
+    black: ['king h8*', 'horse f6', 'elephant c6', 'janggi-cannon d8', 'advisor b7', 'pawn e5*'],
+    counts: [26, 633, 15118],
+  },
+  {
+    name: 'withdrawer and jester',
+    white: ['king a1*', 'withdrawer d4', 'jester g2'],
+    black: ['king h8*', 'rook d5', 'knight e3', 'withdrawer b7', 'jester f7'],
+    counts: [40, 2013],
+  },
+  {
+    name: 'regents with and without other royalty',
+    white: ['regent d1', 'rook a2'],
+    black: ['regent e8', 'queen d8', 'pawn e6'],
+    hadMultipleRoyals: { white: true, black: true },
+    counts: [15, 267, 6140],
+  },
+];
+
+function fairyGame(fixture: FairyFixture): GameState {
+  const pieces = [...parsePieces(fixture.white, 'white'), ...parsePieces(fixture.black, 'black')];
+  return createGame(
+    pieces,
+    fixture.boardSize ?? '8x8',
+    fixture.turn ?? 'white',
+    null,
+    fixture.hadMultipleRoyals
+  );
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('perft', () => {
+  describe('standard chess reference counts', () => {
+    for (const fixture of STANDARD_FIXTURES) {
+      it(fixture.name, () => {
+        const state = fromFen(fixture.fen);
+        fixture.counts.forEach((count, i) => {
+          expect(perft(state, i + 1)).toBe(count);
+        });
+      });
+    }
+  });
+
+  describe('fairy piece counts', () => {
+    for (const fixture of FAIRY_FIXTURES) {
+      it(fixture.name, () => {
+        const state = fairyGame(fixture);
+        const counts = fixture.counts.map((_, i) => perft(state, i + 1));
+        expect(counts).toEqual(fixture.counts);
+      });
+    }
+
+    it('cover every special movement and capture type in use', () => {
+      const covered = new Set<string>();
+      for (const fixture of FAIRY_FIXTURES) {
+        for (const entry of [...fixture.white, ...fixture.black]) {
+          const pieceType = PIECE_BY_ID[entry.split(' ')[0]];
+          pieceType.movement.special.forEach((special) => covered.add(special));
+          covered.add(pieceType.captureType);
+        }
+      }
+      // Pawns and kings are covered by the standard chess fixtures
+      covered.add('pawn-forward').add('pawn-capture-diagonal').add('king-one-square');
+
+      for (const pieceType of ALL_PIECES) {
+        for (const feature of [...pieceType.movement.special, pieceType.captureType]) {
+          expect(covered, `${pieceType.id}: ${feature}`).toContain(feature);
+        }
+      }
+    });
+  });
+
+  describe('perftDivide', () => {
+    it('breaks the count down by root move', () => {
+      const state = fromFen(STANDARD_FIXTURES[0].fen);
+      const division = perftDivide(state, 2);
+
+      expect(division).toHaveLength(20);
+      expect(division.reduce((sum, d) => sum + d.nodes, 0)).toBe(400);
+      expect(division.find((d) => d.move === 'e2e4')?.nodes).toBe(20);
+      expect(division.map((d) => d.move)).toEqual([...division.map((d) => d.move)].sort());
+    });
+
+    it('lists each promotion choice separately', () => {
+      const state = fromFen('4k3/1P6/8/8/8/8/8/4K3 w - -');
+      const promotions = perftDivide(state, 1)
+        .map((d) => d.move)
+        .filter((m) => m.startsWith('b7b8'));
+      expect(promotions).toEqual(['b7b8=bishop', 'b7b8=knight', 'b7b8=queen', 'b7b8=rook']);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Perft - counts the leaf nodes of the legal move tree to a fixed depth
+ *
+ * Node counts for known positions catch move generation bugs: any missing,
+ * extra or illegal move changes the count. Divide mode splits the count by
+ * root move to narrow down which move is wrong.
+ */
+
+import type { GameState, Move } from '../types';
+import { positionToString } from '../types';
+import { executeMove } from '../rules/moveExecution';
+import { generateAllMoves } from './search';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PerftDivision {
+  /** Root move in coordinate notation, e.g. "e2e4" or "e7e8=queen" */
+  move: string;
+  /** Leaf nodes below this move */
+  nodes: number;
+}
+
+// =============================================================================
+// Perft
+// =============================================================================
+
+/**
+ * Format a move in coordinate notation (from square, to square, promotion piece),
+ * or a drop as the piece type and square, e.g. "knight@e4"
+ */
+export function formatPerftMove(move: Move): string {
+  if (move.dropPieceType) return `${move.dropPieceType}@${positionToString(move.to)}`;
+  const promo = move.promotionPieceType ? `=${move.promotionPieceType}` : '';
+  return `${positionToString(move.from)}${positionToString(move.to)}${promo}`;
+}
+
+/**
+ * Count the leaf nodes of the legal move tree `depth` plies deep.
+ * Positions with no legal moves are leaves that count zero below depth 0.
+ */
+export function perft(gameState: GameState, depth: number): number {
+  if (depth <= 0) return 1;
+
+  const moves = generateAllMoves(gameState);
+  // Bulk counting: the last ply only needs the number of moves
+  if (depth === 1) return moves.length;
+
+  let nodes = 0;
+  for (const move of moves) {
+    nodes += perft(executeMove(gameState, move), depth - 1);
+  }
+  return nodes;
+}
+
+/**
+ * Perft broken down by root move, sorted by move. The node counts add up to perft(gameState, depth).
+ */
+export function perftDivide(gameState: GameState, depth: number): PerftDivision[] {
+  if (depth <= 0) return [];
+
+  return generateAllMoves(gameState)
+    .map((move) => ({
+      move: formatPerftMove(move),
+      nodes: perft(executeMove(gameState, move), depth - 1),
+    }))
+    .sort((a, b) => a.move.localeCompare(b.move));
+}
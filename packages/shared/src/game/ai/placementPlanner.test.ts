@@ -0,0 +1,203 @@
+/**
+ * Tests for the placement planner
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { BoardSize, BoardState, PieceInstance, PlayerColor, Position } from '../types';
+import { getBoardConfig, positionToString } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { createBoardState } from '../board/boardUtils';
+import { createEmptyDraft, addPieceToDraft, type PlayerDraft } from '../rules/draft';
+import {
+  createInitialPlacementState,
+  createPlacementStateFromDrafts,
+  getPlacementZones,
+  getValidPlacementSquares,
+  isHerald,
+  getHeraldActualPosition,
+  getPawnSwapPosition,
+  shouldPawnSwapToBackRank,
+  type PlacementState,
+} from '../rules/placement';
+import { createAutoDraft, DRAFT_STYLES } from './draftAgent';
+import { planPlacement, PLACEMENT_STRATEGIES, type PlannedPlacement } from './placementPlanner';
+
+const BOARD_SIZES: BoardSize[] = ['8x8', '10x8', '10x10', '9x9', '12x12'];
+
+function createEmptyBoard(boardSize: BoardSize): BoardState {
+  const config = getBoardConfig(boardSize);
+  return createBoardState({ files: config.files, ranks: config.ranks }, []);
+}
+
+function createDraft(typeIds: string[]): PlayerDraft {
+  let draft = createEmptyDraft();
+  for (const typeId of typeIds) {
+    draft = addPieceToDraft(draft, PIECE_BY_ID[typeId]);
+  }
+  return draft;
+}
+
+/**
+ * Replay a plan the way the placement UI does, checking each step is a valid square
+ */
+function replayPlan(
+  board: BoardState,
+  boardSize: BoardSize,
+  color: PlayerColor,
+  plan: PlannedPlacement[]
+): BoardState {
+  const zones = getPlacementZones(boardSize, color);
+  let current = board;
+
+  for (const { piece, position } of plan) {
+    const valid = getValidPlacementSquares(current, piece, zones, current.dimensions);
+    expect(valid).toContainEqual(position);
+
+    let actual = position;
+    let pieces = current.pieces;
+    if (isHerald(piece)) {
+      actual = getHeraldActualPosition(position, color, current.dimensions);
+      const existingId = current.positionMap.get(positionToString(actual));
+      if (existingId) {
+        const swapped = getPawnSwapPosition(actual.file, color, current.dimensions);
+        pieces = pieces.map((p) => (p.id === existingId ? { ...p, position: swapped } : p));
+      }
+    } else if (
+      PIECE_BY_ID[piece.typeId].tier === 'pawn' &&
+      shouldPawnSwapToBackRank(current, position.file, color, current.dimensions)
+    ) {
+      actual = getPawnSwapPosition(position.file, color, current.dimensions);
+    }
+
+    current = createBoardState(current.dimensions, [...pieces, { ...piece, position: actual }]);
+  }
+
+  return current;
+}
+
+function findPlaced(board: BoardState, typeId: string, color: PlayerColor = 'white'): PieceInstance[] {
+  return board.pieces.filter((p) => p.typeId === typeId && p.owner === color);
+}
+
+function at(board: BoardState, file: string, rank: number): string | undefined {
+  const id = board.positionMap.get(`${file}${rank}`);
+  return board.pieces.find((p) => p.id === id)?.typeId;
+}
+
+describe('planPlacement', () => {
+  describe('legality', () => {
+    for (const strategy of PLACEMENT_STRATEGIES) {
+      for (const boardSize of BOARD_SIZES) {
+        it(`places every drafted piece with ${strategy} on ${boardSize}`, () => {
+          for (const style of DRAFT_STYLES) {
+            const draft = createAutoDraft(650, boardSize, { style, seed: 7 });
+            const state = createPlacementStateFromDrafts(draft, draft);
+
+            for (const color of ['white', 'black'] as PlayerColor[]) {
+              const plan = planPlacement(state, color, createEmptyBoard(boardSize), boardSize, {
+                strategy,
+                seed: 3,
+              });
+              const pieces = color === 'white' ? state.whitePiecesToPlace : state.blackPiecesToPlace;
+              expect(plan).toHaveLength(pieces.length);
+
+              const board = replayPlan(createEmptyBoard(boardSize), boardSize, color, plan);
+              expect(board.positionMap.size).toBe(pieces.length);
+            }
+          }
+        });
+      }
+    }
+  });
+
+  it('sets up the classical army symmetrically', () => {
+    const state = createInitialPlacementState();
+    const plan = planPlacement(state, 'white', createEmptyBoard('8x8'), '8x8', { strategy: 'symmetric' });
+    const board = replayPlan(createEmptyBoard('8x8'), '8x8', 'white', plan);
+
+    const backRank = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map((file) => at(board, file, 1));
+    expect(backRank).toEqual(['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook']);
+    for (const file of ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']) {
+      expect(at(board, file, 2)).toBe('pawn');
+    }
+  });
+
+  it('places black on its own ranks', () => {
+    const state = createInitialPlacementState();
+    const plan = planPlacement(state, 'black', createEmptyBoard('8x8'), '8x8', { strategy: 'symmetric' });
+    const board = replayPlan(createEmptyBoard('8x8'), '8x8', 'black', plan);
+
+    expect(at(board, 'e', 8)).toBe('king');
+    expect(at(board, 'a', 7)).toBe('pawn');
+  });
+
+  it('moves Heralds to the pawn rank of an edge file and swaps the pawn behind', () => {
+    const draft = createDraft(['herald', 'herald', 'rook', 'pawn', 'pawn', 'pawn', 'pawn']);
+    const state = createPlacementStateFromDrafts(draft, draft);
+
+    for (const strategy of PLACEMENT_STRATEGIES) {
+      const plan = planPlacement(state, 'white', createEmptyBoard('8x8'), '8x8', { strategy, seed: 1 });
+      const board = replayPlan(createEmptyBoard('8x8'), '8x8', 'white', plan);
+
+      expect(at(board, 'a', 2)).toBe('herald');
+      expect(at(board, 'h', 2)).toBe('herald');
+      // The back rank behind a Herald is for pawns only
+      for (const file of ['a', 'h']) {
+        expect(at(board, file, 1) ?? 'pawn').toBe('pawn');
+      }
+    }
+  });
+
+  it('fills the swap square when every pawn is needed', () => {
+    const draft = createDraft(['herald', ...Array(8).fill('pawn')]);
+    const state = createPlacementStateFromDrafts(draft, draft);
+    const plan = planPlacement(state, 'white', createEmptyBoard('8x8'), '8x8');
+    const board = replayPlan(createEmptyBoard('8x8'), '8x8', 'white', plan);
+
+    expect(plan).toHaveLength(10);
+    expect(findPlaced(board, 'pawn').some((p) => p.position?.rank === 1)).toBe(true);
+  });
+
+  it('shields the king and centers freezers with the heuristic strategy', () => {
+    const draft = createDraft(['inquisitor', 'rook', 'pawn', 'pawn', 'pawn']);
+    const state = createPlacementStateFromDrafts(draft, draft);
+    const plan = planPlacement(state, 'white', createEmptyBoard('8x8'), '8x8', { strategy: 'heuristic' });
+    const board = replayPlan(createEmptyBoard('8x8'), '8x8', 'white', plan);
+
+    expect(at(board, 'e', 1)).toBe('king');
+    expect(['c', 'f']).toContain(findPlaced(board, 'inquisitor')[0].position!.file);
+    const pawnFiles = findPlaced(board, 'pawn').map((p) => p.position!.file).sort();
+    expect(pawnFiles).toEqual(['d', 'e', 'f']);
+  });
+
+  it('only plans the pieces still to be placed, around pieces already on the board', () => {
+    const state = createInitialPlacementState();
+    const king = state.whitePiecesToPlace.find((p) => p.typeId === 'king')!;
+    const board = createBoardState(createEmptyBoard('8x8').dimensions, [
+      { ...king, position: { file: 'd', rank: 1 } as Position },
+    ]);
+    const remaining: PlacementState = {
+      ...state,
+      whitePiecesToPlace: state.whitePiecesToPlace.filter((p) => p.id !== king.id),
+    };
+
+    const plan = planPlacement(remaining, 'white', board, '8x8');
+    const result = replayPlan(board, '8x8', 'white', plan);
+
+    expect(plan).toHaveLength(15);
+    expect(at(result, 'd', 1)).toBe('king');
+    expect(at(result, 'e', 1)).toBe('queen');
+  });
+
+  it('is reproducible with a seed', () => {
+    const state = createInitialPlacementState();
+    const planA = planPlacement(state, 'white', createEmptyBoard('8x8'), '8x8', { strategy: 'random', seed: 42 });
+    const planB = planPlacement(state, 'white', createEmptyBoard('8x8'), '8x8', { strategy: 'random', seed: 42 });
+    expect(planA).toEqual(planB);
+  });
+
+  it('returns an empty plan when nothing is left to place', () => {
+    const state = { ...createInitialPlacementState(), whitePiecesToPlace: [] };
+    expect(planPlacement(state, 'white', createEmptyBoard('8x8'), '8x8')).toEqual([]);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Placement planner - places a player's remaining pieces automatically
+ *
+ * Squares come from getValidPlacementSquares, so every step is a placement the
+ * UI and server accept, including the Herald edge files and the Herald/pawn swap.
+ */
+
+import type { BoardSize, BoardState, PieceInstance, PlayerColor, Position } from '../types';
+import { getBoardConfig, positionToString } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { createBoardState, fileToIndex } from '../board/boardUtils';
+import type { PlacementState } from '../rules/placement';
+import {
+  getPlacementZones,
+  getValidPlacementSquares,
+  getPiecesToPlace,
+  isHerald,
+  getHeraldActualPosition,
+  getPawnSwapPosition,
+  shouldPawnSwapToBackRank,
+} from '../rules/placement';
+import { createSeededRandom, pickRandom } from './random';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PlacementStrategy = 'symmetric' | 'random' | 'heuristic';
+
+export const PLACEMENT_STRATEGIES: PlacementStrategy[] = ['symmetric', 'random', 'heuristic'];
+
+export interface PlacementPlanOptions {
+  /** Placement strategy (default 'heuristic') */
+  strategy?: PlacementStrategy;
+  /** Seed for the 'random' strategy. Without a seed it uses Math.random */
+  seed?: number;
+}
+
+export interface PlannedPlacement {
+  piece: PieceInstance;
+  /**
+   * Square to place the piece on, as a player would choose it.
+   * For a Herald this is the back rank square of its file; placement moves it to the pawn rank.
+   */
+  position: Position;
+}
+
+interface PlanContext {
+  strategy: PlacementStrategy;
+  numFiles: number;
+  /** File index the royal piece stands on (or will stand on) */
+  kingFileIndex: number;
+  random: () => number;
+}
+
+// =============================================================================
+// Piece Ordering
+// =============================================================================
+
+/**
+ * Placement order: Heralds first (they need an empty edge file), then royalty,
+ * pieces and pawns, so every piece still has a square when its turn comes.
+ */
+function getPlacementPriority(piece: PieceInstance): number {
+  const pieceType = PIECE_BY_ID[piece.typeId];
+  if (!pieceType) return 5;
+  if (isHerald(piece)) return 0;
+  if (pieceType.isRoyal) return 1;
+  if (pieceType.tier === 'royalty') return 2;
+  if (pieceType.tier === 'piece') return 3;
+  if (pieceType.tier === 'pawn') return 4;
+  return 5;
+}
+
+/**
+ * Sort the pieces to place for the chosen strategy
+ */
+function orderPieces(pieces: PieceInstance[], strategy: PlacementStrategy): PieceInstance[] {
+  const typeCounts = new Map<string, number>();
+  for (const piece of pieces) {
+    typeCounts.set(piece.typeId, (typeCounts.get(piece.typeId) ?? 0) + 1);
+  }
+
+  return [...pieces].sort((a, b) => {
+    const priority = getPlacementPriority(a) - getPlacementPriority(b);
+    if (priority !== 0) return priority;
+    if (PIECE_BY_ID[a.typeId]?.tier !== 'piece' || isHerald(a)) return 0;
+
+    const typeA = PIECE_BY_ID[a.typeId];
+    const typeB = PIECE_BY_ID[b.typeId];
+
+    if (strategy === 'symmetric') {
+      // Pairs first so both halves get mirrored squares, grouped by type
+      const pairA = (typeCounts.get(a.typeId) ?? 0) >= 2 ? 0 : 1;
+      const pairB = (typeCounts.get(b.typeId) ?? 0) >= 2 ? 0 : 1;
+      if (pairA !== pairB) return pairA - pairB;
+      return a.typeId.localeCompare(b.typeId);
+    }
+
+    if (strategy === 'heuristic') {
+      // Freezers claim the center, then the strongest pieces take the squares beside the king
+      const freezeA = typeA?.canFreeze ? 0 : 1;
+      const freezeB = typeB?.canFreeze ? 0 : 1;
+      if (freezeA !== freezeB) return freezeA - freezeB;
+      return (typeB?.cost ?? 0) - (typeA?.cost ?? 0);
+    }
+
+    return 0;
+  });
+}
+
+// =============================================================================
+// Square Choice
+// =============================================================================
+
+/**
+ * Distance of a file from the middle of the board (0.5 for the two center files on even boards)
+ */
+function getCenterDistance(fileIndex: number, numFiles: number): number {
+  return Math.abs(fileIndex - (numFiles - 1) / 2);
+}
+
+/**
+ * Preferred distance from the edge for a piece in the classical layout:
+ * orthogonal sliders in the corners, leapers next to them, diagonal sliders inside
+ */
+function getClassicalEdgeDistance(piece: PieceInstance): number {
+  const pieceType = PIECE_BY_ID[piece.typeId];
+  if (!pieceType) return 0;
+  const slides = pieceType.movement.slides;
+  if (slides.length === 0) return 1;
+  if (slides.every((s) => s === 'orthogonal')) return 0;
+  return 2;
+}
+
+/**
+ * Pick the square with the lowest score (ties go to the lower file)
+ */
+function pickLowest(squares: Position[], score: (square: Position) => number): Position {
+  let best = squares[0];
+  let bestScore = Infinity;
+  for (const square of squares) {
+    const value = score(square);
+    if (value < bestScore) {
+      best = square;
+      bestScore = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the mirror image of a square held by another piece of the same type, if it is still free
+ */
+function findMirrorSquare(
+  board: BoardState,
+  piece: PieceInstance,
+  squares: Position[],
+  numFiles: number
+): Position | null {
+  for (const placed of board.pieces) {
+    if (placed.owner !== piece.owner || placed.typeId !== piece.typeId || !placed.position) continue;
+    const mirrorIndex = numFiles - 1 - fileToIndex(placed.position.file);
+    const mirror = squares.find(
+      (s) => fileToIndex(s.file) === mirrorIndex && s.rank === placed.position!.rank
+    );
+    if (mirror) return mirror;
+  }
+  return null;
+}
+
+/**
+ * Choose a square for a piece from its valid placement squares
+ */
+function chooseSquare(
+  board: BoardState,
+  piece: PieceInstance,
+  squares: Position[],
+  ctx: PlanContext
+): Position {
+  if (ctx.strategy === 'random') return pickRandom(squares, ctx.random);
+
+  const pieceType = PIECE_BY_ID[piece.typeId];
+  const fileIndex = (square: Position) => fileToIndex(square.file);
+  const kingDistance = (square: Position) => Math.abs(fileIndex(square) - ctx.kingFileIndex);
+
+  // The royal piece takes the king's file, other royalty the other center file
+  if (pieceType?.isRoyal) return pickLowest(squares, kingDistance);
+
+  if (ctx.strategy === 'symmetric') {
+    if (pieceType?.tier === 'piece') {
+      const mirror = findMirrorSquare(board, piece, squares, ctx.numFiles);
+      if (mirror) return mirror;
+      const target = getClassicalEdgeDistance(piece);
+      return pickLowest(squares, (s) => {
+        const edgeDistance = Math.min(fileIndex(s), ctx.numFiles - 1 - fileIndex(s));
+        return Math.abs(edgeDistance - target);
+      });
+    }
+    // Pawns and royalty fill from the center outwards
+    return pickLowest(squares, (s) => getCenterDistance(fileIndex(s), ctx.numFiles));
+  }
+
+  // Heuristic
+  if (isHerald(piece)) {
+    // Heralds guard the flank away from the king
+    return pickLowest(squares, (s) => -kingDistance(s));
+  }
+  if (pieceType?.canFreeze && pieceType.tier === 'piece') {
+    return pickLowest(squares, (s) => getCenterDistance(fileIndex(s), ctx.numFiles));
+  }
+  // Everything else (pawn shield first) stays close to the king
+  return pickLowest(squares, kingDistance);
+}
+
+// =============================================================================
+// Board Simulation
+// =============================================================================
+
+/**
+ * Place a piece on a copy of the board, applying the Herald/pawn swap rules
+ */
+function applyPlannedPlacement(
+  board: BoardState,
+  piece: PieceInstance,
+  position: Position,
+  color: PlayerColor
+): BoardState {
+  let actualPosition = position;
+  let pieces = board.pieces;
+
+  if (isHerald(piece)) {
+    actualPosition = getHeraldActualPosition(position, color, board.dimensions);
+
+    // A pawn already on the Herald's square moves to the back rank
+    const existingId = board.positionMap.get(positionToString(actualPosition));
+    const existing = existingId ? board.pieces.find((p) => p.id === existingId) : undefined;
+    if (existing && existing.owner === color && PIECE_BY_ID[existing.typeId]?.tier === 'pawn') {
+      const pawnPosition = getPawnSwapPosition(actualPosition.file, color, board.dimensions);
+      pieces = pieces.map((p) => (p.id === existing.id ? { ...p, position: pawnPosition } : p));
+    }
+  } else if (
+    PIECE_BY_ID[piece.typeId]?.tier === 'pawn' &&
+    shouldPawnSwapToBackRank(board, position.file, color, board.dimensions)
+  ) {
+    actualPosition = getPawnSwapPosition(position.file, color, board.dimensions);
+  }
+
+  return createBoardState(board.dimensions, [...pieces, { ...piece, position: actualPosition }]);
+}
+
+// =============================================================================
+// Planner
+// =============================================================================
+
+/**
+ * Plan placements for all of a player's remaining pieces.
+ * The board holds anything already placed; placing the returned steps in order
+ * reproduces the plan. Pieces with no legal square left are skipped.
+ */
+export function planPlacement(
+  state: PlacementState,
+  color: PlayerColor,
+  board: BoardState,
+  boardSize: BoardSize,
+  options: PlacementPlanOptions = {}
+): PlannedPlacement[] {
+  const strategy = options.strategy ?? 'heuristic';
+  const numFiles = getBoardConfig(boardSize).files;
+  const zones = getPlacementZones(boardSize, color, board.dimensions.voids);
+
+  // Keep the royal piece where it already stands, otherwise aim for the classical king file
+  const placedRoyal = board.pieces.find(
+    (p) => p.owner === color && p.position && PIECE_BY_ID[p.typeId]?.isRoyal
+  );
+  const ctx: PlanContext = {
+    strategy,
+    numFiles,
+    kingFileIndex: placedRoyal?.position
+      ? fileToIndex(placedRoyal.position.file)
+      : Math.floor(numFiles / 2),
+    random: options.seed !== undefined ? createSeededRandom(options.seed) : Math.random,
+  };
+
+  const pieces = getPiecesToPlace(state, color).filter((p) => p.owner === color);
+  const plan: PlannedPlacement[] = [];
+  let current = board;
+
+  for (const piece of orderPieces(pieces, strategy)) {
+    const squares = getValidPlacementSquares(current, piece, zones, current.dimensions);
+    if (squares.length === 0) continue;
+
+    const position = chooseSquare(current, piece, squares, ctx);
+    plan.push({ piece, position });
+    current = applyPlannedPlacement(current, piece, position, color);
+  }
+
+  return plan;
+}
@@ -0,0 +1,25 @@
+/**
+ * Seeded random numbers for reproducible AI decisions
+ */
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32).
+ * Returns numbers in [0, 1) like Math.random.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a random element from a non-empty list
+ */
+export function pickRandom<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
@@ -0,0 +1,263 @@
+/**
+ * Tests for the search engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position, PieceInstance, PlayerColor } from '../types';
+import {
+  createInitialGameState,
+  createStandardChessPieces,
+  executeMove,
+} from '../rules/moveExecution';
+import { getGameResult } from '../rules/gameEndDetection';
+import { updateFrozenStates } from '../rules/freeze';
+import { parseHfen } from '../notation/hfen';
+import { generateAllMoves, searchBestMove, getMoveKey } from './search';
+import { evaluatePosition, scoreGameResult, MATE_SCORE, WIN_THRESHOLD } from './evaluation';
+
+// Helper to create a piece
+function createPiece(
+  id: string,
+  typeId: string,
+  owner: PlayerColor,
+  position: Position | null
+): PieceInstance {
+  return {
+    id,
+    typeId,
+    owner,
+    position,
+    hasMoved: true,
+    isFrozen: false,
+  };
+}
+
+// Helper to create a game state with the given side to move
+function createGame(pieces: PieceInstance[], turn: PlayerColor = 'white'): GameState {
+  const state = createInitialGameState(pieces, '8x8');
+  return { ...state, currentTurn: turn };
+}
+
+// Helper to create a game state from HFEN
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+describe('generateAllMoves', () => {
+  it('generates the 20 opening moves of standard chess', () => {
+    const state = createInitialGameState(createStandardChessPieces(), '8x8');
+    expect(generateAllMoves(state)).toHaveLength(20);
+  });
+
+  it('includes castling moves', () => {
+    const king = { ...createPiece('wk', 'king', 'white', { file: 'e', rank: 1 } as Position), hasMoved: false };
+    const rook = { ...createPiece('wr', 'rook', 'white', { file: 'h', rank: 1 } as Position), hasMoved: false };
+    const state = createGame([
+      king,
+      rook,
+      createPiece('bk', 'king', 'black', { file: 'e', rank: 8 } as Position),
+    ]);
+
+    const castling = generateAllMoves(state).filter((m) => m.isCastling);
+    expect(castling).toHaveLength(1);
+    expect(castling[0].to).toEqual({ file: 'g', rank: 1 });
+  });
+
+  it('generates one move per promotion choice', () => {
+    const state = createGame([
+      createPiece('wk', 'king', 'white', { file: 'e', rank: 1 } as Position),
+      createPiece('wp', 'pawn', 'white', { file: 'a', rank: 7 } as Position),
+      createPiece('bk', 'king', 'black', { file: 'h', rank: 6 } as Position),
+    ]);
+
+    const promotions = generateAllMoves(state).filter((m) => m.isPromotion);
+    expect(promotions.length).toBeGreaterThan(1);
+    expect(promotions.every((m) => m.promotionPieceType !== null)).toBe(true);
+  });
+
+  it('includes drops from the hand', () => {
+    const state = fromHfen('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - [N]');
+    const drops = generateAllMoves(state).filter((m) => m.dropPieceType === 'knight');
+    expect(drops).toHaveLength(62);
+    expect(new Set(drops.map(getMoveKey)).size).toBe(62);
+  });
+});
+
+describe('evaluatePosition', () => {
+  it('scores the starting position as roughly equal', () => {
+    const state = createInitialGameState(createStandardChessPieces(), '8x8');
+    expect(Math.abs(evaluatePosition(state, 'white'))).toBeLessThan(10);
+  });
+
+  it('is symmetric between the two perspectives', () => {
+    const state = createGame([
+      createPiece('wk', 'king', 'white', { file: 'e', rank: 1 } as Position),
+      createPiece('wq', 'queen', 'white', { file: 'd', rank: 1 } as Position),
+      createPiece('bk', 'king', 'black', { file: 'e', rank: 8 } as Position),
+    ]);
+
+    expect(evaluatePosition(state, 'white')).toBe(-evaluatePosition(state, 'black'));
+    expect(evaluatePosition(state, 'white')).toBeGreaterThan(80);
+  });
+
+  it('values a frozen piece lower than a free one', () => {
+    const pieces = [
+      createPiece('wk', 'king', 'white', { file: 'a', rank: 1 } as Position),
+      createPiece('wr', 'rook', 'white', { file: 'd', rank: 4 } as Position),
+      createPiece('bk', 'king', 'black', { file: 'h', rank: 8 } as Position),
+      createPiece('bi', 'immobilizer', 'black', { file: 'g', rank: 6 } as Position),
+    ];
+    const free = createGame(pieces);
+
+    const frozenPieces = pieces.map((p) =>
+      p.id === 'bi' ? { ...p, position: { file: 'e', rank: 5 } as Position } : p
+    );
+    const frozenState = createGame(frozenPieces);
+    const frozen = { ...frozenState, board: updateFrozenStates(frozenState.board) };
+
+    expect(frozen.board.pieces.find((p) => p.id === 'wr')?.isFrozen).toBe(true);
+    expect(evaluatePosition(frozen, 'white')).toBeLessThan(evaluatePosition(free, 'white'));
+  });
+
+  it('counts pieces in hand as material', () => {
+    const empty = fromHfen('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - []');
+    const holding = fromHfen('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - [R]');
+    expect(evaluatePosition(holding, 'white') - evaluatePosition(empty, 'white')).toBeGreaterThan(40);
+    expect(evaluatePosition(holding, 'black')).toBe(-evaluatePosition(holding, 'white'));
+  });
+});
+
+describe('scoreGameResult', () => {
+  it('scores wins, losses and draws', () => {
+    const win = { type: 'stalemate' as const, winner: 'white' as const, whiteVP: 50, blackVP: 0 };
+    const draw = { type: 'draw-vp-tie' as const, winner: null, whiteVP: 0, blackVP: 0 };
+
+    expect(scoreGameResult(win, 'white', 3)).toBe(MATE_SCORE - 3);
+    expect(scoreGameResult(win, 'black', 3)).toBe(-(MATE_SCORE - 3));
+    expect(scoreGameResult(draw, 'white')).toBe(0);
+  });
+});
+
+describe('searchBestMove', () => {
+  it('finds a back-rank mate in one', () => {
+    const state = createGame([
+      createPiece('wk', 'king', 'white', { file: 'g', rank: 1 } as Position),
+      createPiece('wr', 'rook', 'white', { file: 'a', rank: 1 } as Position),
+      createPiece('bk', 'king', 'black', { file: 'h', rank: 8 } as Position),
+      createPiece('bp1', 'pawn', 'black', { file: 'g', rank: 7 } as Position),
+      createPiece('bp2', 'pawn', 'black', { file: 'h', rank: 7 } as Position),
+    ]);
+
+    const result = searchBestMove(state, { maxDepth: 3 });
+
+    expect(result.bestMove?.to).toEqual({ file: 'a', rank: 8 });
+    expect(result.score).toBeGreaterThan(WIN_THRESHOLD);
+    expect(result.principalVariation[0]).toBe(result.bestMove);
+  });
+
+  it('captures an undefended queen', () => {
+    const state = createGame([
+      createPiece('wk', 'king', 'white', { file: 'h', rank: 1 } as Position),
+      createPiece('wr', 'rook', 'white', { file: 'a', rank: 1 } as Position),
+      createPiece('bk', 'king', 'black', { file: 'h', rank: 8 } as Position),
+      createPiece('bq', 'queen', 'black', { file: 'a', rank: 5 } as Position),
+    ]);
+
+    const result = searchBestMove(state, { maxDepth: 2 });
+
+    expect(result.bestMove?.capturedPieceId).toBe('bq');
+  });
+
+  it('promotes to the strongest piece', () => {
+    const state = createGame([
+      createPiece('wk', 'king', 'white', { file: 'e', rank: 1 } as Position),
+      createPiece('wp', 'pawn', 'white', { file: 'a', rank: 7 } as Position),
+      createPiece('bk', 'king', 'black', { file: 'h', rank: 6 } as Position),
+    ]);
+
+    const result = searchBestMove(state, { maxDepth: 2 });
+
+    expect(result.bestMove?.isPromotion).toBe(true);
+    expect(result.bestMove?.promotionPieceType).toBe('queen');
+  });
+
+  it('returns a principal variation of legal, alternating moves', () => {
+    const state = createInitialGameState(createStandardChessPieces(), '8x8');
+    const result = searchBestMove(state, { maxDepth: 2 });
+
+    expect(result.depth).toBe(2);
+    expect(result.principalVariation.length).toBeGreaterThanOrEqual(2);
+
+    const rootKeys = generateAllMoves(state).map(getMoveKey);
+    expect(rootKeys).toContain(getMoveKey(result.principalVariation[0]));
+    expect(result.principalVariation[1].pieceId.startsWith('b')).toBe(true);
+  });
+
+  it('stops at the node limit and still returns a move', () => {
+    const state = createInitialGameState(createStandardChessPieces(), '8x8');
+    const result = searchBestMove(state, { maxDepth: 10, nodeLimit: 200 });
+
+    expect(result.aborted).toBe(true);
+    expect(result.nodes).toBeLessThanOrEqual(201);
+    expect(result.bestMove).not.toBeNull();
+  });
+
+  it('stops when the time budget runs out', () => {
+    const state = createInitialGameState(createStandardChessPieces(), '8x8');
+    let time = 0;
+    const result = searchBestMove(state, {
+      maxDepth: 10,
+      timeLimitMs: 1000,
+      now: () => (time += 10),
+    });
+
+    expect(result.aborted).toBe(true);
+    expect(result.bestMove).not.toBeNull();
+  });
+
+  it('returns no move when the side to move is checkmated', () => {
+    const state = createGame([
+      createPiece('wk', 'king', 'white', { file: 'g', rank: 1 } as Position),
+      createPiece('wr', 'rook', 'white', { file: 'a', rank: 8 } as Position),
+      createPiece('bk', 'king', 'black', { file: 'h', rank: 8 } as Position),
+      createPiece('bp1', 'pawn', 'black', { file: 'g', rank: 7 } as Position),
+      createPiece('bp2', 'pawn', 'black', { file: 'h', rank: 7 } as Position),
+    ], 'black');
+
+    const result = searchBestMove(state);
+
+    expect(result.bestMove).toBeNull();
+    expect(result.score).toBe(-MATE_SCORE);
+  });
+
+  it('drops a piece when that is the only way out of check', () => {
+    const state = fromHfen('8x8 k6R/pp6/8/8/8/8/8/7K b - 0 1 - [n]');
+    expect(getGameResult(state)).toBeNull();
+
+    const result = searchBestMove(state, { maxDepth: 2 });
+
+    expect(result.bestMove?.dropPieceType).toBe('knight');
+    expect(result.bestMove?.to.rank).toBe(8);
+    const after = executeMove(state, result.bestMove!);
+    expect(after.inCheck).toBeNull();
+    expect(after.hand).toEqual({ white: [], black: [] });
+  });
+
+  it('plays into a stalemate it wins on Victory Points', () => {
+    // Black king is boxed in on a8; Qc7 or Kb6 stalemates with white far ahead on VP
+    const state = createGame([
+      createPiece('wk', 'king', 'white', { file: 'c', rank: 6 } as Position),
+      createPiece('wq', 'queen', 'white', { file: 'g', rank: 3 } as Position),
+      createPiece('bk', 'king', 'black', { file: 'a', rank: 8 } as Position),
+    ]);
+
+    const result = searchBestMove(state, { maxDepth: 1 });
+
+    expect(result.score).toBeGreaterThan(WIN_THRESHOLD);
+    const after = executeMove(state, result.bestMove!);
+    expect(generateAllMoves(after)).toHaveLength(0);
+    expect(getGameResult(after)?.type).toBe('stalemate');
+  });
+});
@@ -0,0 +1,402 @@
+/**
+ * Search engine - iterative-deepening alpha-beta over the rules engine
+ *
+ * Moves are produced by the same functions the UI and server use
+ * (getAllLegalMoves, generateLegalDrops, prepareMoveFromPositions, executeMove),
+ * so the engine plays every fairy rule the game supports without a separate
+ * move generator.
+ */
+
+import type { GameState, Move, PieceInstance, PlayerColor, Position } from '../types';
+import { positionToString } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { getPieceById } from '../board/boardUtils';
+import { zobristKeyToString } from '../board/zobrist';
+import { getAllLegalMoves } from '../rules/checkDetection';
+import { getCastlingDestinations } from '../rules/castling';
+import { generateLegalDrops, hasAnyLegalDrop } from '../rules/drops';
+import { executeMove, prepareMoveFromPositions } from '../rules/moveExecution';
+import { getGameResult, isThreefoldRepetition } from '../rules/gameEndDetection';
+import { getPromotionOptionsForPiece } from '../rules/promotion';
+import { evaluatePosition, scoreGameResult, isDecisiveScore, MATE_SCORE } from './evaluation';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SearchOptions {
+  /** Deepest iteration to search (default 4) */
+  maxDepth?: number;
+  /** Wall-clock budget in milliseconds */
+  timeLimitMs?: number;
+  /** Maximum number of positions to visit */
+  nodeLimit?: number;
+  /** Maximum extra plies of capture-only search at the horizon (default 4) */
+  quiescenceDepth?: number;
+  /** Clock used for the time budget (defaults to Date.now) */
+  now?: () => number;
+}
+
+export interface SearchResult {
+  /** Best move found, or null if the side to move has no legal moves */
+  bestMove: Move | null;
+  /** Score from the perspective of the side to move */
+  score: number;
+  /** Expected line of play starting with bestMove */
+  principalVariation: Move[];
+  /** Deepest fully completed iteration */
+  depth: number;
+  /** Positions visited */
+  nodes: number;
+  /** Time spent searching in milliseconds */
+  timeMs: number;
+  /** True if the search stopped because the time or node budget ran out */
+  aborted: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_MAX_DEPTH = 4;
+const DEFAULT_QUIESCENCE_DEPTH = 4;
+const INFINITY = MATE_SCORE + 1;
+
+/** Thrown internally to unwind the search when the budget runs out */
+class SearchAborted extends Error {}
+
+// =============================================================================
+// Move Generation
+// =============================================================================
+
+/**
+ * Unique key for a move (used for move ordering and tests)
+ */
+export function getMoveKey(move: Move): string {
+  if (move.dropPieceType) return `${move.dropPieceType}@${positionToString(move.to)}`;
+  const promo = move.promotionPieceType ? `=${move.promotionPieceType}` : '';
+  return `${move.pieceId}:${positionToString(move.from)}-${positionToString(move.to)}${promo}`;
+}
+
+/**
+ * Generate every legal move of a piece on the board as full Move objects.
+ * Includes castling and one move per promotion choice.
+ */
+function generateBoardMoves(gameState: GameState): Move[] {
+  const moves: Move[] = [];
+  const color = gameState.currentTurn;
+  const legalMoves = getAllLegalMoves(gameState.board, color, gameState.enPassantTarget);
+
+  const addMovesForPiece = (piece: PieceInstance, destinations: Position[]) => {
+    const pieceType = PIECE_BY_ID[piece.typeId];
+    if (!pieceType || !piece.position) return;
+
+    for (const to of destinations) {
+      const move = prepareMoveFromPositions(gameState, piece, piece.position, to);
+      if (!move) continue;
+
+      if (move.isPromotion) {
+        for (const option of getPromotionOptionsForPiece(pieceType, gameState)) {
+          const promoMove = prepareMoveFromPositions(gameState, piece, piece.position, to, option.id);
+          if (promoMove) moves.push(promoMove);
+        }
+      } else {
+        moves.push(move);
+      }
+    }
+  };
+
+  for (const [pieceId, destinations] of legalMoves) {
+    const piece = getPieceById(gameState.board, pieceId);
+    if (piece) addMovesForPiece(piece, destinations);
+  }
+
+  // Castling isn't part of generateLegalMoves
+  for (const piece of gameState.board.pieces) {
+    if (piece.owner !== color || !piece.position) continue;
+    if (!PIECE_BY_ID[piece.typeId]?.isRoyal) continue;
+
+    const existing = legalMoves.get(piece.id) ?? [];
+    const castling = getCastlingDestinations(gameState.board, piece).filter(
+      (to) => !existing.some((pos) => pos.file === to.file && pos.rank === to.rank)
+    );
+    addMovesForPiece(piece, castling);
+  }
+
+  return moves;
+}
+
+/**
+ * Generate every legal move for the side to move as full Move objects:
+ * board moves, then in a drops game every legal drop from the hand
+ */
+export function generateAllMoves(gameState: GameState): Move[] {
+  return [...generateBoardMoves(gameState), ...generateLegalDrops(gameState)];
+}
+
+/**
+ * Check if a move removes at least one enemy piece
+ */
+export function isCaptureMove(move: Move): boolean {
+  return move.capturedPieceId !== null || (move.additionalCaptures?.length ?? 0) > 0;
+}
+
+/**
+ * Total cost of the pieces a move captures
+ */
+function getCaptureValue(gameState: GameState, move: Move): number {
+  let value = 0;
+  const ids = [
+    ...(move.capturedPieceId ? [move.capturedPieceId] : []),
+    ...(move.additionalCaptures?.map((c) => c.pieceId) ?? []),
+  ];
+
+  for (const id of ids) {
+    const piece = getPieceById(gameState.board, id);
+    const pieceType = piece ? PIECE_BY_ID[piece.typeId] : undefined;
+    if (pieceType) value += pieceType.cost;
+  }
+
+  return value;
+}
+
+/**
+ * Order moves so the most promising are searched first:
+ * hash move, then captures (most valuable victim, least valuable attacker), then promotions.
+ */
+function orderMoves(gameState: GameState, moves: Move[], hashMoveKey: string | undefined): Move[] {
+  const scored = moves.map((move) => {
+    let score = 0;
+
+    if (hashMoveKey && getMoveKey(move) === hashMoveKey) {
+      score = INFINITY;
+    } else {
+      if (isCaptureMove(move)) {
+        const attacker = getPieceById(gameState.board, move.pieceId);
+        const attackerCost = attacker ? PIECE_BY_ID[attacker.typeId]?.cost ?? 0 : 0;
+        score += 1000 + getCaptureValue(gameState, move) * 10 - attackerCost;
+      }
+      if (move.isPromotion && move.promotionPieceType) {
+        score += 500 + (PIECE_BY_ID[move.promotionPieceType]?.cost ?? 0);
+      }
+      if (move.isCastling) {
+        score += 50;
+      }
+    }
+
+    return { move, score };
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+  return scored.map((s) => s.move);
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+interface SearchContext {
+  nodes: number;
+  nodeLimit: number;
+  deadline: number;
+  quiescenceDepth: number;
+  now: () => number;
+  /** Best move found for each position hash, from earlier iterations */
+  hashMoves: Map<string, string>;
+}
+
+/**
+ * Current position key as a string (the last entry in the position history)
+ */
+function currentHash(gameState: GameState): string {
+  const key = gameState.positionHistory[gameState.positionHistory.length - 1];
+  return key ? zobristKeyToString(key) : '';
+}
+
+/**
+ * Count a visited node and stop the search if the budget has run out
+ */
+function visitNode(ctx: SearchContext): void {
+  ctx.nodes++;
+  if (ctx.nodes > ctx.nodeLimit) {
+    throw new SearchAborted();
+  }
+  if (ctx.now() >= ctx.deadline) {
+    throw new SearchAborted();
+  }
+}
+
+/**
+ * Check if the side to move has lost its royal piece (failsafe, mirrors getGameResult)
+ */
+function hasLostRoyal(gameState: GameState, color: PlayerColor): boolean {
+  return !gameState.board.pieces.some(
+    (p) => p.owner === color && p.position && PIECE_BY_ID[p.typeId]?.isRoyal
+  );
+}
+
+/**
+ * Capture-only search at the horizon, so the evaluation isn't taken in the middle of an exchange
+ */
+function quiescence(
+  gameState: GameState,
+  alpha: number,
+  beta: number,
+  ply: number,
+  qDepth: number,
+  ctx: SearchContext
+): number {
+  visitNode(ctx);
+
+  const color = gameState.currentTurn;
+  if (hasLostRoyal(gameState, color)) return -(MATE_SCORE - ply);
+
+  const standPat = evaluatePosition(gameState, color);
+  if (qDepth <= 0) return standPat;
+
+  // Drops never capture, so only check that one exists before calling the game over
+  const moves = generateBoardMoves(gameState);
+  if (moves.length === 0 && !hasAnyLegalDrop(gameState)) {
+    // Checkmate, or stalemate decided by Victory Points
+    const result = getGameResult(gameState);
+    return result ? scoreGameResult(result, color, ply) : 0;
+  }
+
+  if (standPat >= beta) return standPat;
+  if (standPat > alpha) alpha = standPat;
+
+  const captures = moves.filter(isCaptureMove);
+  for (const move of orderMoves(gameState, captures, undefined)) {
+    const score = -quiescence(executeMove(gameState, move), -beta, -alpha, ply + 1, qDepth - 1, ctx);
+    if (score >= beta) return score;
+    if (score > alpha) alpha = score;
+  }
+
+  return alpha;
+}
+
+/**
+ * Negamax alpha-beta. Fills `pv` with the principal variation from this node.
+ */
+function negamax(
+  gameState: GameState,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  pv: Move[],
+  ctx: SearchContext
+): number {
+  pv.length = 0;
+  const color = gameState.currentTurn;
+
+  if (ply > 0) {
+    // Draw rules (checked before move generation since they're cheap)
+    if (gameState.halfmoveClock >= 100 || isThreefoldRepetition(gameState)) {
+      visitNode(ctx);
+      return 0;
+    }
+    if (hasLostRoyal(gameState, color)) {
+      visitNode(ctx);
+      return -(MATE_SCORE - ply);
+    }
+  }
+
+  if (depth <= 0) {
+    return quiescence(gameState, alpha, beta, ply, ctx.quiescenceDepth, ctx);
+  }
+
+  visitNode(ctx);
+
+  const moves = generateAllMoves(gameState);
+  if (moves.length === 0) {
+    // Checkmate, or stalemate decided by Victory Points
+    const result = getGameResult(gameState);
+    return result ? scoreGameResult(result, color, ply) : 0;
+  }
+
+  const hash = currentHash(gameState);
+  const ordered = orderMoves(gameState, moves, ctx.hashMoves.get(hash));
+  const childPv: Move[] = [];
+  let bestScore = -INFINITY;
+
+  for (const move of ordered) {
+    const score = -negamax(executeMove(gameState, move), depth - 1, -beta, -alpha, ply + 1, childPv, ctx);
+
+    if (score > bestScore) {
+      bestScore = score;
+      pv.length = 0;
+      pv.push(move, ...childPv);
+      ctx.hashMoves.set(hash, getMoveKey(move));
+    }
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) break;
+  }
+
+  return bestScore;
+}
+
+/**
+ * Find the best move for the side to move.
+ * Searches one ply deeper each iteration until maxDepth or the time/node budget is reached,
+ * and returns the result of the deepest completed iteration.
+ */
+export function searchBestMove(gameState: GameState, options: SearchOptions = {}): SearchResult {
+  const now = options.now ?? Date.now;
+  const startTime = now();
+  const maxDepth = Math.max(1, options.maxDepth ?? DEFAULT_MAX_DEPTH);
+
+  const ctx: SearchContext = {
+    nodes: 0,
+    nodeLimit: options.nodeLimit ?? Infinity,
+    deadline: options.timeLimitMs !== undefined ? startTime + options.timeLimitMs : Infinity,
+    quiescenceDepth: options.quiescenceDepth ?? DEFAULT_QUIESCENCE_DEPTH,
+    now,
+    hashMoves: new Map(),
+  };
+
+  const rootMoves = generateAllMoves(gameState);
+  const result: SearchResult = {
+    bestMove: null,
+    score: 0,
+    principalVariation: [],
+    depth: 0,
+    nodes: 0,
+    timeMs: 0,
+    aborted: false,
+  };
+
+  if (rootMoves.length === 0 || gameState.result) {
+    const gameResult = getGameResult(gameState);
+    result.score = gameResult ? scoreGameResult(gameResult, gameState.currentTurn) : 0;
+    result.timeMs = now() - startTime;
+    return result;
+  }
+
+  // Always have something to play, even if the first iteration is cut short
+  result.bestMove = orderMoves(gameState, rootMoves, undefined)[0];
+  result.principalVariation = [result.bestMove];
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const pv: Move[] = [];
+    try {
+      const score = negamax(gameState, depth, -INFINITY, INFINITY, 0, pv, ctx);
+      result.score = score;
+      result.depth = depth;
+      if (pv.length > 0) {
+        result.bestMove = pv[0];
+        result.principalVariation = [...pv];
+      }
+      // A forced win or loss won't change with more depth
+      if (isDecisiveScore(score)) break;
+    } catch (error) {
+      if (!(error instanceof SearchAborted)) throw error;
+      result.aborted = true;
+      break;
+    }
+  }
+
+  result.nodes = ctx.nodes;
+  result.timeMs = now() - startTime;
+  return result;
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for Berolina pawn movement and en passant
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { parseHfen } from '../notation/hfen';
+import { executeMove, prepareMoveFromPositions } from '../rules/moveExecution';
+import { generateLegalMoves, isSquareAttacked } from '../rules/checkDetection';
+import { getPieceAt } from './boardUtils';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function square(name: string): Position {
+  return stringToPosition(name)!;
+}
+
+function legalMoves(state: GameState, from: string): string[] {
+  const piece = getPieceAt(state.board, square(from))!;
+  return generateLegalMoves(state.board, piece, state.enPassantTarget).map(positionToString).sort();
+}
+
+function play(state: GameState, from: string, to: string): GameState {
+  const piece = getPieceAt(state.board, square(from))!;
+  const move = prepareMoveFromPositions(state, piece, square(from), square(to));
+  if (!move) throw new Error(`No move ${from}${to}`);
+  return executeMove(state, move);
+}
+
+describe('Berolina pawn', () => {
+  it('moves diagonally forward, two squares from the start', () => {
+    const state = fromHfen('8x8 4k3/8/8/8/8/8/3[BEROLINA-PAWN]4/4K3 w - 0 1 -');
+    expect(legalMoves(state, 'd2')).toEqual(['b4', 'c3', 'e3', 'f4']);
+  });
+
+  it('captures straight forward only', () => {
+    const state = fromHfen('8x8 4k3/8/8/2n1n3/3r4/3[BEROLINA-PAWN]*4/8/4K3 w - 0 1 -');
+    expect(legalMoves(state, 'd3')).toEqual(['c4', 'd4', 'e4']);
+  });
+
+  it('is blocked on its double step by a piece on the first square', () => {
+    const state = fromHfen('8x8 4k3/8/8/8/8/2n5/3[BEROLINA-PAWN]4/4K3 w - 0 1 -');
+    expect(legalMoves(state, 'd2')).toEqual(['e3', 'f4']);
+  });
+
+  it('attacks the square straight ahead', () => {
+    const state = fromHfen('8x8 4k3/8/8/8/8/3[berolina-pawn]*4/8/4K3 w - 0 1 -');
+    expect(isSquareAttacked(state.board, square('d2'), 'black')).toBe(true);
+    expect(isSquareAttacked(state.board, square('e2'), 'black')).toBe(false);
+  });
+
+  it('sets the en passant target on the square it passes over diagonally', () => {
+    const state = play(fromHfen('8x8 4k3/8/8/8/8/8/3[BEROLINA-PAWN]4/4K3 w - 0 1 -'), 'd2', 'f4');
+    expect(state.enPassantTarget).toEqual(square('e3'));
+  });
+
+  it('can be captured en passant by a Berolina pawn or a pawn', () => {
+    const start = fromHfen('8x8 4k3/8/8/8/3p*[berolina-pawn]*3/8/3[BEROLINA-PAWN]4/4K3 w - 0 1 -');
+    const state = play(start, 'd2', 'f4');
+
+    // Black Berolina pawn on e4 captures straight forward onto e3
+    const byBerolina = play(state, 'e4', 'e3');
+    expect(getPieceAt(byBerolina.board, square('f4'))).toBeNull();
+    expect(byBerolina.moveHistory[1]).toMatchObject({ isEnPassant: true, capturePosition: square('f4') });
+
+    // Black pawn on d4 captures diagonally onto e3
+    const byPawn = play(state, 'd4', 'e3');
+    expect(getPieceAt(byPawn.board, square('f4'))).toBeNull();
+    expect(byPawn.moveHistory[1]).toMatchObject({ isEnPassant: true, capturePosition: square('f4') });
+  });
+
+  it('does not treat a diagonal move onto the en passant target as a capture', () => {
+    const state = play(
+      fromHfen('8x8 4k3/4p3/8/3[BEROLINA-PAWN]*4/8/8/8/4K3 b - 0 1 -'),
+      'e7',
+      'e5'
+    );
+    const after = play(state, 'd5', 'e6');
+    expect(after.moveHistory[1]).toMatchObject({ isEnPassant: false, capturedPieceId: null });
+    expect(getPieceAt(after.board, square('e5'))?.typeId).toBe('pawn');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Benchmark: legal move generation with make/unmake vs copying the board per move
+ *
+ * Run with `pnpm bench` in packages/shared.
+ */
+
+import { bench, describe } from 'vitest';
+import type { BoardState, PieceInstance, PlayerColor, Position } from '../types';
+import { createBoardState } from './boardUtils';
+import { generatePseudoLegalMoves } from './moveGeneration';
+import { getAllLegalMoves, isInCheck, simulateMove } from '../rules/checkDetection';
+import { updateFrozenStates } from '../rules/freeze';
+
+function createPiece(
+  id: string,
+  typeId: string,
+  owner: PlayerColor,
+  file: string,
+  rank: number
+): PieceInstance {
+  return {
+    id,
+    typeId,
+    owner,
+    position: { file, rank } as Position,
+    hasMoved: true,
+    isFrozen: false,
+  };
+}
+
+/**
+ * 10x10 middlegame with many sliders and a few freezers for each side
+ */
+function createSliderBoard(): BoardState {
+  const pieces: PieceInstance[] = [
+    createPiece('wk', 'king', 'white', 'f', 1),
+    createPiece('wq1', 'queen', 'white', 'd', 3),
+    createPiece('wq2', 'queen', 'white', 'g', 4),
+    createPiece('wr1', 'rook', 'white', 'a', 1),
+    createPiece('wr2', 'rook', 'white', 'j', 2),
+    createPiece('wb1', 'bishop', 'white', 'c', 1),
+    createPiece('wb2', 'bishop', 'white', 'h', 3),
+    createPiece('wa', 'archbishop', 'white', 'b', 4),
+    createPiece('wc', 'chancellor', 'white', 'i', 5),
+    createPiece('wi', 'inquisitor', 'white', 'e', 4),
+    createPiece('bk', 'king', 'black', 'f', 10),
+    createPiece('bq1', 'queen', 'black', 'd', 8),
+    createPiece('bq2', 'queen', 'black', 'g', 7),
+    createPiece('br1', 'rook', 'black', 'a', 10),
+    createPiece('br2', 'rook', 'black', 'j', 9),
+    createPiece('bb1', 'bishop', 'black', 'c', 10),
+    createPiece('bb2', 'bishop', 'black', 'h', 8),
+    createPiece('ba', 'archbishop', 'black', 'b', 7),
+    createPiece('bc', 'chancellor', 'black', 'i', 6),
+    createPiece('bm', 'immobilizer', 'black', 'e', 7),
+  ];
+  for (const file of ['a', 'b', 'c', 'h', 'i', 'j']) {
+    pieces.push(createPiece(`wp-${file}`, 'pawn', 'white', file, 2));
+    pieces.push(createPiece(`bp-${file}`, 'pawn', 'black', file, 9));
+  }
+  return updateFrozenStates(createBoardState({ files: 10, ranks: 10 }, pieces));
+}
+
+/**
+ * The legality filter as it was before the board core
+ */
+function getAllLegalMovesByCloning(board: BoardState, color: PlayerColor): Map<string, Position[]> {
+  const result = new Map<string, Position[]>();
+  for (const piece of board.pieces) {
+    if (piece.owner !== color || !piece.position) continue;
+    const moves = generatePseudoLegalMoves(board, piece, null).filter(
+      (move) => !isInCheck(simulateMove(board, piece, move), color)
+    );
+    if (moves.length > 0) result.set(piece.id, moves);
+  }
+  return result;
+}
+
+const board = createSliderBoard();
+
+describe('all legal moves on a 10x10 slider board', () => {
+  bench('clone per move (simulateMove)', () => {
+    getAllLegalMovesByCloning(board, 'white');
+  });
+
+  bench('make/unmake (board core)', () => {
+    getAllLegalMoves(board, 'white', null);
+  });
+});
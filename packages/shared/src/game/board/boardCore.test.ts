@@ -0,0 +1,240 @@
+/**
+ * Tests for the mutable board core (make/unmake)
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { BoardDimensions, BoardState, PieceInstance, PlayerColor, Position } from '../types';
+import { createBoardState, getPieceAt, hasSquareIndex } from './boardUtils';
+import { generatePseudoLegalMoves } from './moveGeneration';
+import { createBoardCore, makeMove, unmakeMove } from './boardCore';
+import {
+  getAllLegalMoves,
+  isInCheck,
+  simulateMove,
+} from '../rules/checkDetection';
+import { updateFrozenStates } from '../rules/freeze';
+
+function createPiece(
+  id: string,
+  typeId: string,
+  owner: PlayerColor,
+  file: string,
+  rank: number
+): PieceInstance {
+  return {
+    id,
+    typeId,
+    owner,
+    position: { file, rank } as Position,
+    hasMoved: false,
+    isFrozen: false,
+  };
+}
+
+function createBoard(pieces: PieceInstance[], dimensions: BoardDimensions = { files: 8, ranks: 8 }): BoardState {
+  return updateFrozenStates(createBoardState(dimensions, pieces));
+}
+
+function pos(file: string, rank: number): Position {
+  return { file, rank } as Position;
+}
+
+/**
+ * Comparable summary of a board: every piece's position and flags, sorted by ID
+ */
+function snapshot(board: BoardState) {
+  return {
+    pieces: [...board.pieces]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((p) => ({
+        id: p.id,
+        position: p.position,
+        hasMoved: p.hasMoved,
+        isFrozen: p.position ? p.isFrozen : false,
+      })),
+    positionMap: [...board.positionMap.entries()].sort(),
+  };
+}
+
+/**
+ * The legality filter as it was before the board core: copy the board for every move
+ */
+function legalMovesByCloning(board: BoardState, color: PlayerColor): Map<string, Position[]> {
+  const result = new Map<string, Position[]>();
+  for (const piece of board.pieces) {
+    if (piece.owner !== color || !piece.position) continue;
+    const moves = generatePseudoLegalMoves(board, piece, null).filter(
+      (move) => !isInCheck(simulateMove(board, piece, move), color)
+    );
+    if (moves.length > 0) result.set(piece.id, moves);
+  }
+  return result;
+}
+
+describe('board core', () => {
+  it('builds a square index for the view and leaves the original board alone', () => {
+    const board = createBoard([createPiece('wk', 'king', 'white', 'e', 1)]);
+    const core = createBoardCore(board);
+
+    expect(hasSquareIndex(core.board)).toBe(true);
+    expect(hasSquareIndex(board)).toBe(false);
+    expect(getPieceAt(core.board, pos('e', 1))?.id).toBe('wk');
+    expect(getPieceAt(core.board, pos('e', 2))).toBeNull();
+
+    const undo = makeMove(core, 'wk', pos('e', 2));
+    expect(getPieceAt(core.board, pos('e', 2))?.id).toBe('wk');
+    expect(board.pieces[0].position).toEqual(pos('e', 1));
+    unmakeMove(core, undo);
+    expect(getPieceAt(core.board, pos('e', 1))?.id).toBe('wk');
+  });
+
+  it('matches simulateMove for a capture and restores the board on unmake', () => {
+    const board = createBoard([
+      createPiece('wk', 'king', 'white', 'e', 1),
+      createPiece('wr', 'rook', 'white', 'a', 1),
+      createPiece('bn', 'knight', 'black', 'a', 7),
+      createPiece('bk', 'king', 'black', 'e', 8),
+    ]);
+    const core = createBoardCore(board);
+    const before = snapshot(core.board);
+
+    const rook = board.pieces.find((p) => p.id === 'wr')!;
+    const undo = makeMove(core, 'wr', pos('a', 7));
+    expect(snapshot(core.board)).toEqual(snapshot(simulateMove(board, rook, pos('a', 7))));
+
+    unmakeMove(core, undo);
+    expect(snapshot(core.board)).toEqual(before);
+  });
+
+  it('removes the captured pawn for en passant', () => {
+    const board = createBoard([
+      createPiece('wk', 'king', 'white', 'e', 1),
+      createPiece('wp', 'pawn', 'white', 'e', 5),
+      createPiece('bp', 'pawn', 'black', 'd', 5),
+      createPiece('bk', 'king', 'black', 'e', 8),
+    ]);
+    const core = createBoardCore(board);
+    const pawn = board.pieces.find((p) => p.id === 'wp')!;
+
+    const undo = makeMove(core, 'wp', pos('d', 6), pos('d', 5));
+    expect(getPieceAt(core.board, pos('d', 5))).toBeNull();
+    expect(snapshot(core.board)).toEqual(
+      snapshot(simulateMove(board, pawn, pos('d', 6), pos('d', 5)))
+    );
+
+    unmakeMove(core, undo);
+    expect(getPieceAt(core.board, pos('d', 5))?.id).toBe('bp');
+  });
+
+  it('swaps a swap-adjacent piece with a friendly piece', () => {
+    const board = createBoard([
+      createPiece('wk', 'king', 'white', 'e', 1),
+      createPiece('wc', 'chamberlain', 'white', 'd', 1),
+      createPiece('bk', 'king', 'black', 'e', 8),
+    ]);
+    const core = createBoardCore(board);
+    const chamberlain = board.pieces.find((p) => p.id === 'wc')!;
+
+    const undo = makeMove(core, 'wc', pos('e', 1));
+    expect(getPieceAt(core.board, pos('d', 1))?.id).toBe('wk');
+    expect(snapshot(core.board)).toEqual(snapshot(simulateMove(board, chamberlain, pos('e', 1))));
+
+    unmakeMove(core, undo);
+    expect(getPieceAt(core.board, pos('d', 1))?.id).toBe('wc');
+    expect(getPieceAt(core.board, pos('e', 1))?.id).toBe('wk');
+  });
+
+  it('updates frozen states around the move and undoes them', () => {
+    const board = createBoard([
+      createPiece('wk', 'king', 'white', 'a', 1),
+      createPiece('wi', 'immobilizer', 'white', 'd', 4),
+      createPiece('br', 'rook', 'black', 'e', 5),
+      createPiece('bn', 'knight', 'black', 'g', 6),
+      createPiece('bk', 'king', 'black', 'h', 8),
+    ]);
+    expect(board.pieces.find((p) => p.id === 'br')!.isFrozen).toBe(true);
+
+    const core = createBoardCore(board);
+    const before = snapshot(core.board);
+    const immobilizer = board.pieces.find((p) => p.id === 'wi')!;
+
+    // Leaving the rook and freezing the knight
+    const undo = makeMove(core, 'wi', pos('g', 5));
+    expect(core.piecesById.get('br')!.isFrozen).toBe(false);
+    expect(core.piecesById.get('bn')!.isFrozen).toBe(true);
+    expect(snapshot(core.board)).toEqual(snapshot(simulateMove(board, immobilizer, pos('g', 5))));
+
+    unmakeMove(core, undo);
+    expect(snapshot(core.board)).toEqual(before);
+  });
+
+  it('restores the board after a sequence of moves unmade in reverse', () => {
+    const board = createBoard([
+      createPiece('wk', 'king', 'white', 'e', 1),
+      createPiece('wq', 'queen', 'white', 'd', 1),
+      createPiece('wh', 'herald', 'white', 'a', 2),
+      createPiece('bk', 'king', 'black', 'e', 8),
+      createPiece('bq', 'queen', 'black', 'd', 8),
+      createPiece('bp', 'pawn', 'black', 'd', 4),
+    ]);
+    const core = createBoardCore(board);
+    const before = snapshot(core.board);
+
+    const undos = [
+      makeMove(core, 'wq', pos('d', 4)),
+      makeMove(core, 'bq', pos('d', 4)),
+      makeMove(core, 'wh', pos('a', 3)),
+      makeMove(core, 'bk', pos('e', 7)),
+    ];
+    expect(getPieceAt(core.board, pos('d', 4))?.id).toBe('bq');
+
+    for (let i = undos.length - 1; i >= 0; i--) {
+      unmakeMove(core, undos[i]);
+    }
+    expect(snapshot(core.board)).toEqual(before);
+  });
+});
+
+describe('legal move generation on the board core', () => {
+  it('finds the same legal moves as copying the board for every move', () => {
+    const board = createBoard(
+      [
+        createPiece('wk', 'king', 'white', 'e', 1),
+        createPiece('wq', 'queen', 'white', 'd', 2),
+        createPiece('wr', 'rook', 'white', 'a', 1),
+        createPiece('wb', 'bishop', 'white', 'c', 3),
+        createPiece('wi', 'inquisitor', 'white', 'f', 3),
+        createPiece('wc', 'chamberlain', 'white', 'f', 1),
+        createPiece('bk', 'king', 'black', 'e', 10),
+        createPiece('bq', 'queen', 'black', 'e', 6),
+        createPiece('br', 'rook', 'black', 'h', 1),
+        createPiece('bb', 'bishop', 'black', 'b', 4),
+        createPiece('bm', 'immobilizer', 'black', 'g', 4),
+      ],
+      { files: 10, ranks: 10 }
+    );
+
+    for (const color of ['white', 'black'] as PlayerColor[]) {
+      const expected = legalMovesByCloning(board, color);
+      const actual = getAllLegalMoves(board, color, null);
+      expect([...actual.keys()].sort()).toEqual([...expected.keys()].sort());
+      for (const [id, moves] of expected) {
+        expect(actual.get(id)).toEqual(moves);
+      }
+    }
+  });
+
+  it('leaves the caller board untouched', () => {
+    const board = createBoard([
+      createPiece('wk', 'king', 'white', 'e', 1),
+      createPiece('wq', 'queen', 'white', 'd', 1),
+      createPiece('bk', 'king', 'black', 'e', 8),
+      createPiece('br', 'rook', 'black', 'e', 7),
+    ]);
+    const before = snapshot(board);
+
+    getAllLegalMoves(board, 'white', null);
+
+    expect(snapshot(board)).toEqual(before);
+  });
+});
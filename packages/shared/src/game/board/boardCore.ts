@@ -0,0 +1,226 @@
+/**
+ * Board core - mutable board with make/unmake for fast move simulation
+ *
+ * The core owns copies of the pieces and keeps a flat square array, the
+ * positionMap and frozen states in sync as moves are made and unmade.
+ * Its `board` is an ordinary BoardState, so move generation and attack
+ * detection run on it unchanged, with O(1) square lookups.
+ */
+
+import type { BoardState, PieceInstance, Position } from '../types';
+import { positionToString } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { attachSquareIndex, getSquareIndex, offsetPosition } from './boardUtils';
+import { doesFreeze } from '../rules/freeze';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BoardCore {
+  /** Live board view. It changes in place with every makeMove/unmakeMove. */
+  board: BoardState;
+  /** Piece on each square, indexed by getSquareIndex */
+  squares: (PieceInstance | null)[];
+  /** The core's own piece objects by ID */
+  piecesById: Map<string, PieceInstance>;
+}
+
+interface PieceSnapshot {
+  piece: PieceInstance;
+  position: Position | null;
+  hasMoved: boolean;
+  isFrozen: boolean;
+}
+
+interface SquareSnapshot {
+  index: number;
+  position: Position;
+  piece: PieceInstance | null;
+}
+
+/**
+ * Everything a move changed, so unmakeMove can put it back
+ */
+export interface UndoRecord {
+  pieces: PieceSnapshot[];
+  squares: SquareSnapshot[];
+}
+
+// =============================================================================
+// Creation
+// =============================================================================
+
+/**
+ * Create a board core from a board state. The original board is not modified.
+ */
+export function createBoardCore(board: BoardState): BoardCore {
+  const pieces = board.pieces.map((p) => ({ ...p }));
+  const squares: (PieceInstance | null)[] = new Array(
+    board.dimensions.files * board.dimensions.ranks
+  ).fill(null);
+  const positionMap = new Map<string, string>();
+  const piecesById = new Map<string, PieceInstance>();
+
+  for (const piece of pieces) {
+    piecesById.set(piece.id, piece);
+    if (!piece.position) continue;
+
+    const index = getSquareIndex(piece.position, board.dimensions);
+    if (index !== -1) squares[index] = piece;
+    positionMap.set(positionToString(piece.position), piece.id);
+  }
+
+  const view: BoardState = {
+    dimensions: board.dimensions,
+    pieces,
+    positionMap,
+    hadMultipleRoyals: board.hadMultipleRoyals,
+  };
+  attachSquareIndex(view, squares);
+
+  return { board: view, squares, piecesById };
+}
+
+// =============================================================================
+// Make / Unmake
+// =============================================================================
+
+function savePiece(undo: UndoRecord, piece: PieceInstance): void {
+  undo.pieces.push({
+    piece,
+    position: piece.position,
+    hasMoved: piece.hasMoved,
+    isFrozen: piece.isFrozen,
+  });
+}
+
+function setSquare(
+  core: BoardCore,
+  position: Position,
+  piece: PieceInstance | null,
+  undo: UndoRecord
+): void {
+  const index = getSquareIndex(position, core.board.dimensions);
+  if (index === -1) return;
+
+  undo.squares.push({ index, position, piece: core.squares[index] });
+  core.squares[index] = piece;
+
+  const key = positionToString(position);
+  if (piece) {
+    core.board.positionMap.set(key, piece.id);
+  } else {
+    core.board.positionMap.delete(key);
+  }
+}
+
+/**
+ * Recompute frozen states for pieces on or next to the changed squares.
+ * Freezing only reaches adjacent squares, so nothing further away can change.
+ */
+function updateFrozenAround(core: BoardCore, changed: Position[], undo: UndoRecord): void {
+  const { dimensions } = core.board;
+  const candidates = new Set<PieceInstance>();
+
+  for (const square of changed) {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const pos = offsetPosition(square, dx, dy, dimensions);
+        const piece = pos ? core.squares[getSquareIndex(pos, dimensions)] : null;
+        if (piece) candidates.add(piece);
+      }
+    }
+  }
+
+  for (const piece of candidates) {
+    let isFrozen = false;
+    for (let dx = -1; dx <= 1 && !isFrozen; dx++) {
+      for (let dy = -1; dy <= 1 && !isFrozen; dy++) {
+        const pos = offsetPosition(piece.position!, dx, dy, dimensions);
+        const neighbor = pos ? core.squares[getSquareIndex(pos, dimensions)] : null;
+        if (neighbor && doesFreeze(neighbor, piece, dimensions)) isFrozen = true;
+      }
+    }
+
+    if (piece.isFrozen !== isFrozen) {
+      savePiece(undo, piece);
+      piece.isFrozen = isFrozen;
+    }
+  }
+}
+
+/**
+ * Make a move on the core, capturing whatever stands on the capture square
+ * (the destination unless given, e.g. for en passant). A swap-adjacent piece
+ * moving onto a friendly piece swaps places with it instead.
+ * Mirrors simulateMove, without copying the board.
+ */
+export function makeMove(
+  core: BoardCore,
+  pieceId: string,
+  to: Position,
+  capturePosition?: Position
+): UndoRecord {
+  const undo: UndoRecord = { pieces: [], squares: [] };
+  const piece = core.piecesById.get(pieceId);
+  if (!piece || !piece.position) return undo;
+
+  const from = piece.position;
+  const changed: Position[] = [from, to];
+
+  const capturePos = capturePosition || to;
+  const captureIndex = getSquareIndex(capturePos, core.board.dimensions);
+  const target = captureIndex === -1 ? null : core.squares[captureIndex];
+  let swapped: PieceInstance | null = null;
+
+  if (target && target.id !== piece.id) {
+    const pieceType = PIECE_BY_ID[piece.typeId];
+    const isSwapMove =
+      pieceType?.movement.special.includes('swap-adjacent') && target.owner === piece.owner;
+
+    savePiece(undo, target);
+    setSquare(core, capturePos, null, undo);
+    if (isSwapMove) {
+      target.position = from;
+      swapped = target;
+    } else {
+      target.position = null;
+      target.isFrozen = false;
+    }
+    if (capturePos !== to) changed.push(capturePos);
+  }
+
+  savePiece(undo, piece);
+  setSquare(core, from, swapped, undo);
+  piece.position = to;
+  piece.hasMoved = true;
+  setSquare(core, to, piece, undo);
+
+  updateFrozenAround(core, changed, undo);
+  return undo;
+}
+
+/**
+ * Undo a move made with makeMove. Moves must be unmade in reverse order.
+ */
+export function unmakeMove(core: BoardCore, undo: UndoRecord): void {
+  for (let i = undo.squares.length - 1; i >= 0; i--) {
+    const { index, position, piece } = undo.squares[i];
+    core.squares[index] = piece;
+
+    const key = positionToString(position);
+    if (piece) {
+      core.board.positionMap.set(key, piece.id);
+    } else {
+      core.board.positionMap.delete(key);
+    }
+  }
+
+  for (let i = undo.pieces.length - 1; i >= 0; i--) {
+    const { piece, position, hasMoved, isFrozen } = undo.pieces[i];
+    piece.position = position;
+    piece.hasMoved = hasMoved;
+    piece.isFrozen = isFrozen;
+  }
+}
@@ -5,6 +5,7 @@ import {
   offsetPosition,
   isValidPosition,
   getDistance,
+  getFileDelta,
   areAdjacent,
   getPieceAt,
   isSquareEmpty,
@@ -39,7 +40,13 @@ describe('Board Utilities', () => {
 
     it('returns null for invalid index', () => {
       expect(indexToFile(-1)).toBeNull();
-      expect(indexToFile(10)).toBeNull();
+      expect(indexToFile(16)).toBeNull();
+    });
+
+    it('covers files up to the largest board', () => {
+      expect(indexToFile(11)).toBe('l');
+      expect(indexToFile(15)).toBe('p');
+      expect(fileToIndex('p')).toBe(15);
     });
   });
 
@@ -80,6 +87,14 @@ describe('Board Utilities', () => {
 
       expect(result).toBeNull();
     });
+
+    it('wraps round the files on a cylinder', () => {
+      const cylinder: BoardDimensions = { ...dimensions, topology: 'cylinder' };
+
+      expect(offsetPosition({ file: 'h', rank: 4 }, 1, 0, cylinder)).toEqual({ file: 'a', rank: 4 });
+      expect(offsetPosition({ file: 'b', rank: 4 }, -3, 1, cylinder)).toEqual({ file: 'g', rank: 5 });
+      expect(offsetPosition({ file: 'e', rank: 8 }, 0, 1, cylinder)).toBeNull();
+    });
   });
 
   describe('isValidPosition', () => {
@@ -102,60 +117,84 @@ describe('Board Utilities', () => {
   });
 
   describe('getDistance', () => {
+    const dimensions: BoardDimensions = { files: 8, ranks: 8 };
+
     it('calculates Chebyshev distance for orthogonal moves', () => {
       const from: Position = { file: 'a', rank: 1 };
       const to: Position = { file: 'a', rank: 4 };
 
-      expect(getDistance(from, to)).toBe(3);
+      expect(getDistance(from, to, dimensions)).toBe(3);
     });
 
     it('calculates Chebyshev distance for diagonal moves', () => {
       const from: Position = { file: 'a', rank: 1 };
       const to: Position = { file: 'd', rank: 4 };
 
-      expect(getDistance(from, to)).toBe(3);
+      expect(getDistance(from, to, dimensions)).toBe(3);
     });
 
     it('calculates Chebyshev distance for knight-like moves', () => {
       const from: Position = { file: 'e', rank: 4 };
       const to: Position = { file: 'f', rank: 6 };
 
-      expect(getDistance(from, to)).toBe(2);
+      expect(getDistance(from, to, dimensions)).toBe(2);
     });
 
     it('returns 0 for same position', () => {
       const pos: Position = { file: 'e', rank: 4 };
 
-      expect(getDistance(pos, pos)).toBe(0);
+      expect(getDistance(pos, pos, dimensions)).toBe(0);
     });
   });
 
   describe('areAdjacent', () => {
+    const dimensions: BoardDimensions = { files: 8, ranks: 8 };
+
     it('returns true for orthogonally adjacent squares', () => {
       const a: Position = { file: 'e', rank: 4 };
       const b: Position = { file: 'e', rank: 5 };
 
-      expect(areAdjacent(a, b)).toBe(true);
+      expect(areAdjacent(a, b, dimensions)).toBe(true);
     });
 
     it('returns true for diagonally adjacent squares', () => {
       const a: Position = { file: 'e', rank: 4 };
       const b: Position = { file: 'f', rank: 5 };
 
-      expect(areAdjacent(a, b)).toBe(true);
+      expect(areAdjacent(a, b, dimensions)).toBe(true);
     });
 
     it('returns false for non-adjacent squares', () => {
       const a: Position = { file: 'e', rank: 4 };
       const b: Position = { file: 'e', rank: 6 };
 
-      expect(areAdjacent(a, b)).toBe(false);
+      expect(areAdjacent(a, b, dimensions)).toBe(false);
     });
 
     it('returns false for same square', () => {
       const pos: Position = { file: 'e', rank: 4 };
 
-      expect(areAdjacent(pos, pos)).toBe(false);
+      expect(areAdjacent(pos, pos, dimensions)).toBe(false);
+    });
+
+    it('treats the a-file and last file as adjacent on a cylinder', () => {
+      const a: Position = { file: 'a', rank: 4 };
+      const h: Position = { file: 'h', rank: 5 };
+
+      expect(areAdjacent(a, h, dimensions)).toBe(false);
+      expect(areAdjacent(a, h, { ...dimensions, topology: 'cylinder' })).toBe(true);
+    });
+  });
+
+  describe('getFileDelta', () => {
+    it('takes the shorter way round on a cylinder', () => {
+      const cylinder: BoardDimensions = { files: 8, ranks: 8, topology: 'cylinder' };
+      const a: Position = { file: 'a', rank: 1 };
+
+      expect(getFileDelta(a, { file: 'g', rank: 1 }, { files: 8, ranks: 8 })).toBe(6);
+      expect(getFileDelta(a, { file: 'g', rank: 1 }, cylinder)).toBe(-2);
+      expect(getFileDelta({ file: 'h', rank: 1 }, a, cylinder)).toBe(1);
+      expect(getFileDelta(a, { file: 'd', rank: 1 }, cylinder)).toBe(3);
     });
   });
 
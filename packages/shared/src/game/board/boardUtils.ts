@@ -9,16 +9,18 @@ import type {
   BoardDimensions,
   BoardState,
   PieceInstance,
+  PieceOwner,
   PlayerColor,
+  SpecialMovement,
 } from '../types';
-import { positionToString } from '../types';
+import { MAX_BOARD_DIMENSION, PLAYER_COLORS, positionToString } from '../types';
 import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
 
 // =============================================================================
 // File/Rank Conversion
 // =============================================================================
 
-const FILES: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
+const FILES: File[] = Array.from({ length: MAX_BOARD_DIMENSION }, (_, i) => String.fromCharCode(97 + i));
 
 export function fileToIndex(file: File): number {
   return FILES.indexOf(file);
@@ -29,13 +31,35 @@ export function indexToFile(index: number): File | null {
   return FILES[index];
 }
 
+/**
+ * Get the letters of the first `count` files, e.g. a-h for an 8-file board
+ */
+export function getFiles(count: number): File[] {
+  return FILES.slice(0, count);
+}
+
 // =============================================================================
 // Position Manipulation
 // =============================================================================
 
+/**
+ * Check if the a-file and last file of a board are adjacent (cylindrical boards)
+ */
+export function isCylinder(dimensions: BoardDimensions): boolean {
+  return dimensions.topology === 'cylinder';
+}
+
+/**
+ * Check if a square is cut out of the board (a void piece can't stand on or pass through)
+ */
+export function isVoidSquare(pos: Position, dimensions: BoardDimensions): boolean {
+  return !!dimensions.voids?.length && dimensions.voids.includes(positionToString(pos));
+}
+
 /**
  * Offset a position by dx (files) and dy (ranks)
- * Returns null if the resulting position would be off the board
+ * Returns null if the resulting position would be off the board or on a void square.
+ * On a cylinder, files wrap round from the last file to the a-file and back.
  */
 export function offsetPosition(
   pos: Position,
@@ -43,16 +67,47 @@ export function offsetPosition(
   dy: number,
   dimensions: BoardDimensions
 ): Position | null {
-  const newFileIndex = fileToIndex(pos.file) + dx;
+  let newFileIndex = fileToIndex(pos.file) + dx;
   const newRank = pos.rank + dy;
 
+  if (isCylinder(dimensions)) {
+    newFileIndex = ((newFileIndex % dimensions.files) + dimensions.files) % dimensions.files;
+  }
+
   if (newFileIndex < 0 || newFileIndex >= dimensions.files) return null;
   if (newRank < 1 || newRank > dimensions.ranks) return null;
 
   const newFile = indexToFile(newFileIndex);
   if (!newFile) return null;
 
-  return { file: newFile, rank: newRank as Rank };
+  const newPos: Position = { file: newFile, rank: newRank as Rank };
+  return isVoidSquare(newPos, dimensions) ? null : newPos;
+}
+
+/**
+ * Step from one square towards another by (dx, dy) at a time and get the squares
+ * passed on the way. Returns null if `to` isn't reached within maxSteps steps, or
+ * the walk leaves the board (or comes back round to `from` on a cylinder) first.
+ */
+export function getSquaresBetween(
+  from: Position,
+  to: Position,
+  dx: number,
+  dy: number,
+  dimensions: BoardDimensions,
+  maxSteps: number = Infinity
+): Position[] | null {
+  const between: Position[] = [];
+  let current = offsetPosition(from, dx, dy, dimensions);
+
+  for (let step = 1; current && step <= maxSteps; step++) {
+    if (current.file === to.file && current.rank === to.rank) return between;
+    if (current.file === from.file && current.rank === from.rank) return null;
+    between.push(current);
+    current = offsetPosition(current, dx, dy, dimensions);
+  }
+
+  return null;
 }
 
 /**
@@ -64,15 +119,27 @@ export function isValidPosition(pos: Position, dimensions: BoardDimensions): boo
     fileIndex >= 0 &&
     fileIndex < dimensions.files &&
     pos.rank >= 1 &&
-    pos.rank <= dimensions.ranks
+    pos.rank <= dimensions.ranks &&
+    !isVoidSquare(pos, dimensions)
   );
 }
 
+/**
+ * Get the number of files from one position to another (positive towards the last file).
+ * On a cylinder this is the shorter way round, so from the last file to the a-file is +1;
+ * when both ways are as long it's the way that doesn't wrap.
+ */
+export function getFileDelta(from: Position, to: Position, dimensions: BoardDimensions): number {
+  const dx = fileToIndex(to.file) - fileToIndex(from.file);
+  if (!isCylinder(dimensions) || Math.abs(dx) <= dimensions.files / 2) return dx;
+  return dx > 0 ? dx - dimensions.files : dx + dimensions.files;
+}
+
 /**
  * Get the distance between two positions (Chebyshev distance)
  */
-export function getDistance(from: Position, to: Position): number {
-  const dx = Math.abs(fileToIndex(to.file) - fileToIndex(from.file));
+export function getDistance(from: Position, to: Position, dimensions: BoardDimensions): number {
+  const dx = Math.abs(getFileDelta(from, to, dimensions));
   const dy = Math.abs(to.rank - from.rank);
   return Math.max(dx, dy);
 }
@@ -80,8 +147,43 @@ export function getDistance(from: Position, to: Position): number {
 /**
  * Check if two positions are adjacent (including diagonally)
  */
-export function areAdjacent(a: Position, b: Position): boolean {
-  return getDistance(a, b) === 1;
+export function areAdjacent(a: Position, b: Position, dimensions: BoardDimensions): boolean {
+  return getDistance(a, b, dimensions) === 1;
+}
+
+// =============================================================================
+// Square Index
+// =============================================================================
+
+/**
+ * Flat square arrays for boards owned by a board core (see boardCore.ts).
+ * Any other board falls back to positionMap lookups.
+ */
+const squareIndexes = new WeakMap<BoardState, (PieceInstance | null)[]>();
+
+/**
+ * Get the index of a position in a flat square array, or -1 if it is off the board
+ */
+export function getSquareIndex(pos: Position, dimensions: BoardDimensions): number {
+  const fileIndex = fileToIndex(pos.file);
+  if (fileIndex < 0 || fileIndex >= dimensions.files) return -1;
+  if (pos.rank < 1 || pos.rank > dimensions.ranks) return -1;
+  return (pos.rank - 1) * dimensions.files + fileIndex;
+}
+
+/**
+ * Attach a live square array to a board so square lookups are O(1).
+ * The owner must keep the array in sync with the board's pieces.
+ */
+export function attachSquareIndex(board: BoardState, squares: (PieceInstance | null)[]): void {
+  squareIndexes.set(board, squares);
+}
+
+/**
+ * Check if a board has a square array attached
+ */
+export function hasSquareIndex(board: BoardState): boolean {
+  return squareIndexes.has(board);
 }
 
 // =============================================================================
@@ -92,6 +194,12 @@ export function areAdjacent(a: Position, b: Position): boolean {
  * Get the piece at a given position, or null if empty
  */
 export function getPieceAt(board: BoardState, pos: Position): PieceInstance | null {
+  const squares = squareIndexes.get(board);
+  if (squares) {
+    const index = getSquareIndex(pos, board.dimensions);
+    return index === -1 ? null : squares[index];
+  }
+
   const posKey = positionToString(pos);
   const pieceId = board.positionMap.get(posKey);
   if (!pieceId) return null;
@@ -117,6 +225,15 @@ export function getKing(board: BoardState, color: PlayerColor): PieceInstance |
   }) ?? null;
 }
 
+/**
+ * Get the color of a piece that is moving or capturing. Only the players'
+ * pieces ever move; neutral pieces stay put until they're hired or captured.
+ */
+export function getMoverColor(piece: PieceInstance): PlayerColor {
+  if (piece.owner === 'neutral') throw new Error(`Neutral piece ${piece.id} cannot move`);
+  return piece.owner;
+}
+
 /**
  * Get all pieces for a given color that are still on the board
  */
@@ -150,7 +267,7 @@ export function isSquareEmpty(board: BoardState, pos: Position): boolean {
 export function hasEnemyPiece(
   board: BoardState,
   pos: Position,
-  friendlyColor: PlayerColor
+  friendlyColor: PieceOwner
 ): boolean {
   const piece = getPieceAt(board, pos);
   return piece !== null && piece.owner !== friendlyColor;
@@ -163,7 +280,7 @@ export function hasEnemyPiece(
 export function hasCapturableEnemyPiece(
   board: BoardState,
   pos: Position,
-  friendlyColor: PlayerColor
+  friendlyColor: PieceOwner
 ): boolean {
   const piece = getPieceAt(board, pos);
   if (!piece || piece.owner === friendlyColor) return false;
@@ -178,7 +295,7 @@ export function hasCapturableEnemyPiece(
 export function hasFriendlyPiece(
   board: BoardState,
   pos: Position,
-  friendlyColor: PlayerColor
+  friendlyColor: PieceOwner
 ): boolean {
   const piece = getPieceAt(board, pos);
   return piece !== null && piece.owner === friendlyColor;
@@ -260,14 +377,19 @@ export function countRoyaltyTierPieces(pieces: PieceInstance[], color: PlayerCol
 export function initializeRoyalTracking(board: BoardState): BoardState {
   const whiteRoyalty = countRoyaltyTierPieces(board.pieces, 'white');
   const blackRoyalty = countRoyaltyTierPieces(board.pieces, 'black');
-
-  return {
-    ...board,
-    hadMultipleRoyals: {
-      white: whiteRoyalty > 1,
-      black: blackRoyalty > 1,
-    },
+  const hadMultipleRoyals: Partial<Record<PlayerColor, boolean>> = {
+    white: whiteRoyalty > 1,
+    black: blackRoyalty > 1,
   };
+
+  // Free-for-all side seats are only tracked when they're playing
+  for (const color of ['red', 'blue'] as const) {
+    if (board.pieces.some((p) => p.owner === color)) {
+      hadMultipleRoyals[color] = countRoyaltyTierPieces(board.pieces, color) > 1;
+    }
+  }
+
+  return { ...board, hadMultipleRoyals };
 }
 
 /**
@@ -380,15 +502,97 @@ export function expandLeapOffset(leap: { dx: number; dy: number; symmetric: bool
   });
 }
 
+/**
+ * Get the offsets of the squares a leap passes over, which block it when it is lame.
+ * Straight and diagonal leaps pass over the squares in between; oblique leaps step
+ * orthogonally along their longer side first, then diagonally, so the Xiangqi Horse
+ * (a lame (2,1) leap) is blocked on the square orthogonally next to it.
+ */
+export function getLeapPath(dx: number, dy: number): DirectionVector[] {
+  const major = Math.max(Math.abs(dx), Math.abs(dy));
+  const minor = Math.min(Math.abs(dx), Math.abs(dy));
+  const alongFiles = Math.abs(dx) >= Math.abs(dy);
+  const path: DirectionVector[] = [];
+  let x = 0;
+  let y = 0;
+
+  for (let step = 1; step < major; step++) {
+    if (step > major - minor || alongFiles) x += Math.sign(dx);
+    if (step > major - minor || !alongFiles) y += Math.sign(dy);
+    path.push({ dx: x, dy: y });
+  }
+
+  return path;
+}
+
+/**
+ * Check that no piece stands on the squares a leap from the given square passes over
+ */
+export function isLeapPathClear(board: BoardState, from: Position, dx: number, dy: number): boolean {
+  return getLeapPath(dx, dy).every((step) => {
+    const pos = offsetPosition(from, step.dx, step.dy, board.dimensions);
+    return pos !== null && isSquareEmpty(board, pos);
+  });
+}
+
 // =============================================================================
 // Pawn Helpers
 // =============================================================================
 
 /**
- * Get the forward direction for a player color
+ * Turn a vector given from White's side of the board (dy forward, dx to the
+ * right) round to face the way a piece's owner plays: Black down the board,
+ * Red towards the last file and Blue towards the a-file. Neutral pieces face
+ * no way at all, so every vector becomes the zero vector.
+ */
+export function orientVector(color: PieceOwner, dx: number, dy: number): { dx: number; dy: number } {
+  switch (color) {
+    case 'white':
+      return { dx, dy };
+    case 'black':
+      return { dx: -dx, dy: -dy };
+    case 'red':
+      return { dx: dy, dy: -dx };
+    case 'blue':
+      return { dx: -dy, dy: dx };
+    default:
+      return { dx: 0, dy: 0 };
+  }
+}
+
+/**
+ * Check if a player faces along the ranks (Red and Blue, the free-for-all side seats)
+ */
+export function isSideSeat(color: PlayerColor): boolean {
+  return color === 'red' || color === 'blue';
+}
+
+/**
+ * Get the forward direction for a player color along the ranks (neutral
+ * pieces have none, and neither do the side seats: see orientVector)
+ */
+export function getPawnDirection(color: PieceOwner): number {
+  if (color === 'white') return 1;
+  if (color === 'black') return -1;
+  return 0;
+}
+
+/**
+ * Get how far a square is from a player's own edge of the board, that edge
+ * being 1: the rank for White, ranks from the top for Black, and files from
+ * the a-file for Red or from the last file for Blue
  */
-export function getPawnDirection(color: PlayerColor): number {
-  return color === 'white' ? 1 : -1;
+export function getRelativeRank(pos: Position, color: PlayerColor, dimensions: BoardDimensions): number {
+  switch (color) {
+    case 'white':
+      return pos.rank;
+    case 'black':
+      return dimensions.ranks - pos.rank + 1;
+    case 'red':
+      return fileToIndex(pos.file) + 1;
+    case 'blue':
+      return dimensions.files - fileToIndex(pos.file);
+  }
 }
 
 /**
@@ -399,16 +603,29 @@ export function getPawnStartRank(color: PlayerColor): Rank {
 }
 
 /**
- * Get the promotion rank for a given color
+ * Get the promotion rank for White or Black (see isPromotionSquare for every seat)
  */
 export function getPromotionRank(color: PlayerColor, dimensions: BoardDimensions): Rank {
   return color === 'white' ? (dimensions.ranks as Rank) : 1;
 }
 
 /**
- * Check if a pawn can double-move from its current position
+ * Check if a square is on the far edge of the board from a player, where their pawns promote
+ */
+export function isPromotionSquare(pos: Position, color: PlayerColor, dimensions: BoardDimensions): boolean {
+  const depth = isSideSeat(color) ? dimensions.files : dimensions.ranks;
+  return getRelativeRank(pos, color, dimensions) === depth;
+}
+
+/**
+ * Check if a pawn can double-move from its current position.
+ * The side seats need the board's dimensions to know where their first two files are.
  */
-export function canPawnDoubleMove(piece: PieceInstance, color: PlayerColor): boolean {
+export function canPawnDoubleMove(
+  piece: PieceInstance,
+  color: PlayerColor,
+  dimensions?: BoardDimensions
+): boolean {
   if (!piece.position) return false;
   if (piece.hasMoved) return false;
 
@@ -416,9 +633,73 @@ export function canPawnDoubleMove(piece: PieceInstance, color: PlayerColor): boo
   // Based on PLANNING.md rules
   if (color === 'white') {
     return piece.position.rank <= 2;
-  } else {
+  } else if (color === 'black') {
     return piece.position.rank >= 7;
   }
+  return dimensions !== undefined && getRelativeRank(piece.position, color, dimensions) <= 2;
+}
+
+/**
+ * Check if a move captures en passant: a pawn moving diagonally, or a
+ * Berolina pawn moving straight, onto the en passant target
+ */
+export function isEnPassantCapture(
+  piece: PieceInstance,
+  to: Position,
+  enPassantTarget: Position | null
+): boolean {
+  if (!piece.position || !enPassantTarget) return false;
+  if (to.file !== enPassantTarget.file || to.rank !== enPassantTarget.rank) return false;
+
+  const special = PIECE_BY_ID[piece.typeId]?.movement.special ?? [];
+  // Straight means along the owner's forward line: the same file, or for the side seats the same rank
+  const isStraight = orientVector(piece.owner, 0, 1).dx === 0
+    ? to.file === piece.position.file
+    : to.rank === piece.position.rank;
+  return (
+    (special.includes('pawn-capture-diagonal') && !isStraight) ||
+    (special.includes('berolina') && isStraight)
+  );
+}
+
+/**
+ * Get the square of the pawn an en passant capture removes. A pawn's double
+ * step passes straight over the target and a Berolina pawn's diagonally, so
+ * the victim is the pawn just beyond the target that could have done so.
+ * Falls back to the square straight beyond the target.
+ */
+export function getEnPassantCapturePosition(
+  board: BoardState,
+  enPassantTarget: Position,
+  capturer: PlayerColor
+): Position {
+  const beyond = orientVector(capturer, 0, -1);
+  const straight = offsetPosition(enPassantTarget, beyond.dx, beyond.dy, board.dimensions);
+
+  // The victim stands one step past the target along its own line of travel
+  const candidates: [number, SpecialMovement][] = [
+    [0, 'pawn-forward'],
+    [-1, 'berolina'],
+    [1, 'berolina'],
+  ];
+  for (const victim of PLAYER_COLORS) {
+    if (victim === capturer) continue;
+    for (const [side, special] of candidates) {
+      const step = orientVector(victim, victim === 'black' ? -side : side, 1);
+      const pos = offsetPosition(enPassantTarget, step.dx, step.dy, board.dimensions);
+      const piece = pos ? getPieceAt(board, pos) : null;
+      if (
+        pos &&
+        piece &&
+        piece.owner === victim &&
+        PIECE_BY_ID[piece.typeId]?.movement.special.includes(special)
+      ) {
+        return pos;
+      }
+    }
+  }
+
+  return straight ?? enPassantTarget;
 }
 
 // =============================================================================
@@ -433,12 +714,26 @@ export function getHomeRank(color: PlayerColor): Rank {
 }
 
 /**
- * Get the opponent's color
+ * Get the opponent's color in a two-player game
  */
 export function getOpponentColor(color: PlayerColor): PlayerColor {
   return color === 'white' ? 'black' : 'white';
 }
 
+/**
+ * Get every other player with pieces on the board: the one opponent in a
+ * two-player game, everyone still in it in a free-for-all
+ */
+export function getOpponentColors(board: BoardState, color: PlayerColor): PlayerColor[] {
+  const opponents = new Set<PlayerColor>();
+  for (const piece of board.pieces) {
+    if (piece.position && piece.owner !== color && piece.owner !== 'neutral') {
+      opponents.add(piece.owner);
+    }
+  }
+  return [...opponents];
+}
+
 // =============================================================================
 // Capture Type Helpers
 // =============================================================================
@@ -456,57 +751,3 @@ export function canCaptureByDisplacement(piece: PieceInstance): boolean {
   const nonDisplacementCaptures = ['coordinator', 'boxer', 'withdrawal', 'thief', 'long-leap', 'none'];
   return !nonDisplacementCaptures.includes(pieceType.captureType);
 }
-
-// =============================================================================
-// Position Hashing (for threefold repetition detection)
-// =============================================================================
-
-/**
- * Create a unique hash string for a board position.
- * Used for threefold repetition detection.
- *
- * The hash includes:
- * - All piece positions and types (sorted for consistency)
- * - Current turn
- * - Castling rights (which castle-capable pieces haven't moved)
- * - En passant target square
- */
-export function hashPosition(
-  board: BoardState,
-  currentTurn: PlayerColor,
-  enPassantTarget: Position | null
-): string {
-  const parts: string[] = [];
-
-  // Sort pieces by position for consistent hashing
-  const sortedPieces = board.pieces
-    .filter(p => p.position !== null)
-    .sort((a, b) => {
-      const posA = positionToString(a.position!);
-      const posB = positionToString(b.position!);
-      return posA.localeCompare(posB);
-    });
-
-  // Add each piece: position:type:owner:hasMoved(for castling pieces)
-  for (const piece of sortedPieces) {
-    const pieceType = PIECE_BY_ID[piece.typeId];
-    const pos = positionToString(piece.position!);
-
-    // Include hasMoved for pieces that can castle (affects castling rights)
-    if (pieceType?.canCastle) {
-      parts.push(`${pos}:${piece.typeId}:${piece.owner}:${piece.hasMoved ? 'm' : 'u'}`);
-    } else {
-      parts.push(`${pos}:${piece.typeId}:${piece.owner}`);
-    }
-  }
-
-  // Add current turn
-  parts.push(`turn:${currentTurn}`);
-
-  // Add en passant target (only if it exists and is capturable)
-  if (enPassantTarget) {
-    parts.push(`ep:${positionToString(enPassantTarget)}`);
-  }
-
-  return parts.join('|');
-}
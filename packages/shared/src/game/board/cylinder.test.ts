@@ -0,0 +1,118 @@
+/**
+ * Tests for cylindrical boards, where the a-file and last file are adjacent
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { gameStateToHfen, parseHfen } from '../notation/hfen';
+import { generateLegalMoves, isInCheck } from '../rules/checkDetection';
+import { getCastlingDestinations } from '../rules/castling';
+import { executeMove, prepareMoveFromPositions } from '../rules/moveExecution';
+import { getPieceAt } from './boardUtils';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function square(name: string): Position {
+  return stringToPosition(name)!;
+}
+
+function legalMoves(state: GameState, from: string): string[] {
+  const piece = getPieceAt(state.board, square(from))!;
+  return generateLegalMoves(state.board, piece, state.enPassantTarget).map(positionToString).sort();
+}
+
+function play(state: GameState, from: string, to: string): GameState {
+  const piece = getPieceAt(state.board, square(from))!;
+  const move = prepareMoveFromPositions(state, piece, square(from), square(to));
+  if (!move) throw new Error(`No move ${from}${to}`);
+  return executeMove(state, move);
+}
+
+describe('HFEN', () => {
+  it('marks a cylinder with a "c" after the board size', () => {
+    const hfen = '8x8c 4k3/8/8/8/8/8/8/R3K3 w - 0 1 -';
+    const state = fromHfen(hfen);
+
+    expect(state.board.dimensions.topology).toBe('cylinder');
+    expect(gameStateToHfen(state)).toBe(hfen);
+    expect(fromHfen('8x8 4k3/8/8/8/8/8/8/R3K3 w - 0 1 -').board.dimensions.topology).toBeUndefined();
+  });
+});
+
+describe('sliding', () => {
+  it('wraps round from the a-file to the last file', () => {
+    const state = fromHfen('8x8c 4k3/8/8/8/8/8/8/R3K3 w - 0 1 -');
+    expect(legalMoves(state, 'a1')).toEqual(
+      ['a2', 'a3', 'a4', 'a5', 'a6', 'a7', 'a8', 'b1', 'c1', 'd1', 'f1', 'g1', 'h1'].sort()
+    );
+  });
+
+  it('stops before coming back round to its own square', () => {
+    const moves = legalMoves(fromHfen('8x8c 4k3/8/8/8/R7/8/8/4K3 w - 0 1 -'), 'a4');
+    expect(moves).toHaveLength(14);
+    expect(moves).not.toContain('a4');
+  });
+
+  it('gives check across the wrap', () => {
+    // The knight on b8 blocks the rook's way along the rank, but not round the wrap
+    const placement = 'kn4R1/8/8/8/8/8/8/4K3 b - 0 1 -';
+    expect(isInCheck(fromHfen(`8x8c ${placement}`).board, 'black')).toBe(true);
+    expect(isInCheck(fromHfen(`8x8 ${placement}`).board, 'black')).toBe(false);
+  });
+});
+
+describe('leaps', () => {
+  it('wrap round the board edge', () => {
+    const state = fromHfen('8x8c 4k3/8/8/8/8/8/8/N3K3 w - 0 1 -');
+    expect(legalMoves(state, 'a1')).toEqual(['b3', 'c2', 'g2', 'h3']);
+  });
+});
+
+describe('freezing', () => {
+  it('reaches across the wrap', () => {
+    const placement = '4k3/8/8/n7/7[IMMOBILIZER]/8/8/4K3 w - 0 1 -';
+    expect(getPieceAt(fromHfen(`8x8c ${placement}`).board, square('a5'))?.isFrozen).toBe(true);
+    expect(getPieceAt(fromHfen(`8x8 ${placement}`).board, square('a5'))?.isFrozen).toBe(false);
+  });
+});
+
+describe('Pontiff', () => {
+  it('wraps round the files and only bounces off the first and last ranks', () => {
+    const placement = '4k3/8/8/8/8/8/8/[PONTIFF]3K3 w - 0 1 -';
+    expect(legalMoves(fromHfen(`8x8c ${placement}`), 'a1')).toContain('h2');
+    expect(legalMoves(fromHfen(`8x8 ${placement}`), 'a1')).not.toContain('h2');
+  });
+});
+
+describe('Long Leaper', () => {
+  it('jumps across the wrap', () => {
+    // The White pawn on e2 rules out reaching h2 the other way round
+    const state = fromHfen('8x8c 4k3/8/8/8/4K3/8/n[LONG-LEAPER]2P3/8 w - 0 1 -');
+    expect(legalMoves(state, 'b2')).toContain('h2');
+
+    const after = play(state, 'b2', 'h2');
+    expect(getPieceAt(after.board, square('a2'))).toBeNull();
+  });
+});
+
+describe('Janggi cannon', () => {
+  it('cannot use itself as a screen on an empty rank', () => {
+    expect(legalMoves(fromHfen('8x8c 4k3/8/8/8/[JANGGI-CANNON]7/8/8/4K3 w - 0 1 -'), 'a4')).toEqual([]);
+  });
+});
+
+describe('castling', () => {
+  it('still castles both ways from the usual squares', () => {
+    const state = fromHfen('8x8c r3k2r/8/8/8/8/8/8/R3K2R w - 0 1 -');
+    const king = getPieceAt(state.board, square('e1'))!;
+    expect(getCastlingDestinations(state.board, king).map(positionToString).sort()).toEqual(['c1', 'g1']);
+
+    const after = play(state, 'e1', 'c1');
+    expect(getPieceAt(after.board, square('d1'))?.typeId).toBe('rook');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Tests for Knight-rider movement
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { parseHfen } from '../notation/hfen';
+import { generateLegalMoves, isInCheck } from '../rules/checkDetection';
+import { getPieceAt } from './boardUtils';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function legalMoves(state: GameState, from: string): string[] {
+  const piece = getPieceAt(state.board, stringToPosition(from) as Position)!;
+  return generateLegalMoves(state.board, piece, state.enPassantTarget).map(positionToString).sort();
+}
+
+describe('Knight-rider', () => {
+  it('makes one or two knight jumps in a line', () => {
+    const state = fromHfen('8x8 7k/8/8/8/8/8/8/K[KNIGHT-RIDER]6 w - 0 1 -');
+    expect(legalMoves(state, 'b1')).toEqual(['a3', 'c3', 'd2', 'd5', 'f3']);
+  });
+
+  it('is blocked only by pieces on its landing squares', () => {
+    // Pieces on b2, c2 and b3 are jumped over; the black knight on c3 stops the line
+    const state = fromHfen('8x8 7k/8/8/8/8/1Pn5/1PP5/K[KNIGHT-RIDER]6 w - 0 1 -');
+    expect(legalMoves(state, 'b1')).toEqual(['a3', 'c3', 'd2', 'f3']);
+  });
+
+  it('gives check from two jumps away unless the first landing square is occupied', () => {
+    const offLine = fromHfen('8x8 8/8/8/8/4k3/8/8/K[KNIGHT-RIDER]6 b - 0 1 -');
+    expect(isInCheck(offLine.board, 'black')).toBe(false);
+
+    const twoJumps = fromHfen('8x8 8/8/8/3k4/8/8/8/K[KNIGHT-RIDER]6 b - 0 1 -');
+    expect(isInCheck(twoJumps.board, 'black')).toBe(true);
+
+    const blocked = fromHfen('8x8 8/8/8/3k4/8/2p5/8/K[KNIGHT-RIDER]6 b - 0 1 -');
+    expect(isInCheck(blocked.board, 'black')).toBe(false);
+  });
+
+  it('does not reach three jumps', () => {
+    const state = fromHfen('8x8 8/4k3/8/8/8/8/8/K[KNIGHT-RIDER]6 b - 0 1 -');
+    // b1 -> c3 -> d5 -> e7 would need a third jump
+    expect(isInCheck(state.board, 'black')).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Named board layouts: patterns of void squares cut out of the board
+ *
+ * A void is treated like the board edge. Pieces can't stand on it and slides
+ * stop in front of it, but a leaper can jump over it. Hoppers don't use a
+ * void as a screen: a Grasshopper's or Cannon's line ends at the void just
+ * as it would at the edge.
+ */
+
+import type { BoardDimensions, BoardLayout, Position } from '../types';
+import { positionToString } from '../types';
+import { indexToFile } from './boardUtils';
+
+// =============================================================================
+// Layouts
+// =============================================================================
+
+export interface BoardLayoutInfo {
+  id: BoardLayout;
+  name: string;
+  description: string;
+}
+
+export const BOARD_LAYOUTS: BoardLayoutInfo[] = [
+  { id: 'standard', name: 'Standard', description: 'Every square is in play' },
+  { id: 'lakes', name: 'Lakes', description: 'Two lakes in the middle of the board, as in Stratego' },
+  { id: 'notched', name: 'Notched', description: 'The edge squares of the two middle ranks are cut out' },
+];
+
+/**
+ * Get the void squares of a layout on a board of the given size.
+ * Only the middle two ranks are ever cut out, so the home ranks stay whole.
+ */
+export function getLayoutVoids(layout: BoardLayout, dimensions: BoardDimensions): string[] {
+  const { files, ranks } = dimensions;
+  const middle = Math.floor(ranks / 2);
+  const middleRanks = [middle, middle + 1];
+
+  let voidFiles: number[];
+  switch (layout) {
+    case 'lakes':
+      // Two lakes, each a third of the way in from an edge: c/f on 8 files, c-d/g-h on 10
+      voidFiles = files >= 10 ? [2, 3, files - 4, files - 3] : [2, files - 3];
+      break;
+    case 'notched':
+      voidFiles = [0, files - 1];
+      break;
+    default:
+      return [];
+  }
+
+  const voids: string[] = [];
+  for (const rank of middleRanks) {
+    for (const f of voidFiles) {
+      voids.push(positionToString({ file: indexToFile(f)!, rank } as Position));
+    }
+  }
+  return voids;
+}
+
+/**
+ * Get the dimensions of a board with a layout's voids cut out.
+ * A standard layout leaves the dimensions without a voids list.
+ */
+export function applyLayout(dimensions: BoardDimensions, layout: BoardLayout): BoardDimensions {
+  const result: BoardDimensions = { ...dimensions, voids: getLayoutVoids(layout, dimensions) };
+  if (result.voids!.length === 0) delete result.voids;
+  return result;
+}
+
+/**
+ * Work out which named layout a board's voids match, or null if they match none
+ */
+export function detectLayout(dimensions: BoardDimensions): BoardLayout | null {
+  const voids = [...(dimensions.voids ?? [])].sort();
+  for (const { id } of BOARD_LAYOUTS) {
+    const layoutVoids = getLayoutVoids(id, dimensions).sort();
+    if (layoutVoids.length === voids.length && layoutVoids.every((square, i) => square === voids[i])) {
+      return id;
+    }
+  }
+  return null;
+}
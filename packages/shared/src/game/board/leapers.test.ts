@@ -0,0 +1,77 @@
+/**
+ * Tests for the Giraffe, Wazir and Ferz leapers
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { parseHfen } from '../notation/hfen';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { generateLegalMoves, isInCheck } from '../rules/checkDetection';
+import { getPromotionOptions, getPromotionOptionsForPiece, isPawnType } from '../rules/promotion';
+import { getPieceAt } from './boardUtils';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function legalMoves(state: GameState, from: string): string[] {
+  const piece = getPieceAt(state.board, stringToPosition(from) as Position)!;
+  return generateLegalMoves(state.board, piece, state.enPassantTarget).map(positionToString).sort();
+}
+
+describe('Giraffe', () => {
+  it('leaps (4,1) over anything in between', () => {
+    const state = fromHfen('8x8 7k/8/8/2PPP3/2P[GIRAFFE]P3/2PPP3/8/K7 w - 0 1 -');
+    expect(legalMoves(state, 'd4')).toEqual(['c8', 'e8', 'h3', 'h5']);
+  });
+
+  it('gives check from a (4,1) leap away', () => {
+    const check = fromHfen('8x8 8/8/8/7k/3[GIRAFFE]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(check.board, 'black')).toBe(true);
+
+    const knightAway = fromHfen('8x8 8/8/8/4k3/8/3[GIRAFFE]4/8/K7 b - 0 1 -');
+    expect(isInCheck(knightAway.board, 'black')).toBe(false);
+  });
+});
+
+describe('Wazir and Ferz', () => {
+  it('step one square orthogonally and diagonally', () => {
+    const state = fromHfen('8x8 7k/8/8/8/3[WAZIR]4/8/5[FERZ]2/K7 w - 0 1 -');
+    expect(legalMoves(state, 'd4')).toEqual(['c4', 'd3', 'd5', 'e4']);
+    expect(legalMoves(state, 'f2')).toEqual(['e1', 'e3', 'g1', 'g3']);
+  });
+
+  it('give check only in their own directions', () => {
+    const wazirCheck = fromHfen('8x8 8/8/8/3k4/3[WAZIR]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(wazirCheck.board, 'black')).toBe(true);
+
+    const wazirDiagonal = fromHfen('8x8 8/8/8/4k3/3[WAZIR]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(wazirDiagonal.board, 'black')).toBe(false);
+
+    const ferzCheck = fromHfen('8x8 8/8/8/4k3/3[FERZ]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(ferzCheck.board, 'black')).toBe(true);
+
+    const ferzOrthogonal = fromHfen('8x8 8/8/8/3k4/3[FERZ]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(ferzOrthogonal.board, 'black')).toBe(false);
+  });
+});
+
+describe('promotion', () => {
+  it('offers the Giraffe, Vao, Wazir and Ferz when they are in the game', () => {
+    const state = fromHfen('8x8 4k3/P7/8/8/8/[giraffe][vao][wazir][ferz]4/8/4K3 w - 0 1 -');
+    const ids = getPromotionOptions(state).map((p) => p.id);
+    expect(ids).toEqual(expect.arrayContaining(['giraffe', 'wazir', 'ferz', 'vao']));
+
+    const pawnOptions = getPromotionOptionsForPiece(PIECE_BY_ID['pawn'], state).map((p) => p.id);
+    expect(pawnOptions).toContain('vao');
+  });
+
+  it('does not let them promote themselves', () => {
+    for (const id of ['giraffe', 'vao', 'wazir', 'ferz']) {
+      expect(isPawnType(PIECE_BY_ID[id]), id).toBe(false);
+    }
+  });
+});
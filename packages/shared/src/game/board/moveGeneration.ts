@@ -13,6 +13,8 @@ import type {
   PlayerColor,
 } from '../types';
 import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import type { BetzaVector } from '../pieces/betza';
+import { compileBetza } from '../pieces/betza';
 import {
   offsetPosition,
   isSquareEmpty,
@@ -21,15 +23,19 @@ import {
   hasFriendlyPiece,
   getDirectionVectors,
   expandLeapOffset,
-  getPawnDirection,
+  orientVector,
   canPawnDoubleMove,
   ALL_DIRECTIONS,
   getAllPieces,
+  getOpponentColors,
+  getMoverColor,
   canCaptureByDisplacement,
   getPieceAt,
-  fileToIndex,
+  getFileDelta,
+  isLeapPathClear,
+  getSquaresBetween,
 } from './boardUtils';
-import { positionToString } from '../types';
+import { arePositionsEqual, positionToString } from '../types';
 
 // =============================================================================
 // Main Entry Point
@@ -47,6 +53,7 @@ export function generatePseudoLegalMoves(
 ): Position[] {
   if (!piece.position) return [];
   if (piece.isFrozen) return [];
+  if (piece.owner === 'neutral') return []; // Neutral pieces wait to be hired
 
   const pieceType = PIECE_BY_ID[piece.typeId];
   if (!pieceType) return [];
@@ -70,7 +77,16 @@ export function generatePseudoLegalMoves(
     );
   }
 
-  return moves;
+  // Generate moves defined in Betza notation
+  if (pieceType.movement.betza) {
+    moves.push(...generateBetzaMoves(board, piece, pieceType.movement.betza));
+  }
+
+  // Patterns can overlap (e.g. Pontiff slides and bounces), so keep each square once
+  return moves.filter(
+    (move, index) =>
+      moves.findIndex((m) => m.file === move.file && m.rank === move.rank) === index
+  );
 }
 
 // =============================================================================
@@ -135,6 +151,7 @@ export function generateSlideMoves(
 
 /**
  * Generate moves for leaping pieces (knight, etc.)
+ * Lame leaps (Xiangqi Horse and Elephant) are blocked by pieces on the squares they pass over
  */
 export function generateLeapMoves(
   board: BoardState,
@@ -153,6 +170,7 @@ export function generateLeapMoves(
       const targetPos = offsetPosition(piece.position, offset.dx, offset.dy, board.dimensions);
 
       if (!targetPos) continue;
+      if (leap.lame && !isLeapPathClear(board, piece.position, offset.dx, offset.dy)) continue;
 
       // Can't move to square with friendly piece
       if (hasFriendlyPiece(board, targetPos, piece.owner)) continue;
@@ -172,6 +190,94 @@ export function generateLeapMoves(
   return moves;
 }
 
+// =============================================================================
+// Betza Move Generation
+// =============================================================================
+
+/**
+ * Generate moves for a Betza string (see pieces/betza.ts)
+ */
+export function generateBetzaMoves(
+  board: BoardState,
+  piece: PieceInstance,
+  notation: string
+): Position[] {
+  const moves: Position[] = [];
+  for (const vector of compileBetza(notation)) {
+    moves.push(...walkBetzaVector(board, piece, vector, false));
+  }
+  return moves;
+}
+
+/**
+ * Get the squares a Betza string attacks: every square its capturing moves
+ * could capture on, empty or not
+ */
+export function getBetzaAttackSquares(
+  board: BoardState,
+  piece: PieceInstance,
+  notation: string
+): Position[] {
+  const squares: Position[] = [];
+  for (const vector of compileBetza(notation)) {
+    if (vector.canCapture) squares.push(...walkBetzaVector(board, piece, vector, true));
+  }
+  return squares;
+}
+
+/**
+ * Follow one Betza vector from the piece, turned to face the way its owner plays.
+ * In attack mode, empty squares count where the vector could capture.
+ */
+function walkBetzaVector(
+  board: BoardState,
+  piece: PieceInstance,
+  vector: BetzaVector,
+  attacks: boolean
+): Position[] {
+  if (!piece.position) return [];
+  if (vector.initialOnly && piece.hasMoved) return [];
+
+  const squares: Position[] = [];
+  const { dx, dy } = orientVector(piece.owner, vector.dx, vector.dy);
+  const canDisplacementCapture = canCaptureByDisplacement(piece);
+  let currentPos = piece.position;
+  let passedScreen = false;
+
+  for (let step = 0; step < vector.range; step++) {
+    if (vector.lame && !isLeapPathClear(board, currentPos, dx, dy)) break;
+
+    const nextPos = offsetPosition(currentPos, dx, dy, board.dimensions);
+    // On a cylinder a line can come back round to the piece itself
+    if (!nextPos || arePositionsEqual(nextPos, piece.position)) break;
+    currentPos = nextPos;
+    const isEmpty = isSquareEmpty(board, nextPos);
+
+    // Hoppers can't stop before their screen piece
+    if (vector.hop !== 'none' && !passedScreen) {
+      if (!isEmpty) passedScreen = true;
+      continue;
+    }
+
+    if (isEmpty) {
+      if (attacks ? vector.canCapture : vector.canMove) squares.push(nextPos);
+      if (vector.hop === 'grasshopper') break;
+      continue;
+    }
+
+    if (
+      vector.canCapture &&
+      canDisplacementCapture &&
+      hasCapturableEnemyPiece(board, nextPos, piece.owner)
+    ) {
+      squares.push(nextPos);
+    }
+    break;
+  }
+
+  return squares;
+}
+
 // =============================================================================
 // Special Move Generation
 // =============================================================================
@@ -242,7 +348,15 @@ export function generateSpecialMoves(
         break;
 
       case 'cannon-move':
-        moves.push(...generateCannonMoves(board, piece));
+        moves.push(...generateCannonMoves(board, piece, 'orthogonal'));
+        break;
+
+      case 'vao-move':
+        moves.push(...generateCannonMoves(board, piece, 'diagonal'));
+        break;
+
+      case 'janggi-cannon':
+        moves.push(...generateJanggiCannonMoves(board, piece));
         break;
 
       case 'nightrider':
@@ -250,8 +364,11 @@ export function generateSpecialMoves(
         break;
 
       case 'knight-rider':
+        moves.push(...generateNightriderMoves(board, piece, KNIGHT_RIDER_JUMPS));
+        break;
+
       case 'berolina':
-        // Future fairy piece implementations
+        moves.push(...generateBerolinaMoves(board, piece, enPassantTarget));
         break;
 
       case 'checkers-forward':
@@ -286,16 +403,16 @@ function generatePawnForwardMoves(board: BoardState, piece: PieceInstance): Posi
   if (!piece.position) return [];
 
   const moves: Position[] = [];
-  const direction = getPawnDirection(piece.owner);
+  const forward = orientVector(piece.owner, 0, 1);
 
   // Single step forward
-  const oneStep = offsetPosition(piece.position, 0, direction, board.dimensions);
+  const oneStep = offsetPosition(piece.position, forward.dx, forward.dy, board.dimensions);
   if (oneStep && isSquareEmpty(board, oneStep)) {
     moves.push(oneStep);
 
     // Double step from starting position
-    if (canPawnDoubleMove(piece, piece.owner)) {
-      const twoStep = offsetPosition(piece.position, 0, direction * 2, board.dimensions);
+    if (canPawnDoubleMove(piece, getMoverColor(piece), board.dimensions)) {
+      const twoStep = offsetPosition(piece.position, forward.dx * 2, forward.dy * 2, board.dimensions);
       if (twoStep && isSquareEmpty(board, twoStep)) {
         moves.push(twoStep);
       }
@@ -316,11 +433,11 @@ function generatePawnCaptureMoves(
   if (!piece.position) return [];
 
   const moves: Position[] = [];
-  const direction = getPawnDirection(piece.owner);
 
   // Diagonal captures
-  for (const dx of [-1, 1]) {
-    const capturePos = offsetPosition(piece.position, dx, direction, board.dimensions);
+  for (const side of [-1, 1]) {
+    const step = orientVector(piece.owner, side, 1);
+    const capturePos = offsetPosition(piece.position, step.dx, step.dy, board.dimensions);
     if (!capturePos) continue;
 
     // Regular capture - only if enemy piece is capturable
@@ -344,11 +461,11 @@ function generateShogiPawnMoves(board: BoardState, piece: PieceInstance): Positi
   if (!piece.position) return [];
 
   const moves: Position[] = [];
-  const direction = getPawnDirection(piece.owner);
+  const forward = orientVector(piece.owner, 0, 1);
   const canDisplacementCapture = canCaptureByDisplacement(piece);
 
   // Single step forward (move or capture)
-  const oneStep = offsetPosition(piece.position, 0, direction, board.dimensions);
+  const oneStep = offsetPosition(piece.position, forward.dx, forward.dy, board.dimensions);
   if (oneStep) {
     // Can move if empty
     if (isSquareEmpty(board, oneStep)) {
@@ -363,6 +480,51 @@ function generateShogiPawnMoves(board: BoardState, piece: PieceInstance): Positi
   return moves;
 }
 
+/**
+ * Generate Berolina pawn moves: diagonally forward without capturing (two
+ * squares along the diagonal from the starting rank), capturing straight forward.
+ * En passant works the same way, straight onto the square a pawn passed over.
+ */
+function generateBerolinaMoves(
+  board: BoardState,
+  piece: PieceInstance,
+  enPassantTarget: Position | null
+): Position[] {
+  if (!piece.position) return [];
+
+  const moves: Position[] = [];
+
+  for (const side of [-1, 1]) {
+    const step = orientVector(piece.owner, side, 1);
+    const oneStep = offsetPosition(piece.position, step.dx, step.dy, board.dimensions);
+    if (!oneStep || !isSquareEmpty(board, oneStep)) continue;
+    moves.push(oneStep);
+
+    // Double step along the same diagonal from the starting position
+    if (canPawnDoubleMove(piece, getMoverColor(piece), board.dimensions)) {
+      const twoStep = offsetPosition(piece.position, step.dx * 2, step.dy * 2, board.dimensions);
+      if (twoStep && isSquareEmpty(board, twoStep)) {
+        moves.push(twoStep);
+      }
+    }
+  }
+
+  const forward = orientVector(piece.owner, 0, 1);
+  const capturePos = offsetPosition(piece.position, forward.dx, forward.dy, board.dimensions);
+  if (capturePos) {
+    if (hasCapturableEnemyPiece(board, capturePos, piece.owner)) {
+      moves.push(capturePos);
+    }
+
+    // En passant (the captured pawn is always capturable)
+    if (enPassantTarget && capturePos.file === enPassantTarget.file && capturePos.rank === enPassantTarget.rank) {
+      moves.push(capturePos);
+    }
+  }
+
+  return moves;
+}
+
 // =============================================================================
 // Swap Moves (Phantom King, Chamberlain)
 // =============================================================================
@@ -523,7 +685,7 @@ function generateHeraldMoves(board: BoardState, piece: PieceInstance): Position[
  * Used for Regent logic - checks tier, not isRoyal
  */
 function hasOtherRoyalty(board: BoardState, piece: PieceInstance): boolean {
-  const friendlyPieces = getAllPieces(board, piece.owner);
+  const friendlyPieces = getAllPieces(board, getMoverColor(piece));
   for (const p of friendlyPieces) {
     if (p.id === piece.id) continue; // Skip self
     const pType = PIECE_BY_ID[p.typeId];
@@ -546,7 +708,7 @@ function generateRegentMoves(board: BoardState, piece: PieceInstance): Position[
   const canDisplacementCapture = canCaptureByDisplacement(piece);
 
   // Queen mode only if: no other royalty currently exists AND there was one that got captured
-  const hadMultipleRoyals = board.hadMultipleRoyals?.[piece.owner] ?? false;
+  const hadMultipleRoyals = board.hadMultipleRoyals?.[getMoverColor(piece)] ?? false;
   const useQueenMode = !hasAnotherRoyalty && hadMultipleRoyals;
 
   if (!useQueenMode) {
@@ -610,17 +772,17 @@ function generatePeasantDiagonalMoves(board: BoardState, piece: PieceInstance):
   if (!piece.position) return [];
 
   const moves: Position[] = [];
-  const direction = getPawnDirection(piece.owner);
 
   // Diagonal moves (forward-left and forward-right)
-  for (const dx of [-1, 1]) {
-    const oneStep = offsetPosition(piece.position, dx, direction, board.dimensions);
+  for (const side of [-1, 1]) {
+    const step = orientVector(piece.owner, side, 1);
+    const oneStep = offsetPosition(piece.position, step.dx, step.dy, board.dimensions);
     if (oneStep && isSquareEmpty(board, oneStep)) {
       moves.push(oneStep);
 
       // Double diagonal on first move (same diagonal direction)
       if (!piece.hasMoved) {
-        const twoStep = offsetPosition(piece.position, dx * 2, direction * 2, board.dimensions);
+        const twoStep = offsetPosition(piece.position, step.dx * 2, step.dy * 2, board.dimensions);
         if (twoStep && isSquareEmpty(board, twoStep)) {
           moves.push(twoStep);
         }
@@ -639,10 +801,10 @@ function generatePeasantCaptureMoves(board: BoardState, piece: PieceInstance): P
   if (!piece.position) return [];
 
   const moves: Position[] = [];
-  const direction = getPawnDirection(piece.owner);
+  const forward = orientVector(piece.owner, 0, 1);
 
   // Capture forward only
-  const capturePos = offsetPosition(piece.position, 0, direction, board.dimensions);
+  const capturePos = offsetPosition(piece.position, forward.dx, forward.dy, board.dimensions);
   if (capturePos && hasCapturableEnemyPiece(board, capturePos, piece.owner)) {
     moves.push(capturePos);
   }
@@ -671,7 +833,7 @@ function generateGrasshopperMoves(board: BoardState, piece: PieceInstance): Posi
     // Slide until we find a piece to hop over
     while (true) {
       const nextPos = offsetPosition(currentPos, dir.dx, dir.dy, board.dimensions);
-      if (!nextPos) break;
+      if (!nextPos || arePositionsEqual(nextPos, piece.position)) break;
 
       const hasPiece = hasFriendlyPiece(board, nextPos, piece.owner) ||
                        hasEnemyPiece(board, nextPos, piece.owner);
@@ -702,29 +864,38 @@ function generateGrasshopperMoves(board: BoardState, piece: PieceInstance): Posi
   return moves;
 }
 
+/** Most jumps a Knight-rider makes along one line */
+export const KNIGHT_RIDER_JUMPS = 2;
+
+/** The 8 knight directions */
+const KNIGHT_DIRECTIONS = [
+  { dx: 2, dy: 1 }, { dx: 2, dy: -1 },
+  { dx: -2, dy: 1 }, { dx: -2, dy: -1 },
+  { dx: 1, dy: 2 }, { dx: 1, dy: -2 },
+  { dx: -1, dy: 2 }, { dx: -1, dy: -2 },
+];
+
 /**
  * Generate Nightrider moves
- * Repeats knight moves in the same direction until blocked.
+ * Repeats knight moves in the same direction until blocked. Only the squares
+ * a jump lands on can block; like the Knight, it jumps over everything else.
+ * The Knight-rider moves the same way but stops after KNIGHT_RIDER_JUMPS jumps.
  */
-function generateNightriderMoves(board: BoardState, piece: PieceInstance): Position[] {
+function generateNightriderMoves(
+  board: BoardState,
+  piece: PieceInstance,
+  maxJumps: number = Infinity
+): Position[] {
   if (!piece.position) return [];
 
   const moves: Position[] = [];
   const canDisplacementCapture = canCaptureByDisplacement(piece);
 
-  // All 8 knight directions
-  const knightDirs = [
-    { dx: 2, dy: 1 }, { dx: 2, dy: -1 },
-    { dx: -2, dy: 1 }, { dx: -2, dy: -1 },
-    { dx: 1, dy: 2 }, { dx: 1, dy: -2 },
-    { dx: -1, dy: 2 }, { dx: -1, dy: -2 },
-  ];
-
-  for (const dir of knightDirs) {
+  for (const dir of KNIGHT_DIRECTIONS) {
     let currentPos = piece.position;
 
     // Keep moving in this knight direction until blocked
-    while (true) {
+    for (let jump = 0; jump < maxJumps; jump++) {
       const nextPos = offsetPosition(currentPos, dir.dx, dir.dy, board.dimensions);
       if (!nextPos) break;
 
@@ -749,23 +920,95 @@ function generateNightriderMoves(board: BoardState, piece: PieceInstance): Posit
 }
 
 /**
- * Generate Cannon moves (Chinese Chess style)
- * Non-capturing: slides orthogonally like a Rook
+ * Check if a Nightrider-style line of at most maxJumps knight jumps leads from
+ * one square to another, with every landing square before the last one empty
+ */
+export function canReachByKnightLine(
+  board: BoardState,
+  from: Position,
+  to: Position,
+  maxJumps: number = Infinity
+): boolean {
+  for (const dir of KNIGHT_DIRECTIONS) {
+    const path = getSquaresBetween(from, to, dir.dx, dir.dy, board.dimensions, maxJumps);
+    if (path && path.every((pos) => isSquareEmpty(board, pos))) return true;
+  }
+
+  return false;
+}
+
+/** The lines a cannon-style hopper moves and captures along */
+type CannonLine = 'orthogonal' | 'diagonal';
+
+/**
+ * Get the line a cannon-capturing piece hops along: diagonal for the Vao,
+ * orthogonal for the Cannon and Janggi cannon
+ */
+function getCannonLine(special: string[]): CannonLine {
+  return special.includes('vao-move') ? 'diagonal' : 'orthogonal';
+}
+
+/**
+ * Find the screen of a cannon-style hop between two squares: the one piece
+ * between them on a line of the given kind. Returns null if they aren't on
+ * such a line or there isn't exactly one piece between them.
+ */
+function getCannonScreen(
+  board: BoardState,
+  from: Position,
+  to: Position,
+  line: CannonLine
+): Position | null {
+  for (const dir of getDirectionVectors(line)) {
+    const path = getSquaresBetween(from, to, dir.dx, dir.dy, board.dimensions);
+    if (!path) continue;
+
+    const screens = path.filter((pos) => !isSquareEmpty(board, pos));
+    if (screens.length === 1) return screens[0];
+  }
+
+  return null;
+}
+
+function isJanggiCannonAt(board: BoardState, pos: Position): boolean {
+  const piece = getPieceAt(board, pos);
+  return piece !== null && PIECE_BY_ID[piece.typeId]?.movement.special.includes('janggi-cannon') === true;
+}
+
+/**
+ * Check if a cannon-style capture with the given special movement reaches from
+ * one square to another: exactly one screen piece between them on the piece's
+ * line. Janggi cannons can't use another Janggi cannon as a screen or capture one.
+ */
+export function canCannonCapture(
+  board: BoardState,
+  from: Position,
+  to: Position,
+  special: string[]
+): boolean {
+  const screen = getCannonScreen(board, from, to, getCannonLine(special));
+  if (!screen) return false;
+  if (!special.includes('janggi-cannon')) return true;
+  return !isJanggiCannonAt(board, screen) && !isJanggiCannonAt(board, to);
+}
+
+/**
+ * Generate Cannon moves (Chinese Chess style), or Vao moves along diagonals
+ * Non-capturing: slides along the line like a Rook (Cannon) or Bishop (Vao)
  * Capturing: must hop over exactly one piece (the "screen") to capture a piece beyond
  */
-function generateCannonMoves(board: BoardState, piece: PieceInstance): Position[] {
+function generateCannonMoves(board: BoardState, piece: PieceInstance, line: CannonLine): Position[] {
   if (!piece.position) return [];
 
   const moves: Position[] = [];
-  const orthogonalDirs = getDirectionVectors('orthogonal');
 
-  for (const dir of orthogonalDirs) {
+  for (const dir of getDirectionVectors(line)) {
     let currentPos = piece.position;
     let foundScreen = false;
 
     while (true) {
       const nextPos = offsetPosition(currentPos, dir.dx, dir.dy, board.dimensions);
-      if (!nextPos) break;
+      if (!nextPos || arePositionsEqual(nextPos, piece.position)) break;
 
       if (!foundScreen) {
         // Looking for empty squares to move to, or a screen piece
@@ -795,6 +1038,49 @@ function generateCannonMoves(board: BoardState, piece: PieceInstance): Position[
   return moves;
 }
 
+/**
+ * Generate Janggi cannon moves
+ * Must hop over exactly one piece (the screen) orthogonally both to move and to capture:
+ * it lands on any empty square beyond, or captures the first piece beyond.
+ * Another Janggi cannon can be neither the screen nor the captured piece.
+ */
+function generateJanggiCannonMoves(board: BoardState, piece: PieceInstance): Position[] {
+  if (!piece.position) return [];
+
+  const moves: Position[] = [];
+
+  for (const dir of getDirectionVectors('orthogonal')) {
+    let currentPos = piece.position;
+    let foundScreen = false;
+
+    while (true) {
+      const nextPos = offsetPosition(currentPos, dir.dx, dir.dy, board.dimensions);
+      if (!nextPos || arePositionsEqual(nextPos, piece.position)) break;
+      currentPos = nextPos;
+
+      if (isSquareEmpty(board, nextPos)) {
+        if (foundScreen) moves.push(nextPos);
+        continue;
+      }
+
+      if (!foundScreen) {
+        // Any piece but another Janggi cannon can be the screen
+        if (isJanggiCannonAt(board, nextPos)) break;
+        foundScreen = true;
+        continue;
+      }
+
+      // First piece beyond the screen: capture it unless it's a Janggi cannon
+      if (!isJanggiCannonAt(board, nextPos) && hasCapturableEnemyPiece(board, nextPos, piece.owner)) {
+        moves.push(nextPos);
+      }
+      break;
+    }
+  }
+
+  return moves;
+}
+
 // =============================================================================
 // Chameleon Moves
 // =============================================================================
@@ -856,7 +1142,7 @@ function generateChameleonMoves(board: BoardState, piece: PieceInstance): Positi
   }
 
   // 3. Other capturing moves: capture like the target piece
-  const enemyPieces = getAllPieces(board, piece.owner === 'white' ? 'black' : 'white');
+  const enemyPieces = getOpponentColors(board, getMoverColor(piece)).flatMap((color) => getAllPieces(board, color));
 
   for (const enemy of enemyPieces) {
     if (!enemy.position) continue;
@@ -1056,6 +1342,9 @@ function exploreCheckersJumpPath(
     // Can't jump over uncapturable pieces
     if (enemyType?.canBeCaptured === false) continue;
 
+    // Each piece can only be jumped once per path (otherwise the chain could hop back and forth forever)
+    if (jumpedPieces.some((p) => p.id === enemyPiece.id)) continue;
+
     // Position to land on (beyond the enemy)
     const landingPos = offsetPosition(enemyPos, dir.dx, dir.dy, board.dimensions);
     if (!landingPos) continue;
@@ -1092,7 +1381,7 @@ function getChameleonCapturePositions(
   board: BoardState,
   chameleon: PieceInstance,
   enemy: PieceInstance,
-  enemyType: { movement: { slides: string[]; leaps: { dx: number; dy: number; symmetric: boolean }[]; special: string[] }; captureType: string }
+  enemyType: { movement: { slides: string[]; leaps: LeapOffset[]; special: string[]; betza?: string }; captureType: string }
 ): Position[] {
   if (!chameleon.position || !enemy.position) return [];
 
@@ -1117,7 +1406,7 @@ function getChameleonCapturePositions(
       return getChameleonCoordinatorCapturePositions(board, chameleon, enemy);
     case 'cannon':
       // Chameleon captures cannon using cannon-style capture (hop over screen piece)
-      return getChameleonCannonCapturePositions(board, chameleon, enemy);
+      return getChameleonCannonCapturePositions(board, chameleon, enemy, enemyType.movement.special);
     case 'thief':
     case 'none':
       // These capture types are too complex or don't make sense for chameleon to mimic
@@ -1130,14 +1419,14 @@ function getChameleonCapturePositions(
 
   // Handle slides (Rook, Bishop, Queen-like)
   for (const slideDir of enemyType.movement.slides as ('orthogonal' | 'diagonal' | 'all')[]) {
-    if (canReachBySlide(board, chameleon.position, enemy.position, slideDir, chameleon.owner)) {
+    if (canReachBySlide(board, chameleon.position, enemy.position, slideDir, getMoverColor(chameleon))) {
       positions.push(enemy.position);
     }
   }
 
   // Handle leaps (Knight, Catapult, etc.)
   for (const leap of enemyType.movement.leaps) {
-    if (canReachByLeap(chameleon.position, enemy.position, leap, board.dimensions)) {
+    if (canReachByLeap(board, chameleon.position, enemy.position, leap)) {
       positions.push(enemy.position);
     }
   }
@@ -1149,6 +1438,15 @@ function getChameleonCapturePositions(
     }
   }
 
+  // Handle Betza moves: the paths are symmetric, so the Chameleon can capture
+  // exactly when the enemy could capture it
+  if (enemyType.movement.betza) {
+    const attacked = getBetzaAttackSquares(board, enemy, enemyType.movement.betza);
+    if (isMoveInList(attacked, chameleon.position)) {
+      positions.push(enemy.position);
+    }
+  }
+
   return positions;
 }
 
@@ -1200,7 +1498,7 @@ function getChameleonBoxerCapturePositions(
     if (!isSquareEmpty(board, adjacentPos)) continue;
 
     // Check if chameleon can reach this adjacent position (queen-like slide)
-    if (canReachBySlide(board, chameleon.position, adjacentPos, 'all', chameleon.owner)) {
+    if (canReachBySlide(board, chameleon.position, adjacentPos, 'all', getMoverColor(chameleon))) {
       positions.push(adjacentPos);
     }
   }
@@ -1222,7 +1520,7 @@ function getChameleonWithdrawerCapturePositions(
   const positions: Position[] = [];
 
   // Check if chameleon is adjacent to withdrawer (including diagonally)
-  const dx = fileToIndex(chameleon.position.file) - fileToIndex(withdrawer.position.file);
+  const dx = getFileDelta(withdrawer.position, chameleon.position, board.dimensions);
   const dy = chameleon.position.rank - withdrawer.position.rank;
 
   // Must be adjacent (max 1 square away in any direction)
@@ -1268,7 +1566,7 @@ function getChameleonCoordinatorCapturePositions(
   const positions: Position[] = [];
 
   // Find the chameleon's king
-  const king = getAllPieces(board, chameleon.owner).find((p) => {
+  const king = getAllPieces(board, getMoverColor(chameleon)).find((p) => {
     const pType = PIECE_BY_ID[p.typeId];
     return pType?.isRoyal && p.position;
   });
@@ -1342,57 +1640,24 @@ function getChameleonCoordinatorCapturePositions(
 }
 
 /**
- * Get positions where Chameleon can capture a Cannon using cannon-style capture.
- * Chameleon must hop over exactly one piece (screen) orthogonally to land on the cannon.
+ * Get positions where Chameleon can capture a cannon-capturing piece using cannon-style capture.
+ * Chameleon must hop over exactly one piece (screen) along the enemy's line to land on it.
  * Returns [cannon.position] if capture is possible, empty array otherwise.
  */
 function getChameleonCannonCapturePositions(
   board: BoardState,
   chameleon: PieceInstance,
-  cannon: PieceInstance
+  cannon: PieceInstance,
+  special: string[]
 ): Position[] {
   if (!chameleon.position || !cannon.position) return [];
-
-  // Check if chameleon and cannon are on the same orthogonal line
-  const dx = fileToIndex(cannon.position.file) - fileToIndex(chameleon.position.file);
-  const dy = cannon.position.rank - chameleon.position.rank;
-
-  // Must be orthogonal (same file or same rank, but not same square)
-  if ((dx !== 0 && dy !== 0) || (dx === 0 && dy === 0)) return [];
-
-  const stepX = dx === 0 ? 0 : dx > 0 ? 1 : -1;
-  const stepY = dy === 0 ? 0 : dy > 0 ? 1 : -1;
-
-  // Count pieces between chameleon and cannon - need exactly one (the screen)
-  let piecesInBetween = 0;
-  let currentPos = chameleon.position;
-
-  while (true) {
-    const nextPos = offsetPosition(currentPos, stepX, stepY, board.dimensions);
-    if (!nextPos) return [];
-
-    // Reached cannon position - check if we had exactly one screen piece
-    if (nextPos.file === cannon.position.file && nextPos.rank === cannon.position.rank) {
-      if (piecesInBetween === 1) {
-        return [cannon.position]; // Valid cannon-capture!
-      }
-      return [];
-    }
-
-    // Count pieces in between
-    if (!isSquareEmpty(board, nextPos)) {
-      piecesInBetween++;
-      if (piecesInBetween > 1) return []; // Too many pieces, can't cannon-capture
-    }
-
-    currentPos = nextPos;
-  }
+  return canCannonCapture(board, chameleon.position, cannon.position, special) ? [cannon.position] : [];
 }
 
 /**
  * Check if position A can reach position B by sliding in the given direction
  */
-function canReachBySlide(
+export function canReachBySlide(
   board: BoardState,
   from: Position,
   to: Position,
@@ -1428,18 +1693,13 @@ function canReachBySlide(
 /**
  * Check if position A can reach position B by the given leap offset
  */
-function canReachByLeap(
-  from: Position,
-  to: Position,
-  leap: { dx: number; dy: number; symmetric: boolean },
-  dimensions: { files: number; ranks: number }
-): boolean {
+export function canReachByLeap(board: BoardState, from: Position, to: Position, leap: LeapOffset): boolean {
   const offsets = expandLeapOffset(leap);
 
   for (const offset of offsets) {
-    const targetPos = offsetPosition(from, offset.dx, offset.dy, dimensions);
+    const targetPos = offsetPosition(from, offset.dx, offset.dy, board.dimensions);
     if (targetPos && targetPos.file === to.file && targetPos.rank === to.rank) {
-      return true;
+      return !leap.lame || isLeapPathClear(board, from, offset.dx, offset.dy);
     }
   }
 
@@ -1460,34 +1720,33 @@ function canChameleonCaptureWithSpecial(
   switch (special) {
     case 'king-one-square': {
       // Can capture if adjacent
-      const dx = Math.abs(fileToIndex(enemy.position.file) - fileToIndex(chameleon.position.file));
+      const dx = Math.abs(getFileDelta(chameleon.position, enemy.position, board.dimensions));
       const dy = Math.abs(enemy.position.rank - chameleon.position.rank);
       return dx <= 1 && dy <= 1 && (dx > 0 || dy > 0);
     }
 
     case 'pawn-capture-diagonal':
     case 'shogi-pawn':
-    case 'peasant-capture-forward': {
+    case 'peasant-capture-forward':
+    case 'berolina': {
       // Chameleon captures as the pawn would (from the pawn's perspective)
       // The pawn captures forward-diagonally, so Chameleon must approach from behind-diagonally
-      const pawnDir = getPawnDirection(enemy.owner);
       // Enemy captures diagonally forward from their perspective
       // Chameleon must be on a square that the enemy pawn could capture
-      const dx = fileToIndex(chameleon.position.file) - fileToIndex(enemy.position.file);
+      const dx = getFileDelta(enemy.position, chameleon.position, board.dimensions);
       const dy = chameleon.position.rank - enemy.position.rank;
-
-      if (special === 'shogi-pawn' || special === 'peasant-capture-forward') {
-        // Captures forward only
-        return dx === 0 && dy === pawnDir;
-      } else {
-        // Diagonal capture
-        return Math.abs(dx) === 1 && dy === pawnDir;
-      }
+      const sides = special !== 'pawn-capture-diagonal'
+        ? [0] // Captures forward only
+        : [-1, 1]; // Diagonal capture
+      return sides.some((side) => {
+        const step = orientVector(enemy.owner, side, 1);
+        return dx === step.dx && dy === step.dy;
+      });
     }
 
     case 'herald-orthogonal': {
       // Herald moves 2 squares orthogonally (blockable)
-      const dx = fileToIndex(enemy.position.file) - fileToIndex(chameleon.position.file);
+      const dx = getFileDelta(chameleon.position, enemy.position, board.dimensions);
       const dy = enemy.position.rank - chameleon.position.rank;
 
       // Must be exactly 2 squares orthogonally
@@ -1506,16 +1765,16 @@ function canChameleonCaptureWithSpecial(
     case 'regent-conditional': {
       // For simplicity, treat as 2 squares in any direction or queen movement
       // (depends on game state, but Chameleon can use either)
-      const dx = Math.abs(fileToIndex(enemy.position.file) - fileToIndex(chameleon.position.file));
+      const dx = Math.abs(getFileDelta(chameleon.position, enemy.position, board.dimensions));
       const dy = Math.abs(enemy.position.rank - chameleon.position.rank);
 
       // Check if exactly 2 squares away in any direction
       if ((dx === 2 && dy === 0) || (dx === 0 && dy === 2) || (dx === 2 && dy === 2)) {
         // Check path is clear
-        return canReachBySlide(board, chameleon.position, enemy.position, 'all', chameleon.owner);
+        return canReachBySlide(board, chameleon.position, enemy.position, 'all', getMoverColor(chameleon));
       }
       // Or can slide like Queen
-      return canReachBySlide(board, chameleon.position, enemy.position, 'all', chameleon.owner);
+      return canReachBySlide(board, chameleon.position, enemy.position, 'all', getMoverColor(chameleon));
     }
 
     case 'swap-adjacent': {
@@ -1524,101 +1783,29 @@ function canChameleonCaptureWithSpecial(
     }
 
     case 'grasshopper': {
-      // Grasshopper must hop over exactly one piece to land on/beyond enemy
-      // Check if there's a direct Queen-line from chameleon to enemy
-      const dx = fileToIndex(enemy.position.file) - fileToIndex(chameleon.position.file);
-      const dy = enemy.position.rank - chameleon.position.rank;
-
-      // Must be on a Queen line (orthogonal or diagonal)
-      if (dx !== 0 && dy !== 0 && Math.abs(dx) !== Math.abs(dy)) return false;
-
-      const stepX = dx === 0 ? 0 : dx > 0 ? 1 : -1;
-      const stepY = dy === 0 ? 0 : dy > 0 ? 1 : -1;
-
-      // Count pieces between chameleon and enemy
-      let piecesInBetween = 0;
-      let currentPos = chameleon.position;
-      while (true) {
-        const nextPos = offsetPosition(currentPos, stepX, stepY, board.dimensions);
-        if (!nextPos) return false;
-
-        // Reached enemy position - check if we hopped exactly one piece
-        if (nextPos.file === enemy.position.file && nextPos.rank === enemy.position.rank) {
-          return piecesInBetween === 1;
-        }
-
-        if (!isSquareEmpty(board, nextPos)) {
-          piecesInBetween++;
-        }
-        currentPos = nextPos;
-      }
+      // Grasshopper must hop over exactly one piece to land on/beyond enemy:
+      // a Queen line from chameleon to enemy with exactly one piece in between
+      return getDirectionVectors('all').some((dir) => {
+        const path = getSquaresBetween(chameleon.position!, enemy.position!, dir.dx, dir.dy, board.dimensions);
+        return path !== null && path.filter((pos) => !isSquareEmpty(board, pos)).length === 1;
+      });
     }
 
-    case 'nightrider': {
+    case 'nightrider':
+    case 'knight-rider':
       // Nightrider moves in repeated knight jumps in the same direction
-      // Check if enemy is reachable by a nightrider path
-      const dx = fileToIndex(enemy.position.file) - fileToIndex(chameleon.position.file);
-      const dy = enemy.position.rank - chameleon.position.rank;
-
-      // Check all 8 knight directions
-      const knightDirs = [
-        { dx: 2, dy: 1 }, { dx: 2, dy: -1 }, { dx: -2, dy: 1 }, { dx: -2, dy: -1 },
-        { dx: 1, dy: 2 }, { dx: 1, dy: -2 }, { dx: -1, dy: 2 }, { dx: -1, dy: -2 },
-      ];
-
-      for (const dir of knightDirs) {
-        // Check if enemy is along this knight direction
-        if (dir.dx !== 0 && dir.dy !== 0) {
-          // Must be a multiple of this direction
-          if (dx % dir.dx !== 0 || dy % dir.dy !== 0) continue;
-          const mult = dx / dir.dx;
-          if (mult <= 0 || dy / dir.dy !== mult) continue;
-
-          // Check path is clear (all intermediate positions must be empty)
-          let pathClear = true;
-          for (let i = 1; i < mult; i++) {
-            const midPos = offsetPosition(chameleon.position, dir.dx * i, dir.dy * i, board.dimensions);
-            if (!midPos || !isSquareEmpty(board, midPos)) {
-              pathClear = false;
-              break;
-            }
-          }
-          if (pathClear) return true;
-        }
-      }
-      return false;
-    }
-
-    case 'cannon-move': {
-      // Cannon captures by hopping over exactly one piece (screen) to hit target
-      const dx = fileToIndex(enemy.position.file) - fileToIndex(chameleon.position.file);
-      const dy = enemy.position.rank - chameleon.position.rank;
-
-      // Must be orthogonal (cannon moves like rook)
-      if (dx !== 0 && dy !== 0) return false;
-
-      const stepX = dx === 0 ? 0 : dx > 0 ? 1 : -1;
-      const stepY = dy === 0 ? 0 : dy > 0 ? 1 : -1;
-
-      // Count pieces between chameleon and enemy (need exactly one screen)
-      let piecesInBetween = 0;
-      let currentPos = chameleon.position;
-      while (true) {
-        const nextPos = offsetPosition(currentPos, stepX, stepY, board.dimensions);
-        if (!nextPos) return false;
-
-        // Reached enemy position
-        if (nextPos.file === enemy.position.file && nextPos.rank === enemy.position.rank) {
-          return piecesInBetween === 1; // Must have exactly one screen piece
-        }
-
-        if (!isSquareEmpty(board, nextPos)) {
-          piecesInBetween++;
-          if (piecesInBetween > 1) return false; // Too many pieces
-        }
-        currentPos = nextPos;
-      }
-    }
+      return canReachByKnightLine(
+        board,
+        chameleon.position,
+        enemy.position,
+        special === 'knight-rider' ? KNIGHT_RIDER_JUMPS : Infinity
+      );
+
+    case 'cannon-move':
+    case 'vao-move':
+    case 'janggi-cannon':
+      // Cannons capture by hopping over exactly one piece (screen) to hit target
+      return canCannonCapture(board, chameleon.position, enemy.position, [special]);
 
     case 'bounce': {
       // Chameleon can capture via bounce movement (like Pontiff)
@@ -1682,16 +1869,20 @@ function canChameleonCaptureWithSpecial(
     case 'checkers-forward': {
       // Chameleon captures a checker by jumping diagonally forward over it
       // "Forward" is from the checker's perspective (enemy's forward direction)
-      const checkerDir = getPawnDirection(enemy.owner);
-      const dx = fileToIndex(enemy.position.file) - fileToIndex(chameleon.position.file);
+      const dx = getFileDelta(chameleon.position, enemy.position, board.dimensions);
       const dy = enemy.position.rank - chameleon.position.rank;
 
       // Chameleon must be 1 square diagonally behind the checker (from checker's perspective)
       // and there must be an empty square beyond the checker
-      if (Math.abs(dx) !== 1 || dy !== -checkerDir) return false;
+      const side = [-1, 1].find((s) => {
+        const behind = orientVector(enemy.owner, s, -1);
+        return dx === behind.dx && dy === behind.dy;
+      });
+      if (side === undefined) return false;
 
       // Check that the landing square (beyond the checker) is empty
-      const landingPos = offsetPosition(enemy.position, dx, checkerDir, board.dimensions);
+      const landing = orientVector(enemy.owner, side, 1);
+      const landingPos = offsetPosition(enemy.position, landing.dx, landing.dy, board.dimensions);
       if (!landingPos) return false;
       if (!isSquareEmpty(board, landingPos)) return false;
 
@@ -1700,7 +1891,7 @@ function canChameleonCaptureWithSpecial(
 
     case 'checkers-king': {
       // Chameleon captures a checkers king by jumping diagonally over it (any direction)
-      const dx = fileToIndex(enemy.position.file) - fileToIndex(chameleon.position.file);
+      const dx = getFileDelta(chameleon.position, enemy.position, board.dimensions);
       const dy = enemy.position.rank - chameleon.position.rank;
 
       // Chameleon must be exactly 1 square diagonally adjacent to the checkers king
@@ -1832,13 +2023,8 @@ function generateCheckersForwardMoves(board: BoardState, piece: PieceInstance):
 
   const moves: Position[] = [];
   const visited = new Set<string>();
-  const direction = getPawnDirection(piece.owner); // +1 for white, -1 for black
-
   // Forward diagonal directions only
-  const forwardDiagonals = [
-    { dx: -1, dy: direction },
-    { dx: 1, dy: direction },
-  ];
+  const forwardDiagonals = [orientVector(piece.owner, -1, 1), orientVector(piece.owner, 1, 1)];
 
   // 1. Non-capturing moves: 1 square diagonally forward
   for (const dir of forwardDiagonals) {
@@ -1970,18 +2156,17 @@ function generateKingMoves(board: BoardState, piece: PieceInstance): Position[]
 function generateGoldGeneralMoves(board: BoardState, piece: PieceInstance): Position[] {
   if (!piece.position) return [];
 
-  const dir = getPawnDirection(piece.owner); // +1 for white, -1 for black
   const moves: Position[] = [];
 
   // Orthogonals (N/S/E/W) + forward diagonals only
   const offsets = [
-    { dx: 0, dy: dir },   // forward
-    { dx: 0, dy: -dir },  // backward
-    { dx: -1, dy: 0 },    // left
-    { dx: 1, dy: 0 },     // right
-    { dx: -1, dy: dir },  // forward-left diagonal
-    { dx: 1, dy: dir },   // forward-right diagonal
-  ];
+    { dx: 0, dy: 1 },   // forward
+    { dx: 0, dy: -1 },  // backward
+    { dx: -1, dy: 0 },  // left
+    { dx: 1, dy: 0 },   // right
+    { dx: -1, dy: 1 },  // forward-left diagonal
+    { dx: 1, dy: 1 },   // forward-right diagonal
+  ].map(({ dx, dy }) => orientVector(piece.owner, dx, dy));
 
   for (const offset of offsets) {
     const targetPos = offsetPosition(piece.position, offset.dx, offset.dy, board.dimensions);
@@ -2002,17 +2187,16 @@ function generateGoldGeneralMoves(board: BoardState, piece: PieceInstance): Posi
 function generateSilverGeneralMoves(board: BoardState, piece: PieceInstance): Position[] {
   if (!piece.position) return [];
 
-  const dir = getPawnDirection(piece.owner); // +1 for white, -1 for black
   const moves: Position[] = [];
 
   // All 4 diagonals + forward only
   const offsets = [
-    { dx: 0, dy: dir },   // forward
-    { dx: -1, dy: dir },  // forward-left diagonal
-    { dx: 1, dy: dir },   // forward-right diagonal
-    { dx: -1, dy: -dir }, // backward-left diagonal
-    { dx: 1, dy: -dir },  // backward-right diagonal
-  ];
+    { dx: 0, dy: 1 },   // forward
+    { dx: -1, dy: 1 },  // forward-left diagonal
+    { dx: 1, dy: 1 },   // forward-right diagonal
+    { dx: -1, dy: -1 }, // backward-left diagonal
+    { dx: 1, dy: -1 },  // backward-right diagonal
+  ].map(({ dx, dy }) => orientVector(piece.owner, dx, dy));
 
   for (const offset of offsets) {
     const targetPos = offsetPosition(piece.position, offset.dx, offset.dy, board.dimensions);
@@ -2040,6 +2224,7 @@ export function getAttackedSquares(
 ): Position[] {
   if (!piece.position) return [];
   if (piece.isFrozen) return []; // Frozen pieces cannot attack
+  if (piece.owner === 'neutral') return []; // Neutral pieces attack nothing
 
   const pType = PIECE_BY_ID[piece.typeId];
   if (!pType) return [];
@@ -2099,6 +2284,15 @@ export function getAttackedSquares(
         attacked.push(...generateNightriderMoves(board, piece));
         break;
 
+      case 'knight-rider':
+        attacked.push(...generateNightriderMoves(board, piece, KNIGHT_RIDER_JUMPS));
+        break;
+
+      case 'berolina':
+        // Berolina pawns attack straight forward
+        attacked.push(...getShogiPawnAttackSquares(board, piece));
+        break;
+
       case 'checkers-forward':
         // Checkers attacks by jumping diagonally forward
         attacked.push(...getCheckersAttackSquares(board, piece, true));
@@ -2119,6 +2313,11 @@ export function getAttackedSquares(
     }
   }
 
+  // Betza attacks
+  if (pType.movement.betza) {
+    attacked.push(...getBetzaAttackSquares(board, piece, pType.movement.betza));
+  }
+
   return attacked;
 }
 
@@ -2129,10 +2328,10 @@ function getPawnAttackSquares(board: BoardState, piece: PieceInstance): Position
   if (!piece.position) return [];
 
   const squares: Position[] = [];
-  const direction = getPawnDirection(piece.owner);
 
-  for (const dx of [-1, 1]) {
-    const attackPos = offsetPosition(piece.position, dx, direction, board.dimensions);
+  for (const side of [-1, 1]) {
+    const step = orientVector(piece.owner, side, 1);
+    const attackPos = offsetPosition(piece.position, step.dx, step.dy, board.dimensions);
     if (attackPos) {
       squares.push(attackPos);
     }
@@ -2147,8 +2346,8 @@ function getPawnAttackSquares(board: BoardState, piece: PieceInstance): Position
 function getShogiPawnAttackSquares(board: BoardState, piece: PieceInstance): Position[] {
   if (!piece.position) return [];
 
-  const direction = getPawnDirection(piece.owner);
-  const attackPos = offsetPosition(piece.position, 0, direction, board.dimensions);
+  const forward = orientVector(piece.owner, 0, 1);
+  const attackPos = offsetPosition(piece.position, forward.dx, forward.dy, board.dimensions);
 
   return attackPos ? [attackPos] : [];
 }
@@ -2163,11 +2362,10 @@ function getCheckersAttackSquares(board: BoardState, piece: PieceInstance, forwa
   if (!piece.position) return [];
 
   const squares: Position[] = [];
-  const direction = getPawnDirection(piece.owner);
 
   // Diagonal directions (forward only for regular checkers, all for king)
   const diagonals = forwardOnly
-    ? [{ dx: -1, dy: direction }, { dx: 1, dy: direction }]
+    ? [orientVector(piece.owner, -1, 1), orientVector(piece.owner, 1, 1)]
     : [{ dx: -1, dy: -1 }, { dx: -1, dy: 1 }, { dx: 1, dy: -1 }, { dx: 1, dy: 1 }];
 
   for (const dir of diagonals) {
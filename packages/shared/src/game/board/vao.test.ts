@@ -0,0 +1,59 @@
+/**
+ * Tests for the Vao (diagonal cannon)
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { parseHfen } from '../notation/hfen';
+import { generateLegalMoves, isInCheck, isSquareAttacked } from '../rules/checkDetection';
+import { getPieceAt } from './boardUtils';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function square(name: string): Position {
+  return stringToPosition(name)!;
+}
+
+function legalMoves(state: GameState, from: string): string[] {
+  const piece = getPieceAt(state.board, square(from))!;
+  return generateLegalMoves(state.board, piece, state.enPassantTarget).map(positionToString).sort();
+}
+
+describe('Vao', () => {
+  it('slides diagonally and captures only by hopping over a screen', () => {
+    // Screens on e5 and c5; the knight on c3 has no screen in front of it
+    const state = fromHfen('8x8 4k3/r5q1/8/2P*1p3/3[VAO]4/2n5/7K/8 w - 0 1 -');
+    expect(legalMoves(state, 'd4')).toEqual(['a7', 'e3', 'f2', 'g1', 'g7']);
+  });
+
+  it('gives check over exactly one screen', () => {
+    const screened = fromHfen('8x8 7k/8/5p2/8/3[VAO]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(screened.board, 'black')).toBe(true);
+
+    const open = fromHfen('8x8 7k/8/8/8/3[VAO]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(open.board, 'black')).toBe(false);
+
+    const twoScreens = fromHfen('8x8 7k/6p1/5p2/8/3[VAO]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(twoScreens.board, 'black')).toBe(false);
+  });
+
+  it('does not hop orthogonally', () => {
+    const state = fromHfen('8x8 3k4/8/3p4/8/3[VAO]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(state.board, 'black')).toBe(false);
+  });
+
+  it('is captured by a Chameleon hopping diagonally over a screen', () => {
+    const screened = fromHfen('8x8 k7/8/8/7[vao]/8/5P2/8/3[CHAMELEON]3K w - 0 1 -');
+    expect(legalMoves(screened, 'd1')).toContain('h5');
+    expect(isSquareAttacked(screened.board, square('h5'), 'white')).toBe(true);
+
+    const open = fromHfen('8x8 k7/8/8/7[vao]/8/8/8/3[CHAMELEON]3K w - 0 1 -');
+    expect(legalMoves(open, 'd1')).not.toContain('h5');
+    expect(isSquareAttacked(open.board, square('h5'), 'white')).toBe(false);
+  });
+});
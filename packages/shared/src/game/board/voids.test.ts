@@ -0,0 +1,105 @@
+/**
+ * Tests for void squares cut out of the board, and the named layouts that use them
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { gameStateToHfen, parseHfen } from '../notation/hfen';
+import { generateLegalMoves, isInCheck } from '../rules/checkDetection';
+import { getPlacementZones } from '../rules/placement';
+import { getPieceAt, isValidPosition } from './boardUtils';
+import { applyLayout, detectLayout, getLayoutVoids } from './layouts';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function square(name: string): Position {
+  return stringToPosition(name)!;
+}
+
+function legalMoves(state: GameState, from: string): string[] {
+  const piece = getPieceAt(state.board, square(from))!;
+  return generateLegalMoves(state.board, piece, state.enPassantTarget).map(positionToString).sort();
+}
+
+describe('HFEN', () => {
+  it('writes and reads voids as "#"', () => {
+    const hfen = '8x8 4k3/8/8/2#2#2/2#2#2/8/8/4K3 w - 0 1 -';
+    const state = fromHfen(hfen);
+
+    expect([...state.board.dimensions.voids!].sort()).toEqual(['c4', 'c5', 'f4', 'f5']);
+    expect(gameStateToHfen(state)).toBe(hfen);
+    expect(isValidPosition(square('c4'), state.board.dimensions)).toBe(false);
+  });
+});
+
+describe('movement', () => {
+  it('stops slides in front of a void', () => {
+    const state = fromHfen('8x8 4k3/8/8/8/2#5/8/8/2R1K3 w - 0 1 -');
+    expect(legalMoves(state, 'c1')).toEqual(['a1', 'b1', 'c2', 'c3', 'd1']);
+  });
+
+  it('lets leapers jump over a void but not land on one', () => {
+    const moves = legalMoves(fromHfen('8x8 4k3/8/8/2#5/2#5/3N4/8/4K3 w - 0 1 -'), 'd3');
+    expect(moves).toContain('b4');
+    expect(moves).toContain('e5');
+    expect(moves).not.toContain('c5');
+  });
+
+  it('does not let a Grasshopper use a void as a hurdle', () => {
+    const placement = '4k3/8/8/8/2X5/8/8/2[GRASSHOPPER]1K3 w - 0 1 -';
+    const withPawn = fromHfen(`8x8 ${placement.replace('X', 'P')}`);
+    const withVoid = fromHfen(`8x8 ${placement.replace('X', '#')}`);
+
+    expect(legalMoves(withPawn, 'c1')).toContain('c5');
+    expect(legalMoves(withVoid, 'c1')).not.toContain('c5');
+  });
+
+  it('does not let a Cannon use a void as a screen', () => {
+    const placement = '4k3/8/2n5/8/2X5/8/8/2[CANNON]1K3 w - 0 1 -';
+    const withPawn = fromHfen(`8x8 ${placement.replace('X', 'P')}`);
+    const withVoid = fromHfen(`8x8 ${placement.replace('X', '#')}`);
+
+    expect(legalMoves(withPawn, 'c1')).toContain('c6');
+    expect(legalMoves(withVoid, 'c1')).not.toContain('c6');
+  });
+
+  it('blocks attacks through a void', () => {
+    expect(isInCheck(fromHfen('8x8 2k5/8/8/8/2#5/8/8/2R1K3 b - 0 1 -').board, 'black')).toBe(false);
+    expect(isInCheck(fromHfen('8x8 2k5/8/8/8/8/8/8/2R1K3 b - 0 1 -').board, 'black')).toBe(true);
+  });
+});
+
+describe('placement', () => {
+  it('leaves void squares out of the placement zones', () => {
+    const zones = getPlacementZones('8x8', 'white', ['a2']).map((zone) => positionToString(zone.position));
+    expect(zones).toHaveLength(15);
+    expect(zones).not.toContain('a2');
+  });
+});
+
+describe('layouts', () => {
+  it('cuts lakes out of the middle two ranks', () => {
+    expect(getLayoutVoids('lakes', { files: 8, ranks: 8 })).toEqual(['c4', 'f4', 'c5', 'f5']);
+    expect(getLayoutVoids('lakes', { files: 10, ranks: 10 })).toEqual([
+      'c5', 'd5', 'g5', 'h5', 'c6', 'd6', 'g6', 'h6',
+    ]);
+  });
+
+  it('notches the ends of the middle two ranks', () => {
+    expect(getLayoutVoids('notched', { files: 10, ranks: 8 })).toEqual(['a4', 'j4', 'a5', 'j5']);
+  });
+
+  it('applies and detects layouts', () => {
+    const lakes = applyLayout({ files: 8, ranks: 8, topology: 'cylinder' }, 'lakes');
+    expect(lakes).toEqual({ files: 8, ranks: 8, topology: 'cylinder', voids: ['c4', 'f4', 'c5', 'f5'] });
+    expect(detectLayout(lakes)).toBe('lakes');
+    expect(applyLayout(lakes, 'standard')).toEqual({ files: 8, ranks: 8, topology: 'cylinder' });
+    expect(detectLayout({ files: 8, ranks: 8 })).toBe('standard');
+    expect(detectLayout({ files: 8, ranks: 8, voids: ['e4'] })).toBeNull();
+  });
+});
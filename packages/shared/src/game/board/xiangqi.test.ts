@@ -0,0 +1,92 @@
+/**
+ * Tests for the Xiangqi and Janggi pieces: lame leaps and the Janggi cannon
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { parseHfen } from '../notation/hfen';
+import { generateLegalMoves, isInCheck, isSquareAttacked } from '../rules/checkDetection';
+import { getPieceAt, getLeapPath } from './boardUtils';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function square(name: string): Position {
+  return stringToPosition(name)!;
+}
+
+function legalMoves(state: GameState, from: string): string[] {
+  const piece = getPieceAt(state.board, square(from))!;
+  return generateLegalMoves(state.board, piece, state.enPassantTarget).map(positionToString).sort();
+}
+
+describe('getLeapPath', () => {
+  it('steps orthogonally first, then diagonally', () => {
+    expect(getLeapPath(2, 1)).toEqual([{ dx: 1, dy: 0 }]);
+    expect(getLeapPath(-1, 2)).toEqual([{ dx: 0, dy: 1 }]);
+    expect(getLeapPath(2, -2)).toEqual([{ dx: 1, dy: -1 }]);
+    expect(getLeapPath(3, 2)).toEqual([{ dx: 1, dy: 0 }, { dx: 2, dy: 1 }]);
+    expect(getLeapPath(1, 1)).toEqual([]);
+  });
+});
+
+describe('Horse', () => {
+  it('is blocked by a piece orthogonally next to it', () => {
+    // The pawn on e4 blocks f3 and f5, the black pawn on d5 blocks c6 and e6
+    const state = fromHfen('8x8 7k/8/8/3p4/3[HORSE]P3/8/8/K7 w - 0 1 -');
+    expect(legalMoves(state, 'd4')).toEqual(['b3', 'b5', 'c2', 'e2']);
+  });
+
+  it('gives check only while its leg is free', () => {
+    const check = fromHfen('8x8 8/8/4k3/8/3[HORSE]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(check.board, 'black')).toBe(true);
+
+    const blocked = fromHfen('8x8 8/8/4k3/3p4/3[HORSE]4/8/8/K7 b - 0 1 -');
+    expect(isInCheck(blocked.board, 'black')).toBe(false);
+    expect(isSquareAttacked(blocked.board, square('f5'), 'white')).toBe(true);
+  });
+
+  it('is captured by a Chameleon only along a free leg', () => {
+    const free = fromHfen('8x8 7k/8/4[CHAMELEON]3/8/3[horse]4/8/8/K7 w - 0 1 -');
+    expect(legalMoves(free, 'e6')).toContain('d4');
+
+    const blocked = fromHfen('8x8 7k/8/4[CHAMELEON]3/4P3/3[horse]4/8/8/K7 w - 0 1 -');
+    expect(legalMoves(blocked, 'e6')).not.toContain('d4');
+  });
+});
+
+describe('Elephant and Advisor', () => {
+  it('blocks the Elephant on the square it passes over', () => {
+    const state = fromHfen('8x8 7k/8/8/4p3/3[ELEPHANT]4/8/8/K7 w - 0 1 -');
+    expect(legalMoves(state, 'd4')).toEqual(['b2', 'b6', 'f2']);
+  });
+
+  it('moves the Advisor one square in any direction', () => {
+    const state = fromHfen('8x8 7k/8/8/8/3[ADVISOR]4/8/8/K7 w - 0 1 -');
+    expect(legalMoves(state, 'd4')).toEqual(['c3', 'c4', 'c5', 'd3', 'd5', 'e3', 'e4', 'e5']);
+  });
+});
+
+describe('Janggi cannon', () => {
+  it('must hop to move and cannot use another Janggi cannon as a screen', () => {
+    const state = fromHfen('8x8 k2r4/8/3P4/8/1P1[JANGGI-CANNON][janggi-cannon]3/8/7K/8 w - 0 1 -');
+    expect(legalMoves(state, 'd4')).toEqual(['a4', 'd7', 'd8']);
+  });
+
+  it('cannot capture another Janggi cannon', () => {
+    const state = fromHfen('8x8 k2[janggi-cannon]4/8/3P4/8/3[JANGGI-CANNON]4/8/7K/8 w - 0 1 -');
+    expect(legalMoves(state, 'd4')).toEqual(['d7']);
+  });
+
+  it('gives check over any screen but another Janggi cannon', () => {
+    const check = fromHfen('8x8 3k4/8/3P4/8/3[JANGGI-CANNON]4/8/7K/8 b - 0 1 -');
+    expect(isInCheck(check.board, 'black')).toBe(true);
+
+    const cannonScreen = fromHfen('8x8 3k4/8/3[janggi-cannon]4/8/3[JANGGI-CANNON]4/8/7K/8 b - 0 1 -');
+    expect(isInCheck(cannonScreen.board, 'black')).toBe(false);
+  });
+});
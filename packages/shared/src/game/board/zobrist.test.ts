@@ -0,0 +1,218 @@
+/**
+ * Tests for Zobrist position keys
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Move, PieceInstance, PlayerColor, Position } from '../types';
+import { createBoardState } from './boardUtils';
+import {
+  computeZobristKey,
+  updateZobristKey,
+  zobristKeysEqual,
+  zobristKeyToString,
+} from './zobrist';
+import {
+  createInitialGameState,
+  createStandardChessPieces,
+  executeMove,
+} from '../rules/moveExecution';
+import { isThreefoldRepetition, isNearThreefoldRepetition } from '../rules/gameEndDetection';
+import { generateAllMoves } from '../ai/search';
+import { createSeededRandom, pickRandom } from '../ai/random';
+
+function createPiece(
+  id: string,
+  typeId: string,
+  owner: PlayerColor,
+  file: string,
+  rank: number,
+  hasMoved = false
+): PieceInstance {
+  return {
+    id,
+    typeId,
+    owner,
+    position: { file, rank } as Position,
+    hasMoved,
+    isFrozen: false,
+  };
+}
+
+function currentKey(state: GameState) {
+  return state.positionHistory[state.positionHistory.length - 1];
+}
+
+function findMove(state: GameState, from: string, to: string): Move {
+  const move = generateAllMoves(state).find(
+    (m) => `${m.from.file}${m.from.rank}` === from && `${m.to.file}${m.to.rank}` === to
+  );
+  if (!move) throw new Error(`No move ${from}-${to}`);
+  return move;
+}
+
+function playMoves(state: GameState, moves: [string, string][]): GameState {
+  for (const [from, to] of moves) {
+    state = executeMove(state, findMove(state, from, to));
+  }
+  return state;
+}
+
+describe('computeZobristKey', () => {
+  const board = createBoardState({ files: 8, ranks: 8 }, [
+    createPiece('wk', 'king', 'white', 'e', 1),
+    createPiece('wn', 'knight', 'white', 'g', 1),
+    createPiece('bk', 'king', 'black', 'e', 8),
+  ]);
+
+  it('returns two unsigned 32-bit halves', () => {
+    const key = computeZobristKey(board, 'white', null);
+    for (const half of key) {
+      expect(Number.isInteger(half)).toBe(true);
+      expect(half).toBeGreaterThanOrEqual(0);
+      expect(half).toBeLessThan(2 ** 32);
+    }
+    expect(zobristKeyToString(key)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('does not depend on the order of the piece list', () => {
+    const reversed = createBoardState(board.dimensions, [...board.pieces].reverse());
+    expect(computeZobristKey(reversed, 'white', null)).toEqual(computeZobristKey(board, 'white', null));
+  });
+
+  it('distinguishes side to move, en passant and piece placement', () => {
+    const key = computeZobristKey(board, 'white', null);
+    expect(zobristKeysEqual(computeZobristKey(board, 'black', null), key)).toBe(false);
+    expect(
+      zobristKeysEqual(computeZobristKey(board, 'white', { file: 'd', rank: 6 } as Position), key)
+    ).toBe(false);
+
+    const moved = createBoardState(board.dimensions, [
+      board.pieces[0],
+      createPiece('wn', 'knight', 'white', 'f', 3),
+      board.pieces[2],
+    ]);
+    expect(zobristKeysEqual(computeZobristKey(moved, 'white', null), key)).toBe(false);
+
+    const otherOwner = createBoardState(board.dimensions, [
+      board.pieces[0],
+      createPiece('wn', 'knight', 'black', 'g', 1),
+      board.pieces[2],
+    ]);
+    expect(zobristKeysEqual(computeZobristKey(otherOwner, 'white', null), key)).toBe(false);
+  });
+
+  it('includes hasMoved only for pieces that can castle', () => {
+    const key = computeZobristKey(board, 'white', null);
+
+    const kingMoved = createBoardState(board.dimensions, [
+      { ...board.pieces[0], hasMoved: true },
+      board.pieces[1],
+      board.pieces[2],
+    ]);
+    expect(zobristKeysEqual(computeZobristKey(kingMoved, 'white', null), key)).toBe(false);
+
+    const knightMoved = createBoardState(board.dimensions, [
+      board.pieces[0],
+      { ...board.pieces[1], hasMoved: true },
+      board.pieces[2],
+    ]);
+    expect(computeZobristKey(knightMoved, 'white', null)).toEqual(key);
+  });
+
+  it('ignores captured pieces', () => {
+    const withCaptured = createBoardState(board.dimensions, [
+      ...board.pieces,
+      { ...createPiece('bq', 'queen', 'black', 'd', 8), position: null },
+    ]);
+    expect(computeZobristKey(withCaptured, 'white', null)).toEqual(computeZobristKey(board, 'white', null));
+  });
+});
+
+describe('updateZobristKey', () => {
+  it('matches a full recomputation through random games', () => {
+    for (const seed of [1, 2, 3]) {
+      const random = createSeededRandom(seed);
+      let state = createInitialGameState(createStandardChessPieces(), '8x8');
+
+      for (let ply = 0; ply < 60; ply++) {
+        const moves = generateAllMoves(state);
+        if (moves.length === 0) break;
+        state = executeMove(state, pickRandom(moves, random));
+
+        expect(currentKey(state)).toEqual(
+          computeZobristKey(state.board, state.currentTurn, state.enPassantTarget)
+        );
+      }
+    }
+  });
+
+  it('handles pieces removed from the piece list', () => {
+    const before = createBoardState({ files: 8, ranks: 8 }, [
+      createPiece('wk', 'king', 'white', 'e', 1),
+      createPiece('wr', 'rook', 'white', 'a', 1),
+      createPiece('bk', 'king', 'black', 'e', 8),
+    ]);
+    const after = createBoardState(before.dimensions, [before.pieces[2], before.pieces[0]]);
+
+    const key = updateZobristKey(
+      computeZobristKey(before, 'white', null),
+      { board: before, currentTurn: 'white', enPassantTarget: null },
+      { board: after, currentTurn: 'black', enPassantTarget: null }
+    );
+    expect(key).toEqual(computeZobristKey(after, 'black', null));
+  });
+});
+
+describe('repetition detection', () => {
+  const knightShuffle: [string, string][] = [
+    ['g1', 'f3'],
+    ['g8', 'f6'],
+    ['f3', 'g1'],
+    ['f6', 'g8'],
+  ];
+
+  it('returns to the starting key when the position repeats', () => {
+    const start = createInitialGameState(createStandardChessPieces(), '8x8');
+    const state = playMoves(start, knightShuffle);
+
+    expect(currentKey(state)).toEqual(currentKey(start));
+    expect(isNearThreefoldRepetition(state)).toBe(true);
+    expect(isThreefoldRepetition(state)).toBe(false);
+  });
+
+  it('detects threefold repetition', () => {
+    const start = createInitialGameState(createStandardChessPieces(), '8x8');
+    const state = playMoves(start, [...knightShuffle, ...knightShuffle]);
+    expect(isThreefoldRepetition(state)).toBe(true);
+  });
+
+  it('treats positions with different castling rights as different', () => {
+    const pieces = [
+      createPiece('wk', 'king', 'white', 'e', 1),
+      createPiece('wr', 'rook', 'white', 'h', 1),
+      createPiece('bk', 'king', 'black', 'e', 8, true),
+    ];
+    const start = createInitialGameState(pieces, '8x8');
+    // The king walks out and back, losing its castling rights
+    const state = playMoves(start, [
+      ['e1', 'e2'],
+      ['e8', 'd8'],
+      ['e2', 'e1'],
+      ['d8', 'e8'],
+    ]);
+
+    expect(zobristKeysEqual(currentKey(state), currentKey(start))).toBe(false);
+  });
+
+  it('keeps working after a JSON round trip', () => {
+    const start = createInitialGameState(createStandardChessPieces(), '8x8');
+    const state = playMoves(start, [...knightShuffle, ['g1', 'f3'], ['g8', 'f6'], ['f3', 'g1']]);
+    const restored = JSON.parse(JSON.stringify(state)) as GameState;
+
+    const next = executeMove(
+      { ...restored, board: state.board },
+      findMove(state, 'f6', 'g8')
+    );
+    expect(isThreefoldRepetition(next)).toBe(true);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Zobrist hashing - 64-bit position keys for repetition detection and search
+ *
+ * A position key is the XOR of one pseudo-random value per feature: each
+ * piece (type, owner - a player or neutral - square, and hasMoved for
+ * pieces that can castle), the en passant target, the side to move and, in
+ * drops games, each piece held in hand (type, owner, and how many of that
+ * type are held). A move only XORs out the features it removes and XORs in
+ * the ones it adds.
+ */
+
+import type { BoardState, Hands, PieceInstance, PieceOwner, PlayerColor, Position, ZobristKey } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { fileToIndex } from './boardUtils';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The parts of a game state a position key covers
+ */
+export interface ZobristPosition {
+  board: BoardState;
+  currentTurn: PlayerColor;
+  enPassantTarget: Position | null;
+  hand?: Hands;
+}
+
+/** Running key while features are XORed in and out */
+interface KeyAccumulator {
+  hi: number;
+  lo: number;
+}
+
+// =============================================================================
+// Feature Values
+// =============================================================================
+
+const SEED_HI = 0x2545f491;
+const SEED_LO = 0x6c8e9cf5;
+
+const OWNER_CODES: Record<PieceOwner, number> = { white: 0, black: 1, neutral: 2, red: 3, blue: 4 };
+const OWNER_COUNT = 5;
+
+/** White to move adds nothing; each other side to move is its own feature */
+const SIDE_TO_MOVE_CODES: Record<PlayerColor, number | null> = { white: null, black: 0, red: 1, blue: 2 };
+
+/** Feature codes below this are squares; en passant, side to move and hands come after */
+const SQUARE_FEATURES = 64 * 64 * OWNER_COUNT * 2;
+const EN_PASSANT_FEATURE = SQUARE_FEATURES;
+const SIDE_TO_MOVE_FEATURE = SQUARE_FEATURES + 64 * 64;
+const HAND_FEATURE = SIDE_TO_MOVE_FEATURE + 3;
+
+/**
+ * Finalizer from MurmurHash3: a bijection on 32-bit integers with good avalanche
+ */
+function mix32(x: number): number {
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+const typeHashes = new Map<string, number>();
+
+/**
+ * 32-bit FNV-1a hash of a piece type ID. Hashing the ID (rather than numbering
+ * the piece list) keeps keys stable when piece types are added.
+ */
+function getTypeHash(typeId: string): number {
+  let hash = typeHashes.get(typeId);
+  if (hash === undefined) {
+    hash = 0x811c9dc5;
+    for (let i = 0; i < typeId.length; i++) {
+      hash = Math.imul(hash ^ typeId.charCodeAt(i), 0x01000193);
+    }
+    hash = mix32(hash);
+    typeHashes.set(typeId, hash);
+  }
+  return hash;
+}
+
+function getSquareCode(position: Position): number {
+  return fileToIndex(position.file) * 64 + position.rank;
+}
+
+/**
+ * XOR a feature (a type hash plus a small feature code) into the key
+ */
+function toggleFeature(acc: KeyAccumulator, typeHash: number, code: number): void {
+  acc.hi ^= mix32(typeHash ^ mix32(code + SEED_HI));
+  acc.lo ^= mix32(Math.imul(typeHash, 0x9e3779b1) ^ mix32(code + SEED_LO));
+}
+
+/**
+ * Whether a piece's hasMoved flag is part of the key (it decides castling rights)
+ */
+function tracksHasMoved(piece: PieceInstance): boolean {
+  return PIECE_BY_ID[piece.typeId]?.canCastle === true;
+}
+
+/**
+ * XOR a piece into (or out of) the key. Captured pieces contribute nothing.
+ */
+function togglePiece(acc: KeyAccumulator, piece: PieceInstance | undefined): void {
+  if (!piece?.position) return;
+  const owner = OWNER_CODES[piece.owner];
+  const moved = tracksHasMoved(piece) && piece.hasMoved ? 1 : 0;
+  const code = (getSquareCode(piece.position) * OWNER_COUNT + owner) * 2 + moved;
+  toggleFeature(acc, getTypeHash(piece.typeId), code);
+}
+
+function toggleEnPassant(acc: KeyAccumulator, target: Position | null): void {
+  if (!target) return;
+  toggleFeature(acc, 0, EN_PASSANT_FEATURE + getSquareCode(target));
+}
+
+function toggleSideToMove(acc: KeyAccumulator, color: PlayerColor): void {
+  const code = SIDE_TO_MOVE_CODES[color];
+  if (code !== null) toggleFeature(acc, 0, SIDE_TO_MOVE_FEATURE + code);
+}
+
+/**
+ * XOR a player's hand into (or out of) the key: the nth piece of a type held
+ * is its own feature, so the key depends on the counts and not the order
+ */
+function toggleHand(acc: KeyAccumulator, hand: string[], color: PlayerColor): void {
+  const owner = color === 'white' ? 0 : 1;
+  const counts = new Map<string, number>();
+  for (const typeId of hand) {
+    const count = counts.get(typeId) ?? 0;
+    counts.set(typeId, count + 1);
+    toggleFeature(acc, getTypeHash(typeId), HAND_FEATURE + count * 2 + owner);
+  }
+}
+
+function sameHand(a: string[] | undefined, b: string[] | undefined): boolean {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+  const sortedA = [...a].sort();
+  const sortedB = [...b].sort();
+  return sortedA.every((typeId, i) => typeId === sortedB[i]);
+}
+
+/**
+ * Check if two pieces contribute the same feature to the key
+ */
+function samePieceFeature(a: PieceInstance, b: PieceInstance): boolean {
+  if (a.typeId !== b.typeId || a.owner !== b.owner) return false;
+  if (a.position?.file !== b.position?.file || a.position?.rank !== b.position?.rank) return false;
+  return !tracksHasMoved(a) || a.hasMoved === b.hasMoved;
+}
+
+function sameSquare(a: Position | null, b: Position | null): boolean {
+  return a?.file === b?.file && a?.rank === b?.rank;
+}
+
+// =============================================================================
+// Position Keys
+// =============================================================================
+
+/**
+ * Compute the Zobrist key of a position from scratch
+ */
+export function computeZobristKey(
+  board: BoardState,
+  currentTurn: PlayerColor,
+  enPassantTarget: Position | null,
+  hand?: Hands
+): ZobristKey {
+  const acc: KeyAccumulator = { hi: 0, lo: 0 };
+  for (const piece of board.pieces) {
+    togglePiece(acc, piece);
+  }
+  toggleEnPassant(acc, enPassantTarget);
+  toggleSideToMove(acc, currentTurn);
+  if (hand) {
+    toggleHand(acc, hand.white ?? [], 'white');
+    toggleHand(acc, hand.black ?? [], 'black');
+  }
+  return [acc.hi >>> 0, acc.lo >>> 0];
+}
+
+/**
+ * Update a position key after a move, XORing only the features that changed.
+ * `key` must be the key of `before`; pieces are matched by ID.
+ */
+export function updateZobristKey(
+  key: ZobristKey,
+  before: ZobristPosition,
+  after: ZobristPosition
+): ZobristKey {
+  const acc: KeyAccumulator = { hi: key[0], lo: key[1] };
+  const previous = before.board.pieces;
+  let previousById: Map<string, PieceInstance> | null = null;
+  let matched = 0;
+
+  for (let i = 0; i < after.board.pieces.length; i++) {
+    const piece = after.board.pieces[i];
+    // Moves keep the piece order, so the same index is almost always the same piece
+    let old: PieceInstance | undefined = previous[i];
+    if (!old || old.id !== piece.id) {
+      previousById ??= new Map(previous.map((p) => [p.id, p]));
+      old = previousById.get(piece.id);
+    }
+    if (old) matched++;
+    if (old === piece || (old && samePieceFeature(old, piece))) continue;
+
+    togglePiece(acc, old);
+    togglePiece(acc, piece);
+  }
+
+  // Pieces dropped from the piece list altogether
+  if (matched < previous.length) {
+    const remaining = new Set(after.board.pieces.map((p) => p.id));
+    for (const piece of previous) {
+      if (!remaining.has(piece.id)) togglePiece(acc, piece);
+    }
+  }
+
+  if (!sameSquare(before.enPassantTarget, after.enPassantTarget)) {
+    toggleEnPassant(acc, before.enPassantTarget);
+    toggleEnPassant(acc, after.enPassantTarget);
+  }
+  if (before.currentTurn !== after.currentTurn) {
+    toggleSideToMove(acc, before.currentTurn);
+    toggleSideToMove(acc, after.currentTurn);
+  }
+  for (const color of ['white', 'black'] as const) {
+    const beforeHand = before.hand?.[color];
+    const afterHand = after.hand?.[color];
+    if (sameHand(beforeHand, afterHand)) continue;
+    toggleHand(acc, beforeHand ?? [], color);
+    toggleHand(acc, afterHand ?? [], color);
+  }
+
+  return [acc.hi >>> 0, acc.lo >>> 0];
+}
+
+/**
+ * Check if two position keys are equal
+ */
+export function zobristKeysEqual(a: ZobristKey, b: ZobristKey): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * Format a key as 16 hex digits (for use as a Map key or in logs)
+ */
+export function zobristKeyToString(key: ZobristKey): string {
+  return key[0].toString(16).padStart(8, '0') + key[1].toString(16).padStart(8, '0');
+}
@@ -0,0 +1,328 @@
+/**
+ * Tests for the text game record format
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Move, PieceInstance, Position } from '../types';
+import type { RoomSettings } from '../../protocol';
+import {
+  createInitialGameState,
+  createStandardChessPieces,
+  executeMove,
+} from '../rules/moveExecution';
+import { getPieceAt } from '../board/boardUtils';
+import { generateAllMoves } from '../ai/search';
+import { formatPerftMove } from '../ai/perft';
+import { createSeededRandom, pickRandom } from '../ai/random';
+import type { RecordedGame } from './gameRecord';
+import { parseGameRecord, writeGameRecord, getGameRecordResult, formatGameRecordDate } from './gameRecord';
+
+const SETTINGS: RoomSettings = {
+  budget: 400,
+  boardSize: '8x8',
+  draftTimeLimit: 60,
+  moveTimeLimit: null,
+  placementMode: 'alternating',
+};
+
+function playMoves(state: GameState, coords: string[]): Move[] {
+  const moves: Move[] = [];
+  for (const coord of coords) {
+    const move = generateAllMoves(state).find((m) => formatPerftMove(m) === coord);
+    if (!move) throw new Error(`No move ${coord}`);
+    moves.push(move);
+    state = executeMove(state, move);
+  }
+  return moves;
+}
+
+function createGame(overrides: Partial<RecordedGame> = {}): RecordedGame {
+  const initialState = createInitialGameState(createStandardChessPieces(), '8x8');
+  return {
+    tags: {
+      white: 'alice',
+      black: 'bob',
+      whiteElo: 1200,
+      blackElo: 1250,
+      result: '0-1',
+      termination: 'checkmate',
+      date: '2024.03.09',
+      settings: SETTINGS,
+    },
+    whiteDraft: [{ pieceTypeId: 'queen', count: 1 }, { pieceTypeId: 'rook', count: 2 }],
+    blackDraft: [{ pieceTypeId: 'herald', count: 1 }],
+    initialState,
+    moves: playMoves(initialState, ['f2f3', 'e7e5', 'g2g4', 'd8h4']),
+    ...overrides,
+  };
+}
+
+function parse(text: string): RecordedGame {
+  const result = parseGameRecord(text);
+  if (!result.valid) throw new Error(result.reason);
+  return result.game;
+}
+
+function pieceAt(state: GameState, square: string): PieceInstance | null {
+  return getPieceAt(state.board, { file: square[0], rank: Number(square.slice(1)) } as Position);
+}
+
+describe('writeGameRecord', () => {
+  it('writes tags, draft, placement and moves', () => {
+    const text = writeGameRecord(createGame());
+    const lines = text.split('\n');
+
+    expect(lines.slice(0, 13)).toEqual([
+      '[Event "Hyper Fairy Chess"]',
+      '[Date "2024.03.09"]',
+      '[White "alice"]',
+      '[Black "bob"]',
+      '[Result "0-1"]',
+      '[WhiteElo "1200"]',
+      '[BlackElo "1250"]',
+      '[Termination "checkmate"]',
+      '[Budget "400"]',
+      '[BoardSize "8x8"]',
+      '[PlacementMode "alternating"]',
+      '[DraftTimeLimit "60"]',
+      '[MoveTimeLimit "-"]',
+    ]);
+    expect(text).toContain('\nDraft\nWhite: queen rook:2\nBlack: herald\n');
+    expect(text).toMatch(/\nPlacement\nWhite: (\S+@[a-h][12] ){15}\S+@[a-h][12]\n/);
+    expect(text).toContain('king@e1');
+    expect(text.endsWith('\nMoves\n1. f2f3 e7e5 2. g2g4 d8h4 0-1\n')).toBe(true);
+  });
+
+  it('wraps long move text', () => {
+    const initialState = createInitialGameState(createStandardChessPieces(), '8x8');
+    const shuffle = ['g1f3', 'g8f6', 'f3g1', 'f6g8'];
+    const text = writeGameRecord(
+      createGame({ moves: playMoves(initialState, [...shuffle, ...shuffle, ...shuffle, ...shuffle]) })
+    );
+    const moveLines = text.slice(text.indexOf('Moves\n') + 6).trim().split('\n');
+
+    expect(moveLines.length).toBeGreaterThan(1);
+    for (const line of moveLines) expect(line.length).toBeLessThanOrEqual(80);
+  });
+
+  it('leaves out sections with no data', () => {
+    const text = writeGameRecord(
+      createGame({ whiteDraft: null, blackDraft: null, initialState: null, moves: [] })
+    );
+    expect(text).not.toContain('\nDraft\n');
+    expect(text).not.toContain('\nPlacement\n');
+    expect(text.endsWith('\nMoves\n0-1\n')).toBe(true);
+  });
+});
+
+describe('parseGameRecord', () => {
+  it('round-trips a written record', () => {
+    const game = createGame({
+      tags: { ...createGame().tags, white: 'Al "the pawn" \\ Smith', whiteElo: null, termination: null },
+    });
+    const parsed = parse(writeGameRecord(game));
+
+    expect(parsed.tags).toEqual(game.tags);
+    expect(parsed.whiteDraft).toEqual(game.whiteDraft);
+    expect(parsed.blackDraft).toEqual(game.blackDraft);
+    expect(parsed.moves.map(formatPerftMove)).toEqual(['f2f3', 'e7e5', 'g2g4', 'd8h4']);
+    expect(parsed.initialState?.board.pieces).toHaveLength(32);
+    expect(writeGameRecord(parsed)).toBe(writeGameRecord(game));
+  });
+
+  it('replays random games to the same final position', () => {
+    const random = createSeededRandom(7);
+    const initialState = createInitialGameState(createStandardChessPieces(), '8x8');
+    let state = initialState;
+    const moves: Move[] = [];
+    for (let ply = 0; ply < 60; ply++) {
+      const legal = generateAllMoves(state);
+      if (legal.length === 0) break;
+      const move = pickRandom(legal, random);
+      moves.push(move);
+      state = executeMove(state, move);
+    }
+
+    const parsed = parse(writeGameRecord(createGame({ moves, tags: { ...createGame().tags, result: '*' } })));
+    let replayed = parsed.initialState!;
+    for (const move of parsed.moves) replayed = executeMove(replayed, move);
+
+    expect(parsed.moves).toHaveLength(moves.length);
+    expect(replayed.positionHistory[replayed.positionHistory.length - 1]).toEqual(
+      state.positionHistory[state.positionHistory.length - 1]
+    );
+  });
+
+  it('keeps Herald and swapped pawn squares from the placement', () => {
+    const parsed = parse(
+      [
+        '[BoardSize "8x8"]',
+        '',
+        'Placement',
+        'White: king@e1 herald@a2 pawn@a1 pawn@b2',
+        'Black: king@e8 pawn@a7',
+        '',
+        'Moves',
+        '1. a2a4 *',
+      ].join('\n')
+    );
+
+    const start = parsed.initialState!;
+    expect(pieceAt(start, 'a2')?.typeId).toBe('herald');
+    expect(pieceAt(start, 'a1')).toMatchObject({ typeId: 'pawn', owner: 'white' });
+    expect(parsed.tags.settings).toBeNull();
+    expect(parsed.moves).toHaveLength(1);
+  });
+
+  it('replays drops in a drops game', () => {
+    const parsed = parse(
+      [
+        '[Budget "400"]',
+        '[BoardSize "8x8"]',
+        '[PlacementMode "alternating"]',
+        '[Drops "yes"]',
+        '',
+        'Placement',
+        'White: king@e1 pawn@e2',
+        'Black: king@e8 pawn@d7',
+        '',
+        'Moves',
+        '1. e2e4 d7d5 2. e4d5 e8d7 3. pawn@e6 *',
+      ].join('\n')
+    );
+
+    expect(parsed.tags.settings?.drops).toBe(true);
+    expect(parsed.initialState?.hand).toEqual({ white: [], black: [] });
+    expect(parsed.moves.map((move) => move.notation)).toEqual(['e4', 'd5', 'exd5', 'Kd7', 'P@e6+']);
+    expect(writeGameRecord(parsed)).toContain('pawn@e6');
+    expect(parse(writeGameRecord(parsed)).moves).toHaveLength(5);
+  });
+
+  it('puts neutral Mercenaries back from the Mercenaries tag', () => {
+    const parsed = parse(
+      [
+        '[Budget "400"]',
+        '[BoardSize "8x8"]',
+        '[PlacementMode "alternating"]',
+        '[Mercenaries "yes"]',
+        '',
+        'Placement',
+        'White: king@e1 rook@b1',
+        'Black: king@e8',
+        '',
+        'Moves',
+        '1. b1b4 *',
+      ].join('\n')
+    );
+
+    expect(parsed.tags.settings?.mercenaries).toBe(true);
+    expect(pieceAt(parsed.initialState!, 'a5')).toMatchObject({ typeId: 'mercenary', owner: 'neutral' });
+    expect(pieceAt(parsed.initialState!, 'h4')).toMatchObject({ typeId: 'mercenary', owner: 'neutral' });
+    expect(writeGameRecord(parsed)).toContain('[Mercenaries "yes"]');
+    expect(writeGameRecord(parsed)).toContain('White: king@e1 rook@b1\n');
+  });
+
+  it('plays on a cylinder from the Topology tag', () => {
+    const parsed = parse(
+      [
+        '[Budget "400"]',
+        '[BoardSize "8x8"]',
+        '[PlacementMode "alternating"]',
+        '[Topology "cylinder"]',
+        '',
+        'Placement',
+        'White: king@e1 rook@a1',
+        'Black: king@e8',
+        '',
+        'Moves',
+        '1. a1h1 *',
+      ].join('\n')
+    );
+
+    expect(parsed.tags.settings?.topology).toBe('cylinder');
+    expect(parsed.initialState?.board.dimensions.topology).toBe('cylinder');
+    expect(parsed.moves.map(formatPerftMove)).toEqual(['a1h1']);
+    expect(writeGameRecord(parsed)).toContain('[Topology "cylinder"]');
+  });
+
+  it('cuts out the voids of the Layout tag', () => {
+    const record = [
+      '[Budget "400"]',
+      '[BoardSize "8x8"]',
+      '[PlacementMode "alternating"]',
+      '[Layout "lakes"]',
+      '',
+      'Placement',
+      'White: king@e1 rook@c1',
+      'Black: king@e8',
+      '',
+      'Moves',
+      '1. c1c3 *',
+    ].join('\n');
+    const parsed = parse(record);
+
+    expect(parsed.tags.settings?.layout).toBe('lakes');
+    expect(parsed.initialState?.board.dimensions.voids).toEqual(['c4', 'f4', 'c5', 'f5']);
+    expect(writeGameRecord(parsed)).toContain('[Layout "lakes"]');
+    expect(parseGameRecord(record.replace('1. c1c3', '1. c1c6')).valid).toBe(false);
+  });
+
+  it('plays on a custom board size with user-set slots', () => {
+    const record = [
+      '[Budget "400"]',
+      '[BoardSize "12x12"]',
+      '[PlacementMode "alternating"]',
+      '[Slots "10/6/2"]',
+      '',
+      'Placement',
+      'White: king@f1 rook@l1',
+      'Black: king@f12',
+      '',
+      'Moves',
+      '1. l1l11 *',
+    ].join('\n');
+    const parsed = parse(record);
+
+    expect(parsed.tags.settings).toMatchObject({
+      boardSize: '12x12',
+      slots: { pawnSlots: 10, pieceSlots: 6, royaltySlots: 2 },
+    });
+    expect(parsed.initialState?.board.dimensions).toEqual({ files: 12, ranks: 12 });
+    expect(parsed.moves.map(formatPerftMove)).toEqual(['l1l11']);
+    expect(writeGameRecord(parsed)).toContain('[Slots "10/6/2"]');
+    expect(parseGameRecord(record.replace('10/6/2', 'lots')).valid).toBe(false);
+  });
+
+  it('rejects malformed records', () => {
+    const valid = writeGameRecord(createGame());
+    const invalid = [
+      valid.replace('[White "alice"]', '[White alice]'),
+      valid.replace('[Result "0-1"]', '[Result "2-0"]'),
+      valid.replace('[BoardSize "8x8"]', '[BoardSize "20x20"]'),
+      valid.replace('[PlacementMode "alternating"]', '[PlacementMode "hidden"]'),
+      valid.replace('White: queen', 'White: dragonfly'),
+      valid.replace('king@e1', 'king@e9'),
+      valid.replace('king@e1', 'king@d1'),
+      valid.replace('d8h4', 'd8h5'),
+      valid.replace('g2g4', 'g2g5'),
+      valid.replace('d8h4 0-1', 'd8h4 1-0'),
+      valid.replace('Placement\nWhite', 'Placement\nRed'),
+      `Stray text\n${valid}`,
+    ];
+    for (const text of invalid) {
+      expect(parseGameRecord(text).valid, text).toBe(false);
+    }
+
+    const noPlacement = valid.replace(/\nPlacement\n.*\n.*\n/, '\n');
+    expect(parseGameRecord(noPlacement)).toMatchObject({ valid: false, reason: 'Moves need a Placement section' });
+  });
+});
+
+describe('helpers', () => {
+  it('maps winners to PGN results and dates to PGN dates', () => {
+    expect(getGameRecordResult('white')).toBe('1-0');
+    expect(getGameRecordResult('black')).toBe('0-1');
+    expect(getGameRecordResult(null)).toBe('1/2-1/2');
+    expect(formatGameRecordDate(new Date('2024-03-09T23:30:00Z'))).toBe('2024.03.09');
+  });
+});
@@ -0,0 +1,568 @@
+/**
+ * Game Record - PGN-style text format for complete games
+ *
+ * A record starts with PGN tag pairs for the players, result and room settings,
+ * followed by up to three sections:
+ *
+ *   [White "alice"]
+ *   [Black "bob"]
+ *   [Result "1-0"]
+ *   [Budget "400"]
+ *   [BoardSize "8x8"]
+ *   [PlacementMode "alternating"]
+ *   [Drops "yes"]
+ *   [Mercenaries "yes"]
+ *   [Topology "cylinder"]
+ *   [Layout "lakes"]
+ *   [Slots "8/6/2"]
+ *
+ *   Draft
+ *   White: queen rook:2 herald pawn:8
+ *   Black: ...
+ *
+ *   Placement
+ *   White: king@e1 queen@d1 herald@a2 pawn@a1 ...
+ *   Black: ...
+ *
+ *   Moves
+ *   1. e2e4 e7e5 2. g1f3 ... 1-0
+ *
+ * BoardSize can be any "<files>x<ranks>" size. Slots, if present, gives the
+ * user-set pawn/piece/royalty slot counts.
+ *
+ * Draft entries are piece type IDs with an optional ":count". Placement lists
+ * each piece's starting square for play, after Herald and pawn-swap adjustments.
+ * Neutral Mercenaries aren't listed; the Mercenaries tag puts them back.
+ * Moves use coordinate notation ("e7e8=queen" for promotions). In drops games
+ * a drop from the hand is the piece type and square ("knight@e4").
+ */
+
+import type {
+  BoardLayout,
+  BoardSize,
+  BoardTopology,
+  GameState,
+  Move,
+  PieceInstance,
+  PlayerColor,
+  Position,
+} from '../types';
+import type { DraftPick, RoomSettings } from '../../protocol';
+import { getBoardConfig, parseBoardSize, stringToPosition } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { fileToIndex, getPieceAt, initializeRoyalTracking } from '../board/boardUtils';
+import { computeZobristKey } from '../board/zobrist';
+import { BOARD_LAYOUTS, getLayoutVoids } from '../board/layouts';
+import {
+  createInitialGameState,
+  executeMove,
+  prepareMoveFromPositions,
+} from '../rules/moveExecution';
+import { generateLegalMoves } from '../rules/checkDetection';
+import { createEmptyHands, validateDrop } from '../rules/drops';
+import { placeMercenaries } from '../rules/mercenary';
+import { formatPerftMove } from '../ai/perft';
+import { notateMove } from './moveNotation';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Game result in PGN form; "*" is an unfinished game */
+export type GameRecordResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface GameRecordTags {
+  white: string;
+  black: string;
+  whiteElo: number | null;
+  blackElo: number | null;
+  result: GameRecordResult;
+  /** How the game ended, e.g. "checkmate" or "draw-repetition" */
+  termination: string | null;
+  /** Date played as YYYY.MM.DD */
+  date: string | null;
+  settings: RoomSettings | null;
+}
+
+export interface RecordedGame {
+  tags: GameRecordTags;
+  whiteDraft: DraftPick[] | null;
+  blackDraft: DraftPick[] | null;
+  /** Position at the start of play, null if the record has no placement */
+  initialState: GameState | null;
+  moves: Move[];
+}
+
+export type GameRecordParseResult =
+  | { valid: true; game: RecordedGame }
+  | { valid: false; reason: string };
+
+const RESULTS: GameRecordResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+const SECTIONS = ['Draft', 'Placement', 'Moves'] as const;
+type Section = (typeof SECTIONS)[number];
+
+/** Longest move text line before wrapping, as in PGN export format */
+const MAX_LINE_LENGTH = 80;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Get the record result for a finished game's winner (null for a draw)
+ */
+export function getGameRecordResult(winner: PlayerColor | null): GameRecordResult {
+  if (winner === 'white') return '1-0';
+  if (winner === 'black') return '0-1';
+  return '1/2-1/2';
+}
+
+/**
+ * Format a date as a PGN date tag value (YYYY.MM.DD, UTC)
+ */
+export function formatGameRecordDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}`;
+}
+
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function formatTimeLimit(seconds: number | null): string {
+  return seconds === null ? '-' : String(seconds);
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+function writeTags(tags: GameRecordTags, boardSize: BoardSize | null): string[] {
+  const pairs: [string, string][] = [
+    ['Event', 'Hyper Fairy Chess'],
+    ['Date', tags.date ?? '????.??.??'],
+    ['White', tags.white],
+    ['Black', tags.black],
+    ['Result', tags.result],
+  ];
+
+  if (tags.whiteElo !== null) pairs.push(['WhiteElo', String(tags.whiteElo)]);
+  if (tags.blackElo !== null) pairs.push(['BlackElo', String(tags.blackElo)]);
+  if (tags.termination) pairs.push(['Termination', tags.termination]);
+
+  if (tags.settings) {
+    pairs.push(
+      ['Budget', String(tags.settings.budget)],
+      ['BoardSize', tags.settings.boardSize],
+      ['PlacementMode', tags.settings.placementMode],
+      ['DraftTimeLimit', formatTimeLimit(tags.settings.draftTimeLimit)],
+      ['MoveTimeLimit', formatTimeLimit(tags.settings.moveTimeLimit)]
+    );
+    if (tags.settings.drops) pairs.push(['Drops', 'yes']);
+    if (tags.settings.mercenaries) pairs.push(['Mercenaries', 'yes']);
+    if (tags.settings.topology === 'cylinder') pairs.push(['Topology', 'cylinder']);
+    if (tags.settings.layout && tags.settings.layout !== 'standard') pairs.push(['Layout', tags.settings.layout]);
+    if (tags.settings.slots) {
+      const { pawnSlots, pieceSlots, royaltySlots } = tags.settings.slots;
+      pairs.push(['Slots', `${pawnSlots}/${pieceSlots}/${royaltySlots}`]);
+    }
+  } else if (boardSize) {
+    // Placement still needs the board size when the room settings weren't saved
+    pairs.push(['BoardSize', boardSize]);
+  }
+
+  return pairs.map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`);
+}
+
+function writeDraft(picks: DraftPick[]): string {
+  return picks
+    .map((pick) => (pick.count === 1 ? pick.pieceTypeId : `${pick.pieceTypeId}:${pick.count}`))
+    .join(' ');
+}
+
+function writePlacement(pieces: PieceInstance[]): string {
+  return pieces
+    .filter((piece) => piece.position)
+    .map((piece) => `${piece.typeId}@${piece.position!.file}${piece.position!.rank}`)
+    .join(' ');
+}
+
+function writeMoves(moves: Move[], result: GameRecordResult): string[] {
+  const tokens: string[] = [];
+  moves.forEach((move, i) => {
+    if (i % 2 === 0) tokens.push(`${i / 2 + 1}.`);
+    tokens.push(formatPerftMove(move));
+  });
+  tokens.push(result);
+
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/**
+ * Write a game as a text record
+ */
+export function writeGameRecord(game: RecordedGame): string {
+  const lines = writeTags(game.tags, game.initialState?.boardSize ?? null);
+
+  if (game.whiteDraft || game.blackDraft) {
+    lines.push('', 'Draft');
+    if (game.whiteDraft) lines.push(`White: ${writeDraft(game.whiteDraft)}`);
+    if (game.blackDraft) lines.push(`Black: ${writeDraft(game.blackDraft)}`);
+  }
+
+  if (game.initialState) {
+    const pieces = game.initialState.board.pieces;
+    lines.push(
+      '',
+      'Placement',
+      `White: ${writePlacement(pieces.filter((p) => p.owner === 'white'))}`,
+      `Black: ${writePlacement(pieces.filter((p) => p.owner === 'black'))}`
+    );
+  }
+
+  lines.push('', 'Moves', ...writeMoves(game.moves, game.tags.result));
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+type ParseStep<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+function parseTags(lines: string[]): ParseStep<Map<string, string>> {
+  const tags = new Map<string, string>();
+  for (const line of lines) {
+    const match = line.match(/^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/);
+    if (!match) return { ok: false, reason: `Malformed tag "${line}"` };
+    tags.set(match[1], match[2].replace(/\\(.)/g, '$1'));
+  }
+  return { ok: true, value: tags };
+}
+
+function parseOptionalInt(value: string | undefined, name: string): ParseStep<number | null> {
+  if (value === undefined || value === '-' || value === '?') return { ok: true, value: null };
+  if (!/^\d+$/.test(value)) return { ok: false, reason: `Invalid ${name} "${value}"` };
+  return { ok: true, value: Number(value) };
+}
+
+function parseSettings(tags: Map<string, string>): ParseStep<RoomSettings | null> {
+  const budget = tags.get('Budget');
+  const boardSize = tags.get('BoardSize');
+  const placementMode = tags.get('PlacementMode');
+  if (budget === undefined && placementMode === undefined) return { ok: true, value: null };
+
+  if (budget === undefined || !/^\d+$/.test(budget)) {
+    return { ok: false, reason: `Invalid Budget "${budget ?? ''}"` };
+  }
+  if (!boardSize || !parseBoardSize(boardSize)) {
+    return { ok: false, reason: `Invalid BoardSize "${boardSize ?? ''}"` };
+  }
+  if (placementMode !== 'alternating' && placementMode !== 'blind') {
+    return { ok: false, reason: `Invalid PlacementMode "${placementMode ?? ''}"` };
+  }
+  const draftTimeLimit = parseOptionalInt(tags.get('DraftTimeLimit'), 'DraftTimeLimit');
+  if (!draftTimeLimit.ok) return draftTimeLimit;
+  const moveTimeLimit = parseOptionalInt(tags.get('MoveTimeLimit'), 'MoveTimeLimit');
+  if (!moveTimeLimit.ok) return moveTimeLimit;
+  const drops = tags.get('Drops');
+  if (drops !== undefined && drops !== 'yes' && drops !== 'no') {
+    return { ok: false, reason: `Invalid Drops "${drops}"` };
+  }
+  const mercenaries = tags.get('Mercenaries');
+  if (mercenaries !== undefined && mercenaries !== 'yes' && mercenaries !== 'no') {
+    return { ok: false, reason: `Invalid Mercenaries "${mercenaries}"` };
+  }
+  const topology = tags.get('Topology');
+  if (topology !== undefined && topology !== 'flat' && topology !== 'cylinder') {
+    return { ok: false, reason: `Invalid Topology "${topology}"` };
+  }
+  const layout = tags.get('Layout');
+  if (layout !== undefined && !BOARD_LAYOUTS.some((info) => info.id === layout)) {
+    return { ok: false, reason: `Invalid Layout "${layout}"` };
+  }
+  const slots = tags.get('Slots')?.match(/^(\d+)\/(\d+)\/(\d+)$/);
+  if (tags.has('Slots') && !slots) {
+    return { ok: false, reason: `Invalid Slots "${tags.get('Slots')}"` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      budget: Number(budget),
+      boardSize: boardSize as BoardSize,
+      placementMode,
+      draftTimeLimit: draftTimeLimit.value,
+      moveTimeLimit: moveTimeLimit.value,
+      ...(drops === 'yes' && { drops: true }),
+      ...(mercenaries === 'yes' && { mercenaries: true }),
+      ...(topology === 'cylinder' && { topology: 'cylinder' as const }),
+      ...(layout !== undefined && layout !== 'standard' && { layout: layout as BoardLayout }),
+      ...(slots && {
+        slots: { pawnSlots: Number(slots[1]), pieceSlots: Number(slots[2]), royaltySlots: Number(slots[3]) },
+      }),
+    },
+  };
+}
+
+/**
+ * Split "White: ..." / "Black: ..." lines of a section into tokens per color
+ */
+function parseColorLines(
+  section: Section,
+  lines: string[]
+): ParseStep<Partial<Record<PlayerColor, string[]>>> {
+  const result: Partial<Record<PlayerColor, string[]>> = {};
+  for (const line of lines) {
+    const match = line.match(/^(White|Black):(.*)$/);
+    if (!match) return { ok: false, reason: `Expected "White:" or "Black:" in ${section}, found "${line}"` };
+    const color: PlayerColor = match[1] === 'White' ? 'white' : 'black';
+    if (result[color]) return { ok: false, reason: `${section} lists ${match[1]} twice` };
+    result[color] = match[2].trim().split(/\s+/).filter(Boolean);
+  }
+  return { ok: true, value: result };
+}
+
+function parseDraft(tokens: string[]): ParseStep<DraftPick[]> {
+  const picks: DraftPick[] = [];
+  for (const token of tokens) {
+    const match = token.match(/^([a-z0-9-]+)(?::(\d+))?$/);
+    if (!match || !PIECE_BY_ID[match[1]]) return { ok: false, reason: `Unknown draft pick "${token}"` };
+    const count = match[2] ? Number(match[2]) : 1;
+    if (count < 1) return { ok: false, reason: `Invalid draft count "${token}"` };
+    picks.push({ pieceTypeId: match[1], count });
+  }
+  return { ok: true, value: picks };
+}
+
+function parsePlacement(
+  tokens: Record<'white' | 'black', string[]>,
+  boardSize: BoardSize,
+  pointBudget: number,
+  topology: BoardTopology,
+  layout: BoardLayout
+): ParseStep<GameState> {
+  const { files, ranks } = getBoardConfig(boardSize);
+  const voids = getLayoutVoids(layout, { files, ranks });
+  const pieces: PieceInstance[] = [];
+  const occupied = new Set<string>();
+  const counters = new Map<string, number>();
+
+  for (const owner of ['white', 'black'] as const) {
+    for (const token of tokens[owner]) {
+      const match = token.match(/^([a-z0-9-]+)@([a-z]\d+)$/);
+      if (!match || !PIECE_BY_ID[match[1]]) {
+        return { ok: false, reason: `Invalid placement "${token}"` };
+      }
+      const position = stringToPosition(match[2]);
+      if (!position || fileToIndex(position.file) >= files || position.rank > ranks) {
+        return { ok: false, reason: `Square off the board in "${token}"` };
+      }
+      if (voids.includes(match[2])) return { ok: false, reason: `Square ${match[2]} is a void` };
+      if (occupied.has(match[2])) return { ok: false, reason: `Square ${match[2]} placed twice` };
+      occupied.add(match[2]);
+
+      const typeId = match[1];
+      const key = `${owner}-${typeId}`;
+      const count = (counters.get(key) ?? 0) + 1;
+      counters.set(key, count);
+      pieces.push({
+        id: `${key}-${count}`,
+        typeId,
+        owner,
+        position,
+        hasMoved: false,
+        isFrozen: false,
+      });
+    }
+  }
+
+  // Set up the start of play the way the server does
+  const initial = createInitialGameState(pieces, boardSize, pointBudget, topology, voids);
+  const board = initializeRoyalTracking(initial.board);
+  return {
+    ok: true,
+    value: {
+      ...initial,
+      board,
+      positionHistory: [computeZobristKey(board, initial.currentTurn, initial.enPassantTarget)],
+    },
+  };
+}
+
+/**
+ * Replay coordinate moves from the initial state, checking each is legal
+ */
+function parseMoves(tokens: string[], initialState: GameState): ParseStep<Move[]> {
+  const moves: Move[] = [];
+  let state = initialState;
+
+  for (const token of tokens) {
+    const drop = token.match(/^([a-z0-9-]+)@([a-z]\d+)$/);
+    if (drop) {
+      const to = stringToPosition(drop[2]);
+      const result = to ? validateDrop(state, drop[1], to) : null;
+      if (!result?.valid) {
+        return { ok: false, reason: `Illegal drop "${token}" at ply ${moves.length + 1}` };
+      }
+      moves.push(notateMove(state, result.move));
+      state = executeMove(state, result.move);
+      continue;
+    }
+
+    const match = token.match(/^([a-z]\d+)([a-z]\d+)(?:=([a-z0-9-]+))?$/);
+    const from = match ? stringToPosition(match[1]) : null;
+    const to = match ? stringToPosition(match[2]) : null;
+    if (!match || !from || !to) return { ok: false, reason: `Invalid move "${token}"` };
+
+    const piece = getPieceAt(state.board, from);
+    const isLegal =
+      piece?.owner === state.currentTurn &&
+      generateLegalMoves(state.board, piece, state.enPassantTarget).some(
+        (p: Position) => p.file === to.file && p.rank === to.rank
+      );
+    const move = piece && isLegal ? prepareMoveFromPositions(state, piece, from, to, match[3]) : null;
+    if (!move) {
+      return { ok: false, reason: `Illegal move "${token}" at ply ${moves.length + 1}` };
+    }
+
+    moves.push(notateMove(state, move));
+    state = executeMove(state, move);
+  }
+  return { ok: true, value: moves };
+}
+
+/**
+ * Parse a text record. Moves are replayed and checked for legality, so the
+ * returned moves can be executed from the initial state.
+ */
+export function parseGameRecord(text: string): GameRecordParseResult {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+
+  // Tag pairs run up to the first line that isn't one
+  let i = 0;
+  while (i < lines.length && (lines[i] === '' || lines[i].startsWith('['))) i++;
+  const tagLines = lines.slice(0, i).filter(Boolean);
+  const tagStep = parseTags(tagLines);
+  if (!tagStep.ok) return { valid: false, reason: tagStep.reason };
+  const tags = tagStep.value;
+
+  // Body sections
+  const sections = new Map<Section, string[]>();
+  let current: Section | null = null;
+  for (const line of lines.slice(i)) {
+    if (line === '') continue;
+    if ((SECTIONS as readonly string[]).includes(line)) {
+      current = line as Section;
+      if (sections.has(current)) return { valid: false, reason: `Duplicate ${current} section` };
+      sections.set(current, []);
+      continue;
+    }
+    if (!current) return { valid: false, reason: `Unexpected text "${line}" before any section` };
+    sections.get(current)!.push(line);
+  }
+
+  // Tags
+  const result = (tags.get('Result') ?? '*') as GameRecordResult;
+  if (!RESULTS.includes(result)) return { valid: false, reason: `Invalid Result "${result}"` };
+  const whiteElo = parseOptionalInt(tags.get('WhiteElo'), 'WhiteElo');
+  if (!whiteElo.ok) return { valid: false, reason: whiteElo.reason };
+  const blackElo = parseOptionalInt(tags.get('BlackElo'), 'BlackElo');
+  if (!blackElo.ok) return { valid: false, reason: blackElo.reason };
+  const settings = parseSettings(tags);
+  if (!settings.ok) return { valid: false, reason: settings.reason };
+  const date = tags.get('Date');
+
+  // Draft
+  let whiteDraft: DraftPick[] | null = null;
+  let blackDraft: DraftPick[] | null = null;
+  const draftLines = sections.get('Draft');
+  if (draftLines) {
+    const byColor = parseColorLines('Draft', draftLines);
+    if (!byColor.ok) return { valid: false, reason: byColor.reason };
+    if (byColor.value.white) {
+      const picks = parseDraft(byColor.value.white);
+      if (!picks.ok) return { valid: false, reason: picks.reason };
+      whiteDraft = picks.value;
+    }
+    if (byColor.value.black) {
+      const picks = parseDraft(byColor.value.black);
+      if (!picks.ok) return { valid: false, reason: picks.reason };
+      blackDraft = picks.value;
+    }
+  }
+
+  // Placement
+  let initialState: GameState | null = null;
+  const placementLines = sections.get('Placement');
+  if (placementLines) {
+    const boardSize = tags.get('BoardSize');
+    if (!boardSize || !parseBoardSize(boardSize)) {
+      return { valid: false, reason: 'Placement needs a valid BoardSize tag' };
+    }
+    const byColor = parseColorLines('Placement', placementLines);
+    if (!byColor.ok) return { valid: false, reason: byColor.reason };
+    const placed = parsePlacement(
+      { white: byColor.value.white ?? [], black: byColor.value.black ?? [] },
+      boardSize as BoardSize,
+      settings.value?.budget ?? 0,
+      settings.value?.topology ?? 'flat',
+      settings.value?.layout ?? 'standard'
+    );
+    if (!placed.ok) return { valid: false, reason: placed.reason };
+    let start = placed.value;
+    if (settings.value?.mercenaries) {
+      const board = placeMercenaries(start.board);
+      start = { ...start, board, positionHistory: [computeZobristKey(board, start.currentTurn, null)] };
+    }
+    initialState = settings.value?.drops ? { ...start, hand: createEmptyHands() } : start;
+  }
+
+  // Moves: skip move numbers and the closing result
+  let moves: Move[] = [];
+  const moveTokens = (sections.get('Moves') ?? [])
+    .join(' ')
+    .split(/\s+/)
+    .filter((token) => token && !/^\d+\.(\.\.)?$/.test(token));
+  if (moveTokens.length > 0 && RESULTS.includes(moveTokens[moveTokens.length - 1] as GameRecordResult)) {
+    if (moveTokens.pop() !== result) return { valid: false, reason: 'Move text result does not match Result tag' };
+  }
+  if (moveTokens.length > 0) {
+    if (!initialState) return { valid: false, reason: 'Moves need a Placement section' };
+    const parsed = parseMoves(moveTokens, initialState);
+    if (!parsed.ok) return { valid: false, reason: parsed.reason };
+    moves = parsed.value;
+  }
+
+  return {
+    valid: true,
+    game: {
+      tags: {
+        white: tags.get('White') ?? '?',
+        black: tags.get('Black') ?? '?',
+        whiteElo: whiteElo.value,
+        blackElo: blackElo.value,
+        result,
+        termination: tags.get('Termination') ?? null,
+        date: date && date !== '????.??.??' ? date : null,
+        settings: settings.value,
+      },
+      whiteDraft,
+      blackDraft,
+      initialState,
+      moves,
+    },
+  };
+}
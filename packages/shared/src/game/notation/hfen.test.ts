@@ -0,0 +1,181 @@
+/**
+ * Tests for HFEN position notation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, PieceInstance, Position } from '../types';
+import {
+  createInitialGameState,
+  createStandardChessPieces,
+  executeMove,
+} from '../rules/moveExecution';
+import { initializeRoyalTracking, getPieceAt } from '../board/boardUtils';
+import { generateLegalDrops } from '../rules/drops';
+import { generateAllMoves } from '../ai/search';
+import { createSeededRandom, pickRandom } from '../ai/random';
+import { gameStateToHfen, parseHfen } from './hfen';
+
+const START = '8x8 rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - 0 1 -';
+
+function parse(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function pieceAt(state: GameState, square: string): PieceInstance | null {
+  return getPieceAt(state.board, { file: square[0], rank: Number(square.slice(1)) } as Position);
+}
+
+describe('gameStateToHfen', () => {
+  it('writes the standard starting position like FEN', () => {
+    const state = createInitialGameState(createStandardChessPieces(), '8x8');
+    expect(gameStateToHfen(state)).toBe(START);
+  });
+
+  it('marks moved pieces and records en passant, clocks and turn', () => {
+    let state = createInitialGameState(createStandardChessPieces(), '8x8');
+    const e4 = generateAllMoves(state).find((m) => m.from.file === 'e' && m.to.rank === 4)!;
+    state = executeMove(state, e4);
+
+    expect(gameStateToHfen(state)).toBe(
+      '8x8 rnbqkbnr/pppppppp/8/8/4P*3/8/PPPP1PPP/RNBQKBNR b e3 0 1 -'
+    );
+  });
+
+  it('writes fairy pieces in brackets and royal tracking', () => {
+    const pieces: PieceInstance[] = [
+      { id: 'a', typeId: 'long-leaper', owner: 'white', position: { file: 'a', rank: 1 }, hasMoved: false, isFrozen: false },
+      { id: 'b', typeId: 'king', owner: 'white', position: { file: 'j', rank: 1 }, hasMoved: true, isFrozen: false },
+      { id: 'c', typeId: 'queen', owner: 'white', position: { file: 'e', rank: 2 }, hasMoved: false, isFrozen: false },
+      { id: 'd', typeId: 'regent', owner: 'black', position: { file: 'e', rank: 8 }, hasMoved: false, isFrozen: false },
+      { id: 'e', typeId: 'immobilizer', owner: 'black', position: { file: 'j', rank: 8 }, hasMoved: true, isFrozen: false },
+    ];
+    const state = createInitialGameState(pieces, '10x8');
+    state.board = initializeRoyalTracking(state.board);
+
+    expect(gameStateToHfen(state)).toBe(
+      '10x8 4[regent]4[immobilizer]*/10/10/10/10/10/4Q5/[LONG-LEAPER]8K* w - 0 1 w'
+    );
+  });
+});
+
+describe('parseHfen', () => {
+  it('parses the starting position into a playable game', () => {
+    const state = parse(START);
+
+    expect(state.phase).toBe('play');
+    expect(state.boardSize).toBe('8x8');
+    expect(state.board.pieces).toHaveLength(32);
+    expect(pieceAt(state, 'e1')?.typeId).toBe('king');
+    expect(pieceAt(state, 'd8')).toMatchObject({ typeId: 'queen', owner: 'black', hasMoved: false });
+    expect(state.positionHistory).toHaveLength(1);
+    expect(generateAllMoves(state)).toHaveLength(20);
+  });
+
+  it('gives every piece a unique ID', () => {
+    const state = parse(START);
+    expect(new Set(state.board.pieces.map((p) => p.id)).size).toBe(32);
+  });
+
+  it('restores moved flags, frozen states, check and royal tracking', () => {
+    const state = parse('10x10 4k5/10/10/10/4[immobilizer]5/3r6/10/10/10/4K*4[REGENT] w - 12 30 b');
+
+    expect(state.boardSize).toBe('10x10');
+    expect(pieceAt(state, 'e1')?.hasMoved).toBe(true);
+    expect(pieceAt(state, 'j1')).toMatchObject({ typeId: 'regent', owner: 'white' });
+    expect(state.halfmoveClock).toBe(12);
+    expect(state.turnNumber).toBe(30);
+    expect(state.board.hadMultipleRoyals).toEqual({ white: false, black: true });
+    expect(state.inCheck).toBeNull();
+
+    const checked = parse('8x8 4k3/8/8/8/8/8/8/r3K3 w - 0 1 -');
+    expect(checked.inCheck).toBe('white');
+
+    const frozen = parse('8x8 4k3/8/8/3[immobilizer]4/4N3/8/8/4K3 w - 0 1 -');
+    expect(pieceAt(frozen, 'e4')?.isFrozen).toBe(true);
+  });
+
+  it('round-trips positions from random games', () => {
+    for (const seed of [1, 2]) {
+      const random = createSeededRandom(seed);
+      let state = createInitialGameState(createStandardChessPieces(), '8x8');
+
+      for (let ply = 0; ply < 40; ply++) {
+        const moves = generateAllMoves(state);
+        if (moves.length === 0) break;
+        state = executeMove(state, pickRandom(moves, random));
+
+        const hfen = gameStateToHfen(state);
+        const parsed = parse(hfen);
+        expect(gameStateToHfen(parsed)).toBe(hfen);
+        expect(parsed.positionHistory[0]).toEqual(state.positionHistory[state.positionHistory.length - 1]);
+        expect(generateAllMoves(parsed)).toHaveLength(generateAllMoves(state).length);
+      }
+    }
+  });
+
+  it('reads and writes custom board sizes', () => {
+    const hfen = '12x12 5k6/12/12/12/12/12/12/12/12/12/12/R4K6 w - 0 1 -';
+    const state = parse(hfen);
+
+    expect(state.boardSize).toBe('12x12');
+    expect(state.board.dimensions).toEqual({ files: 12, ranks: 12 });
+    expect(gameStateToHfen(state)).toBe(hfen);
+    expect(generateAllMoves(state).some((move) => move.to.file === 'a' && move.to.rank === 12)).toBe(true);
+    expect(parse('9x9 4k4/9/9/9/9/9/9/9/4K4 w - 0 1 -').board.dimensions).toEqual({ files: 9, ranks: 9 });
+  });
+
+  it('reads and writes the pieces held in hand in drops games', () => {
+    const hfen = '8x8 k7/8/8/8/8/8/8/7K w - 0 1 - [2N[LONG-LEAPER]pq]';
+    const state = parse(hfen);
+
+    expect(state.hand).toEqual({ white: ['knight', 'knight', 'long-leaper'], black: ['pawn', 'queen'] });
+    expect(gameStateToHfen(state)).toBe(hfen);
+    expect(generateLegalDrops(state).some((move) => move.dropPieceType === 'long-leaper')).toBe(true);
+  });
+
+  it('tells a drops game with empty hands from a game without drops', () => {
+    expect(parse('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - []').hand).toEqual({ white: [], black: [] });
+    expect(parse('8x8 k7/8/8/8/8/8/8/7K w - 0 1 -').hand).toBeUndefined();
+    expect(gameStateToHfen(parse('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - []'))).toBe('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - []');
+  });
+
+  it('round-trips a drops game after a capture', () => {
+    const state = parse('8x8 n6k/8/8/8/8/8/8/R6K w - 0 1 - []');
+    const rook = pieceAt(state, 'a1')!;
+    const move = generateAllMoves(state).find((m) => m.pieceId === rook.id && m.to.file === 'a' && m.to.rank === 8)!;
+    const after = executeMove(state, move);
+
+    const hfen = gameStateToHfen(after);
+    expect(hfen).toBe('8x8 R*6k/8/8/8/8/8/8/7K b - 0 1 - [N]');
+    expect(parse(hfen).positionHistory[0]).toEqual(after.positionHistory[after.positionHistory.length - 1]);
+  });
+
+  it('rejects malformed input', () => {
+    const invalid = [
+      '8x8 rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - 0 1',
+      '20x20 20/20/20/20/20/20/20/20/20/20/20/20/20/20/20/20/20/20/20/20 w - 0 1 -',
+      '8x8 8/8/8/8/8/8/8 w - 0 1 -',
+      '8x8 9/8/8/8/8/8/8/8 w - 0 1 -',
+      '8x8 7/8/8/8/8/8/8/8 w - 0 1 -',
+      '8x8 [dragonfly]7/8/8/8/8/8/8/8 w - 0 1 -',
+      '8x8 [knight7/8/8/8/8/8/8/8 w - 0 1 -',
+      '8x8 x7/8/8/8/8/8/8/8 w - 0 1 -',
+      '8x8 8/8/8/8/8/8/8/8 x - 0 1 -',
+      '8x8 8/8/8/8/8/8/8/8 w i3 0 1 -',
+      '8x8 8/8/8/8/8/8/8/8 w - -1 1 -',
+      '8x8 8/8/8/8/8/8/8/8 w - 0 0 -',
+      '8x8 8/8/8/8/8/8/8/8 w - 0 1 x',
+      '8x8 8/8/8/8/8/8/8/8 w - 0 1 - N',
+      '8x8 8/8/8/8/8/8/8/8 w - 0 1 - [x]',
+      '8x8 8/8/8/8/8/8/8/8 w - 0 1 - [0N]',
+      '8x8 8/8/8/8/8/8/8/8 w - 0 1 - [[knight]',
+      '8x8 8/8/8/8/8/8/8/8 w - 0 1 - [] []',
+    ];
+    for (const hfen of invalid) {
+      const result = parseHfen(hfen);
+      expect(result.valid, hfen).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * HFEN - FEN-style text notation for Hyper Fairy Chess positions
+ *
+ * Fields, separated by spaces:
+ *   <files>x<ranks> <placement> <side> <en passant> <halfmove clock> <turn> <royal tracking> [<hands>]
+ *
+ * A "c" after the board size (e.g. 8x8c) marks a cylinder, where the a-file
+ * and last file are adjacent. A "#" in the placement is a void square, cut
+ * out of the board.
+ *
+ * e.g. the standard starting position:
+ *   8x8 rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - 0 1 -
+ *
+ * Placement lists ranks from the top, as in FEN. The six standard pieces use
+ * their FEN letters; every other piece is its type ID in brackets, e.g.
+ * [long-leaper]. Uppercase is white, lowercase is black, and a "~" before a
+ * piece makes it neutral (e.g. ~[mercenary]). In a free-for-all a "<" before
+ * a lowercase piece makes it red and a ">" makes it blue (e.g. <k). A "*"
+ * after a piece marks it as moved. The side to move is "w", "b", "r" (red)
+ * or "u" (blue). Royal tracking lists the colors that started with more than
+ * one royalty-tier piece, in turn order ("w", "b", "wb", "wrbu", ... or "-").
+ *
+ * A position with red or blue pieces is read as a free-for-all between the
+ * colors that have pieces on the board.
+ *
+ * The hands field is only written for drops games. It lists the pieces in
+ * hand in brackets, White's first, each as its placement token with an
+ * optional count before it, e.g. [2PN[long-leaper]p]. A drops game with
+ * both hands empty is written [].
+ */
+
+import type {
+  BoardSize,
+  BoardState,
+  GameState,
+  Hands,
+  MultiplayerState,
+  PieceInstance,
+  PieceOwner,
+  PlayerColor,
+  Position,
+} from '../types';
+import { PLAYER_COLORS, parseBoardSize, stringToPosition } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { fileToIndex, indexToFile, getPieceAt, isCylinder, isVoidSquare } from '../board/boardUtils';
+import { computeZobristKey } from '../board/zobrist';
+import { createInitialGameState } from '../rules/moveExecution';
+import { isInCheck } from '../rules/checkDetection';
+import { updateFrozenStates } from '../rules/freeze';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type HfenParseResult =
+  | { valid: true; gameState: GameState }
+  | { valid: false; reason: string };
+
+// =============================================================================
+// Piece Tokens
+// =============================================================================
+
+/** FEN letters for the standard chess pieces */
+const STANDARD_LETTERS: Record<string, string> = {
+  king: 'k',
+  queen: 'q',
+  rook: 'r',
+  bishop: 'b',
+  knight: 'n',
+  pawn: 'p',
+};
+
+const LETTER_TO_TYPE: Record<string, string> = Object.fromEntries(
+  Object.entries(STANDARD_LETTERS).map(([typeId, letter]) => [letter, typeId])
+);
+
+/** Marks before a lowercase piece for owners other than White and Black */
+const OWNER_MARKS: Partial<Record<PieceOwner, string>> = { neutral: '~', red: '<', blue: '>' };
+
+const MARK_TO_OWNER: Record<string, PieceOwner> = Object.fromEntries(
+  Object.entries(OWNER_MARKS).map(([owner, mark]) => [mark, owner as PieceOwner])
+);
+
+/** Side-to-move letters; Blue is "u" as "b" is Black */
+const SIDE_LETTERS: Record<PlayerColor, string> = { white: 'w', black: 'b', red: 'r', blue: 'u' };
+
+/**
+ * Get the placement token for a piece (letter or bracketed type ID, cased by owner)
+ */
+function getPieceToken(piece: PieceInstance): string {
+  const name = STANDARD_LETTERS[piece.typeId] ?? `[${piece.typeId}]`;
+  const token = piece.owner === 'white' ? name.toUpperCase() : `${OWNER_MARKS[piece.owner] ?? ''}${name}`;
+  return piece.hasMoved ? `${token}*` : token;
+}
+
+/**
+ * Write the hands field: each type in hand with its count, White's first
+ */
+function getHandsField(hand: Hands): string {
+  let field = '';
+  for (const color of ['white', 'black'] as const) {
+    const counts = new Map<string, number>();
+    for (const typeId of hand[color] ?? []) {
+      counts.set(typeId, (counts.get(typeId) ?? 0) + 1);
+    }
+    for (const [typeId, count] of counts) {
+      const name = STANDARD_LETTERS[typeId] ?? `[${typeId}]`;
+      field += `${count > 1 ? count : ''}${color === 'white' ? name.toUpperCase() : name}`;
+    }
+  }
+  return `[${field}]`;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Write a game state as an HFEN string
+ */
+export function gameStateToHfen(gameState: GameState): string {
+  const { board } = gameState;
+  const { files, ranks } = board.dimensions;
+  const rows: string[] = [];
+
+  for (let rank = ranks; rank >= 1; rank--) {
+    let row = '';
+    let empty = 0;
+    for (let f = 0; f < files; f++) {
+      const square = { file: indexToFile(f)!, rank } as Position;
+      const piece = getPieceAt(board, square);
+      const isVoid = isVoidSquare(square, board.dimensions);
+      if (!piece && !isVoid) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) row += empty;
+      empty = 0;
+      row += isVoid ? '#' : getPieceToken(piece!);
+    }
+    if (empty > 0) row += empty;
+    rows.push(row);
+  }
+
+  const ep = gameState.enPassantTarget
+    ? `${gameState.enPassantTarget.file}${gameState.enPassantTarget.rank}`
+    : '-';
+  const royals = PLAYER_COLORS.filter((color) => board.hadMultipleRoyals?.[color])
+    .map((color) => SIDE_LETTERS[color])
+    .join('');
+
+  const fields = [
+    `${files}x${ranks}${isCylinder(board.dimensions) ? 'c' : ''}`,
+    rows.join('/'),
+    SIDE_LETTERS[gameState.currentTurn],
+    ep,
+    gameState.halfmoveClock,
+    gameState.turnNumber,
+    royals || '-',
+  ];
+  if (gameState.hand) fields.push(getHandsField(gameState.hand));
+
+  return fields.join(' ');
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Parse one rank of the placement field into pieces, adding its void squares to `voids`
+ */
+function parseRow(
+  row: string,
+  rank: number,
+  files: number,
+  nextId: (owner: PieceOwner, typeId: string) => string,
+  voids: string[]
+): PieceInstance[] | string {
+  const pieces: PieceInstance[] = [];
+  let fileIndex = 0;
+  let i = 0;
+
+  while (i < row.length) {
+    const ch = row[i];
+
+    if (/\d/.test(ch)) {
+      let digits = '';
+      while (i < row.length && /\d/.test(row[i])) digits += row[i++];
+      fileIndex += parseInt(digits, 10);
+      continue;
+    }
+
+    if (ch === '#') {
+      const file = indexToFile(fileIndex);
+      if (!file || fileIndex >= files) return `Rank ${rank} has more than ${files} squares`;
+      voids.push(`${file}${rank}`);
+      fileIndex++;
+      i++;
+      continue;
+    }
+
+    const marked = MARK_TO_OWNER[ch];
+    if (marked) i++;
+    const bracketed = row[i] === '[';
+
+    let name: string;
+    if (bracketed) {
+      const end = row.indexOf(']', i);
+      if (end === -1) return `Unclosed "[" in rank ${rank}`;
+      name = row.slice(i + 1, end);
+      i = end + 1;
+    } else {
+      name = row[i] ?? '';
+      i++;
+    }
+
+    const lower = name.toLowerCase();
+    if (marked && name !== lower) return `Piece "${ch}${name}" must be lowercase in rank ${rank}`;
+    const owner: PieceOwner = marked ?? (name === lower ? 'black' : 'white');
+    const typeId = bracketed ? lower : LETTER_TO_TYPE[lower];
+    if (!typeId || !PIECE_BY_ID[typeId]) return `Unknown piece "${name}" in rank ${rank}`;
+
+    const hasMoved = row[i] === '*';
+    if (hasMoved) i++;
+
+    const file = indexToFile(fileIndex);
+    if (!file || fileIndex >= files) return `Rank ${rank} has more than ${files} squares`;
+
+    pieces.push({
+      id: nextId(owner, typeId),
+      typeId,
+      owner,
+      position: { file, rank } as Position,
+      hasMoved,
+      isFrozen: false,
+    });
+    fileIndex++;
+  }
+
+  if (fileIndex !== files) return `Rank ${rank} has ${fileIndex} squares, expected ${files}`;
+  return pieces;
+}
+
+/**
+ * Parse the hands field (e.g. [2PNp]) into each player's hand
+ */
+function parseHands(field: string): Hands | string {
+  if (!field.startsWith('[') || !field.endsWith(']')) return `Invalid hands "${field}"`;
+  const text = field.slice(1, -1);
+  const hand: Hands = { white: [], black: [] };
+  let i = 0;
+
+  while (i < text.length) {
+    let digits = '';
+    while (i < text.length && /\d/.test(text[i])) digits += text[i++];
+    const count = digits ? parseInt(digits, 10) : 1;
+    if (count < 1) return `Invalid count in hands "${field}"`;
+
+    let name: string;
+    const bracketed = text[i] === '[';
+    if (bracketed) {
+      const end = text.indexOf(']', i);
+      if (end === -1) return `Unclosed "[" in hands "${field}"`;
+      name = text.slice(i + 1, end);
+      i = end + 1;
+    } else {
+      name = text[i] ?? '';
+      i++;
+    }
+
+    const lower = name.toLowerCase();
+    const typeId = bracketed ? lower : LETTER_TO_TYPE[lower];
+    if (!typeId || !PIECE_BY_ID[typeId]) return `Unknown piece "${name}" in hands`;
+    const color = name === lower ? 'black' : 'white';
+    for (let n = 0; n < count; n++) hand[color]!.push(typeId);
+  }
+
+  return hand;
+}
+
+/**
+ * Parse an HFEN string into a game state in the play phase
+ */
+export function parseHfen(hfen: string): HfenParseResult {
+  const fields = hfen.trim().split(/\s+/);
+  if (fields.length !== 7 && fields.length !== 8) {
+    return { valid: false, reason: `Expected 7 or 8 fields, found ${fields.length}` };
+  }
+  const [dimsField, placement, sideField, epField, halfmoveField, turnField, royalsField, handsField] = fields;
+
+  // Board size
+  const dims = dimsField.match(/^(\d+x\d+)(c?)$/);
+  const size = dims ? parseBoardSize(dims[1]) : null;
+  if (!dims || !size) return { valid: false, reason: `Unsupported board size "${dimsField}"` };
+  const boardSize = dims[1] as BoardSize;
+  const { files, ranks } = size;
+
+  // Placement
+  const rows = placement.split('/');
+  if (rows.length !== ranks) {
+    return { valid: false, reason: `Expected ${ranks} ranks, found ${rows.length}` };
+  }
+  const counters = new Map<string, number>();
+  const nextId = (owner: PieceOwner, typeId: string) => {
+    const key = `${owner}-${typeId}`;
+    const count = (counters.get(key) ?? 0) + 1;
+    counters.set(key, count);
+    return `${key}-${count}`;
+  };
+  const pieces: PieceInstance[] = [];
+  const voids: string[] = [];
+  for (let r = 0; r < rows.length; r++) {
+    const result = parseRow(rows[r], ranks - r, files, nextId, voids);
+    if (typeof result === 'string') return { valid: false, reason: result };
+    pieces.push(...result);
+  }
+
+  // Side to move
+  const currentTurn = PLAYER_COLORS.find((color) => SIDE_LETTERS[color] === sideField);
+  if (!currentTurn) {
+    return { valid: false, reason: `Side to move must be "w", "b", "r" or "u", found "${sideField}"` };
+  }
+
+  // En passant target
+  let enPassantTarget: Position | null = null;
+  if (epField !== '-') {
+    enPassantTarget = stringToPosition(epField);
+    if (
+      !enPassantTarget ||
+      fileToIndex(enPassantTarget.file) >= files ||
+      enPassantTarget.rank > ranks
+    ) {
+      return { valid: false, reason: `Invalid en passant square "${epField}"` };
+    }
+  }
+
+  // Counters
+  if (!/^\d+$/.test(halfmoveField)) {
+    return { valid: false, reason: `Invalid halfmove clock "${halfmoveField}"` };
+  }
+  if (!/^\d+$/.test(turnField) || Number(turnField) < 1) {
+    return { valid: false, reason: `Invalid turn number "${turnField}"` };
+  }
+
+  // Royal tracking
+  if (!/^(-|w?r?b?u?)$/.test(royalsField)) {
+    return { valid: false, reason: `Invalid royal tracking "${royalsField}"` };
+  }
+
+  const hadMultipleRoyals: BoardState['hadMultipleRoyals'] = {
+    white: royalsField.includes('w'),
+    black: royalsField.includes('b'),
+  };
+  if (royalsField.includes('r')) hadMultipleRoyals.red = true;
+  if (royalsField.includes('u')) hadMultipleRoyals.blue = true;
+
+  // Hands (drops games only)
+  let hand: Hands | undefined;
+  if (handsField !== undefined) {
+    const parsed = parseHands(handsField);
+    if (typeof parsed === 'string') return { valid: false, reason: parsed };
+    hand = parsed;
+  }
+
+  const initial = createInitialGameState(pieces, boardSize, 0, dims[2] ? 'cylinder' : 'flat', voids);
+  const board = updateFrozenStates({
+    ...initial.board,
+    hadMultipleRoyals,
+  });
+
+  // Red or blue pieces make a free-for-all
+  let multiplayer: MultiplayerState | undefined;
+  if (pieces.some((p) => p.owner === 'red' || p.owner === 'blue')) {
+    const seats = PLAYER_COLORS.filter((color) => pieces.some((p) => p.owner === color));
+    if (!seats.includes(currentTurn)) {
+      return { valid: false, reason: `${currentTurn} is to move but has no pieces` };
+    }
+    multiplayer = { seats, eliminated: [], deadPieces: 'obstacles' };
+  }
+
+  return {
+    valid: true,
+    gameState: {
+      ...initial,
+      board,
+      currentTurn,
+      turnNumber: Number(turnField),
+      enPassantTarget,
+      halfmoveClock: Number(halfmoveField),
+      inCheck: isInCheck(board, currentTurn) ? currentTurn : null,
+      positionHistory: [computeZobristKey(board, currentTurn, enPassantTarget, hand)],
+      ...(multiplayer && { multiplayer }),
+      ...(hand && { hand }),
+    },
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Tests for SAN move notation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Move } from '../types';
+import { ALL_PIECES } from '../pieces/pieceDefinitions';
+import {
+  createInitialGameState,
+  createStandardChessPieces,
+  executeMove,
+} from '../rules/moveExecution';
+import { generateAllMoves } from '../ai/search';
+import { formatPerftMove } from '../ai/perft';
+import { createSeededRandom, pickRandom } from '../ai/random';
+import { parseHfen } from './hfen';
+import { formatMoveNotation, parseMoveNotation } from './moveNotation';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function findMove(state: GameState, coord: string): Move {
+  const move = generateAllMoves(state).find((m) => formatPerftMove(m) === coord);
+  if (!move) throw new Error(`No move ${coord}`);
+  return move;
+}
+
+function notate(state: GameState, coord: string): string {
+  return formatMoveNotation(state, findMove(state, coord));
+}
+
+function play(state: GameState, coords: string[]): GameState {
+  for (const coord of coords) state = executeMove(state, findMove(state, coord));
+  return state;
+}
+
+function parse(state: GameState, notation: string): string {
+  const result = parseMoveNotation(state, notation);
+  if (!result.valid) throw new Error(result.reason);
+  return formatPerftMove(result.move);
+}
+
+describe('piece abbreviations', () => {
+  it('gives every roster piece a unique ASCII abbreviation', () => {
+    const abbreviations = ALL_PIECES.map((p) => p.abbreviation);
+    for (const abbreviation of abbreviations) expect(abbreviation).toMatch(/^[A-Z]+$/);
+    expect(new Set(abbreviations).size).toBe(ALL_PIECES.length);
+  });
+});
+
+describe('formatMoveNotation', () => {
+  const start = createInitialGameState(createStandardChessPieces(), '8x8');
+
+  it('writes piece moves and pawn moves like SAN', () => {
+    expect(notate(start, 'g1f3')).toBe('Nf3');
+    expect(notate(start, 'e2e4')).toBe('e4');
+
+    const state = play(start, ['e2e4', 'd7d5']);
+    expect(notate(state, 'e4d5')).toBe('exd5');
+    expect(notate(state, 'f1b5')).toBe('Bb5+');
+  });
+
+  it('uses ASCII notation for generated moves too', () => {
+    const notations = generateAllMoves(start).map((m) => m.notation);
+    expect(notations).toContain('Nf3');
+    expect(notations).toContain('e4');
+  });
+
+  it('adds file, rank or square to tell identical pieces apart', () => {
+    const knights = fromHfen('8x8 4k3/8/8/8/8/5N2/8/1N2K3 w - 0 1 -');
+    expect(notate(knights, 'b1d2')).toBe('Nbd2');
+    expect(notate(knights, 'f3d2')).toBe('Nfd2');
+    expect(notate(knights, 'f3e5')).toBe('Ne5');
+
+    const rooks = fromHfen('8x8 4k3/8/8/R7/8/8/8/R3K3 w - 0 1 -');
+    expect(notate(rooks, 'a1a3')).toBe('R1a3');
+    expect(notate(rooks, 'a5a3')).toBe('R5a3');
+
+    const queens = fromHfen('8x8 4k3/8/8/8/8/Q7/8/Q1Q1K3 w - 0 1 -');
+    expect(notate(queens, 'a1b2')).toBe('Qa1b2');
+  });
+
+  it('marks checkmate, castling, promotion and en passant', () => {
+    const mate = play(start, ['f2f3', 'e7e5', 'g2g4']);
+    expect(notate(mate, 'd8h4')).toBe('Qh4#');
+
+    const castling = fromHfen('8x8 4k3/8/8/8/8/8/8/R3K2R w - 0 1 -');
+    expect(notate(castling, 'e1g1')).toBe('O-O');
+    expect(notate(castling, 'e1c1')).toBe('O-O-O');
+
+    const promotion = fromHfen('8x8 7k/4P3/8/8/8/8/8/K7 w - 0 1 -');
+    expect(notate(promotion, 'e7e8=queen')).toBe('e8=Q+');
+    expect(notate(promotion, 'e7e8=knight')).toBe('e8=N');
+
+    const enPassant = fromHfen('8x8 4k3/8/8/3pP3/8/8/8/4K3 w d6 0 1 -');
+    expect(notate(enPassant, 'e5d6')).toBe('exd6');
+  });
+
+  it('lists special captures and marks withdrawals and swaps', () => {
+    const coordinator = fromHfen('8x8 7k/8/8/[COORDINATOR]7/8/4n3/8/4K3 w - 0 1 -');
+    expect(notate(coordinator, 'a5c3')).toBe('CDxc3:e3');
+
+    const withdrawer = fromHfen('8x8 7k/8/8/3p4/3[WITHDRAWER]4/8/8/K7 w - 0 1 -');
+    expect(notate(withdrawer, 'd4d2')).toBe('WD^d2:d5');
+    expect(notate(withdrawer, 'd4f4')).toBe('WDf4');
+
+    const chamberlain = fromHfen('8x8 7k/8/8/8/8/8/8/3[CHAMBERLAIN]K3 w - 0 1 -');
+    expect(notate(chamberlain, 'd1e1')).toBe('CB~e1');
+  });
+});
+
+describe('parseMoveNotation', () => {
+  const start = createInitialGameState(createStandardChessPieces(), '8x8');
+
+  it('parses notation written by formatMoveNotation', () => {
+    for (const seed of [1, 2]) {
+      const random = createSeededRandom(seed);
+      let state = start;
+
+      for (let ply = 0; ply < 40; ply++) {
+        const moves = generateAllMoves(state);
+        if (moves.length === 0) break;
+        const move = pickRandom(moves, random);
+        const notation = formatMoveNotation(state, move);
+
+        const result = parseMoveNotation(state, notation);
+        expect(result.valid, notation).toBe(true);
+        if (result.valid) {
+          expect(formatPerftMove(result.move)).toBe(formatPerftMove(move));
+          expect(result.move.notation).toBe(notation);
+        }
+        state = executeMove(state, move);
+      }
+    }
+  });
+
+  it('parses special moves', () => {
+    const castling = fromHfen('8x8 4k3/8/8/8/8/8/8/R3K2R w - 0 1 -');
+    expect(parse(castling, 'O-O')).toBe('e1g1');
+    expect(parse(castling, 'O-O-O')).toBe('e1c1');
+
+    const promotion = fromHfen('8x8 7k/4P3/8/8/8/8/8/K7 w - 0 1 -');
+    expect(parse(promotion, 'e8=N')).toBe('e7e8=knight');
+
+    const coordinator = fromHfen('8x8 7k/8/8/[COORDINATOR]7/8/4n3/8/4K3 w - 0 1 -');
+    expect(parse(coordinator, 'CDxc3:e3')).toBe('a5c3');
+
+    const withdrawer = fromHfen('8x8 7k/8/8/3p4/3[WITHDRAWER]4/8/8/K7 w - 0 1 -');
+    expect(parse(withdrawer, 'WD^d2')).toBe('d4d2');
+
+    const chamberlain = fromHfen('8x8 7k/8/8/8/8/8/8/3[CHAMBERLAIN]K3 w - 0 1 -');
+    expect(parse(chamberlain, 'CB~e1')).toBe('d1e1');
+  });
+
+  it('accepts check markers, a missing "x" and extra disambiguation', () => {
+    const state = play(start, ['e2e4', 'd7d5']);
+    expect(parse(state, 'Bb5')).toBe('f1b5');
+    expect(parse(state, 'Bb5+')).toBe('f1b5');
+    expect(parse(state, 'ed5')).toBe('e4d5');
+    expect(parse(state, 'Ngf3')).toBe('g1f3');
+  });
+
+  it('rejects malformed, illegal and ambiguous moves', () => {
+    const knights = fromHfen('8x8 4k3/8/8/8/8/5N2/8/1N2K3 w - 0 1 -');
+    const cases: [string, string][] = [
+      ['e9', 'No legal move'],
+      ['Nf3x', 'Malformed'],
+      ['ZZe4', 'Unknown piece'],
+      ['Ne4', 'No legal move'],
+      ['Nd2', 'ambiguous'],
+      ['Nxe5', 'No legal move'],
+      ['N~e5', 'No legal move'],
+    ];
+    for (const [notation, reason] of cases) {
+      const result = parseMoveNotation(knights, notation);
+      expect(result.valid, notation).toBe(false);
+      if (!result.valid) expect(result.reason).toContain(reason);
+    }
+  });
+});
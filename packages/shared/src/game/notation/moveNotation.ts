@@ -0,0 +1,171 @@
+/**
+ * Move notation in context - SAN with disambiguation and check markers,
+ * and parsing SAN back into a move for a position
+ */
+
+import type { GameState, Move, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { PIECE_BY_ABBREVIATION } from '../pieces/pieceDefinitions';
+import { getFileDelta, getPieceById } from '../board/boardUtils';
+import { executeMove } from '../rules/moveExecution';
+import { isCheckmate } from '../rules/gameEndDetection';
+import { validateDrop } from '../rules/drops';
+import { generateAllMoves } from '../ai/search';
+import {
+  writeSan,
+  getCapturedSquares,
+  getPieceAbbreviation,
+  isWithdrawalCapture,
+} from './san';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MoveNotationParseResult =
+  | { valid: true; move: Move }
+  | { valid: false; reason: string };
+
+/**
+ * Castling, or: abbreviation, origin file, origin rank, action, destination,
+ * promotion, other captured squares, then an optional check marker
+ */
+const SAN_PATTERN =
+  /^(?:(O-O-O|O-O)|([A-Z]+)?((?!x)[a-z])?(\d+)?([x^~])?([a-z]\d+)(?:=([A-Z]+))?((?::[a-z]\d+)*))[+#]?$/;
+
+/** Drop from the hand: abbreviation and square, then an optional check marker */
+const DROP_PATTERN = /^([A-Z]+)@([a-z]\d+)[+#]?$/;
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function isSameSquare(a: Position, b: Position): boolean {
+  return a.file === b.file && a.rank === b.rank;
+}
+
+/**
+ * Get the origin file and/or rank that tells a move apart from the same move
+ * by an identical piece
+ */
+function getDisambiguation(gameState: GameState, move: Move, legalMoves: Move[]): string {
+  const piece = getPieceById(gameState.board, move.pieceId);
+  if (!piece || move.isCastling) return '';
+
+  const rivals = legalMoves.filter(
+    (m) =>
+      m.pieceId !== move.pieceId &&
+      !m.isCastling &&
+      isSameSquare(m.to, move.to) &&
+      getPieceById(gameState.board, m.pieceId)?.typeId === piece.typeId
+  );
+  if (rivals.length === 0) return '';
+
+  const sameFile = rivals.some((m) => m.from.file === move.from.file);
+  const sameRank = rivals.some((m) => m.from.rank === move.from.rank);
+  if (!sameFile) return move.from.file;
+  // Pawn captures always start with the file, so pawns can't use the rank alone
+  if (!sameRank && getPieceAbbreviation(piece.typeId)) return String(move.from.rank);
+  return positionToString(move.from);
+}
+
+/**
+ * Write a move in SAN for the position it is played from, with disambiguation
+ * and check or checkmate markers
+ */
+export function formatMoveNotation(gameState: GameState, move: Move): string {
+  const after = executeMove(gameState, move);
+  const check = isCheckmate(after) ? 'checkmate' : after.inCheck ? 'check' : null;
+  const disambiguation = getDisambiguation(gameState, move, generateAllMoves(gameState));
+
+  return writeSan(gameState.board, move, { disambiguation, check });
+}
+
+/**
+ * Return the move with its notation written for the position it is played from.
+ * Moves from move generation only carry notation that needs no context.
+ */
+export function notateMove(gameState: GameState, move: Move): Move {
+  return { ...move, notation: formatMoveNotation(gameState, move) };
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Find the legal move that SAN describes in the current position.
+ * Check markers are ignored, and a capture's "x" and extra captured squares
+ * may be left out as long as the move is still unambiguous.
+ */
+export function parseMoveNotation(gameState: GameState, notation: string): MoveNotationParseResult {
+  const text = notation.trim();
+  const drop = text.match(DROP_PATTERN);
+  if (drop) {
+    const pieceType = PIECE_BY_ABBREVIATION[drop[1]];
+    if (!pieceType) return { valid: false, reason: `Unknown piece "${drop[1]}" in "${text}"` };
+    const to = stringToPosition(drop[2]);
+    if (!to) return { valid: false, reason: `Invalid square in "${text}"` };
+    const result = validateDrop(gameState, pieceType.id, to);
+    if (!result.valid) return { valid: false, reason: `Illegal drop "${text}": ${result.reason}` };
+    return { valid: true, move: notateMove(gameState, result.move) };
+  }
+
+  const match = text.match(SAN_PATTERN);
+  if (!match) return { valid: false, reason: `Malformed move "${text}"` };
+
+  const [, castling, abbreviation, fromFile, fromRank, action, destination, promotion, captureList] =
+    match;
+  const legalMoves = generateAllMoves(gameState);
+  let candidates: Move[];
+
+  if (castling) {
+    const direction = castling === 'O-O' ? 1 : -1;
+    candidates = legalMoves.filter(
+      (m) =>
+        m.isCastling &&
+        Math.sign(getFileDelta(m.from, m.to, gameState.board.dimensions)) === direction
+    );
+  } else {
+    const pieceType = abbreviation ? PIECE_BY_ABBREVIATION[abbreviation] : undefined;
+    if (abbreviation && !pieceType) {
+      return { valid: false, reason: `Unknown piece "${abbreviation}" in "${text}"` };
+    }
+    const typeId = pieceType?.id ?? 'pawn';
+
+    const promotionType = promotion ? PIECE_BY_ABBREVIATION[promotion] : undefined;
+    if (promotion && !promotionType) {
+      return { valid: false, reason: `Unknown promotion piece "${promotion}" in "${text}"` };
+    }
+
+    const to = stringToPosition(destination);
+    const listed = captureList
+      ? captureList.slice(1).split(':').map((square) => stringToPosition(square))
+      : [];
+    if (!to || listed.some((square) => !square)) {
+      return { valid: false, reason: `Invalid square in "${text}"` };
+    }
+
+    candidates = legalMoves.filter((m) => {
+      if (m.isCastling || !isSameSquare(m.to, to)) return false;
+      if (getPieceById(gameState.board, m.pieceId)?.typeId !== typeId) return false;
+      if (fromFile && m.from.file !== fromFile) return false;
+      if (fromRank && m.from.rank !== Number(fromRank)) return false;
+      if ((m.promotionPieceType ?? null) !== (promotionType?.id ?? null)) return false;
+      if ((action === '~') !== !!m.isSwap) return false;
+
+      const captured = getCapturedSquares(m);
+      if ((action === 'x' || action === '^') && captured.length === 0) return false;
+      if (action === '^' && !isWithdrawalCapture(gameState.board, m)) return false;
+      return listed.every((square) => captured.some((c) => isSameSquare(c, square!)));
+    });
+  }
+
+  if (candidates.length === 0) {
+    return { valid: false, reason: `No legal move matches "${text}"` };
+  }
+  if (candidates.length > 1) {
+    return { valid: false, reason: `"${text}" is ambiguous` };
+  }
+  return { valid: true, move: notateMove(gameState, candidates[0]) };
+}
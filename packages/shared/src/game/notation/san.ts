@@ -0,0 +1,133 @@
+/**
+ * SAN - standard algebraic style move notation with ASCII piece abbreviations
+ *
+ *   Nf3          piece abbreviation and destination (pawns have none)
+ *   Nbd7, R1a3   file and/or rank of the origin when two identical pieces can reach the square
+ *   exd5, Bxc4   "x" for a capture
+ *   CDxe4:d5:h4  captured squares other than the destination (Coordinator, Boxer, Long Leaper, ...)
+ *   WD^c3:e5     withdrawal capture: "^" instead of "x"
+ *   PK~e2        swap with a friendly piece
+ *   e8=Q         promotion
+ *   O-O, O-O-O   castling toward the higher or lower files
+ *   N@e4, P@e4   drop from the hand (pawns included)
+ *   Qh5+, Qf7#   check and checkmate
+ *
+ * Abbreviations are the `abbreviation` field of each piece type. This module
+ * only writes notation; formatting with disambiguation and check markers and
+ * parsing are in moveNotation.ts, since they need the rules.
+ */
+
+import type { BoardState, Move, Position } from '../types';
+import { arePositionsEqual, positionToString } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { getFileDelta, getPieceById, offsetPosition } from '../board/boardUtils';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SanContext {
+  /** Origin file and/or rank needed to tell identical pieces apart */
+  disambiguation?: string;
+  /** Whether the move gives check or checkmate */
+  check?: 'check' | 'checkmate' | null;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Get every square a move captures on, in capture order.
+ * Swaps record the friendly piece as captured, so it is left out.
+ */
+export function getCapturedSquares(move: Move): Position[] {
+  const squares: Position[] = [];
+  if (move.capturedPieceId && move.capturePosition && move.capturedPieceId !== move.swapPieceId) {
+    squares.push(move.capturePosition);
+  }
+  for (const capture of move.additionalCaptures ?? []) squares.push(capture.position);
+  return squares;
+}
+
+/**
+ * Check whether a move captures by withdrawal: a Withdrawer, or a Chameleon
+ * imitating one, capturing the piece it moves directly away from
+ */
+export function isWithdrawalCapture(board: BoardState, move: Move): boolean {
+  const captures = move.additionalCaptures ?? [];
+  const piece = getPieceById(board, move.pieceId);
+  const captureType = piece ? PIECE_BY_ID[piece.typeId]?.captureType : undefined;
+  if (captureType === 'withdrawal') return captures.length > 0;
+  if (captureType !== 'chameleon') return false;
+
+  const dx = Math.sign(getFileDelta(move.from, move.to, board.dimensions));
+  const dy = Math.sign(move.to.rank - move.from.rank);
+  const behind = offsetPosition(move.from, -dx, -dy, board.dimensions);
+  return captures.some(
+    (capture) =>
+      getPieceById(board, capture.pieceId)?.typeId === 'withdrawer' &&
+      behind !== null &&
+      arePositionsEqual(capture.position, behind)
+  );
+}
+
+/**
+ * Get the abbreviation written for a piece type; pawns have none
+ */
+export function getPieceAbbreviation(typeId: string): string {
+  if (typeId === 'pawn') return '';
+  return PIECE_BY_ID[typeId]?.abbreviation ?? '?';
+}
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+/**
+ * Write a move in SAN. `board` is the position before the move.
+ * Disambiguation and check markers come from the context, since working them
+ * out needs the legal moves of the whole position.
+ */
+export function writeSan(board: BoardState, move: Move, context: SanContext = {}): string {
+  const suffix = context.check === 'checkmate' ? '#' : context.check === 'check' ? '+' : '';
+
+  if (move.isCastling) {
+    const dx = getFileDelta(move.from, move.to, board.dimensions);
+    return (dx > 0 ? 'O-O' : 'O-O-O') + suffix;
+  }
+
+  const destination = positionToString(move.to);
+  if (move.dropPieceType) {
+    return `${PIECE_BY_ID[move.dropPieceType]?.abbreviation ?? '?'}@${destination}${suffix}`;
+  }
+
+  const piece = getPieceById(board, move.pieceId);
+  const abbreviation = piece ? getPieceAbbreviation(piece.typeId) : '?';
+  const captured = getCapturedSquares(move);
+
+  let action = '';
+  if (move.isSwap) action = '~';
+  else if (isWithdrawalCapture(board, move)) action = '^';
+  else if (captured.length > 0) action = 'x';
+
+  // Pawn captures always name the origin file, as in chess
+  let disambiguation = context.disambiguation ?? '';
+  if (!abbreviation && action && !disambiguation) disambiguation = move.from.file;
+
+  let notation = `${abbreviation}${disambiguation}${action}${destination}`;
+
+  if (move.isPromotion && move.promotionPieceType) {
+    notation += `=${PIECE_BY_ID[move.promotionPieceType]?.abbreviation ?? '?'}`;
+  }
+
+  // En passant captures are implied by the destination
+  if (!move.isEnPassant) {
+    for (const square of captured) {
+      const name = positionToString(square);
+      if (name !== destination) notation += `:${name}`;
+    }
+  }
+
+  return notation + suffix;
+}
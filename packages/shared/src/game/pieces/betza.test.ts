@@ -0,0 +1,193 @@
+/**
+ * Tests for Betza notation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { File, PieceInstance, Position, Rank } from '../types';
+import { positionToString } from '../types';
+import { ALL_PIECES, PIECE_BY_ID } from './pieceDefinitions';
+import { createBoardState } from '../board/boardUtils';
+import {
+  generateBetzaMoves,
+  generatePseudoLegalMoves,
+  getBetzaAttackSquares,
+} from '../board/moveGeneration';
+import { createSeededRandom, pickRandom } from '../ai/random';
+import type { BetzaVector } from './betza';
+import { parseBetza, describeBetza } from './betza';
+
+function vectors(notation: string): BetzaVector[] {
+  const result = parseBetza(notation);
+  if (!result.valid) throw new Error(result.reason);
+  return result.vectors;
+}
+
+function offsets(notation: string): string[] {
+  return vectors(notation)
+    .map((v) => `${v.dx},${v.dy}`)
+    .sort();
+}
+
+function piece(id: string, typeId: string, owner: 'white' | 'black', square: string): PieceInstance {
+  const position = { file: square[0] as File, rank: Number(square.slice(1)) as Rank };
+  return { id, typeId, owner, position, hasMoved: true, isFrozen: false };
+}
+
+function squares(positions: Position[]): string[] {
+  return [...new Set(positions.map(positionToString))].sort();
+}
+
+describe('parseBetza', () => {
+  it('parses leapers, compounds and riders', () => {
+    expect(vectors('N')).toHaveLength(8);
+    expect(vectors('N').every((v) => v.range === 1 && v.canMove && v.canCapture)).toBe(true);
+    expect(vectors('K')).toHaveLength(8);
+    expect(vectors('Q')).toHaveLength(8);
+    expect(vectors('NN').every((v) => v.range === Infinity)).toBe(true);
+    expect(vectors('R').every((v) => v.range === Infinity)).toBe(true);
+    expect(vectors('W4').every((v) => v.range === 4)).toBe(true);
+    expect(vectors('B2').every((v) => v.range === 2)).toBe(true);
+    expect(vectors('RN')).toHaveLength(12);
+  });
+
+  it('applies move, capture, hopper, lame and initial modifiers', () => {
+    const pawn = vectors('fmWfcF');
+    expect(pawn).toEqual([
+      expect.objectContaining({ dx: 0, dy: 1, canMove: true, canCapture: false }),
+      expect.objectContaining({ dx: 1, dy: 1, canMove: false, canCapture: true }),
+      expect.objectContaining({ dx: -1, dy: 1, canMove: false, canCapture: true }),
+    ]);
+
+    expect(vectors('mRcpR').filter((v) => v.hop === 'cannon' && !v.canMove)).toHaveLength(4);
+    expect(vectors('gQ').every((v) => v.hop === 'grasshopper')).toBe(true);
+    expect(vectors('nD').every((v) => v.lame)).toBe(true);
+    expect(vectors('ifmnD')).toEqual([
+      expect.objectContaining({ dx: 0, dy: 2, lame: true, initialOnly: true, canCapture: false }),
+    ]);
+  });
+
+  it('picks out directions from the owner\'s side', () => {
+    expect(offsets('fW')).toEqual(['0,1']);
+    expect(offsets('bW')).toEqual(['0,-1']);
+    expect(offsets('vW')).toEqual(['0,-1', '0,1']);
+    expect(offsets('sW')).toEqual(['-1,0', '1,0']);
+    expect(offsets('lrW')).toEqual(['-1,0', '1,0']);
+    expect(offsets('fF')).toEqual(['-1,1', '1,1']);
+    expect(offsets('flF')).toEqual(['-1,1']);
+    expect(offsets('brF')).toEqual(['1,-1']);
+    expect(offsets('fN')).toEqual(['-1,2', '-2,1', '1,2', '2,1']);
+    expect(offsets('ffN')).toEqual(['-1,2', '1,2']);
+    expect(offsets('fsN')).toEqual(['-2,1', '2,1']);
+    expect(offsets('llN')).toEqual(['-2,-1', '-2,1']);
+    expect(offsets('flN')).toEqual(['-1,2', '-2,1']);
+  });
+
+  it('rejects invalid notation', () => {
+    const cases: [string, string][] = [
+      ['', 'Empty'],
+      ['X', 'Unknown atom'],
+      ['fxN', 'Unknown modifier'],
+      ['fm', 'need an atom'],
+      ['flW', 'does not apply'],
+      ['fsW', 'does not apply'],
+      ['pN', 'needs a rider'],
+      ['pgR', 'both'],
+    ];
+    for (const [notation, reason] of cases) {
+      const result = parseBetza(notation);
+      expect(result.valid, notation).toBe(false);
+      if (!result.valid) expect(result.reason).toContain(reason);
+    }
+  });
+});
+
+describe('describeBetza', () => {
+  it('describes pieces built from slides, leaps and simple specials', () => {
+    expect(describeBetza(PIECE_BY_ID['queen'])).toBe('Q');
+    expect(describeBetza(PIECE_BY_ID['chancellor'])).toBe('RN');
+    expect(describeBetza(PIECE_BY_ID['pawn'])).toBe('fmWifmnDfcF');
+    expect(describeBetza(PIECE_BY_ID['nightrider'])).toBe('NN');
+    expect(describeBetza(PIECE_BY_ID['cannon'])).toBe('mRcpR');
+    expect(describeBetza(PIECE_BY_ID['vao'])).toBe('mBcpB');
+    expect(describeBetza(PIECE_BY_ID['ferz'])).toBe('F');
+    expect(describeBetza(PIECE_BY_ID['horse'])).toBe('nN');
+    expect(describeBetza(PIECE_BY_ID['elephant'])).toBe('nA');
+    expect(describeBetza(PIECE_BY_ID['gold-general'])).toBe('WfF');
+  });
+
+  it('leaves out pieces Betza cannot describe', () => {
+    for (const id of ['chameleon', 'coordinator', 'pontiff', 'phantom-king', 'checker', 'janggi-cannon']) {
+      expect(describeBetza(PIECE_BY_ID[id]), id).toBeNull();
+    }
+  });
+
+  it('only produces notation that parses', () => {
+    for (const pieceType of ALL_PIECES) {
+      const notation = describeBetza(pieceType);
+      if (notation) expect(parseBetza(notation).valid, pieceType.id).toBe(true);
+    }
+  });
+});
+
+describe('generateBetzaMoves', () => {
+  it('matches hand-written movement on random boards', () => {
+    const random = createSeededRandom(11);
+    const described = ALL_PIECES.filter((p) => describeBetza(p) && !p.movement.betza);
+    const squareNames: string[] = [];
+    for (const file of 'abcdefgh') for (let rank = 1; rank <= 8; rank++) squareNames.push(`${file}${rank}`);
+
+    for (let round = 0; round < 40; round++) {
+      const free = [...squareNames];
+      const pieces: PieceInstance[] = [];
+      for (let i = 0; i < 14; i++) {
+        const square = free.splice(Math.floor(random() * free.length), 1)[0];
+        const owner = random() < 0.5 ? 'white' : 'black';
+        pieces.push(piece(`p${i}`, pickRandom(described, random).id, owner, square));
+      }
+      const board = createBoardState({ files: 8, ranks: 8 }, pieces);
+
+      for (const p of pieces) {
+        const notation = describeBetza(PIECE_BY_ID[p.typeId])!;
+        expect(squares(generateBetzaMoves(board, p, notation)), `${p.typeId} ${notation}`).toEqual(
+          squares(generatePseudoLegalMoves(board, p, null))
+        );
+      }
+    }
+  });
+
+  it('turns directional moves round for Black', () => {
+    const board = createBoardState({ files: 8, ranks: 8 }, []);
+    const white = piece('w', 'queen', 'white', 'd4');
+    const black = piece('b', 'queen', 'black', 'd4');
+
+    expect(squares(generateBetzaMoves(board, white, 'flF'))).toEqual(['c5']);
+    expect(squares(generateBetzaMoves(board, black, 'flF'))).toEqual(['e3']);
+    expect(squares(generateBetzaMoves(board, black, 'ffN'))).toEqual(['c2', 'e2']);
+  });
+
+  it('handles hoppers, lame leaps and initial moves', () => {
+    const board = createBoardState({ files: 8, ranks: 8 }, [
+      piece('screen', 'pawn', 'white', 'd6'),
+      piece('target', 'rook', 'black', 'd8'),
+      piece('block', 'pawn', 'black', 'e4'),
+    ]);
+    const mover = piece('m', 'queen', 'white', 'd4');
+
+    expect(squares(generateBetzaMoves(board, mover, 'fpR'))).toEqual(['d7', 'd8']);
+    expect(squares(generateBetzaMoves(board, mover, 'fcpR'))).toEqual(['d8']);
+    expect(squares(generateBetzaMoves(board, mover, 'fgR'))).toEqual(['d7']);
+    expect(squares(generateBetzaMoves(board, mover, 'rnD'))).toEqual([]);
+    expect(squares(generateBetzaMoves(board, mover, 'rD'))).toEqual(['f4']);
+    // A lame knight is blocked on the square orthogonally next to it, like the Xiangqi Horse
+    expect(squares(generateBetzaMoves(board, mover, 'nN'))).toEqual(['b3', 'b5', 'c2', 'c6', 'e2', 'e6']);
+    expect(squares(generateBetzaMoves(board, mover, 'iW'))).toEqual([]);
+    expect(squares(generateBetzaMoves(board, { ...mover, hasMoved: false }, 'ifW'))).toEqual(['d5']);
+  });
+
+  it('attacks empty squares only where it can capture', () => {
+    const board = createBoardState({ files: 8, ranks: 8 }, []);
+    const pawnLike = piece('p', 'pawn', 'white', 'd4');
+
+    expect(squares(getBetzaAttackSquares(board, pawnLike, 'fmWfcF'))).toEqual(['c5', 'e5']);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Betza notation - piece movement as data
+ *
+ * A Betza string is a list of atoms, each with optional lowercase modifiers
+ * before it and an optional range after it:
+ *
+ *   W F D N A H C Z G   leapers (1,0) (1,1) (2,0) (2,1) (2,2) (3,0) (3,1) (3,2) (3,3)
+ *   K R B Q             compounds: K = WF, R = WW, B = FF, Q = RB
+ *   NN, W4, R2          doubled atom: unlimited rider; number: rider with that many steps
+ *   m, c                move only, capture only
+ *   f b l r v s         forward, backward, left, right, vertical, sideways (from the owner's
+ *                       side); pairs like fl, ff or fs pick out single or narrow directions
+ *   p                   cannon hopper: passes over one piece, then moves on like a rider
+ *   g                   grasshopper: passes over one piece and lands just beyond it
+ *   n                   lame: blocked by a piece on a square the leap passes over
+ *                       (oblique leaps go orthogonally first, so nN is the Xiangqi Horse)
+ *   i                   only while the piece has not moved
+ *
+ * Examples: fmWfcF (pawn without the double step), NN (Nightrider), mRcpR
+ * (Cannon), gQ (Grasshopper). Move generation runs the compiled vectors of
+ * `movement.betza` directly (see generateBetzaMoves).
+ */
+
+import type { PieceType, SpecialMovement } from '../types';
+import { expandLeapOffset } from '../board/boardUtils';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BetzaHop = 'none' | 'cannon' | 'grasshopper';
+
+/**
+ * One direction a Betza piece can move in, seen from White's side
+ * (Black's moves are the same turned half way round)
+ */
+export interface BetzaVector {
+  dx: number;
+  dy: number;
+  /** Steps the move may repeat: 1 for a leaper, Infinity for an unlimited rider */
+  range: number;
+  canMove: boolean;
+  canCapture: boolean;
+  /** Whether the move must pass over a screen piece first */
+  hop: BetzaHop;
+  /** Lame moves are blocked by pieces on the squares they pass over */
+  lame: boolean;
+  /** Only allowed while the piece has not moved */
+  initialOnly: boolean;
+}
+
+export type BetzaParseResult =
+  | { valid: true; vectors: BetzaVector[] }
+  | { valid: false; reason: string };
+
+// =============================================================================
+// Atoms
+// =============================================================================
+
+const LEAPERS: Record<string, { dx: number; dy: number }> = {
+  W: { dx: 1, dy: 0 },
+  F: { dx: 1, dy: 1 },
+  D: { dx: 2, dy: 0 },
+  N: { dx: 2, dy: 1 },
+  A: { dx: 2, dy: 2 },
+  H: { dx: 3, dy: 0 },
+  C: { dx: 3, dy: 1 },
+  Z: { dx: 3, dy: 2 },
+  G: { dx: 3, dy: 3 },
+};
+
+const COMPOUNDS: Record<string, { leapers: string; rider: boolean }> = {
+  K: { leapers: 'WF', rider: false },
+  R: { leapers: 'W', rider: true },
+  B: { leapers: 'F', rider: true },
+  Q: { leapers: 'WF', rider: true },
+};
+
+const DIRECTIONS = 'fblrvs';
+const FLAGS = 'mcpgni';
+
+// =============================================================================
+// Directions
+// =============================================================================
+
+/**
+ * Check a single direction letter against a move.
+ * Vertical and sideways include the diagonals, so vF and sF are all four.
+ */
+function matchesDirection(letter: string, dx: number, dy: number): boolean {
+  switch (letter) {
+    case 'f':
+      return dy > 0;
+    case 'b':
+      return dy < 0;
+    case 'l':
+      return dx < 0;
+    case 'r':
+      return dx > 0;
+    case 'v':
+      return dy !== 0 && Math.abs(dy) >= Math.abs(dx);
+    case 's':
+      return dx !== 0 && Math.abs(dx) >= Math.abs(dy);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check a direction spec (one or two letters) against a move.
+ * A doubled letter narrows to the moves mostly in that direction (ffN),
+ * two different letters must both hold (flF, fsN).
+ */
+function matchesSpec(spec: string, dx: number, dy: number): boolean {
+  if (spec.length === 1) return matchesDirection(spec, dx, dy);
+  if (spec[0] === spec[1]) {
+    const axis = 'fbv'.includes(spec[0]) ? 'v' : 's';
+    return matchesDirection(spec[0], dx, dy) && matchesDirection(axis, dx, dy);
+  }
+  return matchesDirection(spec[0], dx, dy) && matchesDirection(spec[1], dx, dy);
+}
+
+/**
+ * Split direction letters into specs: a vertical letter next to a sideways
+ * one, or a doubled letter, makes a pair; anything else stands alone
+ */
+function splitDirections(letters: string): string[] {
+  const specs: string[] = [];
+  let i = 0;
+  while (i < letters.length) {
+    const current = letters[i];
+    const next = letters[i + 1];
+    const pairs =
+      next !== undefined &&
+      (next === current || 'fbv'.includes(current) !== 'fbv'.includes(next));
+    specs.push(pairs ? current + next : current);
+    i += pairs ? 2 : 1;
+  }
+  return specs;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a Betza string into the vectors move generation runs
+ */
+export function parseBetza(notation: string): BetzaParseResult {
+  const text = notation.trim();
+  if (!text) return { valid: false, reason: 'Empty Betza notation' };
+
+  const vectors: BetzaVector[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const start = i;
+    while (i < text.length && /[a-z]/.test(text[i])) i++;
+    const modifiers = text.slice(start, i);
+    const atom = text[i];
+    if (!atom) return { valid: false, reason: `Modifiers "${modifiers}" need an atom after them` };
+    if (!LEAPERS[atom] && !COMPOUNDS[atom]) return { valid: false, reason: `Unknown atom "${atom}"` };
+    i++;
+
+    for (const letter of modifiers) {
+      if (!DIRECTIONS.includes(letter) && !FLAGS.includes(letter)) {
+        return { valid: false, reason: `Unknown modifier "${letter}" in "${modifiers}${atom}"` };
+      }
+    }
+
+    // Range: a doubled atom rides without limit, a number limits the steps
+    let range = COMPOUNDS[atom]?.rider ? Infinity : 1;
+    if (text[i] === atom) {
+      range = Infinity;
+      i++;
+    } else {
+      const digits = text.slice(i).match(/^\d+/)?.[0];
+      if (digits) {
+        range = Number(digits) === 0 ? Infinity : Number(digits);
+        i += digits.length;
+      }
+    }
+
+    const group = `${modifiers}${atom}`;
+    const has = (flag: string) => modifiers.includes(flag);
+    const onlyMove = has('m') && !has('c');
+    const onlyCapture = has('c') && !has('m');
+    const hop: BetzaHop = has('p') ? 'cannon' : has('g') ? 'grasshopper' : 'none';
+
+    if (has('p') && has('g')) {
+      return { valid: false, reason: `"${group}" can't be both a cannon and a grasshopper hopper` };
+    }
+    if (hop !== 'none' && range < 2) {
+      return { valid: false, reason: `Hopper "${group}" needs a rider, e.g. pR` };
+    }
+
+    const specs = splitDirections([...modifiers].filter((l) => DIRECTIONS.includes(l)).join(''));
+    const leapers = COMPOUNDS[atom]?.leapers ?? atom;
+    const groupVectors: BetzaVector[] = [];
+
+    for (const leaper of leapers) {
+      const { dx, dy } = LEAPERS[leaper];
+      for (const offset of expandLeapOffset({ dx, dy, symmetric: true })) {
+        if (specs.length > 0 && !specs.some((spec) => matchesSpec(spec, offset.dx, offset.dy))) {
+          continue;
+        }
+        groupVectors.push({
+          dx: offset.dx,
+          dy: offset.dy,
+          range,
+          canMove: !onlyCapture,
+          canCapture: !onlyMove,
+          hop,
+          lame: has('n'),
+          initialOnly: has('i'),
+        });
+      }
+    }
+
+    for (const spec of specs) {
+      if (!groupVectors.some((v) => matchesSpec(spec, v.dx, v.dy))) {
+        return { valid: false, reason: `Direction "${spec}" does not apply to ${atom} in "${group}"` };
+      }
+    }
+    vectors.push(...groupVectors);
+  }
+
+  return { valid: true, vectors };
+}
+
+const compiled = new Map<string, BetzaVector[]>();
+
+/**
+ * Get the vectors of a Betza string, parsing each string once.
+ * Piece definitions must hold valid notation, so errors throw.
+ */
+export function compileBetza(notation: string): BetzaVector[] {
+  let vectors = compiled.get(notation);
+  if (!vectors) {
+    const result = parseBetza(notation);
+    if (!result.valid) throw new Error(`Invalid Betza notation "${notation}": ${result.reason}`);
+    vectors = result.vectors;
+    compiled.set(notation, vectors);
+  }
+  return vectors;
+}
+
+// =============================================================================
+// Describing Pieces
+// =============================================================================
+
+/** Betza for special movements that have an exact equivalent */
+const SPECIAL_BETZA: Partial<Record<SpecialMovement, string>> = {
+  'pawn-forward': 'fmWifmnD',
+  'pawn-capture-diagonal': 'fcF',
+  'shogi-pawn': 'fW',
+  'peasant-diagonal': 'fmFifmnA',
+  'peasant-capture-forward': 'fcW',
+  berolina: 'fmFifmnAfcW',
+  'king-one-square': 'K',
+  'herald-orthogonal': 'nD',
+  'gold-general': 'WfF',
+  'silver-general': 'FfW',
+  grasshopper: 'gQ',
+  nightrider: 'NN',
+  'knight-rider': 'N2',
+  'cannon-move': 'mRcpR',
+  'vao-move': 'mBcpB',
+};
+
+const SLIDE_BETZA = { orthogonal: 'R', diagonal: 'B', all: 'Q' } as const;
+
+/**
+ * Get the Betza string for a piece type: its `movement.betza`, or one built
+ * from its slides, leaps and specials. Returns null when part of the piece's
+ * movement or capture has no Betza equivalent (bouncing, swaps, Ultima-style
+ * captures, ...).
+ */
+export function describeBetza(pieceType: PieceType): string | null {
+  const { movement, captureType } = pieceType;
+  if (captureType !== 'standard' && captureType !== 'cannon') return null;
+
+  let notation = '';
+  for (const slide of movement.slides) notation += SLIDE_BETZA[slide];
+
+  for (const leap of movement.leaps) {
+    if (!leap.symmetric) return null;
+    const major = Math.max(Math.abs(leap.dx), Math.abs(leap.dy));
+    const minor = Math.min(Math.abs(leap.dx), Math.abs(leap.dy));
+    const atom = Object.keys(LEAPERS).find((a) => LEAPERS[a].dx === major && LEAPERS[a].dy === minor);
+    if (!atom) return null;
+    notation += leap.lame ? `n${atom}` : atom;
+  }
+
+  for (const special of movement.special) {
+    const betza = SPECIAL_BETZA[special];
+    if (!betza) return null;
+    notation += betza;
+  }
+
+  if (movement.betza) notation += movement.betza;
+  return notation || null;
+}
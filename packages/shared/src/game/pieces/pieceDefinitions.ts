@@ -50,6 +50,7 @@ export const PAWN: PieceType = {
   cost: 10,
   victoryPoints: 10,
   symbol: '♟',
+  abbreviation: 'P',
   description: 'Moves forward one square (two from start). Captures diagonally forward. Can promote on the last rank.',
   isRoyal: false,
   isMandatory: false,
@@ -65,6 +66,29 @@ export const PAWN: PieceType = {
   captureType: 'standard',
 };
 
+export const BEROLINA_PAWN: PieceType = {
+  id: 'berolina-pawn',
+  name: 'Berolina Pawn',
+  tier: 'pawn',
+  cost: 11,
+  victoryPoints: 11,
+  symbol: '♙',
+  abbreviation: 'BP',
+  description: 'Moves diagonally forward one square (two along the diagonal from start). Captures straight forward, including en passant. Can promote on the last rank.',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [],
+    special: ['berolina'],
+  },
+  captureType: 'standard',
+};
+
 export const SHOGI_PAWN: PieceType = {
   id: 'shogi-pawn',
   name: 'Shogi Pawn',
@@ -72,6 +96,7 @@ export const SHOGI_PAWN: PieceType = {
   cost: 12,
   victoryPoints: 12,
   symbol: '歩',
+  abbreviation: 'SP',
   description: 'Moves and captures forward one square only. No diagonal capture.',
   isRoyal: false,
   isMandatory: false,
@@ -94,6 +119,7 @@ export const PEASANT: PieceType = {
   cost: 13,
   victoryPoints: 13,
   symbol: '⚒',
+  abbreviation: 'PE',
   description: 'Moves diagonally forward one square. Captures by moving straight forward.',
   isRoyal: false,
   isMandatory: false,
@@ -116,6 +142,7 @@ export const BOXER: PieceType = {
   cost: 23,
   victoryPoints: 23,
   symbol: '⛨',
+  abbreviation: 'BX',
   description: 'Slides orthogonally. After moving, captures any orthogonally adjacent enemy that has a friendly piece directly on the opposite side.',
   isRoyal: false,
   isMandatory: false,
@@ -138,6 +165,7 @@ export const SOLDIER: PieceType = {
   cost: 36,
   victoryPoints: 36,
   symbol: '◎',
+  abbreviation: 'CO',
   description: 'Moves one square in any direction, like a King but without royal status.',
   isRoyal: false,
   isMandatory: false,
@@ -160,6 +188,7 @@ export const GOLD_GENERAL: PieceType = {
   cost: 29,
   victoryPoints: 29,
   symbol: '⬡',
+  abbreviation: 'G',
   description: 'Moves one square orthogonally or diagonally forward. Cannot move diagonally backward.',
   isRoyal: false,
   isMandatory: false,
@@ -182,6 +211,7 @@ export const SILVER_GENERAL: PieceType = {
   cost: 18,
   victoryPoints: 18,
   symbol: '⬢',
+  abbreviation: 'S',
   description: 'Moves one square diagonally (any direction) or straight forward. Cannot move orthogonally backward or sideways.',
   isRoyal: false,
   isMandatory: false,
@@ -204,6 +234,7 @@ export const FOOL: PieceType = {
   cost: 27,
   victoryPoints: 27,
   symbol: '🕷',
+  abbreviation: 'FO',
   description: 'Cannot be captured. Cannot be jumped over. Moves and captures forward one square only.',
   isRoyal: false,
   isMandatory: false,
@@ -226,6 +257,7 @@ export const CHECKER: PieceType = {
   cost: 11,
   victoryPoints: 11,
   symbol: '◉',
+  abbreviation: 'CK',
   description: 'Moves diagonally forward 1 square. Captures by jumping diagonally forward over an enemy. Promotes to Checker King.',
   isRoyal: false,
   isMandatory: false,
@@ -248,6 +280,7 @@ export const CHECKER_KING: PieceType = {
   cost: 35,
   victoryPoints: 35,
   symbol: '◎',
+  abbreviation: 'CKK',
   description: 'Promoted Checker piece. Moves diagonally 1 square any direction. Captures by jumping diagonally over enemies.',
   isRoyal: false,
   isMandatory: false,
@@ -277,6 +310,7 @@ export const CATAPULT: PieceType = {
   cost: 2,
   victoryPoints: 2,
   symbol: '⛢',
+  abbreviation: 'CT',
   description: 'Leaps exactly 3 squares orthogonally. Jumps over any pieces in the way.',
   isRoyal: false,
   isMandatory: false,
@@ -299,6 +333,7 @@ export const LANCER: PieceType = {
   cost: 8,
   victoryPoints: 8,
   symbol: '↟',
+  abbreviation: 'L',
   description: 'Leaps in an extended L-shape (3 squares in one direction, 1 perpendicular). Like a stretched knight.',
   isRoyal: false,
   isMandatory: false,
@@ -321,6 +356,7 @@ export const ZEBRA: PieceType = {
   cost: 12,
   victoryPoints: 12,
   symbol: '⋄',
+  abbreviation: 'Z',
   description: 'Leaps in a (3,2) pattern — like a knight but stretched. Always lands on a different color square.',
   isRoyal: false,
   isMandatory: false,
@@ -336,6 +372,124 @@ export const ZEBRA: PieceType = {
   captureType: 'standard',
 };
 
+export const GIRAFFE: PieceType = {
+  id: 'giraffe',
+  name: 'Giraffe',
+  tier: 'piece',
+  cost: 18,
+  victoryPoints: 18,
+  symbol: '⇑',
+  abbreviation: 'GI',
+  description: 'Leaps in a (4,1) pattern — a knight stretched even further than the Camel.',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [{ dx: 4, dy: 1, symmetric: true }],
+    special: [],
+  },
+  captureType: 'standard',
+};
+
+export const WAZIR: PieceType = {
+  id: 'wazir',
+  name: 'Wazir',
+  tier: 'piece',
+  cost: 12,
+  victoryPoints: 12,
+  symbol: '✚',
+  abbreviation: 'W',
+  description: 'Moves one square orthogonally. The shatranj ancestor of the rook-like short pieces.',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [{ dx: 1, dy: 0, symmetric: true }],
+    special: [],
+  },
+  captureType: 'standard',
+};
+
+export const FERZ: PieceType = {
+  id: 'ferz',
+  name: 'Ferz',
+  tier: 'piece',
+  cost: 12,
+  victoryPoints: 12,
+  symbol: '✖',
+  abbreviation: 'F',
+  description: 'Moves one square diagonally. The shatranj piece that became the Queen.',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [{ dx: 1, dy: 1, symmetric: true }],
+    special: [],
+  },
+  captureType: 'standard',
+};
+
+export const ELEPHANT: PieceType = {
+  id: 'elephant',
+  name: 'Elephant',
+  tier: 'piece',
+  cost: 10,
+  victoryPoints: 10,
+  symbol: '象',
+  abbreviation: 'EL',
+  description: 'Leaps exactly two squares diagonally, but is blocked by a piece on the square in between.',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [{ dx: 2, dy: 2, symmetric: true, lame: true }],
+    special: [],
+  },
+  captureType: 'standard',
+};
+
+export const ADVISOR: PieceType = {
+  id: 'advisor',
+  name: 'Advisor',
+  tier: 'piece',
+  cost: 26,
+  victoryPoints: 26,
+  symbol: '士',
+  abbreviation: 'AD',
+  description: 'Moves one square in any direction, like a King that is not royal (the Janggi advisor without its palace).',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [
+      { dx: 1, dy: 0, symmetric: true },
+      { dx: 1, dy: 1, symmetric: true },
+    ],
+    special: [],
+  },
+  captureType: 'standard',
+};
+
 export const WIZARD: PieceType = {
   id: 'wizard',
   name: 'Wizard',
@@ -343,6 +497,7 @@ export const WIZARD: PieceType = {
   cost: 40,
   victoryPoints: 40,
   symbol: '✴',
+  abbreviation: 'WZ',
   description: 'Bishop + Camel combined. Slides diagonally any number of squares, or leaps in a (3,1) pattern.',
   isRoyal: false,
   isMandatory: false,
@@ -365,6 +520,7 @@ export const BISON: PieceType = {
   cost: 130,
   victoryPoints: 130,
   symbol: '⬟',
+  abbreviation: 'BI',
   description: 'Camel + Zebra combined. Leaps in either a (3,1) or (3,2) pattern.',
   isRoyal: false,
   isMandatory: false,
@@ -390,6 +546,7 @@ export const CHAMBERLAIN: PieceType = {
   cost: 18,
   victoryPoints: 18,
   symbol: '⚷',
+  abbreviation: 'CB',
   description: 'Leaps 2 squares orthogonally (Dabbaba). Can swap with adjacent King. Can castle.',
   isRoyal: false,
   isMandatory: false,
@@ -412,6 +569,7 @@ export const COURTESAN: PieceType = {
   cost: 22,
   victoryPoints: 22,
   symbol: '⊕',
+  abbreviation: 'CS',
   description: 'Leaps 1 or 2 squares diagonally (Ferz + Alfil combined).',
   isRoyal: false,
   isMandatory: false,
@@ -437,6 +595,7 @@ export const THIEF: PieceType = {
   cost: 29,
   victoryPoints: 29,
   symbol: '◆',
+  abbreviation: 'T',
   description: 'Leaps 2 squares in any direction. Captures the piece on the square past its landing spot.',
   isRoyal: false,
   isMandatory: false,
@@ -463,6 +622,7 @@ export const KNIGHT: PieceType = {
   cost: 31,
   victoryPoints: 31,
   symbol: '♞',
+  abbreviation: 'N',
   description: 'Leaps in an L-shape: 2 squares in one direction, then 1 square perpendicular.',
   isRoyal: false,
   isMandatory: false,
@@ -474,6 +634,52 @@ export const KNIGHT: PieceType = {
   captureType: 'standard',
 };
 
+export const HORSE: PieceType = {
+  id: 'horse',
+  name: 'Horse',
+  tier: 'piece',
+  cost: 26,
+  victoryPoints: 26,
+  symbol: '馬',
+  abbreviation: 'HO',
+  description: 'Moves like a Knight, but is blocked by a piece on the square orthogonally next to it in the direction of the longer step.',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [{ dx: 2, dy: 1, symmetric: true, lame: true }],
+    special: [],
+  },
+  captureType: 'standard',
+};
+
+export const KNIGHT_RIDER: PieceType = {
+  id: 'knight-rider',
+  name: 'Knight-rider',
+  tier: 'piece',
+  cost: 45,
+  victoryPoints: 45,
+  symbol: '⚞',
+  abbreviation: 'KR',
+  description: 'Makes one or two knight jumps in the same direction. The first landing square must be empty to jump again.',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [],
+    special: ['knight-rider'],
+  },
+  captureType: 'standard',
+};
+
 export const HERALD: PieceType = {
   id: 'herald',
   name: 'Herald',
@@ -481,6 +687,7 @@ export const HERALD: PieceType = {
   cost: 32,
   victoryPoints: 32,
   symbol: '⚑',
+  abbreviation: 'H',
   description: 'Moves 2 squares orthogonally (blockable). Cannot capture but freezes ALL adjacent pieces.',
   isRoyal: false,
   isMandatory: false,
@@ -503,6 +710,7 @@ export const BISHOP: PieceType = {
   cost: 34,
   victoryPoints: 34,
   symbol: '♝',
+  abbreviation: 'B',
   description: 'Slides any number of squares diagonally.',
   isRoyal: false,
   isMandatory: false,
@@ -521,6 +729,7 @@ export const PONTIFF: PieceType = {
   cost: 47,
   victoryPoints: 47,
   symbol: '✟',
+  abbreviation: 'PO',
   description: 'Slides diagonally like a Bishop. Can bounce off board edges to continue moving.',
   isRoyal: false,
   isMandatory: false,
@@ -543,6 +752,7 @@ export const ROOK: PieceType = {
   cost: 50,
   victoryPoints: 50,
   symbol: '♜',
+  abbreviation: 'R',
   description: 'Slides any number of squares orthogonally (horizontally or vertically). Can castle.',
   isRoyal: false,
   isMandatory: false,
@@ -561,6 +771,7 @@ export const DRAGON_HORSE: PieceType = {
   cost: 56,
   victoryPoints: 56,
   symbol: '⋈',
+  abbreviation: 'DH',
   description: 'Slides diagonally like a Bishop, plus can step 1 square orthogonally.',
   isRoyal: false,
   isMandatory: false,
@@ -585,6 +796,7 @@ export const DRAGON: PieceType = {
   cost: 64,
   victoryPoints: 64,
   symbol: '龍',
+  abbreviation: 'DR',
   description: 'Slides orthogonally like a Rook, plus can step 1 square diagonally. Can castle.',
   isRoyal: false,
   isMandatory: false,
@@ -609,6 +821,7 @@ export const CHAMELEON: PieceType = {
   cost: 67,
   victoryPoints: 67,
   symbol: '☯',
+  abbreviation: 'CM',
   description: 'Moves and captures like whatever piece it is capturing. Very versatile.',
   isRoyal: false,
   isMandatory: false,
@@ -631,6 +844,7 @@ export const COORDINATOR: PieceType = {
   cost: 69,
   victoryPoints: 69,
   symbol: '✠',
+  abbreviation: 'CD',
   description: 'Slides like a Queen. Captures enemies at squares aligned with both itself and your King.',
   isRoyal: false,
   isMandatory: false,
@@ -649,6 +863,7 @@ export const LONG_LEAPER: PieceType = {
   cost: 78,
   victoryPoints: 78,
   symbol: '⟿',
+  abbreviation: 'LL',
   description: 'Moves by jumping over enemies (checker-style). Can make multiple jumps in one turn.',
   isRoyal: false,
   isMandatory: false,
@@ -671,6 +886,7 @@ export const INQUISITOR: PieceType = {
   cost: 80,
   victoryPoints: 80,
   symbol: '⚖',
+  abbreviation: 'I',
   description: 'Moves 1-2 squares diagonally. Cannot capture but freezes adjacent enemies.',
   isRoyal: false,
   isMandatory: false,
@@ -696,6 +912,7 @@ export const IMMOBILIZER: PieceType = {
   cost: 160,
   victoryPoints: 160,
   symbol: '❄',
+  abbreviation: 'IM',
   description: 'Slides like a Queen. Cannot capture but freezes all adjacent enemies.',
   isRoyal: false,
   isMandatory: false,
@@ -716,6 +933,7 @@ export const ARCHBISHOP: PieceType = {
   cost: 72,
   victoryPoints: 72,
   symbol: '☩',
+  abbreviation: 'A',
   description: 'Combines Bishop and Knight movement. Can slide diagonally or leap like a knight.',
   isRoyal: false,
   isMandatory: false,
@@ -738,6 +956,7 @@ export const CHANCELLOR: PieceType = {
   cost: 85,
   victoryPoints: 85,
   symbol: '⛫',
+  abbreviation: 'C',
   description: 'Combines Rook and Knight movement. Can slide orthogonally or leap like a knight.',
   isRoyal: false,
   isMandatory: false,
@@ -760,6 +979,7 @@ export const GRASSHOPPER: PieceType = {
   cost: 28,
   victoryPoints: 28,
   symbol: '⌖',
+  abbreviation: 'GH',
   description: 'Moves along Queen lines but must hop over exactly one piece, landing immediately beyond it.',
   isRoyal: false,
   isMandatory: false,
@@ -782,6 +1002,7 @@ export const NIGHTRIDER: PieceType = {
   cost: 70,
   victoryPoints: 70,
   symbol: '♘',
+  abbreviation: 'NR',
   description: 'Repeats knight moves in the same direction. Like a knight that can keep going.',
   isRoyal: false,
   isMandatory: false,
@@ -804,6 +1025,7 @@ export const CANNON: PieceType = {
   cost: 48,
   victoryPoints: 48,
   symbol: '砲',
+  abbreviation: 'CN',
   description: 'Moves like a Rook. Captures by hopping over exactly one piece (the screen) to hit a target beyond.',
   isRoyal: false,
   isMandatory: false,
@@ -819,6 +1041,52 @@ export const CANNON: PieceType = {
   captureType: 'cannon',
 };
 
+export const VAO: PieceType = {
+  id: 'vao',
+  name: 'Vao',
+  tier: 'piece',
+  cost: 35,
+  victoryPoints: 35,
+  symbol: '礮',
+  abbreviation: 'V',
+  description: 'Moves like a Bishop. Captures by hopping diagonally over exactly one piece (the screen) to hit a target beyond.',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [],
+    special: ['vao-move'],
+  },
+  captureType: 'cannon',
+};
+
+export const JANGGI_CANNON: PieceType = {
+  id: 'janggi-cannon',
+  name: 'Janggi Cannon',
+  tier: 'piece',
+  cost: 38,
+  victoryPoints: 38,
+  symbol: '包',
+  abbreviation: 'JC',
+  description: 'Must hop over exactly one piece orthogonally to move or capture. Can neither hop over nor capture another Janggi Cannon.',
+  isRoyal: false,
+  isMandatory: false,
+  canCastle: false,
+  canBeCaptured: true,
+  canFreeze: false,
+  canBeJumpedOver: true,
+  movement: {
+    slides: [],
+    leaps: [],
+    special: ['janggi-cannon'],
+  },
+  captureType: 'cannon',
+};
+
 // =============================================================================
 // Tier 3: Royalty
 // =============================================================================
@@ -830,6 +1098,7 @@ export const KING: PieceType = {
   cost: 0,
   victoryPoints: 0,
   symbol: '♚',
+  abbreviation: 'K',
   description: 'Moves one square in any direction. Must be protected from checkmate. Can castle.',
   isRoyal: true, // Can be checkmated
   isMandatory: true, // Must be included
@@ -848,6 +1117,7 @@ export const PHANTOM_KING: PieceType = {
   cost: 26,
   victoryPoints: 26,
   symbol: '♔',
+  abbreviation: 'PK',
   description: 'Moves one square like a King. Can also swap places with any adjacent friendly piece.',
   isRoyal: true, // Can be checkmated
   isMandatory: false,
@@ -871,6 +1141,7 @@ export const WITHDRAWER: PieceType = {
   cost: 34,
   victoryPoints: 34,
   symbol: '⇤',
+  abbreviation: 'WD',
   description: 'Slides like a Queen. Captures by moving directly away from an adjacent enemy.',
   isRoyal: false,
   isMandatory: false,
@@ -889,6 +1160,7 @@ export const JESTER: PieceType = {
   cost: -15,
   victoryPoints: -15, // Negative VP!
   symbol: '☆',
+  abbreviation: 'J',
   description: 'Slides like a Queen. Cannot capture or be captured. Worth negative victory points!',
   isRoyal: false,
   isMandatory: false,
@@ -907,6 +1179,7 @@ export const QUEEN: PieceType = {
   cost: 95,
   victoryPoints: 95,
   symbol: '♛',
+  abbreviation: 'Q',
   description: 'Slides any number of squares in any direction (orthogonal or diagonal).',
   isRoyal: false,
   isMandatory: false,
@@ -925,6 +1198,7 @@ export const FAIRY_QUEEN: PieceType = {
   cost: 130,
   victoryPoints: 130,
   symbol: '✧',
+  abbreviation: 'AM',
   description: 'Queen + Knight combined. Slides in any direction or leaps like a knight.',
   isRoyal: false,
   isMandatory: false,
@@ -947,6 +1221,7 @@ export const REGENT: PieceType = {
   cost: 155,
   victoryPoints: 155,
   symbol: '⚜',
+  abbreviation: 'RG',
   description: 'Replaces King. Moves 2 squares any direction normally. Becomes a Queen if your other royal is captured.',
   isRoyal: true, // Can be checkmated (acts as king)
   isMandatory: false,
@@ -974,9 +1249,11 @@ export const MERCENARY: PieceType = {
   cost: 0,
   victoryPoints: 5,
   symbol: '⛏',
-  description: 'A captured pawn that switched sides. Moves and captures like a standard Pawn.',
+  abbreviation: 'MC',
+  description: 'Starts neutral; joins the first player to move next to it. Moves and captures like a standard Pawn.',
   isRoyal: false,
   isMandatory: false,
+  startsNeutral: true,
   canCastle: false,
   canBeCaptured: true,
   canFreeze: false,
@@ -996,6 +1273,7 @@ export const MERCENARY: PieceType = {
 export const ALL_PIECES: PieceType[] = [
   // Tier 1: Pawns
   PAWN,
+  BEROLINA_PAWN,
   SHOGI_PAWN,
   PEASANT,
   BOXER,
@@ -1009,12 +1287,19 @@ export const ALL_PIECES: PieceType[] = [
   CATAPULT,
   LANCER,
   ZEBRA,
+  GIRAFFE,
+  WAZIR,
+  FERZ,
+  ELEPHANT,
+  ADVISOR,
   WIZARD,
   BISON,
   CHAMBERLAIN,
   COURTESAN,
   THIEF,
   KNIGHT,
+  HORSE,
+  KNIGHT_RIDER,
   HERALD,
   BISHOP,
   PONTIFF,
@@ -1031,6 +1316,8 @@ export const ALL_PIECES: PieceType[] = [
   GRASSHOPPER,
   NIGHTRIDER,
   CANNON,
+  VAO,
+  JANGGI_CANNON,
   CHECKER_KING,
 
   // Tier 3: Royalty
@@ -1050,6 +1337,10 @@ export const PIECE_BY_ID: Record<string, PieceType> = Object.fromEntries(
   ALL_PIECES.map((p) => [p.id, p])
 );
 
+export const PIECE_BY_ABBREVIATION: Record<string, PieceType> = Object.fromEntries(
+  ALL_PIECES.map((p) => [p.abbreviation, p])
+);
+
 export const PIECES_BY_TIER: Record<string, PieceType[]> = {
   pawn: ALL_PIECES.filter((p) => p.tier === 'pawn'),
   piece: ALL_PIECES.filter((p) => p.tier === 'piece'),
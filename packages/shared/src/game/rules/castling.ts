@@ -2,17 +2,19 @@
  * Castling logic
  */
 
-import type { Position, BoardState, PieceInstance } from '../types';
+import type { Position, BoardState, BoardDimensions, PieceInstance, PlayerColor } from '../types';
 import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
 import {
   getAllPieces,
-  fileToIndex,
-  indexToFile,
-  getHomeRank,
-  getOpponentColor,
+  getMoverColor,
+  getFileDelta,
+  getRelativeRank,
+  getSquaresBetween,
+  isSideSeat,
+  offsetPosition,
   isSquareEmpty,
 } from '../board/boardUtils';
-import { isSquareAttacked, isInCheck } from './checkDetection';
+import { isSquareAttackedByOpponents, isInCheck } from './checkDetection';
 
 // =============================================================================
 // Types
@@ -26,6 +28,27 @@ export interface CastlingMove {
   isKingside: boolean;
 }
 
+// =============================================================================
+// Home Line
+// =============================================================================
+
+/**
+ * Castling runs along a player's home line: the back rank for White and
+ * Black, the back file for the free-for-all side seats. Kingside is towards
+ * the last file, or for the side seats towards the top rank.
+ */
+function getLineDelta(from: Position, to: Position, color: PlayerColor, dimensions: BoardDimensions): number {
+  return isSideSeat(color) ? to.rank - from.rank : getFileDelta(from, to, dimensions);
+}
+
+function getLineStep(color: PlayerColor, steps: number): { dx: number; dy: number } {
+  return isSideSeat(color) ? { dx: 0, dy: steps } : { dx: steps, dy: 0 };
+}
+
+function isOnSameLine(a: Position, b: Position, color: PlayerColor): boolean {
+  return isSideSeat(color) ? a.file === b.file : a.rank === b.rank;
+}
+
 // =============================================================================
 // Castling Detection
 // =============================================================================
@@ -47,46 +70,48 @@ export function getCastlingMoves(
   if (!pieceType.isRoyal) return [];
 
   // Can't castle while in check
-  if (isInCheck(board, king.owner)) return [];
+  const color = getMoverColor(king);
+  if (isInCheck(board, color)) return [];
 
   const castlingMoves: CastlingMove[] = [];
-  const homeRank = getHomeRank(king.owner);
 
   // Find all pieces that can castle (rooks, dragons, chamberlains)
-  const friendlyPieces = getAllPieces(board, king.owner);
+  const friendlyPieces = getAllPieces(board, color);
   const castleablePieces = friendlyPieces.filter((p) => {
     const pType = PIECE_BY_ID[p.typeId];
-    return pType?.canCastle && !pType.isRoyal && !p.hasMoved && p.position?.rank === homeRank;
+    return (
+      pType?.canCastle &&
+      !pType.isRoyal &&
+      !p.hasMoved &&
+      p.position &&
+      getRelativeRank(p.position, color, board.dimensions) === 1
+    );
   });
 
   for (const rook of castleablePieces) {
     if (!rook.position) continue;
 
-    const rookFileIndex = fileToIndex(rook.position.file);
-    const kingFileIndex = fileToIndex(king.position.file);
-
-    // Determine if kingside or queenside
-    const isKingside = rookFileIndex > kingFileIndex;
+    // Determine if kingside or queenside (on a cylinder, the rook's side is
+    // the shorter way round from the king)
+    const isKingside = getLineDelta(king.position, rook.position, color, board.dimensions) > 0;
 
     // Check if castling is valid
     if (canCastle(board, king, rook, isKingside)) {
       // Calculate king and rook destination
-      const kingDx = isKingside ? 2 : -2;
-      const kingToFile = indexToFile(kingFileIndex + kingDx);
-
-      if (kingToFile) {
-        const rookToFileIndex = kingFileIndex + (isKingside ? 1 : -1);
-        const rookToFile = indexToFile(rookToFileIndex);
-
-        if (rookToFile) {
-          castlingMoves.push({
-            kingTo: { file: kingToFile, rank: homeRank },
-            rookId: rook.id,
-            rookFrom: rook.position,
-            rookTo: { file: rookToFile, rank: homeRank },
-            isKingside,
-          });
-        }
+      const direction = isKingside ? 1 : -1;
+      const kingStep = getLineStep(color, direction * 2);
+      const rookStep = getLineStep(color, direction);
+      const kingTo = offsetPosition(king.position, kingStep.dx, kingStep.dy, board.dimensions);
+      const rookTo = offsetPosition(king.position, rookStep.dx, rookStep.dy, board.dimensions);
+
+      if (kingTo && rookTo) {
+        castlingMoves.push({
+          kingTo,
+          rookId: rook.id,
+          rookFrom: rook.position,
+          rookTo,
+          isKingside,
+        });
       }
     }
   }
@@ -108,45 +133,29 @@ export function canCastle(
   // Both pieces must not have moved
   if (king.hasMoved || rook.hasMoved) return false;
 
-  // Must be on same rank
-  if (king.position.rank !== rook.position.rank) return false;
+  // Must be on the same home line (the same rank for White and Black)
+  const color = getMoverColor(king);
+  if (!isOnSameLine(king.position, rook.position, color)) return false;
 
   // Cannot castle if starting adjacent (per PLANNING.md rules)
-  const kingFileIndex = fileToIndex(king.position.file);
-  const rookFileIndex = fileToIndex(rook.position.file);
-  if (Math.abs(kingFileIndex - rookFileIndex) === 1) return false;
+  const dx = getLineDelta(king.position, rook.position, color, board.dimensions);
+  if (Math.abs(dx) === 1) return false;
 
   // Cannot castle if in check
-  if (isInCheck(board, king.owner)) return false;
+  if (isInCheck(board, color)) return false;
 
   // Check path between king and rook is clear
-  const minFile = Math.min(kingFileIndex, rookFileIndex);
-  const maxFile = Math.max(kingFileIndex, rookFileIndex);
-  const rank = king.position.rank;
-
-  for (let f = minFile + 1; f < maxFile; f++) {
-    const file = indexToFile(f);
-    if (file) {
-      const pos: Position = { file, rank };
-      if (!isSquareEmpty(board, pos)) {
-        return false;
-      }
-    }
-  }
+  const direction = isKingside ? 1 : -1;
+  const step = getLineStep(color, direction);
+  const path = getSquaresBetween(king.position, rook.position, step.dx, step.dy, board.dimensions);
+  if (!path || !path.every((pos) => isSquareEmpty(board, pos))) return false;
 
   // King cannot pass through or land on attacked squares
-  const enemyColor = getOpponentColor(king.owner);
-
   // Check each square the king passes through (including destination)
-  const direction = isKingside ? 1 : -1;
   for (let i = 1; i <= 2; i++) {
-    const checkFileIndex = kingFileIndex + (direction * i);
-    const checkFile = indexToFile(checkFileIndex);
-    if (checkFile) {
-      const checkPos: Position = { file: checkFile, rank };
-      if (isSquareAttacked(board, checkPos, enemyColor)) {
-        return false;
-      }
+    const checkPos = offsetPosition(king.position, step.dx * i, step.dy * i, board.dimensions);
+    if (checkPos && isSquareAttackedByOpponents(board, checkPos, color)) {
+      return false;
     }
   }
 
@@ -166,10 +175,11 @@ export function isCastlingMove(
   const pieceType = PIECE_BY_ID[king.typeId];
   if (!pieceType?.isRoyal) return null;
 
-  // King must move exactly 2 squares horizontally
-  const dx = fileToIndex(to.file) - fileToIndex(king.position.file);
+  // King must move exactly 2 squares along its home line
+  const color = getMoverColor(king);
+  const dx = getLineDelta(king.position, to, color, board.dimensions);
   if (Math.abs(dx) !== 2) return null;
-  if (to.rank !== king.position.rank) return null;
+  if (!isOnSameLine(king.position, to, color)) return null;
 
   // Find matching castling move
   const castlingMoves = getCastlingMoves(board, king);
@@ -2,22 +2,41 @@
  * Check detection and legal move filtering
  */
 
-import type { Position, BoardState, PieceInstance, PlayerColor, File, Rank } from '../types';
+import type { Position, BoardState, PieceInstance, PlayerColor } from '../types';
 import { positionToString } from '../types';
 import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
 import {
   getKing,
   getAllPieces,
+  getMoverColor,
   cloneBoardState,
   createPositionMap,
-  getOpponentColor,
+  getOpponentColors,
+  orientVector,
   getPieceAt,
   areAdjacent,
-  fileToIndex,
   offsetPosition,
   isSquareEmpty,
+  hasSquareIndex,
+  isEnPassantCapture,
+  getEnPassantCapturePosition,
+  getDirectionVectors,
+  getFileDelta,
+  getSquaresBetween,
 } from '../board/boardUtils';
-import { getAttackedSquares, generatePseudoLegalMoves } from '../board/moveGeneration';
+import {
+  getAttackedSquares,
+  generatePseudoLegalMoves,
+  getBetzaAttackSquares,
+  isMoveInList,
+  canReachByKnightLine,
+  canCannonCapture,
+  canReachBySlide,
+  canReachByLeap,
+  KNIGHT_RIDER_JUMPS,
+} from '../board/moveGeneration';
+import type { BoardCore } from '../board/boardCore';
+import { createBoardCore, makeMove, unmakeMove } from '../board/boardCore';
 import { updateFrozenStates } from './freeze';
 
 // =============================================================================
@@ -35,7 +54,7 @@ function canCoordinatorThreaten(
 ): boolean {
   if (!coordinator.position || coordinator.isFrozen) return false;
 
-  const friendlyKing = getKing(board, coordinator.owner);
+  const friendlyKing = getKing(board, getMoverColor(coordinator));
   if (!friendlyKing?.position) return false;
 
   // Get all positions the coordinator can move to
@@ -66,15 +85,11 @@ function canBoxerThreaten(
 ): boolean {
   if (!boxer.position || boxer.isFrozen) return false;
 
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
   const moves = generatePseudoLegalMoves(board, boxer, null);
 
   for (const boxerNewPos of moves) {
-    const boxerFileIndex = files.indexOf(boxerNewPos.file);
-    const targetFileIndex = files.indexOf(targetPos.file);
-
     // Check if target would be orthogonally adjacent to boxer's new position
-    const dx = targetFileIndex - boxerFileIndex;
+    const dx = getFileDelta(boxerNewPos, targetPos, board.dimensions);
     const dy = targetPos.rank - boxerNewPos.rank;
 
     // Must be orthogonally adjacent (not diagonal)
@@ -83,16 +98,8 @@ function canBoxerThreaten(
     }
 
     // Check if there's a friendly piece on the opposite side of the target
-    const oppositeFileIndex = targetFileIndex + dx;
-    const oppositeRank = targetPos.rank + dy;
-
-    if (oppositeFileIndex < 0 || oppositeFileIndex >= files.length) continue;
-    if (oppositeRank < 1 || oppositeRank > board.dimensions.ranks) continue;
-
-    const oppositePos: Position = {
-      file: files[oppositeFileIndex],
-      rank: oppositeRank as Rank,
-    };
+    const oppositePos = offsetPosition(targetPos, dx, dy, board.dimensions);
+    if (!oppositePos) continue;
 
     // Simulate the board after boxer moves
     const pieceAtOpposite = getPieceAt(board, oppositePos);
@@ -122,10 +129,10 @@ function canWithdrawerThreaten(
   if (!withdrawer.position || withdrawer.isFrozen) return false;
 
   // Withdrawer must be adjacent to the target to threaten it
-  if (!areAdjacent(withdrawer.position, targetPos)) return false;
+  if (!areAdjacent(withdrawer.position, targetPos, board.dimensions)) return false;
 
   // Calculate direction from target to withdrawer
-  const dx = fileToIndex(withdrawer.position.file) - fileToIndex(targetPos.file);
+  const dx = getFileDelta(targetPos, withdrawer.position, board.dimensions);
   const dy = withdrawer.position.rank - targetPos.rank;
 
   // Withdrawer threatens if it can move in the same direction (away from target)
@@ -133,7 +140,7 @@ function canWithdrawerThreaten(
   const moves = generatePseudoLegalMoves(board, withdrawer, null);
 
   for (const move of moves) {
-    const moveDx = fileToIndex(move.file) - fileToIndex(withdrawer.position.file);
+    const moveDx = getFileDelta(withdrawer.position, move, board.dimensions);
     const moveDy = move.rank - withdrawer.position.rank;
 
     // Move must be in the same direction as dx, dy (moving away from target)
@@ -160,7 +167,7 @@ function canThiefThreaten(
 
   for (const move of moves) {
     // Calculate direction of movement
-    const dx = fileToIndex(move.file) - fileToIndex(thief.position.file);
+    const dx = getFileDelta(thief.position, move, board.dimensions);
     const dy = move.rank - thief.position.rank;
 
     // Normalize to get step direction
@@ -180,8 +187,9 @@ function canThiefThreaten(
 }
 
 /**
- * Check if a Cannon can capture the target position
- * Cannon captures by hopping over exactly one piece (screen) orthogonally to hit a target beyond
+ * Check if a Cannon, Vao or Janggi cannon can capture the target position
+ * All capture by hopping over exactly one piece (screen) to hit a target beyond:
+ * the Vao diagonally, the others orthogonally
  */
 function canCannonThreaten(
   board: BoardState,
@@ -190,35 +198,10 @@ function canCannonThreaten(
 ): boolean {
   if (!cannon.position || cannon.isFrozen) return false;
 
-  // Check if cannon and target are on the same orthogonal line
-  const dx = fileToIndex(targetPos.file) - fileToIndex(cannon.position.file);
-  const dy = targetPos.rank - cannon.position.rank;
-
-  // Must be orthogonal (same file or same rank, but not same square)
-  if ((dx !== 0 && dy !== 0) || (dx === 0 && dy === 0)) return false;
-
-  const stepX = dx === 0 ? 0 : dx > 0 ? 1 : -1;
-  const stepY = dy === 0 ? 0 : dy > 0 ? 1 : -1;
-
-  // Count pieces between cannon and target - need exactly one (the screen)
-  let piecesInBetween = 0;
-  let currentPos = cannon.position;
+  const cannonType = PIECE_BY_ID[cannon.typeId];
+  if (!cannonType) return false;
 
-  while (true) {
-    currentPos = offsetPosition(currentPos, stepX, stepY, board.dimensions)!;
-    if (!currentPos) return false;
-
-    // Reached target position - check if we had exactly one screen piece
-    if (currentPos.file === targetPos.file && currentPos.rank === targetPos.rank) {
-      return piecesInBetween === 1;
-    }
-
-    // Count pieces in between
-    if (!isSquareEmpty(board, currentPos)) {
-      piecesInBetween++;
-      if (piecesInBetween > 1) return false; // Too many pieces, can't cannon-capture
-    }
-  }
+  return canCannonCapture(board, cannon.position, targetPos, cannonType.movement.special);
 }
 
 /**
@@ -232,44 +215,15 @@ function canLongLeaperThreaten(
 ): boolean {
   if (!longLeaper.position || longLeaper.isFrozen) return false;
 
-  // Check if Long Leaper can jump over the target
-  // The target must be in a straight line from the Long Leaper
-  const dx = fileToIndex(targetPos.file) - fileToIndex(longLeaper.position.file);
-  const dy = targetPos.rank - longLeaper.position.rank;
-
-  // Must be in a straight line (orthogonal or diagonal)
-  if (dx !== 0 && dy !== 0 && Math.abs(dx) !== Math.abs(dy)) {
-    return false;
-  }
+  // The Long Leaper jumps over the target along a Queen line: the path up to
+  // the target must be clear, and the square just past it empty
+  return getDirectionVectors('all').some((dir) => {
+    const path = getSquaresBetween(longLeaper.position!, targetPos, dir.dx, dir.dy, board.dimensions);
+    if (!path || !path.every((pos) => isSquareEmpty(board, pos))) return false;
 
-  // Must not be the same square
-  if (dx === 0 && dy === 0) {
-    return false;
-  }
-
-  const stepX = dx === 0 ? 0 : dx / Math.abs(dx);
-  const stepY = dy === 0 ? 0 : dy / Math.abs(dy);
-
-  // Check that path to target is clear
-  let currentPos = longLeaper.position;
-  while (true) {
-    currentPos = offsetPosition(currentPos, stepX, stepY, board.dimensions)!;
-    if (!currentPos) return false;
-
-    if (currentPos.file === targetPos.file && currentPos.rank === targetPos.rank) {
-      // Reached the target - now check if we can land past it
-      const landingPos = offsetPosition(currentPos, stepX, stepY, board.dimensions);
-      if (landingPos && isSquareEmpty(board, landingPos)) {
-        return true;
-      }
-      return false;
-    }
-
-    // Path must be clear before reaching target
-    if (!isSquareEmpty(board, currentPos)) {
-      return false;
-    }
-  }
+    const landingPos = offsetPosition(targetPos, dir.dx, dir.dy, board.dimensions);
+    return landingPos !== null && isSquareEmpty(board, landingPos);
+  });
 }
 
 /**
@@ -296,14 +250,14 @@ function canChameleonThreaten(
   // Check target's movement patterns
   // Slides
   for (const slideDir of targetType.movement.slides) {
-    if (canReachBySlide(board, chameleon.position, targetPos, slideDir as 'orthogonal' | 'diagonal' | 'all', chameleon.owner)) {
+    if (canReachBySlide(board, chameleon.position, targetPos, slideDir as 'orthogonal' | 'diagonal' | 'all', getMoverColor(chameleon))) {
       return true;
     }
   }
 
   // Leaps
   for (const leap of targetType.movement.leaps) {
-    if (canReachByLeap(chameleon.position, targetPos, leap, board.dimensions)) {
+    if (canReachByLeap(board, chameleon.position, targetPos, leap)) {
       return true;
     }
   }
@@ -315,6 +269,14 @@ function canChameleonThreaten(
     }
   }
 
+  // Betza moves: the Chameleon can capture exactly when the target could capture it
+  if (
+    targetType.movement.betza &&
+    isMoveInList(getBetzaAttackSquares(board, targetPiece, targetType.movement.betza), chameleon.position)
+  ) {
+    return true;
+  }
+
   // Check if chameleon can capture via long-leaper-style jump (if any long leaper in path)
   if (canChameleonCaptureLongLeaperStyle(board, chameleon, targetPos)) {
     return true;
@@ -334,7 +296,7 @@ function canChameleonReachWithSpecial(
 ): boolean {
   if (!chameleon.position) return false;
 
-  const dx = fileToIndex(targetPos.file) - fileToIndex(chameleon.position.file);
+  const dx = getFileDelta(chameleon.position, targetPos, board.dimensions);
   const dy = targetPos.rank - chameleon.position.rank;
 
   switch (special) {
@@ -347,11 +309,37 @@ function canChameleonReachWithSpecial(
       // A pawn captures diagonally forward, so chameleon must approach from those squares
       const targetPiece = getPieceAt(board, targetPos);
       if (!targetPiece) return false;
-      const pawnDir = targetPiece.owner === 'white' ? 1 : -1;
       // Chameleon must be on a square the pawn could capture (diagonal forward from pawn's perspective)
-      return Math.abs(dx) === 1 && dy === pawnDir;
+      return [-1, 1].some((side) => {
+        const step = orientVector(targetPiece.owner, side, 1);
+        return dx === step.dx && dy === step.dy;
+      });
     }
 
+    case 'berolina': {
+      // A Berolina pawn captures straight forward, so the chameleon must stand there
+      const targetPiece = getPieceAt(board, targetPos);
+      if (!targetPiece) return false;
+      const behind = orientVector(targetPiece.owner, 0, -1);
+      return dx === behind.dx && dy === behind.dy;
+    }
+
+    case 'cannon-move':
+    case 'vao-move':
+    case 'janggi-cannon':
+      // Hop over exactly one screen along the target's line
+      return canCannonCapture(board, chameleon.position, targetPos, [special]);
+
+    case 'nightrider':
+    case 'knight-rider':
+      // Same knight lines the target moves along
+      return canReachByKnightLine(
+        board,
+        chameleon.position,
+        targetPos,
+        special === 'knight-rider' ? KNIGHT_RIDER_JUMPS : Infinity
+      );
+
     case 'herald-orthogonal': {
       // Exactly 2 squares orthogonally with clear path
       if (!((Math.abs(dx) === 2 && dy === 0) || (dx === 0 && Math.abs(dy) === 2))) {
@@ -380,104 +368,21 @@ function canChameleonCaptureLongLeaperStyle(
 ): boolean {
   if (!chameleon.position) return false;
 
-  const dx = fileToIndex(targetPos.file) - fileToIndex(chameleon.position.file);
-  const dy = targetPos.rank - chameleon.position.rank;
-
-  // Must be in a straight line
-  if (dx !== 0 && dy !== 0 && Math.abs(dx) !== Math.abs(dy)) {
-    return false;
-  }
-
-  const distance = Math.max(Math.abs(dx), Math.abs(dy));
-  if (distance < 2) return false; // Need at least 2 squares for a jump
-
-  const stepX = dx === 0 ? 0 : dx / Math.abs(dx);
-  const stepY = dy === 0 ? 0 : dy / Math.abs(dy);
-
-  // Walk the path and check for long leapers
-  let hasLongLeaper = false;
-  let currentPos = chameleon.position;
+  // Walk each Queen line to the target and check for long leapers on the way
+  return getDirectionVectors('all').some((dir) => {
+    const path = getSquaresBetween(chameleon.position!, targetPos, dir.dx, dir.dy, board.dimensions);
+    if (!path || path.length === 0) return false; // Need at least 2 squares for a jump
 
-  for (let i = 0; i < distance - 1; i++) {
-    currentPos = offsetPosition(currentPos, stepX, stepY, board.dimensions)!;
-    if (!currentPos) return false;
-
-    const piece = getPieceAt(board, currentPos);
-    if (piece) {
+    let hasLongLeaper = false;
+    for (const pos of path) {
+      const piece = getPieceAt(board, pos);
+      if (!piece) continue;
       if (piece.owner === chameleon.owner) return false; // Blocked by friendly
-      const pieceType = PIECE_BY_ID[piece.typeId];
-      if (pieceType?.captureType === 'long-leap') {
-        hasLongLeaper = true;
-      }
       // Any enemy piece can be jumped over if there's a long leaper in the path
+      if (PIECE_BY_ID[piece.typeId]?.captureType === 'long-leap') hasLongLeaper = true;
     }
-  }
-
-  return hasLongLeaper;
-}
-
-/**
- * Check if position A can reach position B by sliding
- */
-function canReachBySlide(
-  board: BoardState,
-  from: Position,
-  to: Position,
-  direction: 'orthogonal' | 'diagonal' | 'all',
-  _friendlyColor: PlayerColor
-): boolean {
-  const dx = fileToIndex(to.file) - fileToIndex(from.file);
-  const dy = to.rank - from.rank;
-
-  // Check if direction matches
-  const isDiagonal = dx !== 0 && dy !== 0 && Math.abs(dx) === Math.abs(dy);
-  const isOrthogonal = (dx === 0) !== (dy === 0);
-
-  if (direction === 'diagonal' && !isDiagonal) return false;
-  if (direction === 'orthogonal' && !isOrthogonal) return false;
-  if (direction === 'all' && !isDiagonal && !isOrthogonal) return false;
-
-  // Check path is clear
-  const stepX = dx === 0 ? 0 : dx / Math.abs(dx);
-  const stepY = dy === 0 ? 0 : dy / Math.abs(dy);
-  const distance = Math.max(Math.abs(dx), Math.abs(dy));
-
-  let currentPos = from;
-  for (let i = 0; i < distance - 1; i++) {
-    currentPos = offsetPosition(currentPos, stepX, stepY, board.dimensions)!;
-    if (!currentPos) return false;
-    if (!isSquareEmpty(board, currentPos)) return false;
-  }
-
-  return true;
-}
-
-/**
- * Check if position A can reach position B by leap
- */
-function canReachByLeap(
-  from: Position,
-  to: Position,
-  leap: { dx: number; dy: number; symmetric: boolean },
-  _dimensions: { files: number; ranks: number }
-): boolean {
-  const dx = fileToIndex(to.file) - fileToIndex(from.file);
-  const dy = to.rank - from.rank;
-
-  // Check all symmetric variations of the leap
-  const offsets: { dx: number; dy: number }[] = [];
-  offsets.push({ dx: leap.dx, dy: leap.dy });
-  if (leap.symmetric) {
-    offsets.push({ dx: -leap.dx, dy: leap.dy });
-    offsets.push({ dx: leap.dx, dy: -leap.dy });
-    offsets.push({ dx: -leap.dx, dy: -leap.dy });
-    offsets.push({ dx: leap.dy, dy: leap.dx });
-    offsets.push({ dx: -leap.dy, dy: leap.dx });
-    offsets.push({ dx: leap.dy, dy: -leap.dx });
-    offsets.push({ dx: -leap.dy, dy: -leap.dx });
-  }
-
-  return offsets.some((o) => o.dx === dx && o.dy === dy);
+    return hasLongLeaper;
+  });
 }
 
 /**
@@ -515,6 +420,13 @@ function canSpecialCaptureThreaten(
 // Check Detection
 // =============================================================================
 
+/**
+ * Get a board with O(1) square lookups (attack detection looks up many squares)
+ */
+function withSquareIndex(board: BoardState): BoardState {
+  return hasSquareIndex(board) ? board : createBoardCore(board).board;
+}
+
 /**
  * Check if a square is attacked by any piece of the given color
  * Includes both standard attacks and special capture mechanics
@@ -524,6 +436,7 @@ export function isSquareAttacked(
   pos: Position,
   byColor: PlayerColor
 ): boolean {
+  board = withSquareIndex(board);
   const enemyPieces = getAllPieces(board, byColor);
   const targetKey = positionToString(pos);
 
@@ -543,6 +456,19 @@ export function isSquareAttacked(
   return false;
 }
 
+/**
+ * Check if a square is attacked by any opponent of the given color. In a
+ * free-for-all that is every other player still on the board.
+ */
+export function isSquareAttackedByOpponents(
+  board: BoardState,
+  pos: Position,
+  color: PlayerColor
+): boolean {
+  board = withSquareIndex(board);
+  return getOpponentColors(board, color).some((opponent) => isSquareAttacked(board, pos, opponent));
+}
+
 /**
  * Check if the king of the given color is in check
  */
@@ -550,7 +476,7 @@ export function isInCheck(board: BoardState, color: PlayerColor): boolean {
   const king = getKing(board, color);
   if (!king || !king.position) return false;
 
-  return isSquareAttacked(board, king.position, getOpponentColor(color));
+  return isSquareAttackedByOpponents(board, king.position, color);
 }
 
 /**
@@ -562,6 +488,7 @@ export function getAttackers(
   targetPos: Position,
   byColor: PlayerColor
 ): PieceInstance[] {
+  board = withSquareIndex(board);
   const attackers: PieceInstance[] = [];
   const enemyPieces = getAllPieces(board, byColor);
   const targetKey = positionToString(targetPos);
@@ -589,7 +516,7 @@ export function getAttackers(
 
 /**
  * Simulate a move on the board and return the resulting board state
- * Used for checking if a move would leave the king in check
+ * (Legal move filtering uses the board core's makeMove/unmakeMove instead of copying the board)
  */
 export function simulateMove(
   board: BoardState,
@@ -657,6 +584,21 @@ export function simulateMove(
 // Legal Move Filtering
 // =============================================================================
 
+/**
+ * Make a move on the core, check the mover's king, and take the move back
+ */
+function wouldBeInCheckOnCore(
+  core: BoardCore,
+  piece: PieceInstance,
+  to: Position,
+  capturePosition?: Position
+): boolean {
+  const undo = makeMove(core, piece.id, to, capturePosition);
+  const inCheck = isInCheck(core.board, getMoverColor(piece));
+  unmakeMove(core, undo);
+  return inCheck;
+}
+
 /**
  * Check if a move would leave the player's king in check
  */
@@ -666,8 +608,26 @@ export function wouldBeInCheck(
   to: Position,
   capturePosition?: Position
 ): boolean {
-  const simulatedBoard = simulateMove(board, piece, to, capturePosition);
-  return isInCheck(simulatedBoard, piece.owner);
+  return wouldBeInCheckOnCore(createBoardCore(board), piece, to, capturePosition);
+}
+
+/**
+ * Keep the moves that don't leave the king in check, reusing one core for all of them
+ */
+function filterLegalMovesOnCore(
+  core: BoardCore,
+  piece: PieceInstance,
+  moves: Position[],
+  enPassantTarget: Position | null
+): Position[] {
+  return moves.filter((move) => {
+    // For en passant, the capture position is different from the move position
+    const capturePosition = isEnPassantCapture(piece, move, enPassantTarget)
+      ? getEnPassantCapturePosition(core.board, move, getMoverColor(piece))
+      : undefined;
+
+    return !wouldBeInCheckOnCore(core, piece, move, capturePosition);
+  });
 }
 
 /**
@@ -680,28 +640,19 @@ export function filterLegalMoves(
   moves: Position[],
   enPassantTarget: Position | null
 ): Position[] {
-  const pieceType = PIECE_BY_ID[piece.typeId];
-
-  return moves.filter((move) => {
-    // For en passant, the capture position is different from the move position
-    let capturePosition: Position | undefined;
-
-    if (
-      enPassantTarget &&
-      move.file === enPassantTarget.file &&
-      move.rank === enPassantTarget.rank &&
-      pieceType?.movement.special.includes('pawn-capture-diagonal')
-    ) {
-      // En passant: the captured pawn is on the same file but different rank
-      const direction = piece.owner === 'white' ? 1 : -1;
-      capturePosition = {
-        file: enPassantTarget.file,
-        rank: (enPassantTarget.rank - direction) as 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10,
-      };
-    }
+  return filterLegalMovesOnCore(createBoardCore(board), piece, moves, enPassantTarget);
+}
 
-    return !wouldBeInCheck(board, piece, move, capturePosition);
-  });
+/**
+ * Generate legal moves for a piece on an existing core
+ */
+function generateLegalMovesOnCore(
+  core: BoardCore,
+  piece: PieceInstance,
+  enPassantTarget: Position | null
+): Position[] {
+  const pseudoLegalMoves = generatePseudoLegalMoves(core.board, piece, enPassantTarget);
+  return filterLegalMovesOnCore(core, piece, pseudoLegalMoves, enPassantTarget);
 }
 
 /**
@@ -713,8 +664,7 @@ export function generateLegalMoves(
   piece: PieceInstance,
   enPassantTarget: Position | null
 ): Position[] {
-  const pseudoLegalMoves = generatePseudoLegalMoves(board, piece, enPassantTarget);
-  return filterLegalMoves(board, piece, pseudoLegalMoves, enPassantTarget);
+  return generateLegalMovesOnCore(createBoardCore(board), piece, enPassantTarget);
 }
 
 // =============================================================================
@@ -729,10 +679,11 @@ export function hasAnyLegalMoves(
   color: PlayerColor,
   enPassantTarget: Position | null
 ): boolean {
+  const core = createBoardCore(board);
   const pieces = getAllPieces(board, color);
 
   for (const piece of pieces) {
-    const legalMoves = generateLegalMoves(board, piece, enPassantTarget);
+    const legalMoves = generateLegalMovesOnCore(core, piece, enPassantTarget);
     if (legalMoves.length > 0) {
       return true;
     }
@@ -751,10 +702,11 @@ export function getAllLegalMoves(
   enPassantTarget: Position | null
 ): Map<string, Position[]> {
   const allMoves = new Map<string, Position[]>();
+  const core = createBoardCore(board);
   const pieces = getAllPieces(board, color);
 
   for (const piece of pieces) {
-    const legalMoves = generateLegalMoves(board, piece, enPassantTarget);
+    const legalMoves = generateLegalMovesOnCore(core, piece, enPassantTarget);
     if (legalMoves.length > 0) {
       allMoves.set(piece.id, legalMoves);
     }
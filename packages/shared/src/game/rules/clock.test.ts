@@ -0,0 +1,68 @@
+/**
+ * Tests for chess clocks
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ClockSettings } from './clock';
+import {
+  createClockState,
+  formatClockTime,
+  getFlagFallTime,
+  getRemainingTime,
+  isFlagDown,
+  pressClock,
+  startClock,
+  stopClock,
+} from './clock';
+
+const FISCHER: ClockSettings = { baseTime: 60, increment: 2, mode: 'fischer' };
+const BRONSTEIN: ClockSettings = { baseTime: 60, increment: 5, mode: 'bronstein' };
+
+describe('clock', () => {
+  it('runs down only the player to move', () => {
+    const clock = startClock(createClockState(FISCHER, ['white', 'black']), 'white', 1000);
+    expect(getRemainingTime(clock, 'white', 11_000)).toBe(50_000);
+    expect(getRemainingTime(clock, 'black', 11_000)).toBe(60_000);
+    expect(getFlagFallTime(clock)).toBe(61_000);
+  });
+
+  it('adds the Fischer increment after every move', () => {
+    const clock = startClock(createClockState(FISCHER, ['white', 'black']), 'white', 0);
+    const pressed = pressClock(clock, FISCHER, 'black', 10_000);
+    expect(pressed.remaining.white).toBe(52_000);
+    expect(pressed.running).toBe('black');
+    expect(pressed.turnStartedAt).toBe(10_000);
+  });
+
+  it('gives back at most the Bronstein delay', () => {
+    const clock = startClock(createClockState(BRONSTEIN, ['white', 'black']), 'white', 0);
+    expect(pressClock(clock, BRONSTEIN, 'black', 3000).remaining.white).toBe(60_000);
+    expect(pressClock(clock, BRONSTEIN, 'black', 10_000).remaining.white).toBe(55_000);
+  });
+
+  it('gives no credit for a move made after the flag fell', () => {
+    const clock = startClock(createClockState(FISCHER, ['white', 'black']), 'white', 0);
+    expect(isFlagDown(clock, 'white', 59_999)).toBe(false);
+    expect(isFlagDown(clock, 'white', 60_000)).toBe(true);
+    expect(isFlagDown(clock, 'black', 60_000)).toBe(false);
+    expect(pressClock(clock, FISCHER, 'black', 60_000).remaining.white).toBe(0);
+    expect(pressClock(clock, FISCHER, 'black', 61_000).remaining.white).toBe(0);
+
+    const delayed = startClock(createClockState(BRONSTEIN, ['white', 'black']), 'white', 0);
+    expect(pressClock(delayed, BRONSTEIN, 'black', 60_500).remaining.white).toBe(0);
+  });
+
+  it('stops every clock, charging the running player', () => {
+    const clock = startClock(createClockState(FISCHER, ['white', 'red', 'black']), 'red', 0);
+    const stopped = stopClock(clock, 4000);
+    expect(stopped.remaining.red).toBe(56_000);
+    expect(stopped.running).toBeNull();
+    expect(getFlagFallTime(stopped)).toBeNull();
+  });
+
+  it('formats minutes and seconds, with tenths under ten seconds', () => {
+    expect(formatClockTime(125_000)).toBe('2:05');
+    expect(formatClockTime(9_450)).toBe('9.4');
+    expect(formatClockTime(-5)).toBe('0.0');
+  });
+});
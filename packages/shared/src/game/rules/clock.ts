@@ -0,0 +1,127 @@
+/**
+ * Chess clocks - base time plus a Fischer increment or a Bronstein delay
+ *
+ * Each player has a bank of time that runs down while it's their turn. With a
+ * Fischer increment the bank grows by the increment after every move; with a
+ * Bronstein delay it grows by the time the move took, up to the delay, so a
+ * quick move costs nothing. A player whose bank runs out loses on time.
+ *
+ * Times are in milliseconds and "now" is passed in by the caller, so the
+ * functions here stay pure. Online, the server owns the clock and clients only
+ * display it.
+ */
+
+import type { PlayerColor } from '../types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ClockMode = 'fischer' | 'bronstein';
+
+export interface ClockSettings {
+  baseTime: number;  // seconds each player starts with
+  increment: number; // seconds added per move (Fischer) or delay per move (Bronstein)
+  mode: ClockMode;
+}
+
+export interface ClockState {
+  remaining: Partial<Record<PlayerColor, number>>; // ms banked, not counting the running turn
+  running: PlayerColor | null;                     // whose clock is running, if any
+  turnStartedAt: number;                           // when the running clock was started (ms since epoch)
+}
+
+// =============================================================================
+// Clock Updates
+// =============================================================================
+
+/**
+ * Create a stopped clock with every seat's bank full
+ */
+export function createClockState(settings: ClockSettings, seats: PlayerColor[]): ClockState {
+  const remaining: Partial<Record<PlayerColor, number>> = {};
+  for (const color of seats) remaining[color] = settings.baseTime * 1000;
+  return { remaining, running: null, turnStartedAt: 0 };
+}
+
+/**
+ * Start a player's clock (at the start of play)
+ */
+export function startClock(clock: ClockState, color: PlayerColor, now: number): ClockState {
+  return { ...clock, running: color, turnStartedAt: now };
+}
+
+/**
+ * Stop the running clock after a move, credit the increment or delay, and
+ * start the next player's clock (or leave every clock stopped if `next` is null).
+ * A player whose time had already run out gets no credit.
+ */
+export function pressClock(
+  clock: ClockState,
+  settings: ClockSettings,
+  next: PlayerColor | null,
+  now: number
+): ClockState {
+  const remaining = { ...clock.remaining };
+  const mover = clock.running;
+  if (mover && remaining[mover] !== undefined) {
+    const elapsed = Math.max(0, now - clock.turnStartedAt);
+    const bonus = settings.increment * 1000;
+    const credit = settings.mode === 'fischer' ? bonus : Math.min(elapsed, bonus);
+    const left = remaining[mover]! - elapsed;
+    remaining[mover] = left > 0 ? left + credit : 0;
+  }
+  return { remaining, running: next, turnStartedAt: now };
+}
+
+/**
+ * Stop every clock, charging the running player for the time they've used
+ */
+export function stopClock(clock: ClockState, now: number): ClockState {
+  const remaining = { ...clock.remaining };
+  if (clock.running && remaining[clock.running] !== undefined) {
+    remaining[clock.running] = getRemainingTime(clock, clock.running, now);
+  }
+  return { remaining, running: null, turnStartedAt: now };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Get the time a player has left at a moment, counting the running turn
+ */
+export function getRemainingTime(clock: ClockState, color: PlayerColor, now: number): number {
+  const banked = clock.remaining[color] ?? 0;
+  if (clock.running !== color) return banked;
+  return Math.max(0, banked - Math.max(0, now - clock.turnStartedAt));
+}
+
+/**
+ * Check whether a player's flag has fallen: their clock is running and out of time.
+ * A move they submit now is too late, even if no timer has noticed yet.
+ */
+export function isFlagDown(clock: ClockState, color: PlayerColor, now: number): boolean {
+  return clock.running === color && getRemainingTime(clock, color, now) <= 0;
+}
+
+/**
+ * Get the moment the running player's flag falls, or null if no clock is running
+ */
+export function getFlagFallTime(clock: ClockState): number | null {
+  if (!clock.running) return null;
+  return clock.turnStartedAt + (clock.remaining[clock.running] ?? 0);
+}
+
+/**
+ * Format a clock time for display: "m:ss", or "s.t" under ten seconds
+ */
+export function formatClockTime(ms: number): string {
+  const clamped = Math.max(0, ms);
+  if (clamped < 10_000) return (Math.floor(clamped / 100) / 10).toFixed(1);
+  const totalSeconds = Math.floor(clamped / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,182 @@
+/**
+ * Tests for correspondence games
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DraftPick } from '../../protocol';
+import type { CorrespondenceState, PlacementStep } from './correspondence';
+import { createPiecesFromDraft } from './draft';
+import {
+  DAY_MS,
+  createCorrespondenceState,
+  getColorsToAct,
+  getCorrespondenceSettingsError,
+  getCorrespondenceView,
+  playCorrespondenceMove,
+  replayPlacementSteps,
+  resolveCorrespondenceTimeout,
+  startCorrespondenceGame,
+  submitCorrespondenceDraft,
+  submitCorrespondencePlacement,
+} from './correspondence';
+
+const PICKS: DraftPick[] = [
+  { pieceTypeId: 'pawn', count: 8 },
+  { pieceTypeId: 'rook', count: 2 },
+];
+
+function unwrap(result: { valid: true; state: CorrespondenceState } | { valid: false; reason: string }) {
+  if (!result.valid) throw new Error(result.reason);
+  return result.state;
+}
+
+function started(): CorrespondenceState {
+  return unwrap(startCorrespondenceGame(createCorrespondenceState({ budget: 360, boardSize: '8x8', daysPerMove: 3 }), 0));
+}
+
+function drafted(): CorrespondenceState {
+  const state = unwrap(submitCorrespondenceDraft(started(), 'white', PICKS, 0));
+  return unwrap(submitCorrespondenceDraft(state, 'black', PICKS, DAY_MS));
+}
+
+/** Pawns across the pawn rank, King on e, Rooks in the corners */
+function standardSteps(state: CorrespondenceState, color: 'white' | 'black'): PlacementStep[] {
+  const [backRank, pawnRank] = color === 'white' ? [1, 2] : [8, 7];
+  const army = state.armies[color]!;
+  const pawns = army.filter((p) => p.typeId === 'pawn');
+  const rooks = army.filter((p) => p.typeId === 'rook');
+  const king = army.find((p) => p.typeId === 'king')!;
+  return [
+    ...pawns.map((p, i) => ({ pieceId: p.id, position: { file: 'abcdefgh'[i], rank: pawnRank } })),
+    { pieceId: rooks[0].id, position: { file: 'a', rank: backRank } },
+    { pieceId: rooks[1].id, position: { file: 'h', rank: backRank } },
+    { pieceId: king.id, position: { file: 'e', rank: backRank } },
+  ] as PlacementStep[];
+}
+
+function placed(): CorrespondenceState {
+  const state = drafted();
+  const white = unwrap(submitCorrespondencePlacement(state, 'white', standardSteps(state, 'white'), 0));
+  return unwrap(submitCorrespondencePlacement(white, 'black', standardSteps(state, 'black'), 2 * DAY_MS));
+}
+
+describe('getCorrespondenceSettingsError', () => {
+  it('only accepts the offered days per move', () => {
+    expect(getCorrespondenceSettingsError({ budget: 360, boardSize: '8x8', daysPerMove: 3 })).toBeNull();
+    expect(getCorrespondenceSettingsError({ budget: 360, boardSize: '8x8', daysPerMove: 4 })).not.toBeNull();
+    expect(getCorrespondenceSettingsError({ budget: 360, boardSize: '99x8', daysPerMove: 3 })).not.toBeNull();
+  });
+});
+
+describe('drafting', () => {
+  it('waits for both drafts, hiding each from the other player', () => {
+    const state = unwrap(submitCorrespondenceDraft(started(), 'white', PICKS, 0));
+    expect(state.phase).toBe('drafting');
+    expect(getColorsToAct(state)).toEqual(['black']);
+    expect(getCorrespondenceView(state, 'black').drafts.white).toBeUndefined();
+    expect(getCorrespondenceView(state, 'white').drafts.white).toBeDefined();
+  });
+
+  it('sets out both armies for placement once both are in', () => {
+    const state = drafted();
+    expect(state.phase).toBe('placement');
+    expect(state.armies.white).toHaveLength(11);
+    expect(state.deadline).toBe(DAY_MS + 3 * DAY_MS);
+  });
+
+  it('numbers piece IDs within the game, whatever else has been drafted', () => {
+    const first = drafted();
+    createPiecesFromDraft(first.drafts.white!, 'white');
+    const second = drafted();
+    expect(second.armies).toEqual(first.armies);
+    expect(first.armies.white![0].id).toBe('white-king-0');
+    expect(new Set([...first.armies.white!, ...first.armies.black!].map((p) => p.id)).size).toBe(22);
+  });
+
+  it('rejects a draft over budget', () => {
+    const result = submitCorrespondenceDraft(started(), 'white', [{ pieceTypeId: 'rook', count: 8 }], 0);
+    expect(result.valid).toBe(false);
+  });
+
+  it('rejects picks with a bad count or an unknown piece type', () => {
+    const bad: DraftPick[][] = [
+      [...PICKS, { pieceTypeId: 'queen', count: -1 }],
+      [...PICKS, { pieceTypeId: 'queen', count: 0.5 }],
+      [...PICKS, { pieceTypeId: 'queen', count: 0 }],
+      [...PICKS, { pieceTypeId: 'not-a-piece', count: 1 }],
+    ];
+    for (const picks of bad) {
+      expect(submitCorrespondenceDraft(started(), 'white', picks, 0).valid).toBe(false);
+    }
+  });
+});
+
+describe('placement', () => {
+  it('rejects squares outside the placing player\'s zones', () => {
+    const state = drafted();
+    const pawn = state.armies.white!.find((p) => p.typeId === 'pawn')!;
+    const result = replayPlacementSteps(state.armies.white!, 'white', '8x8', [
+      { pieceId: pawn.id, position: { file: 'a', rank: 4 } },
+    ]);
+    expect(result.valid).toBe(false);
+  });
+
+  it('needs the whole army placed', () => {
+    const state = drafted();
+    const result = submitCorrespondencePlacement(state, 'white', standardSteps(state, 'white').slice(1), 0);
+    expect(result).toEqual({ valid: false, reason: 'Every piece must be placed' });
+  });
+
+  it('reveals the board and starts play once both are placed', () => {
+    const state = placed();
+    expect(state.phase).toBe('playing');
+    expect(state.gameState?.board.pieces).toHaveLength(22);
+    expect(state.gameState?.positionHistory).toHaveLength(1);
+    expect(getColorsToAct(state)).toEqual(['white']);
+  });
+});
+
+describe('playCorrespondenceMove', () => {
+  it('plays a legal move and resets the deadline', () => {
+    const result = playCorrespondenceMove(placed(), 'white', { file: 'e', rank: 2 }, { file: 'e', rank: 4 }, undefined, 5 * DAY_MS);
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.state.gameState?.currentTurn).toBe('black');
+    expect(result.state.deadline).toBe(8 * DAY_MS);
+    expect(result.move.notation).toBeTruthy();
+  });
+
+  it('lets the King castle', () => {
+    const result = playCorrespondenceMove(placed(), 'white', { file: 'e', rank: 1 }, { file: 'g', rank: 1 }, undefined, 0);
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.move.isCastling).toBe(true);
+    const rook = result.state.gameState!.board.pieces.find((p) => p.id === result.move.castlingRookId);
+    expect(rook?.position).toEqual({ file: 'f', rank: 1 });
+  });
+
+  it('rejects moves out of turn', () => {
+    const result = playCorrespondenceMove(placed(), 'black', { file: 'e', rank: 7 }, { file: 'e', rank: 5 }, undefined, 0);
+    expect(result).toEqual({ valid: false, reason: 'Not your turn' });
+  });
+});
+
+describe('resolveCorrespondenceTimeout', () => {
+  it('does nothing before the deadline', () => {
+    const state = placed();
+    expect(resolveCorrespondenceTimeout(state, state.deadline! - 1)).toBeNull();
+  });
+
+  it('loses the game for the player to move', () => {
+    const state = placed();
+    const resolved = resolveCorrespondenceTimeout(state, state.deadline!);
+    expect(resolved?.phase).toBe('ended');
+    expect(resolved?.result).toMatchObject({ type: 'timeout', winner: 'black' });
+  });
+
+  it('abandons the game if both players missed the draft', () => {
+    const state = started();
+    const resolved = resolveCorrespondenceTimeout(state, state.deadline!);
+    expect(resolved).toMatchObject({ phase: 'ended', abandoned: true, result: null });
+  });
+});
@@ -0,0 +1,486 @@
+/**
+ * Correspondence games - games played over days instead of in one sitting
+ *
+ * A correspondence game lives in the database rather than in a live room, so
+ * every action is a pure step from one stored state to the next. Both players
+ * draft, then place their armies blind, each whenever suits them; the board is
+ * revealed once both have placed. Every action a player owes - their draft,
+ * their placement, each move - must be made within the game's days per move,
+ * and a player who lets the deadline pass loses on time. If both players miss
+ * the draft or placement deadline the game is abandoned without a result.
+ *
+ * Correspondence games are for two players on a standard board, without
+ * drops, Mercenaries or a clock.
+ */
+
+import type {
+  BoardSize,
+  BoardState,
+  GameResult,
+  GameState,
+  Move,
+  PieceInstance,
+  Position,
+} from '../types';
+import { parseBoardSize, positionToString } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { createBoardState, getPieceAt, initializeRoyalTracking } from '../board/boardUtils';
+import type { PlayerDraft } from './draft';
+import {
+  MAX_BUDGET,
+  MIN_BUDGET,
+  createEmptyDraft,
+  createPiecesFromDraft,
+  validateDraft,
+} from './draft';
+import {
+  getHeraldActualPosition,
+  getPawnSwapPosition,
+  getPlacementZones,
+  getValidPlacementSquares,
+  isHerald,
+  shouldPawnSwapToBackRank,
+} from './placement';
+import { generateLegalMoves } from './checkDetection';
+import { getCastlingDestinations } from './castling';
+import {
+  createInitialGameState,
+  executeMove,
+  prepareMoveFromPositions,
+} from './moveExecution';
+import {
+  createResignationResult,
+  createTimeoutResult,
+  getGameResult,
+} from './gameEndDetection';
+import { notateMove } from '../notation/moveNotation';
+import type { DraftPick } from '../../protocol';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CorrespondencePhase = 'waiting' | 'drafting' | 'placement' | 'playing' | 'ended';
+
+export interface CorrespondenceSettings {
+  budget: number;
+  boardSize: BoardSize;
+  daysPerMove: number;
+}
+
+/** One blind placement: the piece and the square it was put on, as in BLIND_PLACE_PIECE */
+export interface PlacementStep {
+  pieceId: string;
+  position: Position;
+}
+
+export interface CorrespondenceState {
+  settings: CorrespondenceSettings;
+  phase: CorrespondencePhase;
+  drafts: Partial<Record<'white' | 'black', PlayerDraft>>;
+  armies: Partial<Record<'white' | 'black', PieceInstance[]>>; // Set out when placement starts
+  placements: Partial<Record<'white' | 'black', PieceInstance[]>>; // Each army as placed, hidden until both are in
+  gameState: GameState | null;
+  initialGameState: GameState | null;
+  deadline: number | null; // ms since epoch; whoever still owes an action by then loses
+  result: GameResult | null;
+  abandoned: boolean; // Both players missed the draft or placement deadline
+}
+
+export type CorrespondenceStepResult =
+  | { valid: true; state: CorrespondenceState }
+  | { valid: false; reason: string };
+
+export type CorrespondenceMoveResult =
+  | { valid: true; state: CorrespondenceState; move: Move }
+  | { valid: false; reason: string };
+
+export type PlacementReplayResult =
+  | { valid: true; board: BoardState }
+  | { valid: false; reason: string };
+
+type Side = 'white' | 'black';
+
+// =============================================================================
+// Settings
+// =============================================================================
+
+/** Days per move a game can be created with */
+export const CORRESPONDENCE_DAYS_PER_MOVE = [1, 2, 3, 5, 7, 14];
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check settings for a new correspondence game, returning why they can't be used (or null if they can)
+ */
+export function getCorrespondenceSettingsError(settings: CorrespondenceSettings): string | null {
+  if (!CORRESPONDENCE_DAYS_PER_MOVE.includes(settings.daysPerMove)) {
+    return `Unsupported days per move: ${settings.daysPerMove}`;
+  }
+  if (!(settings.budget >= MIN_BUDGET && settings.budget <= MAX_BUDGET)) {
+    return `Budget must be between ${MIN_BUDGET} and ${MAX_BUDGET}`;
+  }
+  if (!parseBoardSize(String(settings.boardSize))) {
+    return `Unsupported board size: ${settings.boardSize}`;
+  }
+  return null;
+}
+
+// =============================================================================
+// Game Lifecycle
+// =============================================================================
+
+/**
+ * A new game, waiting for an opponent to accept the challenge
+ */
+export function createCorrespondenceState(settings: CorrespondenceSettings): CorrespondenceState {
+  return {
+    settings,
+    phase: 'waiting',
+    drafts: {},
+    armies: {},
+    placements: {},
+    gameState: null,
+    initialGameState: null,
+    deadline: null,
+    result: null,
+    abandoned: false,
+  };
+}
+
+/**
+ * Both seats are taken: the draft starts and its deadline runs from now
+ */
+export function startCorrespondenceGame(state: CorrespondenceState, now: number): CorrespondenceStepResult {
+  if (state.phase !== 'waiting') {
+    return { valid: false, reason: 'Game has already started' };
+  }
+  return { valid: true, state: { ...state, phase: 'drafting', deadline: nextDeadline(state, now) } };
+}
+
+/**
+ * The colors that owe an action: anyone yet to draft or place, or the player to move
+ */
+export function getColorsToAct(state: CorrespondenceState): Side[] {
+  switch (state.phase) {
+    case 'drafting':
+      return SIDES.filter((color) => !state.drafts[color]);
+    case 'placement':
+      return SIDES.filter((color) => !state.placements[color]);
+    case 'playing':
+      return state.gameState ? [state.gameState.currentTurn as Side] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Submit a player's draft. Once both are in, the armies are set out for placement.
+ */
+export function submitCorrespondenceDraft(
+  state: CorrespondenceState,
+  color: Side,
+  picks: DraftPick[],
+  now: number
+): CorrespondenceStepResult {
+  if (state.phase !== 'drafting') {
+    return { valid: false, reason: 'Not in draft phase' };
+  }
+  if (state.drafts[color]) {
+    return { valid: false, reason: 'Draft already submitted' };
+  }
+
+  const pickError = getDraftPicksError(picks);
+  if (pickError) {
+    return { valid: false, reason: pickError };
+  }
+
+  const draft = draftFromPicks(picks);
+  const validation = validateDraft(draft, state.settings.budget, state.settings.boardSize);
+  if (!validation.valid) {
+    return { valid: false, reason: validation.errors.join(', ') };
+  }
+
+  const drafts = { ...state.drafts, [color]: draft };
+  if (!drafts.white || !drafts.black) {
+    return { valid: true, state: { ...state, drafts } };
+  }
+
+  // Piece IDs only need to be unique within the game, so each game counts its own
+  let pieceId = 0;
+  const nextId = () => pieceId++;
+  const armies = {
+    white: createPiecesFromDraft(drafts.white, 'white', nextId),
+    black: createPiecesFromDraft(drafts.black, 'black', nextId),
+  };
+  return {
+    valid: true,
+    state: { ...state, phase: 'placement', drafts, armies, deadline: nextDeadline(state, now) },
+  };
+}
+
+/**
+ * Submit a player's whole blind placement. Every piece of their army must be
+ * placed; once both armies are in, the board is revealed and play starts.
+ */
+export function submitCorrespondencePlacement(
+  state: CorrespondenceState,
+  color: Side,
+  steps: PlacementStep[],
+  now: number
+): CorrespondenceStepResult {
+  if (state.phase !== 'placement') {
+    return { valid: false, reason: 'Not in placement phase' };
+  }
+  if (state.placements[color]) {
+    return { valid: false, reason: 'Placement already submitted' };
+  }
+
+  const army = state.armies[color] ?? [];
+  const replay = replayPlacementSteps(army, color, state.settings.boardSize, steps);
+  if (!replay.valid) return replay;
+  if (replay.board.pieces.length !== army.length) {
+    return { valid: false, reason: 'Every piece must be placed' };
+  }
+
+  const placements = { ...state.placements, [color]: replay.board.pieces };
+  if (!placements.white || !placements.black) {
+    return { valid: true, state: { ...state, placements } };
+  }
+
+  const { budget, boardSize } = state.settings;
+  const initial = createInitialGameState([...placements.white, ...placements.black], boardSize, budget);
+  const gameState: GameState = {
+    ...initial,
+    placementMode: 'simultaneous',
+    // Regent logic needs to know who started with more than one royal piece
+    board: initializeRoyalTracking(initial.board),
+  };
+
+  return {
+    valid: true,
+    state: {
+      ...state,
+      phase: 'playing',
+      placements,
+      gameState,
+      initialGameState: JSON.parse(JSON.stringify(gameState)),
+      deadline: nextDeadline(state, now),
+    },
+  };
+}
+
+/**
+ * Play a move for the player whose turn it is
+ */
+export function playCorrespondenceMove(
+  state: CorrespondenceState,
+  color: Side,
+  from: Position,
+  to: Position,
+  promotionPieceType: string | undefined,
+  now: number
+): CorrespondenceMoveResult {
+  const { gameState } = state;
+  if (state.phase !== 'playing' || !gameState) {
+    return { valid: false, reason: 'Game not in play phase' };
+  }
+  if (gameState.currentTurn !== color) {
+    return { valid: false, reason: 'Not your turn' };
+  }
+
+  const piece = getPieceAt(gameState.board, from);
+  if (!piece || piece.owner !== color) {
+    return { valid: false, reason: 'No piece at that position' };
+  }
+
+  const legalMoves = [
+    ...generateLegalMoves(gameState.board, piece, gameState.enPassantTarget),
+    ...(PIECE_BY_ID[piece.typeId]?.isRoyal ? getCastlingDestinations(gameState.board, piece) : []),
+  ];
+  if (!legalMoves.some((m) => m.file === to.file && m.rank === to.rank)) {
+    return { valid: false, reason: 'Illegal move' };
+  }
+
+  const prepared = prepareMoveFromPositions(gameState, piece, from, to, promotionPieceType);
+  if (!prepared) {
+    return { valid: false, reason: 'Could not create move' };
+  }
+
+  const move = notateMove(gameState, prepared);
+  const next = { ...state, gameState: executeMove(gameState, move) };
+  const result = getGameResult(next.gameState);
+
+  return {
+    valid: true,
+    state: result ? endCorrespondenceGame(next, result) : { ...next, deadline: nextDeadline(state, now) },
+    move,
+  };
+}
+
+/**
+ * Resign at any point after the challenge was accepted
+ */
+export function resignCorrespondenceGame(state: CorrespondenceState, color: Side): CorrespondenceStepResult {
+  if (state.phase === 'waiting' || state.phase === 'ended') {
+    return { valid: false, reason: 'Game is not in progress' };
+  }
+  return { valid: true, state: endCorrespondenceGame(state, createResignationResult(color)) };
+}
+
+/**
+ * Resolve a missed deadline: whoever owes an action loses on time, or the
+ * game is abandoned if both do. Returns null if the deadline hasn't passed.
+ */
+export function resolveCorrespondenceTimeout(state: CorrespondenceState, now: number): CorrespondenceState | null {
+  if (state.deadline === null || now < state.deadline) return null;
+
+  const overdue = getColorsToAct(state);
+  if (overdue.length === 0) return null;
+  if (overdue.length === 1) {
+    return endCorrespondenceGame(state, createTimeoutResult(overdue[0]));
+  }
+  return { ...state, phase: 'ended', deadline: null, abandoned: true };
+}
+
+/**
+ * The game as one player may see it: while drafting and placing, the
+ * opponent's draft and placement stay hidden until both are in
+ */
+export function getCorrespondenceView(state: CorrespondenceState, color: Side | null): CorrespondenceState {
+  const drafts = state.phase === 'drafting' ? onlyOwn(state.drafts, color) : state.drafts;
+  const placements = state.phase === 'placement' ? onlyOwn(state.placements, color) : state.placements;
+  return { ...state, drafts, placements };
+}
+
+// =============================================================================
+// Blind Placement
+// =============================================================================
+
+/**
+ * Place an army step by step onto an empty board, the way a live room applies
+ * BLIND_PLACE_PIECE: a Herald clicked onto the back rank goes to the pawn rank
+ * in front, and pawns swap behind it. Steps may cover only part of the army.
+ */
+export function replayPlacementSteps(
+  army: PieceInstance[],
+  color: Side,
+  boardSize: BoardSize,
+  steps: PlacementStep[]
+): PlacementReplayResult {
+  const { files, ranks } = parseBoardSize(String(boardSize)) ?? { files: 8, ranks: 8 };
+  const zones = getPlacementZones(boardSize, color);
+  let board = createBoardState({ files, ranks }, []);
+
+  for (const step of steps) {
+    const piece = army.find((p) => p.id === step.pieceId);
+    if (!piece) {
+      return { valid: false, reason: `Unknown piece: ${step.pieceId}` };
+    }
+    if (board.pieces.some((p) => p.id === piece.id)) {
+      return { valid: false, reason: `Piece placed twice: ${step.pieceId}` };
+    }
+
+    const squares = getValidPlacementSquares(board, piece, zones, board.dimensions);
+    if (!squares.some((sq) => sq.file === step.position.file && sq.rank === step.position.rank)) {
+      return { valid: false, reason: `Cannot place ${piece.typeId} on ${positionToString(step.position)}` };
+    }
+
+    const next = applyPlacementStep(board, piece, step.position, color);
+    if (!next) {
+      return { valid: false, reason: `Cannot place ${piece.typeId} on ${positionToString(step.position)}` };
+    }
+    board = next;
+  }
+
+  return { valid: true, board };
+}
+
+function applyPlacementStep(
+  board: BoardState,
+  piece: PieceInstance,
+  position: Position,
+  color: Side
+): BoardState | null {
+  let actualPosition = position;
+  let pieces = board.pieces;
+
+  if (isHerald(piece)) {
+    actualPosition = getHeraldActualPosition(position, color, board.dimensions);
+
+    // A pawn already on the Herald's square moves to the back rank; anything else blocks it
+    const existing = getPieceAt(board, actualPosition);
+    if (existing) {
+      if (PIECE_BY_ID[existing.typeId]?.tier !== 'pawn') return null;
+      const pawnPosition = getPawnSwapPosition(actualPosition.file, color, board.dimensions);
+      pieces = pieces.map((p) => (p.id === existing.id ? { ...p, position: pawnPosition } : p));
+    }
+  } else if (
+    PIECE_BY_ID[piece.typeId]?.tier === 'pawn' &&
+    shouldPawnSwapToBackRank(board, position.file, color, board.dimensions)
+  ) {
+    actualPosition = getPawnSwapPosition(position.file, color, board.dimensions);
+  }
+
+  return createBoardState(board.dimensions, [...pieces, { ...piece, position: actualPosition }]);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const SIDES: Side[] = ['white', 'black'];
+
+function nextDeadline(state: CorrespondenceState, now: number): number {
+  return now + state.settings.daysPerMove * DAY_MS;
+}
+
+function endCorrespondenceGame(state: CorrespondenceState, result: GameResult): CorrespondenceState {
+  return {
+    ...state,
+    phase: 'ended',
+    gameState: state.gameState && { ...state.gameState, result },
+    deadline: null,
+    result,
+  };
+}
+
+function onlyOwn<T>(byColor: Partial<Record<Side, T>>, color: Side | null): Partial<Record<Side, T>> {
+  return color && byColor[color] !== undefined ? { [color]: byColor[color] } : {};
+}
+
+/**
+ * Check picks sent over the wire, before they are counted: each must name a
+ * known piece type and a whole, positive count
+ */
+function getDraftPicksError(picks: DraftPick[]): string | null {
+  if (!Array.isArray(picks)) return 'Invalid draft';
+  for (const pick of picks) {
+    if (!PIECE_BY_ID[pick?.pieceTypeId]) {
+      return `Unknown piece type: ${pick?.pieceTypeId}`;
+    }
+    if (!Number.isInteger(pick.count) || pick.count <= 0) {
+      return `Invalid count for ${pick.pieceTypeId}: ${pick.count}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build a draft from picks sent over the wire, counting its cost and slots
+ * rather than trusting the client's totals
+ */
+function draftFromPicks(picks: DraftPick[]): PlayerDraft {
+  const draft = createEmptyDraft();
+  draft.selections = picks.map((p) => ({ pieceTypeId: p.pieceTypeId, count: p.count }));
+
+  for (const pick of picks) {
+    const pieceType = PIECE_BY_ID[pick.pieceTypeId];
+    draft.budgetSpent += pieceType.cost * pick.count;
+    if (pieceType.tier === 'pawn') draft.slotsUsed.pawn += pick.count;
+    else if (pieceType.tier === 'piece') draft.slotsUsed.piece += pick.count;
+    else if (!pieceType.replacesKing) draft.slotsUsed.royalty += pick.count; // King-replacers take the King's slot
+  }
+
+  return draft;
+}
@@ -70,6 +70,12 @@ describe('Draft Logic', () => {
       expect(limits.piece).toBe(8);
       expect(limits.royalty).toBe(2);
     });
+
+    it('derives limits for custom sizes and applies user-set slots', () => {
+      expect(getSlotLimits('12x12')).toEqual({ pawn: 12, piece: 10, royalty: 2 });
+      expect(getSlotLimits('9x9')).toEqual({ pawn: 9, piece: 7, royalty: 2 });
+      expect(getSlotLimits('12x12', { pawnSlots: 8, pieceSlots: 20 })).toEqual({ pawn: 8, piece: 10, royalty: 2 });
+    });
   });
 
   describe('canAddPiece', () => {
@@ -8,8 +8,9 @@ import type {
   PieceTier,
   PlayerColor,
   BoardSize,
+  SlotCounts,
 } from '../types';
-import { BOARD_CONFIGS } from '../types';
+import { getBoardConfig } from '../types';
 import { ALL_PIECES, PIECE_BY_ID } from '../pieces/pieceDefinitions';
 
 // =============================================================================
@@ -73,10 +74,11 @@ export function createEmptyDraft(): PlayerDraft {
 // =============================================================================
 
 /**
- * Get all pieces available for drafting (excludes mandatory pieces like King and promotion-only pieces like Checkers King)
+ * Get all pieces available for drafting (excludes mandatory pieces like King, promotion-only pieces like Checkers King
+ * and neutral pieces like Mercenary)
  */
 export function getAvailablePieces(): PieceType[] {
-  return ALL_PIECES.filter((p) => !p.isMandatory && !p.promotionOnly);
+  return ALL_PIECES.filter((p) => !p.isMandatory && !p.promotionOnly && !p.startsNeutral);
 }
 
 /**
@@ -97,10 +99,10 @@ export function getPiecesByTier(): Record<PieceTier, PieceType[]> {
 // =============================================================================
 
 /**
- * Get slot limits for a board size
+ * Get slot limits for a board size, with any user-set slot counts applied
  */
-export function getSlotLimits(boardSize: BoardSize): SlotUsage {
-  const config = BOARD_CONFIGS[boardSize];
+export function getSlotLimits(boardSize: BoardSize, slots?: Partial<SlotCounts>): SlotUsage {
+  const config = getBoardConfig(boardSize, slots);
   return {
     pawn: config.pawnSlots,
     piece: config.pieceSlots,
@@ -162,10 +164,11 @@ export function canAddPiece(
   draft: PlayerDraft,
   pieceType: PieceType,
   budget: number,
-  boardSize: BoardSize
+  boardSize: BoardSize,
+  slots?: Partial<SlotCounts>
 ): boolean {
-  // Mandatory pieces (like King) cannot be manually added
-  if (pieceType.isMandatory) {
+  // Mandatory pieces (like King) and neutral pieces (Mercenary) cannot be manually added
+  if (pieceType.isMandatory || pieceType.startsNeutral) {
     return false;
   }
 
@@ -177,7 +180,7 @@ export function canAddPiece(
   // Check slot limits
   const slotKey = getTierSlotKey(pieceType.tier);
   if (slotKey) {
-    const limits = getSlotLimits(boardSize);
+    const limits = getSlotLimits(boardSize, slots);
     // King-replacing pieces don't use an extra royalty slot - they reuse the King's slot
     const usesExtraSlot = !(pieceType.replacesKing && slotKey === 'royalty');
     if (usesExtraSlot && draft.slotsUsed[slotKey] >= limits[slotKey]) {
@@ -306,10 +309,11 @@ export interface DraftValidation {
 export function validateDraft(
   draft: PlayerDraft,
   budget: number,
-  boardSize: BoardSize
+  boardSize: BoardSize,
+  slots?: Partial<SlotCounts>
 ): DraftValidation {
   const errors: string[] = [];
-  const limits = getSlotLimits(boardSize);
+  const limits = getSlotLimits(boardSize, slots);
 
   // Check budget
   if (draft.budgetSpent > budget) {
@@ -347,11 +351,13 @@ export function resetDraftPieceIdCounter(): void {
 }
 
 /**
- * Create PieceInstance array from a draft (for placement phase)
+ * Create PieceInstance array from a draft (for placement phase). IDs come from
+ * `nextId` if given, otherwise from the shared counter.
  */
 export function createPiecesFromDraft(
   draft: PlayerDraft,
-  color: PlayerColor
+  color: PlayerColor,
+  nextId: () => number = () => draftPieceIdCounter++
 ): PieceInstance[] {
   const pieces: PieceInstance[] = [];
 
@@ -360,7 +366,7 @@ export function createPiecesFromDraft(
     const king = PIECE_BY_ID['king'];
     if (king) {
       pieces.push({
-        id: `${color}-king-${draftPieceIdCounter++}`,
+        id: `${color}-king-${nextId()}`,
         typeId: 'king',
         owner: color,
         position: null,
@@ -377,7 +383,7 @@ export function createPiecesFromDraft(
 
     for (let i = 0; i < selection.count; i++) {
       pieces.push({
-        id: `${color}-${selection.pieceTypeId}-${draftPieceIdCounter++}`,
+        id: `${color}-${selection.pieceTypeId}-${nextId()}`,
         typeId: selection.pieceTypeId,
         owner: color,
         position: null,
@@ -419,7 +425,8 @@ export function isArmyValidForGame(
   pieces: DraftSelection[],
   armyBudget: number,
   gameBudget: number,
-  boardSize: BoardSize
+  boardSize: BoardSize,
+  slots?: Partial<SlotCounts>
 ): { valid: boolean; reason?: string } {
   // Check budget
   if (armyBudget > gameBudget) {
@@ -427,7 +434,7 @@ export function isArmyValidForGame(
   }
 
   // Get slot limits for board size
-  const limits = getSlotLimits(boardSize);
+  const limits = getSlotLimits(boardSize, slots);
 
   // Count pieces by tier
   let pawnCount = 0;
@@ -0,0 +1,139 @@
+/**
+ * Tests for Shogi-style drops
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { parseHfen } from '../notation/hfen';
+import { parseMoveNotation } from '../notation/moveNotation';
+import { getPieceAt } from '../board/boardUtils';
+import { computeZobristKey } from '../board/zobrist';
+import { executeMove, prepareMoveFromPositions } from './moveExecution';
+import { getGameResult } from './gameEndDetection';
+import { getDropSquares, getHandCounts, validateDrop } from './drops';
+
+function parse(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function square(name: string): Position {
+  return stringToPosition(name)!;
+}
+
+function play(state: GameState, from: string, to: string, promotion?: string): GameState {
+  const piece = getPieceAt(state.board, square(from))!;
+  const move = prepareMoveFromPositions(state, piece, square(from), square(to), promotion);
+  if (!move) throw new Error(`No move ${from}${to}`);
+  return executeMove(state, move);
+}
+
+function drop(state: GameState, typeId: string, to: string): GameState {
+  const result = validateDrop(state, typeId, square(to));
+  if (!result.valid) throw new Error(result.reason);
+  return executeMove(state, result.move);
+}
+
+describe('hands', () => {
+  it('puts captured pieces in the captor\'s hand', () => {
+    const state = play(parse('8x8 n6k/8/8/8/8/8/8/R6K w - 0 1 - []'), 'a1', 'a8');
+    expect(state.hand).toEqual({ white: ['knight'], black: [] });
+  });
+
+  it('returns promoted pieces to the hand as their original type', () => {
+    const promoted = play(parse('8x8 r6k/1P*6/8/8/8/8/8/7K w - 0 1 - []'), 'b7', 'b8', 'queen');
+    const recaptured = play(promoted, 'a8', 'b8');
+    expect(recaptured.hand).toEqual({ white: [], black: ['pawn'] });
+  });
+
+  it('leaves captured pieces out of play when drops are off', () => {
+    const result = parseHfen('8x8 n6k/8/8/8/8/8/8/R6K w - 0 1 -');
+    if (!result.valid) throw new Error(result.reason);
+    const state = play(result.gameState, 'a1', 'a8');
+    expect(state.hand).toBeUndefined();
+  });
+
+  it('counts pieces by type', () => {
+    expect(getHandCounts({ white: ['pawn', 'knight', 'pawn'], black: [] }, 'white')).toEqual([
+      { typeId: 'pawn', count: 2 },
+      { typeId: 'knight', count: 1 },
+    ]);
+  });
+});
+
+describe('drops', () => {
+  it('places a piece from the hand on an empty square', () => {
+    const state = parse('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - [2N]');
+    const after = drop(state, 'knight', 'e4');
+
+    expect(getPieceAt(after.board, square('e4'))).toMatchObject({ typeId: 'knight', owner: 'white' });
+    expect(after.hand).toEqual({ white: ['knight'], black: [] });
+    expect(after.moveHistory[0].notation).toBe('N@e4');
+    expect(after.currentTurn).toBe('black');
+  });
+
+  it('rejects drops of pieces not in hand or onto occupied squares', () => {
+    const state = parse('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - [Nr]');
+    expect(validateDrop(state, 'rook', square('e4'))).toEqual({
+      valid: false,
+      reason: 'That piece is not in your hand',
+    });
+    expect(validateDrop(state, 'knight', square('h1'))).toEqual({
+      valid: false,
+      reason: 'Pieces can only be dropped on empty squares',
+    });
+  });
+
+  it('keeps pawns off the last rank', () => {
+    const state = parse('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - [P]');
+    const squares = getDropSquares(state, 'pawn').map(positionToString);
+    expect(squares).toHaveLength(55);
+    expect(squares.some((name) => name.endsWith('8'))).toBe(false);
+    expect(squares).toContain('a1');
+  });
+
+  it('must block a check', () => {
+    const state = parse('8x8 k3r3/8/8/8/8/8/8/4K3 w - 0 1 - [N]');
+    expect(getDropSquares(state, 'knight').map(positionToString)).toEqual([
+      'e2', 'e3', 'e4', 'e5', 'e6', 'e7',
+    ]);
+  });
+
+  it('does not let a Shogi Pawn drop give checkmate', () => {
+    const state = parse('8x8 k7/3N4/1K6/8/8/8/8/8 w - 0 1 - [[SHOGI-PAWN]]');
+    expect(validateDrop(state, 'shogi-pawn', square('a7'))).toEqual({
+      valid: false,
+      reason: 'A Shogi Pawn cannot be dropped to give checkmate',
+    });
+
+    // Without the knight covering b8 the king escapes, so the check is fine
+    const escapable = parse('8x8 k7/8/1K6/8/8/8/8/8 w - 0 1 - [[SHOGI-PAWN]]');
+    expect(validateDrop(escapable, 'shogi-pawn', square('a7')).valid).toBe(true);
+  });
+
+  it('can be written and parsed in SAN', () => {
+    const state = parse('8x8 k7/8/8/8/8/8/8/7K w - 0 1 - [P]');
+    const result = parseMoveNotation(state, 'P@d4');
+    expect(result.valid && result.move).toMatchObject({ dropPieceType: 'pawn', notation: 'P@d4' });
+    expect(parseMoveNotation(state, 'P@d8').valid).toBe(false);
+  });
+});
+
+describe('drops and the end of the game', () => {
+  it('is not checkmate while a drop can block the check', () => {
+    const hfen = '8x8 k7/8/8/8/8/8/6PP/r6K w - 0 1 -';
+    expect(getGameResult(parse(`${hfen} []`))?.type).toBe('checkmate');
+    expect(getGameResult(parse(`${hfen} [N]`))).toBeNull();
+  });
+
+  it('keys positions by the pieces held in hand', () => {
+    const state = parse('8x8 n6k/8/8/8/8/8/8/R6K w - 0 1 - []');
+    const after = play(state, 'a1', 'a8');
+    const key = after.positionHistory[after.positionHistory.length - 1];
+
+    expect(key).toEqual(computeZobristKey(after.board, after.currentTurn, null, after.hand));
+    expect(key).not.toEqual(computeZobristKey(after.board, after.currentTurn, null));
+  });
+});
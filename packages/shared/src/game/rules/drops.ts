@@ -0,0 +1,180 @@
+/**
+ * Drops - Shogi-style play where captured pieces join the captor's hand
+ *
+ * In a drops game (`gameState.hand` is set) a captured piece changes owner
+ * and goes into the captor's hand instead of leaving play (see executeMove).
+ * On a later turn its new owner may drop it onto any empty square instead of
+ * moving, with these exceptions:
+ * - pawns can't be dropped on their last rank, where they could never move
+ * - a Shogi Pawn can't be dropped to give checkmate
+ * - a drop can't leave the dropping side's own king in check
+ * Royal pieces and pieces that can't be captured (Fool, Jester) never reach
+ * a hand. Dropped pieces count as moved, so they never castle or double-step.
+ */
+
+import type { GameState, Hands, Move, PlayerColor, Position } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import {
+  getPieceAt,
+  isPromotionSquare,
+  indexToFile,
+  isValidPosition,
+} from '../board/boardUtils';
+import { writeSan } from '../notation/san';
+import { executeMove } from './moveExecution';
+import { hasAnyLegalMoves, isInCheck } from './checkDetection';
+import { isPawnType } from './promotion';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DropValidationResult =
+  | { valid: true; move: Move }
+  | { valid: false; reason: string };
+
+// =============================================================================
+// Hands
+// =============================================================================
+
+/**
+ * Create the empty hands a drops game starts with
+ */
+export function createEmptyHands(): Hands {
+  return { white: [], black: [] };
+}
+
+/**
+ * Get the distinct piece types a player holds, with how many of each
+ */
+export function getHandCounts(hands: Hands, color: PlayerColor): { typeId: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const typeId of hands[color] ?? []) {
+    counts.set(typeId, (counts.get(typeId) ?? 0) + 1);
+  }
+  return [...counts].map(([typeId, count]) => ({ typeId, count }));
+}
+
+// =============================================================================
+// Drop Moves
+// =============================================================================
+
+/**
+ * Create a drop of a piece from the side to move's hand. Doesn't check legality.
+ */
+export function createDropMove(gameState: GameState, typeId: string, to: Position): Move {
+  const move: Move = {
+    pieceId: `${gameState.currentTurn}-drop-${gameState.moveHistory.length + 1}`,
+    from: to,
+    to,
+    capturedPieceId: null,
+    capturePosition: null,
+    isCastling: false,
+    castlingRookId: null,
+    castlingRookFrom: null,
+    castlingRookTo: null,
+    isEnPassant: false,
+    isPromotion: false,
+    promotionPieceType: null,
+    dropPieceType: typeId,
+    notation: '',
+  };
+  move.notation = writeSan(gameState.board, move);
+  return move;
+}
+
+/**
+ * Check whether the side to move may drop a piece of a type onto a square
+ */
+export function validateDrop(gameState: GameState, typeId: string, to: Position): DropValidationResult {
+  if (!gameState.hand) return { valid: false, reason: 'Drops are not enabled in this game' };
+
+  const color = gameState.currentTurn;
+  if (!gameState.hand[color]?.includes(typeId)) {
+    return { valid: false, reason: 'That piece is not in your hand' };
+  }
+
+  const pieceType = PIECE_BY_ID[typeId];
+  if (!pieceType) return { valid: false, reason: `Unknown piece type: ${typeId}` };
+
+  const { dimensions } = gameState.board;
+  if (!isValidPosition(to, dimensions)) return { valid: false, reason: 'Square is off the board' };
+  if (getPieceAt(gameState.board, to)) {
+    return { valid: false, reason: 'Pieces can only be dropped on empty squares' };
+  }
+  if (isPawnType(pieceType) && isPromotionSquare(to, color, dimensions)) {
+    return { valid: false, reason: 'Pawns cannot be dropped on the last rank' };
+  }
+
+  const move = createDropMove(gameState, typeId, to);
+  const after = executeMove(gameState, move);
+  if (isInCheck(after.board, color)) {
+    return { valid: false, reason: 'Drop would leave your king in check' };
+  }
+
+  if (typeId === 'shogi-pawn' && after.inCheck && !hasAnyLegalMoveOrDrop(after)) {
+    return { valid: false, reason: 'A Shogi Pawn cannot be dropped to give checkmate' };
+  }
+
+  return { valid: true, move };
+}
+
+/**
+ * Get every square of the board, file by file
+ */
+function getAllSquares(gameState: GameState): Position[] {
+  const squares: Position[] = [];
+  const { files, ranks } = gameState.board.dimensions;
+  for (let f = 0; f < files; f++) {
+    for (let r = 1; r <= ranks; r++) {
+      squares.push({ file: indexToFile(f)!, rank: r } as Position);
+    }
+  }
+  return squares;
+}
+
+/**
+ * Get the squares the side to move may drop a piece of a type onto
+ */
+export function getDropSquares(gameState: GameState, typeId: string): Position[] {
+  if (!gameState.hand?.[gameState.currentTurn]?.includes(typeId)) return [];
+  return getAllSquares(gameState).filter((to) => validateDrop(gameState, typeId, to).valid);
+}
+
+/**
+ * Generate every legal drop for the side to move
+ */
+export function generateLegalDrops(gameState: GameState): Move[] {
+  if (!gameState.hand) return [];
+
+  const drops: Move[] = [];
+  for (const typeId of new Set(gameState.hand[gameState.currentTurn] ?? [])) {
+    for (const to of getDropSquares(gameState, typeId)) {
+      drops.push(createDropMove(gameState, typeId, to));
+    }
+  }
+  return drops;
+}
+
+/**
+ * Check if the side to move has any legal drop, stopping at the first one
+ */
+export function hasAnyLegalDrop(gameState: GameState): boolean {
+  if (!gameState.hand) return false;
+
+  const squares = getAllSquares(gameState);
+  for (const typeId of new Set(gameState.hand[gameState.currentTurn] ?? [])) {
+    if (squares.some((to) => validateDrop(gameState, typeId, to).valid)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check if the side to move can do anything at all: move a piece or drop one
+ */
+export function hasAnyLegalMoveOrDrop(gameState: GameState): boolean {
+  return (
+    hasAnyLegalMoves(gameState.board, gameState.currentTurn, gameState.enPassantTarget) ||
+    hasAnyLegalDrop(gameState)
+  );
+}
@@ -7,7 +7,7 @@
  * - Chameleon: Can freeze freezers that are adjacent to it (acts like what it captures)
  */
 
-import type { BoardState, PieceInstance, PlayerColor } from '../types';
+import type { BoardDimensions, BoardState, PieceInstance, PlayerColor } from '../types';
 import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
 import { areAdjacent, createPositionMap } from '../board/boardUtils';
 
@@ -43,16 +43,23 @@ function isChameleon(piece: PieceInstance): boolean {
  * - Other freezers (Immobilizer, Inquisitor) freeze only adjacent enemies
  * - Chameleon freezes adjacent enemy freezers
  */
-function doesFreeze(freezer: PieceInstance, target: PieceInstance): boolean {
+export function doesFreeze(
+  freezer: PieceInstance,
+  target: PieceInstance,
+  dimensions: BoardDimensions
+): boolean {
   // Both must be on the board
   if (!freezer.position || !target.position) return false;
 
   // Must be adjacent
-  if (!areAdjacent(freezer.position, target.position)) return false;
+  if (!areAdjacent(freezer.position, target.position, dimensions)) return false;
 
   // Can't freeze yourself
   if (freezer.id === target.id) return false;
 
+  // Neutral pieces (Mercenaries, a knocked-out player's army) freeze nothing
+  if (freezer.owner === 'neutral') return false;
+
   // Check if this is a Chameleon freezing a freezer
   if (isChameleon(freezer)) {
     // Chameleon freezes adjacent enemy freezers
@@ -80,13 +87,14 @@ function doesFreeze(freezer: PieceInstance, target: PieceInstance): boolean {
  */
 function calculateFrozenState(
   piece: PieceInstance,
-  allPieces: PieceInstance[]
+  allPieces: PieceInstance[],
+  dimensions: BoardDimensions
 ): boolean {
   if (!piece.position) return false;
 
   // Check if any piece on the board freezes this piece
   for (const other of allPieces) {
-    if (doesFreeze(other, piece)) {
+    if (doesFreeze(other, piece, dimensions)) {
       return true;
     }
   }
@@ -107,7 +115,7 @@ export function updateFrozenStates(board: BoardState): BoardState {
       return { ...piece, isFrozen: false };
     }
 
-    const isFrozen = calculateFrozenState(piece, piecesOnBoard);
+    const isFrozen = calculateFrozenState(piece, piecesOnBoard, board.dimensions);
 
     // Only create a new object if the frozen state changed
     if (piece.isFrozen !== isFrozen) {
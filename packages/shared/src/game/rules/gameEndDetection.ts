@@ -7,10 +7,14 @@ import type {
   GameResult,
   PlayerColor,
   BoardState,
+  Standing,
 } from '../types';
 import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
 import { getAllPieces, getOpponentColor } from '../board/boardUtils';
-import { isInCheck, hasAnyLegalMoves } from './checkDetection';
+import { zobristKeysEqual } from '../board/zobrist';
+import { isInCheck } from './checkDetection';
+import { hasAnyLegalMoveOrDrop } from './drops';
+import { getLiveSeats } from './multiplayer';
 
 // =============================================================================
 // Game Result Detection
@@ -38,6 +42,9 @@ export function getGameResult(gameState: GameState): GameResult | null {
   // If result is already set (resignation, timeout, etc.), return it
   if (gameState.result) return gameState.result;
 
+  // Free-for-all games have their own ending: one player left standing
+  if (gameState.multiplayer) return getMultiplayerResult(gameState);
+
   // Check for 50-move rule (100 half-moves without pawn move or capture)
   if (gameState.halfmoveClock >= 100) {
     return {
@@ -78,11 +85,8 @@ export function getGameResult(gameState: GameState): GameResult | null {
   }
 
   const currentPlayer = gameState.currentTurn;
-  const hasLegalMoves = hasAnyLegalMoves(
-    gameState.board,
-    currentPlayer,
-    gameState.enPassantTarget
-  );
+  // In drops games a drop from the hand also counts as a legal move
+  const hasLegalMoves = hasAnyLegalMoveOrDrop(gameState);
 
   if (!hasLegalMoves) {
     // No legal moves - either checkmate or stalemate
@@ -129,6 +133,49 @@ export function getGameResult(gameState: GameState): GameResult | null {
   return null;
 }
 
+/**
+ * Check if a free-for-all game has ended. Players are knocked out as moves are
+ * made (see settleEliminations), so the game is over once one is left; the
+ * draw rules still apply while more remain.
+ */
+function getMultiplayerResult(gameState: GameState): GameResult | null {
+  const live = getLiveSeats(gameState.multiplayer!);
+  const type =
+    live.length <= 1
+      ? 'last-standing'
+      : gameState.halfmoveClock >= 100
+        ? 'draw-fifty-move'
+        : isThreefoldRepetition(gameState)
+          ? 'draw-repetition'
+          : null;
+  if (!type) return null;
+
+  return {
+    type,
+    winner: type === 'last-standing' ? live[0] ?? null : null,
+    whiteVP: calculateVictoryPoints(gameState.board, 'white'),
+    blackVP: calculateVictoryPoints(gameState.board, 'black'),
+    standings: getStandings(gameState),
+  };
+}
+
+/**
+ * Rank the players of a free-for-all: those still standing by Victory Points,
+ * then those knocked out, the last to go out first
+ */
+export function getStandings(gameState: GameState): Standing[] {
+  const multiplayer = gameState.multiplayer;
+  if (!multiplayer) return [];
+
+  const standing = getLiveSeats(multiplayer)
+    .map((color) => ({ color, victoryPoints: calculateVictoryPoints(gameState.board, color), eliminated: false }))
+    .sort((a, b) => b.victoryPoints - a.victoryPoints);
+  const out = [...multiplayer.eliminated]
+    .reverse()
+    .map((color) => ({ color, victoryPoints: calculateVictoryPoints(gameState.board, color), eliminated: true }));
+  return [...standing, ...out];
+}
+
 // =============================================================================
 // Specific Condition Checks
 // =============================================================================
@@ -143,7 +190,7 @@ export function isCheckmate(gameState: GameState): boolean {
     return false;
   }
 
-  return !hasAnyLegalMoves(gameState.board, currentPlayer, gameState.enPassantTarget);
+  return !hasAnyLegalMoveOrDrop(gameState);
 }
 
 /**
@@ -156,7 +203,7 @@ export function isStalemate(gameState: GameState): boolean {
     return false;
   }
 
-  return !hasAnyLegalMoves(gameState.board, currentPlayer, gameState.enPassantTarget);
+  return !hasAnyLegalMoveOrDrop(gameState);
 }
 
 /**
@@ -177,14 +224,14 @@ export function isDraw(gameState: GameState): boolean {
 export function isThreefoldRepetition(gameState: GameState): boolean {
   if (gameState.positionHistory.length < 3) return false;
 
-  // Get the current position hash (last entry in history)
-  const currentHash = gameState.positionHistory[gameState.positionHistory.length - 1];
-  if (!currentHash) return false;
+  // Get the current position key (last entry in history)
+  const currentKey = gameState.positionHistory[gameState.positionHistory.length - 1];
+  if (!currentKey) return false;
 
   // Count occurrences of the current position
   let count = 0;
-  for (const hash of gameState.positionHistory) {
-    if (hash === currentHash) {
+  for (const key of gameState.positionHistory) {
+    if (zobristKeysEqual(key, currentKey)) {
       count++;
       if (count >= 3) return true;
     }
@@ -207,14 +254,14 @@ export function isNearFiftyMoveRule(gameState: GameState): boolean {
 export function isNearThreefoldRepetition(gameState: GameState): boolean {
   if (gameState.positionHistory.length < 2) return false;
 
-  // Get the current position hash
-  const currentHash = gameState.positionHistory[gameState.positionHistory.length - 1];
-  if (!currentHash) return false;
+  // Get the current position key
+  const currentKey = gameState.positionHistory[gameState.positionHistory.length - 1];
+  if (!currentKey) return false;
 
   // Count occurrences - return true if we've seen this position exactly 2 times
   let count = 0;
-  for (const hash of gameState.positionHistory) {
-    if (hash === currentHash) {
+  for (const key of gameState.positionHistory) {
+    if (zobristKeysEqual(key, currentKey)) {
       count++;
     }
   }
@@ -356,6 +403,9 @@ export function getResultDescription(result: GameResult): string {
     case 'draw-repetition':
       return 'Draw by threefold repetition.';
 
+    case 'last-standing':
+      return `${capitalize(result.winner!)} wins as the last player standing.`;
+
     default:
       return 'Game over.';
   }
@@ -0,0 +1,119 @@
+/**
+ * Tests for neutral Mercenaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { positionToString, stringToPosition } from '../types';
+import { gameStateToHfen, parseHfen } from '../notation/hfen';
+import { createBoardState, getPieceAt } from '../board/boardUtils';
+import { computeZobristKey } from '../board/zobrist';
+import { executeMove, prepareMoveFromPositions } from './moveExecution';
+import { generateLegalMoves, isInCheck } from './checkDetection';
+import { calculateVictoryPoints } from './gameEndDetection';
+import { getAvailablePieces } from './draft';
+import { getMercenarySquares, placeMercenaries } from './mercenary';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function square(name: string): Position {
+  return stringToPosition(name)!;
+}
+
+function play(state: GameState, from: string, to: string): GameState {
+  const piece = getPieceAt(state.board, square(from))!;
+  const move = prepareMoveFromPositions(state, piece, square(from), square(to));
+  if (!move) throw new Error(`No move ${from}${to}`);
+  return executeMove(state, move);
+}
+
+function legalMoves(state: GameState, from: string): string[] {
+  const piece = getPieceAt(state.board, square(from))!;
+  return generateLegalMoves(state.board, piece, state.enPassantTarget).map(positionToString).sort();
+}
+
+describe('setup', () => {
+  it('places neutral Mercenaries on a5 and h4', () => {
+    const board = placeMercenaries(createBoardState({ files: 8, ranks: 8 }, []));
+    expect(board.pieces.map((p) => positionToString(p.position!))).toEqual(['a5', 'h4']);
+    expect(board.pieces.every((p) => p.owner === 'neutral' && p.typeId === 'mercenary')).toBe(true);
+  });
+
+  it('uses the matching squares on larger boards', () => {
+    expect(getMercenarySquares({ files: 10, ranks: 10 }).map(positionToString)).toEqual(['a6', 'j5']);
+  });
+
+  it('starts one square in when an edge square is a void', () => {
+    const dimensions = { files: 8, ranks: 8, voids: ['a4', 'a5', 'h4', 'h5'] };
+    expect(getMercenarySquares(dimensions).map(positionToString)).toEqual(['b5', 'g4']);
+  });
+
+  it('skips a start square that is already taken', () => {
+    const { board } = fromHfen('8x8 4k3/8/8/R7/8/8/8/4K3 w - 0 1 -');
+    const mercenaries = placeMercenaries(board).pieces.filter((p) => p.owner === 'neutral');
+    expect(mercenaries.map((p) => positionToString(p.position!))).toEqual(['h4']);
+  });
+
+  it('is never offered in the draft', () => {
+    expect(getAvailablePieces().some((p) => p.id === 'mercenary')).toBe(false);
+  });
+});
+
+describe('neutral Mercenaries', () => {
+  const hfen = '8x8 4k3/8/8/~[mercenary]7/8/8/8/R3K3 w - 0 1 -';
+
+  it('cannot move and attacks nothing', () => {
+    const state = fromHfen('8x8 8/8/1k6/~[mercenary]7/1K6/8/8/8 w - 0 1 -');
+    expect(legalMoves(state, 'a5')).toEqual([]);
+    expect(isInCheck(state.board, 'white')).toBe(false);
+    expect(isInCheck(state.board, 'black')).toBe(false);
+  });
+
+  it('blocks moves and can be captured by either player', () => {
+    const state = fromHfen(hfen);
+    expect(legalMoves(state, 'a1')).toContain('a5');
+    expect(legalMoves(state, 'a1')).not.toContain('a6');
+
+    const after = play(state, 'a1', 'a5');
+    expect(after.board.pieces.find((p) => p.typeId === 'mercenary')?.position).toBeNull();
+  });
+
+  it('counts toward nobody\'s VP', () => {
+    const { board } = fromHfen(hfen);
+    expect(calculateVictoryPoints(board, 'white')).toBe(calculateVictoryPoints(
+      fromHfen('8x8 4k3/8/8/8/8/8/8/R3K3 w - 0 1 -').board,
+      'white'
+    ));
+  });
+
+  it('round-trips through HFEN', () => {
+    expect(gameStateToHfen(fromHfen(hfen))).toBe(hfen);
+    expect(parseHfen('8x8 4k3/8/8/~[MERCENARY]7/8/8/8/R3K3 w - 0 1 -').valid).toBe(false);
+  });
+});
+
+describe('hiring', () => {
+  it('joins the player who moves next to it', () => {
+    const state = fromHfen('8x8 4k3/8/8/~[mercenary]7/8/8/8/1R2K3 w - 0 1 -');
+    const after = play(state, 'b1', 'b4');
+    const mercenary = getPieceAt(after.board, square('a5'));
+
+    expect(mercenary).toMatchObject({ owner: 'white', hasMoved: true });
+    expect(calculateVictoryPoints(after.board, 'white')).toBe(calculateVictoryPoints(state.board, 'white') + 5);
+    expect(after.positionHistory[1]).toEqual(computeZobristKey(after.board, 'black', null));
+  });
+
+  it('then moves and captures as one of its owner\'s pawns', () => {
+    const hired = play(fromHfen('8x8 4k3/8/1p6/~[mercenary]7/8/8/8/1R2K3 w - 0 1 -'), 'b1', 'b4');
+    expect(legalMoves(hired, 'a5')).toEqual(['a6', 'b6']);
+  });
+
+  it('can give check once hired', () => {
+    const state = fromHfen('8x8 8/8/1k6/~[mercenary]7/8/1K6/8/8 w - 0 1 -');
+    expect(play(state, 'b3', 'b4').inCheck).toBe('black');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Mercenaries - neutral pieces that join whoever reaches them first
+ *
+ * With the `mercenaries` room setting, play starts with a neutral Mercenary
+ * on a5 and one on h4 (the first file one rank above the middle and the last
+ * file one rank below it on larger boards). While neutral a Mercenary:
+ * - can't be moved by either player, but blocks moves like any piece
+ * - attacks nothing, so it never gives check
+ * - can be captured by either player, and counts toward nobody's VP
+ *
+ * A player whose move (or drop) ends next to a neutral Mercenary hires it:
+ * it becomes theirs for good, moving and capturing as one of their pawns
+ * (without the double step) and counting its VP for them.
+ */
+
+import type { BoardDimensions, BoardState, PieceInstance, PlayerColor, Position } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import {
+  areAdjacent,
+  createPositionMap,
+  getPieceAt,
+  indexToFile,
+  isValidPosition,
+} from '../board/boardUtils';
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+/**
+ * Get the squares the neutral Mercenaries start on. If an edge square is a
+ * void, the Mercenary starts on the first square in from it along the rank.
+ */
+export function getMercenarySquares(dimensions: BoardDimensions): Position[] {
+  const middle = Math.floor(dimensions.ranks / 2);
+  const starts: [number, number, number][] = [
+    [0, middle + 1, 1],
+    [dimensions.files - 1, middle, -1],
+  ];
+
+  const squares: Position[] = [];
+  for (const [fileIndex, rank, step] of starts) {
+    for (let f = fileIndex; f >= 0 && f < dimensions.files; f += step) {
+      const square = { file: indexToFile(f)!, rank } as Position;
+      if (isValidPosition(square, dimensions)) {
+        squares.push(square);
+        break;
+      }
+    }
+  }
+  return squares;
+}
+
+/**
+ * Add the neutral Mercenaries to a board at the start of play.
+ * A start square that's already taken is left without one.
+ */
+export function placeMercenaries(board: BoardState): BoardState {
+  const mercenaries: PieceInstance[] = getMercenarySquares(board.dimensions)
+    .filter((square) => !getPieceAt(board, square))
+    .map((square, i) => ({
+      id: `neutral-mercenary-${i + 1}`,
+      typeId: 'mercenary',
+      owner: 'neutral',
+      position: square,
+      hasMoved: false,
+      isFrozen: false,
+    }));
+
+  const pieces = [...board.pieces, ...mercenaries];
+  return { ...board, pieces, positionMap: createPositionMap(pieces) };
+}
+
+// =============================================================================
+// Hiring
+// =============================================================================
+
+/**
+ * Hand every neutral Mercenary next to a square over to a player. Hired pieces
+ * count as moved, so a hired Mercenary never double-steps. Other neutral
+ * pieces (a knocked-out free-for-all player's army) can't be hired.
+ * Replaces entries of `pieces` in place, like the rest of executeMove.
+ */
+export function hireAdjacentPieces(
+  pieces: PieceInstance[],
+  square: Position,
+  color: PlayerColor,
+  dimensions: BoardDimensions
+): void {
+  for (let i = 0; i < pieces.length; i++) {
+    const piece = pieces[i];
+    if (
+      piece.owner === 'neutral' &&
+      PIECE_BY_ID[piece.typeId]?.startsNeutral &&
+      piece.position &&
+      areAdjacent(piece.position, square, dimensions)
+    ) {
+      pieces[i] = { ...piece, owner: color, hasMoved: true };
+    }
+  }
+}
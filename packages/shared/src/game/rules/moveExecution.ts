@@ -4,14 +4,20 @@
 
 import type {
   Position,
+  BoardDimensions,
+  BoardSize,
   BoardState,
+  BoardTopology,
+  DeadPieceRule,
   GameState,
   PieceInstance,
   Move,
   PlayerColor,
   File,
   Rank,
+  Hands,
 } from '../types';
+import { getBoardConfig } from '../types';
 import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
 import {
   cloneBoardState,
@@ -19,15 +25,35 @@ import {
   getPieceAt,
   getPieceById,
   getOpponentColor,
-  fileToIndex,
   getKing,
+  initializeRoyalTracking,
+  getMoverColor,
   hasCapturableEnemyPiece,
-  hashPosition,
+  isEnPassantCapture,
+  getEnPassantCapturePosition,
+  getDirectionVectors,
+  getFileDelta,
+  getSquaresBetween,
+  isSquareEmpty,
+  offsetPosition,
+  orientVector,
 } from '../board/boardUtils';
+import { computeZobristKey, updateZobristKey } from '../board/zobrist';
 import { isCastlingMove } from './castling';
 import { isInCheck } from './checkDetection';
 import { isPromotionMove } from './promotion';
 import { updateFrozenStates } from './freeze';
+import { hireAdjacentPieces } from './mercenary';
+import {
+  MULTIPLAYER_BOARD_SIZE,
+  createMultiplayerState,
+  getCrossVoids,
+  getNextSeat,
+  isNewRound,
+  placeMultiplayerArmy,
+  settleEliminations,
+} from './multiplayer';
+import { writeSan } from '../notation/san';
 
 // =============================================================================
 // Special Capture Calculations
@@ -67,6 +93,25 @@ export function getCoordinatorCaptures(
   return captures;
 }
 
+/**
+ * Find the line a piece moved along from one square to another and the squares
+ * it passed over. On a cylinder a line can reach `to` either way round the
+ * board; the first way that `fits` accepts is taken. Returns null if none does.
+ */
+function findLinePath(
+  board: BoardState,
+  from: Position,
+  to: Position,
+  lines: 'orthogonal' | 'diagonal' | 'all',
+  fits: (path: Position[]) => boolean = () => true
+): { dx: number; dy: number; path: Position[] } | null {
+  for (const dir of getDirectionVectors(lines)) {
+    const path = getSquaresBetween(from, to, dir.dx, dir.dy, board.dimensions);
+    if (path && fits(path)) return { ...dir, path };
+  }
+  return null;
+}
+
 /**
  * Calculate boxer captures - enemies "boxed in" (orthogonally adjacent with friendly on opposite side)
  */
@@ -76,44 +121,18 @@ export function getBoxerCaptures(
   boxerNewPos: Position
 ): { pieceId: string; position: Position }[] {
   const captures: { pieceId: string; position: Position }[] = [];
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
-  const boxerFileIndex = files.indexOf(boxerNewPos.file);
 
   // Check all 4 orthogonal directions
-  const directions = [
-    { dx: 1, dy: 0 },   // right
-    { dx: -1, dy: 0 },  // left
-    { dx: 0, dy: 1 },   // up
-    { dx: 0, dy: -1 },  // down
-  ];
-
-  for (const dir of directions) {
+  for (const dir of getDirectionVectors('orthogonal')) {
     // Position of potential enemy (adjacent to boxer)
-    const enemyFileIndex = boxerFileIndex + dir.dx;
-    const enemyRank = boxerNewPos.rank + dir.dy;
-
-    if (enemyFileIndex < 0 || enemyFileIndex >= files.length) continue;
-    if (enemyRank < 1 || enemyRank > 10) continue;
-
-    const enemyPos: Position = {
-      file: files[enemyFileIndex],
-      rank: enemyRank as Rank,
-    };
+    const enemyPos = offsetPosition(boxerNewPos, dir.dx, dir.dy, board.dimensions);
 
     // Check if there's a capturable enemy at this position
-    if (!hasCapturableEnemyPiece(board, enemyPos, boxerColor)) continue;
+    if (!enemyPos || !hasCapturableEnemyPiece(board, enemyPos, boxerColor)) continue;
 
     // Position of potential friendly piece (on opposite side of enemy)
-    const friendlyFileIndex = boxerFileIndex + dir.dx * 2;
-    const friendlyRank = boxerNewPos.rank + dir.dy * 2;
-
-    if (friendlyFileIndex < 0 || friendlyFileIndex >= files.length) continue;
-    if (friendlyRank < 1 || friendlyRank > 10) continue;
-
-    const friendlyPos: Position = {
-      file: files[friendlyFileIndex],
-      rank: friendlyRank as Rank,
-    };
+    const friendlyPos = offsetPosition(enemyPos, dir.dx, dir.dy, board.dimensions);
+    if (!friendlyPos) continue;
 
     // Check if there's a friendly piece completing the "box"
     const friendlyPiece = getPieceAt(board, friendlyPos);
@@ -137,29 +156,12 @@ export function getThiefCapture(
   from: Position,
   to: Position
 ): { pieceId: string; position: Position } | null {
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
+  // The capture position is one more step in the direction of movement
+  const line = findLinePath(board, from, to, 'all');
+  if (!line) return null;
 
-  // Calculate movement direction
-  const fromFileIndex = files.indexOf(from.file);
-  const toFileIndex = files.indexOf(to.file);
-  const dx = toFileIndex - fromFileIndex;
-  const dy = to.rank - from.rank;
-
-  // The capture position is one more step in the same direction
-  // Normalize direction to get unit step
-  const stepX = dx === 0 ? 0 : dx / Math.abs(dx);
-  const stepY = dy === 0 ? 0 : dy / Math.abs(dy);
-
-  const captureFileIndex = toFileIndex + stepX;
-  const captureRank = to.rank + stepY;
-
-  if (captureFileIndex < 0 || captureFileIndex >= files.length) return null;
-  if (captureRank < 1 || captureRank > 10) return null;
-
-  const capturePos: Position = {
-    file: files[captureFileIndex],
-    rank: captureRank as Rank,
-  };
+  const capturePos = offsetPosition(to, line.dx, line.dy, board.dimensions);
+  if (!capturePos) return null;
 
   if (hasCapturableEnemyPiece(board, capturePos, thiefColor)) {
     const piece = getPieceAt(board, capturePos);
@@ -181,45 +183,23 @@ export function getLongLeaperCaptures(
   from: Position,
   to: Position
 ): { pieceId: string; position: Position }[] {
+  // Every piece passed over must be a capturable enemy with an empty square beyond
+  const line = findLinePath(board, from, to, 'all', (path) =>
+    path.every(
+      (pos, i) =>
+        isSquareEmpty(board, pos) ||
+        (hasCapturableEnemyPiece(board, pos, longLeaperColor) &&
+          (i === path.length - 1 || isSquareEmpty(board, path[i + 1])))
+    )
+  );
+  if (!line) return [];
+
+  // Find jumped pieces along the path
   const captures: { pieceId: string; position: Position }[] = [];
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
-
-  // Calculate direction of movement
-  const fromFileIndex = files.indexOf(from.file);
-  const toFileIndex = files.indexOf(to.file);
-  const dx = toFileIndex - fromFileIndex;
-  const dy = to.rank - from.rank;
-
-  // Must be in a straight line
-  if (dx !== 0 && dy !== 0 && Math.abs(dx) !== Math.abs(dy)) {
-    return captures;
-  }
-
-  const distance = Math.max(Math.abs(dx), Math.abs(dy));
-  if (distance === 0) return captures;
-
-  const stepX = dx === 0 ? 0 : dx / Math.abs(dx);
-  const stepY = dy === 0 ? 0 : dy / Math.abs(dy);
-
-  // Walk the path and find jumped pieces
-  let currentFileIndex = fromFileIndex;
-  let currentRank = from.rank;
-
-  for (let i = 0; i < distance; i++) {
-    currentFileIndex += stepX;
-    currentRank += stepY;
-
-    const pos: Position = {
-      file: files[currentFileIndex],
-      rank: currentRank as Rank,
-    };
-
-    // Check if there's a piece at this position
-    if (hasCapturableEnemyPiece(board, pos, longLeaperColor)) {
-      const piece = getPieceAt(board, pos);
-      if (piece) {
-        captures.push({ pieceId: piece.id, position: pos });
-      }
+  for (const pos of line.path) {
+    const piece = getPieceAt(board, pos);
+    if (piece) {
+      captures.push({ pieceId: piece.id, position: pos });
     }
   }
 
@@ -237,49 +217,22 @@ export function getCheckersCaptures(
   from: Position,
   to: Position
 ): { pieceId: string; position: Position }[] {
-  const captures: { pieceId: string; position: Position }[] = [];
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
-
-  // Calculate direction of movement
-  const fromFileIndex = files.indexOf(from.file);
-  const toFileIndex = files.indexOf(to.file);
-  const dx = toFileIndex - fromFileIndex;
-  const dy = to.rank - from.rank;
-
-  // Checkers captures must be diagonal
-  if (Math.abs(dx) !== Math.abs(dy) || dx === 0) {
-    return captures;
-  }
-
-  const distance = Math.abs(dx);
-  const stepX = dx / Math.abs(dx);
-  const stepY = dy / Math.abs(dy);
-
-  // Each jump is exactly 2 squares (over 1 piece)
-  // Walk the path and find jumped pieces (at odd positions: 1, 3, 5, ...)
-  let currentFileIndex = fromFileIndex;
-  let currentRank = from.rank;
-
-  for (let i = 1; i <= distance; i++) {
-    currentFileIndex += stepX;
-    currentRank += stepY;
-
-    // Captured pieces are at the midpoints (every other square starting from 1)
-    if (i % 2 === 1 && i < distance) {
-      const pos: Position = {
-        file: files[currentFileIndex],
-        rank: currentRank as Rank,
-      };
+  // Each jump is exactly 2 squares (over 1 piece), so jumped pieces sit at
+  // every other square of the path, starting with the first
+  const line = findLinePath(board, from, to, 'diagonal', (path) =>
+    path.every((pos, i) =>
+      i % 2 === 0 ? hasCapturableEnemyPiece(board, pos, piece.owner) : isSquareEmpty(board, pos)
+    )
+  );
+  if (!line) return [];
 
-      // Check if there's a piece at this position
-      if (hasCapturableEnemyPiece(board, pos, piece.owner)) {
-        const capturedPiece = getPieceAt(board, pos);
-        if (capturedPiece) {
-          captures.push({ pieceId: capturedPiece.id, position: pos });
-        }
-      }
+  const captures: { pieceId: string; position: Position }[] = [];
+  line.path.forEach((pos, i) => {
+    const capturedPiece = i % 2 === 0 ? getPieceAt(board, pos) : null;
+    if (capturedPiece) {
+      captures.push({ pieceId: capturedPiece.id, position: pos });
     }
-  }
+  });
 
   return captures;
 }
@@ -294,23 +247,13 @@ export function getWithdrawerCapture(
   to: Position
 ): { pieceId: string; position: Position } | null {
   // Calculate movement direction
-  const dx = fileToIndex(to.file) - fileToIndex(from.file);
-  const dy = to.rank - from.rank;
+  const line = findLinePath(board, from, to, 'all', (path) => path.every((pos) => isSquareEmpty(board, pos)));
+  if (!line) return null;
 
   // The capture position is in the opposite direction from 'from'
   // (i.e., the piece we're moving away from)
-  const captureFile = fileToIndex(from.file) - Math.sign(dx);
-  const captureRank = from.rank - Math.sign(dy);
-
-  // Check if there's a valid file
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
-  if (captureFile < 0 || captureFile >= files.length) return null;
-  if (captureRank < 1 || captureRank > 10) return null;
-
-  const capturePos: Position = {
-    file: files[captureFile],
-    rank: captureRank as Rank,
-  };
+  const capturePos = offsetPosition(from, -line.dx, -line.dy, board.dimensions);
+  if (!capturePos) return null;
 
   if (hasCapturableEnemyPiece(board, capturePos, withdrawerColor)) {
     const piece = getPieceAt(board, capturePos);
@@ -378,7 +321,7 @@ function getChameleonCoordinatorCapture(
   const captures: { pieceId: string; position: Position }[] = [];
 
   // Find the chameleon's king
-  const king = getKing(board, chameleon.owner);
+  const king = getKing(board, getMoverColor(chameleon));
   if (!king || !king.position) return captures;
 
   // Check position 1: King's file, Chameleon's new rank
@@ -414,28 +357,11 @@ function getChameleonBoxerCapture(
   newPos: Position
 ): { pieceId: string; position: Position }[] {
   const captures: { pieceId: string; position: Position }[] = [];
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
-  const newFileIndex = files.indexOf(newPos.file);
-
-  const orthogonalDirs = [
-    { dx: 1, dy: 0 },
-    { dx: -1, dy: 0 },
-    { dx: 0, dy: 1 },
-    { dx: 0, dy: -1 },
-  ];
 
-  for (const dir of orthogonalDirs) {
+  for (const dir of getDirectionVectors('orthogonal')) {
     // Position of potential enemy boxer (adjacent to chameleon's new position)
-    const enemyFileIndex = newFileIndex + dir.dx;
-    const enemyRank = newPos.rank + dir.dy;
-
-    if (enemyFileIndex < 0 || enemyFileIndex >= files.length) continue;
-    if (enemyRank < 1 || enemyRank > 10) continue;
-
-    const enemyPos: Position = {
-      file: files[enemyFileIndex],
-      rank: enemyRank as Rank,
-    };
+    const enemyPos = offsetPosition(newPos, dir.dx, dir.dy, board.dimensions);
+    if (!enemyPos) continue;
 
     // Check if there's an enemy boxer at this position
     const enemyPiece = getPieceAt(board, enemyPos);
@@ -446,16 +372,8 @@ function getChameleonBoxerCapture(
     if (!enemyType.canBeCaptured) continue;
 
     // Check if there's a friendly piece on the opposite side of the boxer
-    const friendlyFileIndex = newFileIndex + dir.dx * 2;
-    const friendlyRank = newPos.rank + dir.dy * 2;
-
-    if (friendlyFileIndex < 0 || friendlyFileIndex >= files.length) continue;
-    if (friendlyRank < 1 || friendlyRank > 10) continue;
-
-    const friendlyPos: Position = {
-      file: files[friendlyFileIndex],
-      rank: friendlyRank as Rank,
-    };
+    const friendlyPos = offsetPosition(enemyPos, dir.dx, dir.dy, board.dimensions);
+    if (!friendlyPos) continue;
 
     const friendlyPiece = getPieceAt(board, friendlyPos);
     if (friendlyPiece && friendlyPiece.owner === chameleon.owner) {
@@ -477,21 +395,12 @@ function getChameleonWithdrawerCapture(
   to: Position
 ): { pieceId: string; position: Position } | null {
   // Calculate movement direction
-  const dx = fileToIndex(to.file) - fileToIndex(from.file);
-  const dy = to.rank - from.rank;
+  const line = findLinePath(board, from, to, 'all', (path) => path.every((pos) => isSquareEmpty(board, pos)));
+  if (!line) return null;
 
   // The withdrawer would be in the opposite direction from 'from' position
-  const captureFile = fileToIndex(from.file) - Math.sign(dx);
-  const captureRank = from.rank - Math.sign(dy);
-
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
-  if (captureFile < 0 || captureFile >= files.length) return null;
-  if (captureRank < 1 || captureRank > 10) return null;
-
-  const capturePos: Position = {
-    file: files[captureFile],
-    rank: captureRank as Rank,
-  };
+  const capturePos = offsetPosition(from, -line.dx, -line.dy, board.dimensions);
+  if (!capturePos) return null;
 
   const piece = getPieceAt(board, capturePos);
   if (!piece || piece.owner === chameleon.owner) return null;
@@ -515,41 +424,17 @@ function getChameleonLongLeaperCapture(
   from: Position,
   to: Position
 ): { pieceId: string; position: Position }[] {
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
-
-  // Calculate direction of movement
-  const fromFileIndex = files.indexOf(from.file);
-  const toFileIndex = files.indexOf(to.file);
-  const dx = toFileIndex - fromFileIndex;
-  const dy = to.rank - from.rank;
-
-  // Must be in a straight line
-  if (dx !== 0 && dy !== 0 && Math.abs(dx) !== Math.abs(dy)) {
-    return [];
-  }
-
-  const distance = Math.max(Math.abs(dx), Math.abs(dy));
-  if (distance === 0) return [];
-
-  const stepX = dx === 0 ? 0 : dx / Math.abs(dx);
-  const stepY = dy === 0 ? 0 : dy / Math.abs(dy);
+  // The path can't pass over friendly pieces
+  const line = findLinePath(board, from, to, 'all', (path) =>
+    path.every((pos) => getPieceAt(board, pos)?.owner !== chameleon.owner)
+  );
+  if (!line) return [];
 
   // Walk the path and collect all jumped enemy pieces
   const allJumpedPieces: { pieceId: string; position: Position }[] = [];
   let hasLongLeaper = false;
 
-  let currentFileIndex = fromFileIndex;
-  let currentRank = from.rank;
-
-  for (let i = 0; i < distance; i++) {
-    currentFileIndex += stepX;
-    currentRank += stepY;
-
-    const pos: Position = {
-      file: files[currentFileIndex],
-      rank: currentRank as Rank,
-    };
-
+  for (const pos of line.path) {
     const piece = getPieceAt(board, pos);
     if (piece && piece.owner !== chameleon.owner) {
       const pieceType = PIECE_BY_ID[piece.typeId];
@@ -578,43 +463,18 @@ function getChameleonCheckersCapture(
   from: Position,
   to: Position
 ): { pieceId: string; position: Position }[] {
-  const files: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
-
-  // Calculate direction of movement
-  const fromFileIndex = files.indexOf(from.file);
-  const toFileIndex = files.indexOf(to.file);
-  const dx = toFileIndex - fromFileIndex;
-  const dy = to.rank - from.rank;
-
-  // Must be diagonal
-  if (Math.abs(dx) !== Math.abs(dy) || dx === 0) {
-    return [];
-  }
-
-  const distance = Math.abs(dx);
-  const stepX = dx / Math.abs(dx);
-  const stepY = dy / Math.abs(dy);
+  // Must be diagonal, without passing over friendly pieces
+  const line = findLinePath(board, from, to, 'diagonal', (path) =>
+    path.every((pos) => getPieceAt(board, pos)?.owner !== chameleon.owner)
+  );
+  if (!line) return [];
 
   // Walk the path and collect all jumped enemy pieces
   // Also check if any of them are checkers
   const allJumpedPieces: { pieceId: string; position: Position }[] = [];
   let hasChecker = false;
 
-  let currentFileIndex = fromFileIndex;
-  let currentRank = from.rank;
-
-  for (let i = 0; i < distance; i++) {
-    currentFileIndex += stepX;
-    currentRank += stepY;
-
-    // Don't include the landing position
-    if (i === distance - 1) continue;
-
-    const pos: Position = {
-      file: files[currentFileIndex],
-      rank: currentRank as Rank,
-    };
-
+  for (const pos of line.path) {
     const piece = getPieceAt(board, pos);
     if (piece && piece.owner !== chameleon.owner) {
       const pieceType = PIECE_BY_ID[piece.typeId];
@@ -662,12 +522,7 @@ export function createMove(
     ? getPieceAt(board, options.capturePosition)
     : getPieceAt(board, to);
 
-  const pieceType = PIECE_BY_ID[piece.typeId];
-
-  // Count total captures for notation
-  const hasCapture = !!capturedPiece || !!(options.additionalCaptures && options.additionalCaptures.length > 0);
-
-  return {
+  const move: Move = {
     pieceId: piece.id,
     from,
     to,
@@ -683,55 +538,13 @@ export function createMove(
     promotionPieceType: options.promotionPieceType ?? null,
     isSwap: options.isSwap,
     swapPieceId: options.swapPieceId,
-    notation: generateNotation(pieceType?.symbol ?? '?', from, to, hasCapture, options),
+    notation: '',
   };
-}
-
-/**
- * Generate algebraic notation for a move
- */
-function generateNotation(
-  symbol: string,
-  from: Position,
-  to: Position,
-  isCapture: boolean,
-  options: {
-    isCastling?: boolean;
-    isPromotion?: boolean;
-    promotionPieceType?: string;
-  }
-): string {
-  // Castling notation
-  if (options.isCastling) {
-    const dx = fileToIndex(to.file) - fileToIndex(from.file);
-    return dx > 0 ? 'O-O' : 'O-O-O';
-  }
-
-  let notation = '';
 
-  // Piece symbol (except pawns)
-  if (symbol !== 'P') {
-    notation += symbol;
-  }
-
-  // Capture symbol
-  if (isCapture) {
-    if (symbol === 'P') {
-      notation += from.file;
-    }
-    notation += 'x';
-  }
-
-  // Destination
-  notation += `${to.file}${to.rank}`;
-
-  // Promotion
-  if (options.isPromotion && options.promotionPieceType) {
-    const promoType = PIECE_BY_ID[options.promotionPieceType];
-    notation += `=${promoType?.symbol ?? '?'}`;
-  }
-
-  return notation;
+  // Without the rest of the position there's no disambiguation or check marker;
+  // formatMoveNotation adds those for moves that are actually played
+  move.notation = writeSan(board, move);
+  return move;
 }
 
 // =============================================================================
@@ -743,6 +556,19 @@ function generateNotation(
  */
 export function executeMove(gameState: GameState, move: Move): GameState {
   const newBoard = cloneBoardState(gameState.board);
+
+  // Handle drop - the piece enters the board from the mover's hand
+  if (move.dropPieceType) {
+    newBoard.pieces.push({
+      id: move.pieceId,
+      typeId: move.dropPieceType,
+      owner: gameState.currentTurn,
+      position: move.to,
+      hasMoved: true,
+      isFrozen: false,
+    });
+  }
+
   const piece = getPieceById(newBoard, move.pieceId);
 
   if (!piece) {
@@ -811,13 +637,19 @@ export function executeMove(gameState: GameState, move: Move): GameState {
   if (move.isPromotion && move.promotionPieceType) {
     const promoIndex = newBoard.pieces.findIndex((p) => p.id === move.pieceId);
     if (promoIndex !== -1) {
+      const promoted = newBoard.pieces[promoIndex];
       newBoard.pieces[promoIndex] = {
-        ...newBoard.pieces[promoIndex],
+        ...promoted,
         typeId: move.promotionPieceType,
+        // Drops games remember the original type for when the piece is captured
+        ...(gameState.hand && { promotedFrom: promoted.promotedFrom ?? promoted.typeId }),
       };
     }
   }
 
+  // Neutral pieces next to where the piece lands join the mover
+  hireAdjacentPieces(newBoard.pieces, move.to, gameState.currentTurn, newBoard.dimensions);
+
   // Rebuild position map
   newBoard.positionMap = createPositionMap(newBoard.pieces);
 
@@ -828,20 +660,30 @@ export function executeMove(gameState: GameState, move: Move): GameState {
   let enPassantTarget: Position | null = null;
   const pieceType = PIECE_BY_ID[piece.typeId];
 
-  if (pieceType?.movement.special.includes('pawn-forward')) {
+  if (
+    pieceType?.movement.special.includes('pawn-forward') ||
+    pieceType?.movement.special.includes('berolina')
+  ) {
+    const { dimensions } = gameState.board;
+    const dx = getFileDelta(move.from, move.to, dimensions);
     const dy = move.to.rank - move.from.rank;
-    if (Math.abs(dy) === 2) {
-      // Pawn double-moved, set en passant target
-      const epRank = (move.from.rank + (dy > 0 ? 1 : -1)) as Rank;
-      enPassantTarget = { file: move.to.file, rank: epRank };
+    const forward = orientVector(piece.owner, 0, 1);
+    if (Math.abs(dx * forward.dx + dy * forward.dy) === 2) {
+      // Pawn double-moved, set en passant target on the square it passed over
+      // (diagonally for a Berolina pawn)
+      enPassantTarget = offsetPosition(move.from, dx / 2, dy / 2, dimensions);
     }
   }
 
-  // Switch turn
-  const nextTurn = getOpponentColor(gameState.currentTurn);
+  // Switch turn (clockwise round the table in a free-for-all)
+  const { multiplayer } = gameState;
+  const nextTurn = multiplayer
+    ? getNextSeat(multiplayer, gameState.currentTurn)
+    : getOpponentColor(gameState.currentTurn);
 
-  // Increment turn number (after black moves)
-  const newTurnNumber = nextTurn === 'white' ? gameState.turnNumber + 1 : gameState.turnNumber;
+  // Increment turn number (after black moves, or once round the table)
+  const newRound = multiplayer ? isNewRound(multiplayer, gameState.currentTurn, nextTurn) : nextTurn === 'white';
+  const newTurnNumber = newRound ? gameState.turnNumber + 1 : gameState.turnNumber;
 
   // Check if opponent is now in check
   const inCheck = isInCheck(boardWithFrozen, nextTurn) ? nextTurn : null;
@@ -853,11 +695,22 @@ export function executeMove(gameState: GameState, move: Move): GameState {
     (move.additionalCaptures && move.additionalCaptures.length > 0);
   const newHalfmoveClock = (isPawnMove || hasCapture) ? 0 : gameState.halfmoveClock + 1;
 
-  // Calculate position hash for threefold repetition detection
-  const positionHash = hashPosition(boardWithFrozen, nextTurn, enPassantTarget);
-  const newPositionHistory = [...gameState.positionHistory, positionHash];
-
-  return {
+  // Captured pieces change hands in drops games
+  const hand = gameState.hand ? updateHands(gameState.hand, gameState.board, move, gameState.currentTurn) : undefined;
+
+  // Update the position key for threefold repetition detection
+  const previousKey = gameState.positionHistory[gameState.positionHistory.length - 1];
+  const positionKey = previousKey
+    ? updateZobristKey(previousKey, gameState, {
+        board: boardWithFrozen,
+        currentTurn: nextTurn,
+        enPassantTarget,
+        hand,
+      })
+    : computeZobristKey(boardWithFrozen, nextTurn, enPassantTarget, hand);
+  const newPositionHistory = [...gameState.positionHistory, positionKey];
+
+  const nextState: GameState = {
     ...gameState,
     board: boardWithFrozen,
     currentTurn: nextTurn,
@@ -867,7 +720,39 @@ export function executeMove(gameState: GameState, move: Move): GameState {
     moveHistory: [...gameState.moveHistory, move],
     halfmoveClock: newHalfmoveClock,
     positionHistory: newPositionHistory,
+    ...(hand && { hand }),
   };
+
+  // In a free-for-all the move may have knocked players out
+  return multiplayer ? settleEliminations(nextState) : nextState;
+}
+
+/**
+ * Get the hands after a move: a drop leaves the mover's hand, and captured
+ * enemy pieces join it as their unpromoted type. Royal pieces leave play
+ * instead, so a second King can never be dropped.
+ */
+function updateHands(hands: Hands, board: BoardState, move: Move, color: PlayerColor): Hands {
+  const hand = [...(hands[color] ?? [])];
+
+  if (move.dropPieceType) {
+    hand.splice(hand.indexOf(move.dropPieceType), 1);
+  }
+
+  const capturedIds = [
+    ...(move.capturedPieceId && move.capturedPieceId !== move.swapPieceId ? [move.capturedPieceId] : []),
+    ...(move.additionalCaptures ?? []).map((capture) => capture.pieceId),
+  ];
+  for (const id of capturedIds) {
+    const captured = getPieceById(board, id);
+    if (!captured || captured.owner === color) continue;
+    const typeId = captured.promotedFrom ?? captured.typeId;
+    const capturedType = PIECE_BY_ID[typeId];
+    if (!capturedType || capturedType.isRoyal || !capturedType.canBeCaptured) continue;
+    hand.push(typeId);
+  }
+
+  return { ...hands, [color]: hand };
 }
 
 // =============================================================================
@@ -889,6 +774,7 @@ export function prepareMoveFromPositions(
 
   const pieceType = PIECE_BY_ID[piece.typeId];
   if (!pieceType) return null;
+  const color = getMoverColor(piece);
 
   // Check for castling
   if (pieceType.isRoyal) {
@@ -904,22 +790,10 @@ export function prepareMoveFromPositions(
   }
 
   // Check for en passant
-  let isEnPassant = false;
-  let capturePosition: Position | undefined;
-
-  if (
-    gameState.enPassantTarget &&
-    pieceType.movement.special.includes('pawn-capture-diagonal') &&
-    to.file === gameState.enPassantTarget.file &&
-    to.rank === gameState.enPassantTarget.rank
-  ) {
-    isEnPassant = true;
-    const direction = piece.owner === 'white' ? 1 : -1;
-    capturePosition = {
-      file: to.file,
-      rank: (to.rank - direction) as Rank,
-    };
-  }
+  const isEnPassant = isEnPassantCapture(piece, to, gameState.enPassantTarget);
+  const capturePosition = isEnPassant
+    ? getEnPassantCapturePosition(gameState.board, to, color)
+    : undefined;
 
   // Check for promotion
   const isPawnPromotion = isPromotionMove(piece, pieceType, to, gameState.board.dimensions);
@@ -940,27 +814,27 @@ export function prepareMoveFromPositions(
   let additionalCaptures: { pieceId: string; position: Position }[] | undefined;
 
   if (pieceType.captureType === 'coordinator') {
-    const coordCaptures = getCoordinatorCaptures(gameState.board, piece.owner, to);
+    const coordCaptures = getCoordinatorCaptures(gameState.board, color, to);
     if (coordCaptures.length > 0) {
       additionalCaptures = coordCaptures;
     }
   } else if (pieceType.captureType === 'withdrawal') {
-    const withdrawCapture = getWithdrawerCapture(gameState.board, piece.owner, from, to);
+    const withdrawCapture = getWithdrawerCapture(gameState.board, color, from, to);
     if (withdrawCapture) {
       additionalCaptures = [withdrawCapture];
     }
   } else if (pieceType.captureType === 'boxer') {
-    const boxerCaptures = getBoxerCaptures(gameState.board, piece.owner, to);
+    const boxerCaptures = getBoxerCaptures(gameState.board, color, to);
     if (boxerCaptures.length > 0) {
       additionalCaptures = boxerCaptures;
     }
   } else if (pieceType.captureType === 'thief') {
-    const thiefCapture = getThiefCapture(gameState.board, piece.owner, from, to);
+    const thiefCapture = getThiefCapture(gameState.board, color, from, to);
     if (thiefCapture) {
       additionalCaptures = [thiefCapture];
     }
   } else if (pieceType.captureType === 'long-leap') {
-    const longLeapCaptures = getLongLeaperCaptures(gameState.board, piece.owner, from, to);
+    const longLeapCaptures = getLongLeaperCaptures(gameState.board, color, from, to);
     if (longLeapCaptures.length > 0) {
       additionalCaptures = longLeapCaptures;
     }
@@ -996,14 +870,15 @@ export function prepareMoveFromPositions(
  */
 export function createInitialGameState(
   pieces: PieceInstance[],
-  boardSize: '8x8' | '10x8' | '10x10' = '8x8',
-  pointBudget: number = 0
+  boardSize: BoardSize = '8x8',
+  pointBudget: number = 0,
+  topology: BoardTopology = 'flat',
+  voids: string[] = []
 ): GameState {
-  const dimensions = {
-    '8x8': { files: 8, ranks: 8 },
-    '10x8': { files: 10, ranks: 8 },
-    '10x10': { files: 10, ranks: 10 },
-  }[boardSize];
+  const { files, ranks } = getBoardConfig(boardSize);
+  const dimensions: BoardDimensions = { files, ranks };
+  if (topology !== 'flat') dimensions.topology = topology;
+  if (voids.length > 0) dimensions.voids = voids;
 
   const board: BoardState = {
     dimensions,
@@ -1011,8 +886,8 @@ export function createInitialGameState(
     positionMap: createPositionMap(pieces),
   };
 
-  // Calculate initial position hash for threefold repetition detection
-  const initialHash = hashPosition(board, 'white', null);
+  // Calculate initial position key for threefold repetition detection
+  const initialKey = computeZobristKey(board, 'white', null);
 
   return {
     phase: 'play',
@@ -1031,23 +906,46 @@ export function createInitialGameState(
     moveHistory: [],
     enPassantTarget: null,
     halfmoveClock: 0,
-    positionHistory: [initialHash],
+    positionHistory: [initialKey],
     result: null,
   };
 }
 
+/**
+ * Create the starting game state for a free-for-all: each seated player's
+ * army is set out in their home arm of the cross-shaped board
+ */
+export function createMultiplayerGameState(
+  armies: Partial<Record<PlayerColor, PieceInstance[]>>,
+  deadPieces: DeadPieceRule = 'obstacles',
+  pointBudget: number = 0
+): GameState {
+  const multiplayer = createMultiplayerState(Object.keys(armies).length, deadPieces);
+  const { files, ranks } = getBoardConfig(MULTIPLAYER_BOARD_SIZE);
+  const dimensions: BoardDimensions = { files, ranks };
+
+  const pieces = multiplayer.seats.flatMap((color) =>
+    placeMultiplayerArmy(armies[color] ?? [], color, dimensions)
+  );
+  const gameState = createInitialGameState(pieces, MULTIPLAYER_BOARD_SIZE, pointBudget, 'flat', getCrossVoids(dimensions));
+  const board = updateFrozenStates(initializeRoyalTracking(gameState.board));
+
+  return { ...gameState, board, multiplayer };
+}
+
 /**
  * Create empty game state for placement phase
  */
 export function createEmptyGameState(
-  boardSize: '8x8' | '10x8' | '10x10' = '8x8',
-  pointBudget: number = 0
+  boardSize: BoardSize = '8x8',
+  pointBudget: number = 0,
+  topology: BoardTopology = 'flat',
+  voids: string[] = []
 ): GameState {
-  const dimensions = {
-    '8x8': { files: 8, ranks: 8 },
-    '10x8': { files: 10, ranks: 8 },
-    '10x10': { files: 10, ranks: 10 },
-  }[boardSize];
+  const { files, ranks } = getBoardConfig(boardSize);
+  const dimensions: BoardDimensions = { files, ranks };
+  if (topology !== 'flat') dimensions.topology = topology;
+  if (voids.length > 0) dimensions.voids = voids;
 
   return {
     phase: 'placement',
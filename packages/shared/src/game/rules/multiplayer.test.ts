@@ -0,0 +1,152 @@
+/**
+ * Tests for three- and four-player free-for-all games
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GameState, Position } from '../types';
+import { PLAYER_COLORS, positionToString, stringToPosition } from '../types';
+import { gameStateToHfen, parseHfen } from '../notation/hfen';
+import { getAllPieces, getKing, getPieceAt } from '../board/boardUtils';
+import { createMultiplayerGameState, executeMove, prepareMoveFromPositions } from './moveExecution';
+import { generateLegalMoves, hasAnyLegalMoves } from './checkDetection';
+import { getGameResult, getResultDescription } from './gameEndDetection';
+import { createStandardArmyPieces } from './placement';
+import { getCrossVoids, getNextSeat, getSeats } from './multiplayer';
+
+function fromHfen(hfen: string): GameState {
+  const result = parseHfen(hfen);
+  if (!result.valid) throw new Error(result.reason);
+  return result.gameState;
+}
+
+function square(name: string): Position {
+  return stringToPosition(name)!;
+}
+
+function play(state: GameState, from: string, to: string): GameState {
+  const piece = getPieceAt(state.board, square(from))!;
+  const move = prepareMoveFromPositions(state, piece, square(from), square(to));
+  if (!move) throw new Error(`No move ${from}${to}`);
+  return executeMove(state, move);
+}
+
+function legalMoves(state: GameState, from: string): string[] {
+  const piece = getPieceAt(state.board, square(from))!;
+  return generateLegalMoves(state.board, piece, state.enPassantTarget).map(positionToString).sort();
+}
+
+describe('seats', () => {
+  it('seats three players without Blue and four clockwise', () => {
+    expect(getSeats(2)).toEqual(['white', 'black']);
+    expect(getSeats(3)).toEqual(['white', 'red', 'black']);
+    expect(getSeats(4)).toEqual(['white', 'red', 'black', 'blue']);
+  });
+
+  it('passes the turn over players who are out', () => {
+    const multiplayer = { seats: getSeats(4), eliminated: ['black' as const], deadPieces: 'obstacles' as const };
+    expect(getNextSeat(multiplayer, 'red')).toBe('blue');
+    expect(getNextSeat(multiplayer, 'blue')).toBe('white');
+  });
+});
+
+describe('setup', () => {
+  const armies = Object.fromEntries(PLAYER_COLORS.map((color) => [color, createStandardArmyPieces(color)]));
+  const state = createMultiplayerGameState(armies);
+
+  it('cuts a 3x3 block out of each corner of the 14x14 board', () => {
+    const voids = getCrossVoids({ files: 14, ranks: 14 });
+    expect(voids).toHaveLength(36);
+    expect(voids).toContain('c3');
+    expect(voids).toContain('l12');
+    expect(voids).not.toContain('d1');
+    expect(state.board.dimensions.voids).toEqual(voids);
+  });
+
+  it('sets out each army in its home arm', () => {
+    expect(state.boardSize).toBe('14x14');
+    expect(state.board.pieces.every((p) => p.position !== null)).toBe(true);
+    expect(new Set(state.board.pieces.map((p) => positionToString(p.position!))).size).toBe(64);
+
+    expect(positionToString(getKing(state.board, 'white')!.position!)).toBe('h1');
+    expect(positionToString(getKing(state.board, 'red')!.position!)).toBe('a8');
+    expect(positionToString(getKing(state.board, 'black')!.position!)).toBe('h14');
+    expect(positionToString(getKing(state.board, 'blue')!.position!)).toBe('n8');
+
+    const redPawns = getAllPieces(state.board, 'red').filter((p) => p.typeId === 'pawn');
+    expect(redPawns.every((p) => p.position!.file === 'b')).toBe(true);
+  });
+
+  it('passes the turn clockwise and counts a turn once round the table', () => {
+    let current = play(state, 'd2', 'd4');
+    expect(current.currentTurn).toBe('red');
+    current = play(current, 'b4', 'd4');
+    expect(current.currentTurn).toBe('black');
+    current = play(current, 'd13', 'd12');
+    expect(current.currentTurn).toBe('blue');
+    expect(current.turnNumber).toBe(1);
+    current = play(current, 'm11', 'k11');
+    expect(current.currentTurn).toBe('white');
+    expect(current.turnNumber).toBe(2);
+  });
+});
+
+describe('side seats', () => {
+  const hfen = '8x8 <k3k3/8/8/3p4/1<p6/8/8/4K3 r - 0 1 -';
+
+  it('round-trips red and blue pieces through HFEN', () => {
+    const state = fromHfen(hfen);
+    expect(state.multiplayer?.seats).toEqual(['white', 'red', 'black']);
+    expect(state.currentTurn).toBe('red');
+    expect(gameStateToHfen(state)).toBe(hfen);
+    expect(gameStateToHfen(fromHfen('8x8 4k3/8/8/8/7>k/8/8/4K3 u - 0 1 -'))).toBe('8x8 4k3/8/8/8/7>k/8/8/4K3 u - 0 1 -');
+  });
+
+  it('moves a red pawn toward the last file, with a double step from its home file', () => {
+    expect(legalMoves(fromHfen(hfen), 'b4')).toEqual(['c4', 'd4']);
+  });
+
+  it('lets the next player take a double-stepping side pawn en passant', () => {
+    const stepped = play(fromHfen(hfen), 'b4', 'd4');
+    expect(stepped.enPassantTarget).toEqual(square('c4'));
+    expect(stepped.currentTurn).toBe('black');
+
+    const taken = play(stepped, 'd5', 'c4');
+    expect(getPieceAt(taken.board, square('d4'))).toBeNull();
+  });
+});
+
+describe('elimination', () => {
+  it('knocks out a player whose King is captured by someone else', () => {
+    const state = play(fromHfen('8x8 4k3/8/8/8/<k7/8/8/Q3K3 w - 0 1 -'), 'a1', 'a4');
+    expect(state.multiplayer?.eliminated).toEqual(['red']);
+    expect(state.currentTurn).toBe('black');
+    expect(getGameResult(state)).toBeNull();
+  });
+
+  it('knocks out a player who cannot move on their turn, leaving their pieces as obstacles', () => {
+    const start = fromHfen('8x8 <k6k/8/8/8/8/8/1Q6/4K3 w - 0 1 -');
+    const state = play(start, 'b2', 'b6');
+    expect(state.multiplayer?.eliminated).toEqual(['red']);
+    expect(state.currentTurn).toBe('black');
+    expect(getPieceAt(state.board, square('a8'))?.owner).toBe('neutral');
+    expect(hasAnyLegalMoves(state.board, 'black', null)).toBe(true);
+  });
+
+  it('takes a knocked-out army off the board when dead pieces are removed', () => {
+    const start = fromHfen('8x8 <k6k/8/8/8/8/8/1Q6/4K3 w - 0 1 -');
+    const removed = { ...start, multiplayer: { ...start.multiplayer!, deadPieces: 'removed' as const } };
+    expect(getPieceAt(play(removed, 'b2', 'b6').board, square('a8'))).toBeNull();
+  });
+
+  it('ends the game with the last player standing and ranks the rest', () => {
+    const state = play(fromHfen('8x8 8/8/8/8/<k7/8/8/Q3K3 w - 0 1 -'), 'a1', 'a4');
+    const result = getGameResult(state)!;
+    expect(result.type).toBe('last-standing');
+    expect(result.winner).toBe('white');
+    expect(result.standings?.map((s) => [s.color, s.eliminated])).toEqual([
+      ['white', false],
+      ['red', true],
+    ]);
+    expect(getResultDescription(result)).toBe('White wins as the last player standing.');
+  });
+});
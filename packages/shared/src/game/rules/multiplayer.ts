@@ -0,0 +1,270 @@
+/**
+ * Free-for-all games for three or four players
+ *
+ * Free-for-all games are played on a 14x14 board with a 3x3 block cut out of
+ * each corner, leaving an eight-square-wide home arm on each side. White plays
+ * up from the bottom arm, Red across from the left (a-file) arm, Black down
+ * from the top and Blue across from the right. The turn passes clockwise in
+ * that order; a three-player game leaves Blue's arm empty.
+ *
+ * A player is out when they lose their last royal piece, or when they can't
+ * move on their turn (checkmated or stalemated). Their pieces then either stay
+ * on the board as neutral obstacles, which attack nothing and can be captured
+ * by anyone, or are taken off - whichever the room's `deadPieces` setting says.
+ * The last player standing wins.
+ */
+
+import type {
+  BoardDimensions,
+  BoardSize,
+  DeadPieceRule,
+  GameState,
+  MultiplayerState,
+  PieceInstance,
+  PlayerColor,
+  Position,
+  SlotCounts,
+} from '../types';
+import { PLAYER_COLORS, positionToString } from '../types';
+import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { createPositionMap, getKing, indexToFile } from '../board/boardUtils';
+import { computeZobristKey } from '../board/zobrist';
+import { hasAnyLegalMoves, isInCheck } from './checkDetection';
+import { updateFrozenStates } from './freeze';
+
+// =============================================================================
+// Board
+// =============================================================================
+
+export const MULTIPLAYER_BOARD_SIZE: BoardSize = '14x14';
+
+/** Each army fills the two-line home arm: a pawn line and a back line of eight */
+export const MULTIPLAYER_SLOTS: SlotCounts = { pawnSlots: 8, pieceSlots: 6, royaltySlots: 2 };
+
+const ARM_WIDTH = 8;
+
+/**
+ * Get the void squares of a cross-shaped board: a square block cut out of each
+ * corner, leaving arms eight squares wide (3x3 blocks on a 14x14 board)
+ */
+export function getCrossVoids(dimensions: BoardDimensions): string[] {
+  const { files, ranks } = dimensions;
+  const size = Math.max(0, Math.floor((Math.min(files, ranks) - ARM_WIDTH) / 2));
+
+  const voids: string[] = [];
+  for (let f = 0; f < files; f++) {
+    for (let rank = 1; rank <= ranks; rank++) {
+      const inCornerFiles = f < size || f >= files - size;
+      const inCornerRanks = rank <= size || rank > ranks - size;
+      if (inCornerFiles && inCornerRanks) {
+        voids.push(positionToString({ file: indexToFile(f)!, rank } as Position));
+      }
+    }
+  }
+  return voids;
+}
+
+// =============================================================================
+// Seats
+// =============================================================================
+
+/**
+ * Get the seats for a number of players, in turn order
+ */
+export function getSeats(playerCount: number): PlayerColor[] {
+  switch (playerCount) {
+    case 3:
+      return ['white', 'red', 'black'];
+    case 4:
+      return [...PLAYER_COLORS];
+    default:
+      return ['white', 'black'];
+  }
+}
+
+/**
+ * Create the multiplayer state for a new free-for-all game
+ */
+export function createMultiplayerState(
+  playerCount: number,
+  deadPieces: DeadPieceRule = 'obstacles'
+): MultiplayerState {
+  return { seats: getSeats(playerCount), eliminated: [], deadPieces };
+}
+
+/**
+ * Get the players still in the game, in turn order
+ */
+export function getLiveSeats(multiplayer: MultiplayerState): PlayerColor[] {
+  return multiplayer.seats.filter((color) => !multiplayer.eliminated.includes(color));
+}
+
+/**
+ * Get the next player still in the game after a seat, going clockwise.
+ * Returns the seat itself if nobody else is left.
+ */
+export function getNextSeat(multiplayer: MultiplayerState, color: PlayerColor): PlayerColor {
+  const { seats } = multiplayer;
+  const start = seats.indexOf(color);
+  for (let i = 1; i <= seats.length; i++) {
+    const next = seats[(start + i) % seats.length];
+    if (!multiplayer.eliminated.includes(next)) return next;
+  }
+  return color;
+}
+
+/**
+ * Check if passing the turn from one seat to another goes back round past White's
+ * end of the table, starting a new turn number
+ */
+export function isNewRound(multiplayer: MultiplayerState, from: PlayerColor, to: PlayerColor): boolean {
+  return multiplayer.seats.indexOf(to) <= multiplayer.seats.indexOf(from);
+}
+
+// =============================================================================
+// Setup
+// =============================================================================
+
+/**
+ * Get the square at a place in a player's home arm. `index` runs 0-7 along the
+ * arm and `line` is 1 for the back line and 2 for the pawn line.
+ */
+function getArmSquare(color: PlayerColor, index: number, line: number, dimensions: BoardDimensions): Position {
+  const { files, ranks } = dimensions;
+  const offset = Math.floor((files - ARM_WIDTH) / 2);
+  let fileIndex: number;
+  let rank: number;
+  switch (color) {
+    case 'white':
+      fileIndex = offset + index;
+      rank = line;
+      break;
+    case 'black':
+      fileIndex = offset + index;
+      rank = ranks + 1 - line;
+      break;
+    case 'red':
+      fileIndex = line - 1;
+      rank = offset + 1 + index;
+      break;
+    case 'blue':
+      fileIndex = files - line;
+      rank = offset + 1 + index;
+      break;
+  }
+  return { file: indexToFile(fileIndex)!, rank } as Position;
+}
+
+/** Arm indices from the middle outward, starting on the King's side */
+const CENTRE_OUT = [4, 3, 5, 2, 6, 1, 7, 0];
+
+/** Arm indices from the ends inward */
+const ENDS_IN = [0, 7, 1, 6, 2, 5, 3, 4];
+
+/**
+ * Set out a drafted army in its home arm; there's no placement phase in a
+ * free-for-all. Royal pieces take the middle of the back line and the other
+ * pieces fill it outward. Heralds stand at the ends of the pawn line, pawns
+ * fill the rest of it, and any pawns left over take the back line's last squares.
+ */
+export function placeMultiplayerArmy(
+  pieces: PieceInstance[],
+  color: PlayerColor,
+  dimensions: BoardDimensions
+): PieceInstance[] {
+  const tierOf = (piece: PieceInstance) => PIECE_BY_ID[piece.typeId]?.tier;
+  const royals = pieces.filter((p) => tierOf(p) === 'royalty');
+  const heralds = pieces.filter((p) => p.typeId === 'herald');
+  const pawns = pieces.filter((p) => tierOf(p) === 'pawn');
+  const others = pieces.filter((p) => !royals.includes(p) && !heralds.includes(p) && !pawns.includes(p));
+
+  const backLine = [...CENTRE_OUT];
+  const pawnLine = [...ENDS_IN];
+  const placed = new Map<string, Position>();
+
+  for (const piece of [...royals, ...others]) {
+    const index = backLine.shift();
+    if (index !== undefined) placed.set(piece.id, getArmSquare(color, index, 1, dimensions));
+  }
+  for (const piece of heralds) {
+    const index = pawnLine.shift();
+    if (index !== undefined) placed.set(piece.id, getArmSquare(color, index, 2, dimensions));
+  }
+  for (const piece of pawns) {
+    const [line, index] = pawnLine.length > 0 ? [2, pawnLine.shift()!] : [1, backLine.pop()];
+    if (index !== undefined) placed.set(piece.id, getArmSquare(color, index, line, dimensions));
+  }
+
+  return pieces.map((piece) => ({ ...piece, position: placed.get(piece.id) ?? null }));
+}
+
+// =============================================================================
+// Elimination
+// =============================================================================
+
+/**
+ * Take a player out of the game. Their pieces turn neutral or leave the board,
+ * depending on the dead piece rule. Doesn't pass the turn.
+ */
+export function eliminatePlayer(gameState: GameState, color: PlayerColor): GameState {
+  const multiplayer = gameState.multiplayer;
+  if (!multiplayer || multiplayer.eliminated.includes(color)) return gameState;
+
+  const pieces = gameState.board.pieces.map((piece): PieceInstance => {
+    if (piece.owner !== color || !piece.position) return piece;
+    return multiplayer.deadPieces === 'removed'
+      ? { ...piece, position: null }
+      : { ...piece, owner: 'neutral', isFrozen: false };
+  });
+  const board = updateFrozenStates({ ...gameState.board, pieces, positionMap: createPositionMap(pieces) });
+
+  return {
+    ...gameState,
+    board,
+    multiplayer: { ...multiplayer, eliminated: [...multiplayer.eliminated, color] },
+  };
+}
+
+/**
+ * Settle a free-for-all position after a move: take out every player whose
+ * last royal piece is gone, then pass the turn on past each player who can't
+ * move (and so is out too) until it reaches one who can, or one player is left.
+ */
+export function settleEliminations(gameState: GameState): GameState {
+  if (!gameState.multiplayer) return gameState;
+  let state = gameState;
+
+  for (const color of getLiveSeats(state.multiplayer!)) {
+    if (!getKing(state.board, color)) state = eliminatePlayer(state, color);
+  }
+
+  let { currentTurn, turnNumber } = state;
+  const advance = () => {
+    const next = getNextSeat(state.multiplayer!, currentTurn);
+    if (isNewRound(state.multiplayer!, currentTurn, next)) turnNumber++;
+    currentTurn = next;
+  };
+
+  while (getLiveSeats(state.multiplayer!).length > 0) {
+    if (state.multiplayer!.eliminated.includes(currentTurn)) {
+      advance();
+    } else if (getLiveSeats(state.multiplayer!).length === 1 || hasAnyLegalMoves(state.board, currentTurn, state.enPassantTarget)) {
+      break;
+    } else {
+      state = eliminatePlayer(state, currentTurn);
+      advance();
+    }
+  }
+
+  if (state === gameState) return gameState;
+
+  // Eliminations change the position, so the last key is worked out again
+  const positionKey = computeZobristKey(state.board, currentTurn, state.enPassantTarget, state.hand);
+  return {
+    ...state,
+    currentTurn,
+    turnNumber,
+    inCheck: isInCheck(state.board, currentTurn) ? currentTurn : null,
+    positionHistory: [...state.positionHistory.slice(0, -1), positionKey],
+  };
+}
@@ -12,8 +12,9 @@ import type {
   File,
   Rank,
 } from '../types';
-import { BOARD_CONFIGS, positionToString } from '../types';
+import { getBoardConfig, positionToString } from '../types';
 import { PIECE_BY_ID } from '../pieces/pieceDefinitions';
+import { getFiles, indexToFile } from '../board/boardUtils';
 import type { PlayerDraft } from './draft';
 import { createPiecesFromDraft } from './draft';
 
@@ -40,15 +41,13 @@ export interface PlacementState {
 // Placement Zone Definitions
 // =============================================================================
 
-const ALL_FILES: File[] = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'];
-
 /**
  * Get piece files for a given board width (edge files, excluding center 2 for royalty)
  * For 8 files: a, b, c, f, g, h (4 pieces per side, 2 center for royalty)
  * For 10 files: a, b, c, d, g, h, i, j (4 pieces per side, 2 center for royalty)
  */
 function getPieceFiles(numFiles: number): File[] {
-  const allFiles = ALL_FILES.slice(0, numFiles);
+  const allFiles = getFiles(numFiles);
   const centerIndex = Math.floor(numFiles / 2);
   // Exclude the center 2 files (royalty positions)
   return allFiles.filter((_, i) => i < centerIndex - 1 || i > centerIndex);
@@ -61,21 +60,25 @@ function getPieceFiles(numFiles: number): File[] {
  */
 function getRoyaltyFiles(numFiles: number): File[] {
   const centerIndex = Math.floor(numFiles / 2);
-  return [ALL_FILES[centerIndex - 1], ALL_FILES[centerIndex]];
+  return [indexToFile(centerIndex - 1)!, indexToFile(centerIndex)!];
 }
 
 /**
  * Get herald files (first and last file of the board)
  */
 function getHeraldFiles(numFiles: number): File[] {
-  return [ALL_FILES[0], ALL_FILES[numFiles - 1]];
+  return [indexToFile(0)!, indexToFile(numFiles - 1)!];
 }
 
 /**
- * Get placement zones for a player on a given board size
+ * Get placement zones for a player on a given board size, leaving out any void squares
  */
-export function getPlacementZones(boardSize: BoardSize, color: PlayerColor): PlacementZone[] {
-  const config = BOARD_CONFIGS[boardSize];
+export function getPlacementZones(
+  boardSize: BoardSize,
+  color: PlayerColor,
+  voids: string[] = []
+): PlacementZone[] {
+  const config = getBoardConfig(boardSize);
   const zones: PlacementZone[] = [];
 
   // Determine ranks based on color
@@ -83,7 +86,7 @@ export function getPlacementZones(boardSize: BoardSize, color: PlayerColor): Pla
   const pawnRank: Rank = color === 'white' ? 2 : ((config.ranks - 1) as Rank);
 
   // Get available files based on board size
-  const allFiles = ALL_FILES.slice(0, config.files);
+  const allFiles = getFiles(config.files);
   const royaltyFiles = getRoyaltyFiles(config.files);
   const pieceFiles = getPieceFiles(config.files);
 
@@ -106,7 +109,8 @@ export function getPlacementZones(boardSize: BoardSize, color: PlayerColor): Pla
     zones.push({ position, allowedTiers: ['pawn'] });
   }
 
-  return zones;
+  if (voids.length === 0) return zones;
+  return zones.filter((zone) => !voids.includes(positionToString(zone.position)));
 }
 
 /**
@@ -10,7 +10,7 @@ import type {
   GameState,
 } from '../types';
 import { PIECE_BY_ID, ALL_PIECES } from '../pieces/pieceDefinitions';
-import { getPromotionRank } from '../board/boardUtils';
+import { getMoverColor, isPromotionSquare } from '../board/boardUtils';
 
 // =============================================================================
 // Promotion Detection
@@ -28,9 +28,8 @@ export function isPromotionMove(
   // Only pawn-type pieces can promote
   if (!isPawnType(pieceType)) return false;
 
-  // Check if reaching promotion rank
-  const promotionRank = getPromotionRank(piece.owner, dimensions);
-  return to.rank === promotionRank;
+  // Check if reaching the far edge of the board
+  return isPromotionSquare(to, getMoverColor(piece), dimensions);
 }
 
 /**
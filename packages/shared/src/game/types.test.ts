@@ -4,6 +4,8 @@ import {
   stringToPosition,
   arePositionsEqual,
   BOARD_CONFIGS,
+  parseBoardSize,
+  getBoardConfig,
 } from './types';
 import type { Position } from './types';
 
@@ -29,6 +31,11 @@ describe('Type Utilities', () => {
       expect(result!.rank).toBe(4);
     });
 
+    it('parses squares of boards up to 16x16', () => {
+      expect(stringToPosition('l12')).toEqual({ file: 'l', rank: 12 });
+      expect(stringToPosition('p16')).toEqual({ file: 'p', rank: 16 });
+    });
+
     it('parses two-digit ranks', () => {
       const result = stringToPosition('a10');
 
@@ -40,12 +47,12 @@ describe('Type Utilities', () => {
     it('returns null for invalid string', () => {
       expect(stringToPosition('invalid')).toBeNull();
       expect(stringToPosition('')).toBeNull();
-      expect(stringToPosition('k1')).toBeNull(); // invalid file
+      expect(stringToPosition('q1')).toBeNull(); // past the last possible file
     });
 
     it('returns null for out-of-range rank', () => {
       expect(stringToPosition('a0')).toBeNull();
-      expect(stringToPosition('a11')).toBeNull();
+      expect(stringToPosition('a17')).toBeNull();
     });
   });
 
@@ -102,4 +109,26 @@ describe('Type Utilities', () => {
       }
     });
   });
+
+  describe('parseBoardSize', () => {
+    it('parses any size within the limits', () => {
+      expect(parseBoardSize('12x12')).toEqual({ files: 12, ranks: 12 });
+      expect(parseBoardSize('8x10')).toEqual({ files: 8, ranks: 10 });
+      expect(parseBoardSize('16x6')).toEqual({ files: 16, ranks: 6 });
+    });
+
+    it('rejects sizes out of range or badly written', () => {
+      for (const size of ['5x8', '8x17', '8x', 'x8', '08x8', '8 x 8', '']) {
+        expect(parseBoardSize(size), size).toBeNull();
+      }
+    });
+  });
+
+  describe('getBoardConfig', () => {
+    it('matches the presets', () => {
+      for (const [size, config] of Object.entries(BOARD_CONFIGS)) {
+        expect(getBoardConfig(size as keyof typeof BOARD_CONFIGS)).toEqual(config);
+      }
+    });
+  });
 });
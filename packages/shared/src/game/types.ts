@@ -6,8 +6,10 @@
 // Board & Position Types
 // =============================================================================
 
-export type File = 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j';
-export type Rank = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
+/** A file letter, 'a' up to the letter of the board's last file (see MAX_BOARD_DIMENSION) */
+export type File = string;
+/** A rank number, 1 up to the board's rank count */
+export type Rank = number;
 
 export interface Position {
   file: File;
@@ -17,21 +19,88 @@ export interface Position {
 export interface BoardDimensions {
   files: number; // 8, 10, etc.
   ranks: number; // 8, 10, etc.
+  topology?: BoardTopology; // flat if not set
+  voids?: string[]; // Squares cut out of the board, e.g. ['c4', 'c5']
 }
 
-export type BoardSize = '8x8' | '10x8' | '10x10';
+/** How the board's edges connect: flat, or a cylinder where the a-file and last file are adjacent */
+export type BoardTopology = 'flat' | 'cylinder';
 
-export const BOARD_CONFIGS: Record<BoardSize, BoardDimensions & { pawnSlots: number; pieceSlots: number; royaltySlots: number }> = {
+/** A named pattern of void squares cut out of the board (see board/layouts.ts) */
+export type BoardLayout = 'standard' | 'lakes' | 'notched';
+
+/** Board size as "<files>x<ranks>", e.g. '8x8' or '12x12' */
+export type BoardSize = `${number}x${number}`;
+
+/** The board sizes offered as presets */
+export type BoardSizePreset = '8x8' | '10x8' | '10x10';
+
+/** Draft slots per tier for a board */
+export interface SlotCounts {
+  pawnSlots: number;
+  pieceSlots: number;
+  royaltySlots: number;
+}
+
+export type BoardConfig = BoardDimensions & SlotCounts;
+
+/** Smallest and largest number of files or ranks a board can have */
+export const MIN_BOARD_DIMENSION = 6;
+export const MAX_BOARD_DIMENSION = 16;
+
+export const BOARD_CONFIGS: Record<BoardSizePreset, BoardConfig> = {
   '8x8': { files: 8, ranks: 8, pawnSlots: 8, pieceSlots: 6, royaltySlots: 2 },
   '10x8': { files: 10, ranks: 8, pawnSlots: 10, pieceSlots: 8, royaltySlots: 2 },
   '10x10': { files: 10, ranks: 10, pawnSlots: 10, pieceSlots: 8, royaltySlots: 2 },
 };
 
+/**
+ * Parse a board size into its dimensions, or null if it isn't "<files>x<ranks>"
+ * with both between MIN_BOARD_DIMENSION and MAX_BOARD_DIMENSION
+ */
+export function parseBoardSize(boardSize: string): BoardDimensions | null {
+  const match = boardSize.match(/^([1-9]\d*)x([1-9]\d*)$/);
+  if (!match) return null;
+  const files = Number(match[1]);
+  const ranks = Number(match[2]);
+  const inRange = (n: number) => n >= MIN_BOARD_DIMENSION && n <= MAX_BOARD_DIMENSION;
+  return inRange(files) && inRange(ranks) ? { files, ranks } : null;
+}
+
+/**
+ * Get the dimensions and draft slots for a board size. Slots are derived from
+ * the placement zones: a pawn for every file, a piece for every back-rank file
+ * outside the two royalty files. User-set slot counts can lower these, never raise them.
+ * An invalid size falls back to 8x8.
+ */
+export function getBoardConfig(boardSize: BoardSize, slots: Partial<SlotCounts> = {}): BoardConfig {
+  const { files, ranks } = parseBoardSize(boardSize) ?? BOARD_CONFIGS['8x8'];
+  const clamp = (value: number | undefined, min: number, max: number) =>
+    value === undefined ? max : Math.min(max, Math.max(min, Math.floor(value)));
+  return {
+    files,
+    ranks,
+    pawnSlots: clamp(slots.pawnSlots, 0, files),
+    pieceSlots: clamp(slots.pieceSlots, 0, files - 2),
+    royaltySlots: clamp(slots.royaltySlots, 1, 2),
+  };
+}
+
 // =============================================================================
 // Player & Color Types
 // =============================================================================
 
-export type PlayerColor = 'white' | 'black';
+/**
+ * A seat at the board. Two-player games use white and black; free-for-all
+ * games add red on the a-file side and blue on the last-file side.
+ */
+export type PlayerColor = 'white' | 'black' | 'red' | 'blue';
+
+/** Every seat in turn order, clockwise round the board from White */
+export const PLAYER_COLORS: PlayerColor[] = ['white', 'red', 'black', 'blue'];
+
+/** Who a piece belongs to: a player, or nobody (neutral pieces such as the Mercenary) */
+export type PieceOwner = PlayerColor | 'neutral';
 
 export interface Player {
   color: PlayerColor;
@@ -53,6 +122,7 @@ export interface PieceType {
   cost: number;
   victoryPoints: number;
   symbol: string; // Unicode or identifier for rendering
+  abbreviation: string; // Unique ASCII letters for move notation, e.g. 'N' or 'LL'
   description?: string; // Brief description of piece movement/capture for tooltips
 
   // Special characteristics
@@ -60,6 +130,7 @@ export interface PieceType {
   isMandatory: boolean;    // Must be included (King)
   replacesKing?: boolean;  // Can be selected instead of King (Phantom King, Regent)
   promotionOnly?: boolean; // Cannot be drafted, only obtained via promotion (Checkers King)
+  startsNeutral?: boolean; // Cannot be drafted, placed on the board as a neutral piece (Mercenary)
   canCastle: boolean;      // Can participate in castling
   canBeCaptured: boolean;  // Fool, Jester cannot be captured
   canFreeze: boolean;      // Immobilizer, Inquisitor, Herald
@@ -97,6 +168,9 @@ export interface MovementPattern {
 
   // Special movement rules
   special: SpecialMovement[];
+
+  // Further moves in Betza notation, e.g. 'mRcpR' (see pieces/betza.ts)
+  betza?: string;
 }
 
 export type SlideDirection =
@@ -109,21 +183,25 @@ export interface LeapOffset {
   dy: number;  // Rank offset
   // If symmetric, also allows (-dx, dy), (dx, -dy), (-dx, -dy), (dy, dx), etc.
   symmetric: boolean;
+  // Lame leaps are blocked by a piece on a square they pass over (see getLeapPath)
+  lame?: boolean;
 }
 
 export type SpecialMovement =
   | 'pawn-forward'         // Pawn: forward 1 (2 from start)
   | 'pawn-capture-diagonal' // Pawn: capture diagonally forward
   | 'shogi-pawn'           // Forward only, capture forward
-  | 'berolina'             // Inverse pawn
+  | 'berolina'             // Berolina pawn: moves diagonally forward, captures straight forward
   | 'peasant-diagonal'     // Peasant: move diagonally forward (2 on first move)
   | 'peasant-capture-forward' // Peasant: capture forward only
   | 'regent-conditional'   // Regent: 2 squares when other royal exists, queen when alone
   | 'herald-orthogonal'    // Herald: 2 squares orthogonally (blockable)
   | 'king-one-square'      // King: 1 square any direction
-  | 'knight-rider'         // Extended knight moves in a line
+  | 'knight-rider'         // Up to two knight jumps in a line (a short Nightrider)
   | 'grasshopper'          // Must hop over exactly one piece
   | 'cannon-move'          // Slides freely, captures by hopping
+  | 'vao-move'             // Diagonal cannon: slides diagonally, captures by hopping diagonally
+  | 'janggi-cannon'        // Hops orthogonally to move or capture; never over or onto another Janggi cannon
   | 'bounce'               // Pontiff: can bounce off edges
   | 'swap-adjacent'        // Phantom King, Chamberlain
   | 'nightrider'           // Repeating knight moves
@@ -141,10 +219,11 @@ export type SpecialMovement =
 export interface PieceInstance {
   id: string;              // Unique instance ID
   typeId: string;          // Reference to PieceType.id
-  owner: PlayerColor;
+  owner: PieceOwner;
   position: Position | null; // null if captured
   hasMoved: boolean;       // For castling, pawn double-move
   isFrozen: boolean;       // Adjacent to enemy freezer
+  promotedFrom?: string;   // Type before promotion, in drops games (captured pieces revert)
 }
 
 // =============================================================================
@@ -160,7 +239,7 @@ export interface BoardState {
 
   // Tracks if player started with multiple royal pieces (for Regent logic)
   // Set at end of placement phase, used to determine if Regent gets queen powers
-  hadMultipleRoyals?: { white: boolean; black: boolean };
+  hadMultipleRoyals?: Partial<Record<PlayerColor, boolean>>;
 }
 
 // =============================================================================
@@ -184,6 +263,29 @@ export interface DraftState {
   blackBudgetRemaining: number;
 }
 
+/**
+ * 64-bit Zobrist position key as two unsigned 32-bit halves
+ * (a pair of numbers, so game states still serialize to JSON)
+ */
+export type ZobristKey = [hi: number, lo: number];
+
+/**
+ * Captured pieces each player holds for dropping, as piece type IDs
+ */
+export type Hands = Partial<Record<PlayerColor, string[]>>;
+
+/** What happens to an eliminated player's pieces in a free-for-all game */
+export type DeadPieceRule = 'obstacles' | 'removed';
+
+/**
+ * Seats and eliminations in a free-for-all game of three or four players
+ */
+export interface MultiplayerState {
+  seats: PlayerColor[];      // Seated players in turn order
+  eliminated: PlayerColor[]; // Players who are out, in the order they went out
+  deadPieces: DeadPieceRule; // Obstacles turn neutral; removed leave the board
+}
+
 export interface GameState {
   phase: GamePhase;
   boardSize: BoardSize;
@@ -217,7 +319,13 @@ export interface GameState {
 
   // Draw tracking
   halfmoveClock: number;        // Moves since last pawn move or capture (for 50-move rule)
-  positionHistory: string[];    // Position hashes for threefold repetition detection
+  positionHistory: ZobristKey[]; // Zobrist keys of every position, for threefold repetition detection
+
+  // Drops mode: captured pieces go to the captor's hand (absent when drops are off)
+  hand?: Hands;
+
+  // Free-for-all mode: seats and eliminations (absent in two-player games)
+  multiplayer?: MultiplayerState;
 
   // Game result
   result: GameResult | null;
@@ -253,6 +361,9 @@ export interface Move {
   isSwap?: boolean;
   swapPieceId?: string;
 
+  // Drop from the hand: the type placed; from and to are both the drop square
+  dropPieceType?: string;
+
   // Notation
   notation: string;
 }
@@ -269,7 +380,8 @@ export type GameResultType =
   | 'draw-agreement'
   | 'draw-vp-tie'
   | 'draw-fifty-move'
-  | 'draw-repetition';
+  | 'draw-repetition'
+  | 'last-standing';
 
 export interface GameResult {
   type: GameResultType;
@@ -278,6 +390,15 @@ export interface GameResult {
   // VP totals for stalemate resolution
   whiteVP: number;
   blackVP: number;
+
+  // Free-for-all final ranking, first place first
+  standings?: Standing[];
+}
+
+export interface Standing {
+  color: PlayerColor;
+  victoryPoints: number;
+  eliminated: boolean;
 }
 
 // =============================================================================
@@ -289,13 +410,14 @@ export function positionToString(pos: Position): string {
 }
 
 export function stringToPosition(str: string): Position | null {
-  const match = str.match(/^([a-j])(\d+)$/);
+  // Files a-p cover MAX_BOARD_DIMENSION files
+  const match = str.match(/^([a-p])(\d+)$/);
   if (!match) return null;
 
   const file = match[1] as File;
   const rank = parseInt(match[2], 10) as Rank;
 
-  if (rank < 1 || rank > 10) return null;
+  if (rank < 1 || rank > MAX_BOARD_DIMENSION) return null;
 
   return { file, rank };
 }
@@ -1,8 +1,12 @@
 // Re-export all game types and logic
 export * from './game/types';
 export * from './game/pieces/pieceDefinitions';
+export * from './game/pieces/betza';
 export * from './game/board/boardUtils';
 export * from './game/board/moveGeneration';
+export * from './game/board/boardCore';
+export * from './game/board/zobrist';
+export * from './game/board/layouts';
 export * from './game/rules/draft';
 export * from './game/rules/placement';
 export * from './game/rules/moveExecution';
@@ -11,6 +15,25 @@ export * from './game/rules/gameEndDetection';
 export * from './game/rules/castling';
 export * from './game/rules/promotion';
 export * from './game/rules/freeze';
+export * from './game/rules/drops';
+export * from './game/rules/mercenary';
+export * from './game/rules/multiplayer';
+export * from './game/rules/clock';
+export * from './game/rules/correspondence';
+
+// Re-export notation
+export * from './game/notation/hfen';
+export * from './game/notation/gameRecord';
+export * from './game/notation/san';
+export * from './game/notation/moveNotation';
+
+// Re-export AI
+export * from './game/ai/evaluation';
+export * from './game/ai/search';
+export * from './game/ai/perft';
+export * from './game/ai/draftAgent';
+export * from './game/ai/placementPlanner';
+export * from './game/ai/random';
 
 // Re-export protocol types
 export * from './protocol';
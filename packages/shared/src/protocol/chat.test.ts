@@ -0,0 +1,48 @@
+/**
+ * Tests for in-room chat limits and filtering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CHAT_MAX_LENGTH,
+  CHAT_RATE_LIMIT,
+  filterProfanity,
+  isChatRateLimited,
+  prepareChatText,
+} from './chat';
+
+describe('prepareChatText', () => {
+  it('collapses whitespace and trims the message', () => {
+    expect(prepareChatText('  nice \n  move  ')).toEqual({ valid: true, text: 'nice move' });
+  });
+
+  it('rejects empty and over-long messages', () => {
+    expect(prepareChatText('   ').valid).toBe(false);
+    expect(prepareChatText('x'.repeat(CHAT_MAX_LENGTH)).valid).toBe(true);
+    expect(prepareChatText('x'.repeat(CHAT_MAX_LENGTH + 1)).valid).toBe(false);
+  });
+
+  it('masks blocked words', () => {
+    expect(prepareChatText('well SHIT')).toEqual({ valid: true, text: 'well S***' });
+  });
+});
+
+describe('filterProfanity', () => {
+  it('only matches whole words', () => {
+    expect(filterProfanity('a classic passage')).toBe('a classic passage');
+    expect(filterProfanity('damn, that bishop')).toBe('d***, that bishop');
+  });
+});
+
+describe('isChatRateLimited', () => {
+  it('allows a burst up to the limit within the window', () => {
+    const sent = Array.from({ length: CHAT_RATE_LIMIT.messages - 1 }, (_, i) => i * 100);
+    expect(isChatRateLimited(sent, 1000)).toBe(false);
+    expect(isChatRateLimited([...sent, 900], 1000)).toBe(true);
+  });
+
+  it('forgets messages older than the window', () => {
+    const sent = Array.from({ length: CHAT_RATE_LIMIT.messages }, () => 0);
+    expect(isChatRateLimited(sent, CHAT_RATE_LIMIT.windowMs)).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * In-room chat - message limits, quick messages and the profanity filter
+ *
+ * The server runs every message through these before relaying it, so the
+ * rules are the same whichever client sent it. Clients can use them too, to
+ * warn about a long message before sending it.
+ */
+
+import type { PlayerColor } from '../game/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ChatEntry {
+  id: string;
+  playerId: string;
+  name: string;
+  color: PlayerColor | null; // null for a spectator
+  text: string;
+  sentAt: number;            // ms since epoch, server time
+}
+
+export interface QuickChatMessage {
+  id: string;
+  text: string;
+}
+
+export type ChatTextResult =
+  | { valid: true; text: string }
+  | { valid: false; reason: string };
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+export const CHAT_MAX_LENGTH = 200;
+
+/** A player may send this many messages in any window of this length */
+export const CHAT_RATE_LIMIT = { messages: 5, windowMs: 10_000 };
+
+/** Chat kept per room, oldest dropped first */
+export const CHAT_HISTORY_LIMIT = 200;
+
+export const QUICK_CHAT_MESSAGES: QuickChatMessage[] = [
+  { id: 'hello', text: 'Hello!' },
+  { id: 'good-luck', text: 'Good luck, have fun' },
+  { id: 'nice-move', text: 'Nice move' },
+  { id: 'oops', text: 'Oops' },
+  { id: 'thinking', text: 'Give me a moment to think' },
+  { id: 'thanks', text: 'Thanks' },
+  { id: 'good-game', text: 'Good game' },
+  { id: 'rematch', text: 'Rematch?' },
+];
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+/** Words masked by the filter; matched as whole words, ignoring case */
+const BLOCKED_WORDS = [
+  'arse',
+  'arsehole',
+  'ass',
+  'asshole',
+  'bastard',
+  'bitch',
+  'bollocks',
+  'cock',
+  'crap',
+  'cunt',
+  'damn',
+  'dick',
+  'fuck',
+  'fucker',
+  'fucking',
+  'motherfucker',
+  'piss',
+  'prick',
+  'shit',
+  'slut',
+  'twat',
+  'wanker',
+  'whore',
+];
+
+const BLOCKED_PATTERN = new RegExp(`\\b(${BLOCKED_WORDS.join('|')})\\b`, 'gi');
+
+/**
+ * Mask blocked words with asterisks, keeping their first letter
+ */
+export function filterProfanity(text: string): string {
+  return text.replace(BLOCKED_PATTERN, (word) => word[0] + '*'.repeat(word.length - 1));
+}
+
+/**
+ * Tidy up a chat message for sending: collapse whitespace, check the length
+ * and mask blocked words
+ */
+export function prepareChatText(text: string): ChatTextResult {
+  const tidied = text.replace(/\s+/g, ' ').trim();
+  if (tidied.length === 0) {
+    return { valid: false, reason: 'Message is empty' };
+  }
+  if (tidied.length > CHAT_MAX_LENGTH) {
+    return { valid: false, reason: `Messages can be at most ${CHAT_MAX_LENGTH} characters` };
+  }
+  return { valid: true, text: filterProfanity(tidied) };
+}
+
+/**
+ * Check whether another message now would break the rate limit, given when
+ * the player's earlier messages were sent
+ */
+export function isChatRateLimited(sentAt: number[], now: number): boolean {
+  const recent = sentAt.filter((time) => now - time < CHAT_RATE_LIMIT.windowMs);
+  return recent.length >= CHAT_RATE_LIMIT.messages;
+}
@@ -3,7 +3,11 @@
  */
 
 import type {
+  BoardLayout,
   BoardSize,
+  BoardTopology,
+  DeadPieceRule,
+  SlotCounts,
   GameState,
   PlayerColor,
   Position,
@@ -11,12 +15,18 @@ import type {
   GameResult,
 } from '../game/types';
 import type { PlacementState } from '../game/rules/placement';
+import type { ClockSettings, ClockState } from '../game/rules/clock';
+import type { ChatEntry } from './chat';
+import type { MatchPreferences } from './matchmaking';
+
+export * from './chat';
+export * from './matchmaking';
 
 // =============================================================================
 // Base Types
 // =============================================================================
 
-export type PlayerRole = 'white' | 'black' | 'spectator';
+export type PlayerRole = PlayerColor | 'spectator';
 
 // Room phase type for online multiplayer (distinct from local game phase)
 export type RoomPhase = 'waiting' | 'drafting' | 'placement' | 'playing' | 'ended';
@@ -40,8 +50,16 @@ export interface RoomSettings {
   budget: number;
   boardSize: BoardSize;
   draftTimeLimit: number | null; // seconds, null = no limit
-  moveTimeLimit: number | null; // seconds per move, null = no limit
+  moveTimeLimit: number | null; // seconds per move, null = no limit (ignored when a clock is set)
   placementMode: 'alternating' | 'blind'; // alternating = take turns, blind = simultaneous hidden
+  drops?: boolean; // captured pieces go to the captor's hand and can be dropped back in
+  mercenaries?: boolean; // neutral Mercenaries start on a5 and h4, hired by moving next to them
+  topology?: BoardTopology; // 'cylinder' joins the a-file and last file; flat if not set
+  layout?: BoardLayout; // named pattern of void squares; standard if not set
+  slots?: SlotCounts; // user-set draft slot counts; derived from the board size if not set
+  playerCount?: 2 | 3 | 4; // 3 or 4 plays a free-for-all on the cross board; two players if not set
+  deadPieces?: DeadPieceRule; // free-for-all: what happens to a knocked-out army; obstacles if not set
+  clock?: ClockSettings; // chess clock; untimed (or moveTimeLimit per move) if not set
 }
 
 // =============================================================================
@@ -76,6 +94,7 @@ export interface JoinRoomMessage extends ClientMessage {
   roomCode: string;
   playerName: string;
   sessionToken?: string;
+  spectate?: boolean; // Watch instead of taking a seat (joining a full or started room always watches)
 }
 
 export interface LeaveRoomMessage extends ClientMessage {
@@ -119,7 +138,7 @@ export interface PlayerReconnectedMessage extends ServerMessage {
 
 export interface RoomErrorMessage extends ServerMessage {
   type: 'ROOM_ERROR';
-  error: 'NOT_FOUND' | 'FULL' | 'ALREADY_STARTED' | 'INVALID_CODE';
+  error: 'NOT_FOUND' | 'FULL' | 'ALREADY_STARTED' | 'INVALID_CODE' | 'INVALID_SETTINGS';
   message: string;
 }
 
@@ -156,6 +175,7 @@ export interface DraftRevealMessage extends ServerMessage {
   type: 'DRAFT_REVEAL';
   whiteDraft: DraftPick[];
   blackDraft: DraftPick[];
+  drafts?: Partial<Record<PlayerColor, DraftPick[]>>; // Every seat's draft in a free-for-all
 }
 
 export interface DraftTimeoutMessage extends ServerMessage {
@@ -172,6 +192,7 @@ export interface PlacementStartMessage extends ServerMessage {
   type: 'PLACEMENT_START';
   placementState: PlacementState;
   gameState: GameState; // Initial empty board state
+  timeLimit?: number; // seconds for blind placement, 0 = no limit
 }
 
 // Client -> Server
@@ -283,6 +304,12 @@ export interface MakeMoveMessage extends ClientMessage {
   promotionPieceType?: string;
 }
 
+export interface DropPieceMessage extends ClientMessage {
+  type: 'DROP_PIECE';
+  pieceTypeId: string; // A piece type from the player's hand
+  to: Position;
+}
+
 export interface OfferDrawMessage extends ClientMessage {
   type: 'OFFER_DRAW';
 }
@@ -301,6 +328,7 @@ export interface MoveMadeMessage extends ServerMessage {
   type: 'MOVE_MADE';
   move: Move;
   gameState: GameState;
+  clock?: ClockState; // Clocks after the move, when the room is timed
 }
 
 export interface MoveRejectedMessage extends ServerMessage {
@@ -319,10 +347,20 @@ export interface DrawDeclinedMessage extends ServerMessage {
   type: 'DRAW_DECLINED';
 }
 
+// A free-for-all player knocked out by something other than a move
+export interface PlayerEliminatedMessage extends ServerMessage {
+  type: 'PLAYER_ELIMINATED';
+  color: PlayerColor;
+  reason: 'resignation' | 'timeout' | 'disconnected';
+  gameState: GameState;
+  clock?: ClockState;
+}
+
 export interface GameOverMessage extends ServerMessage {
   type: 'GAME_OVER';
   result: GameResult;
   finalState: GameState;
+  clock?: ClockState; // Stopped clocks, when the room is timed
 }
 
 export interface EloUpdateMessage extends ServerMessage {
@@ -344,6 +382,14 @@ export interface LobbyRoom {
   boardSize: BoardSize;
   placementMode: 'alternating' | 'blind';
   draftTimeLimit: number | null;
+  drops: boolean;
+  mercenaries: boolean;
+  topology: BoardTopology;
+  layout: BoardLayout;
+  playerCount: number;
+  clock: ClockSettings | null;
+  phase: RoomPhase;       // 'waiting' rooms have a free seat; the rest can be watched
+  spectatorCount: number;
 }
 
 // Client -> Server
@@ -362,6 +408,77 @@ export interface LobbyUpdatedMessage extends ServerMessage {
   rooms: LobbyRoom[];
 }
 
+// =============================================================================
+// Matchmaking Messages
+// =============================================================================
+
+// Client -> Server
+export interface JoinQueueMessage extends ClientMessage {
+  type: 'JOIN_QUEUE';
+  playerName: string;
+  sessionToken?: string;
+  preferences: MatchPreferences;
+}
+
+export interface LeaveQueueMessage extends ClientMessage {
+  type: 'LEAVE_QUEUE';
+}
+
+// Server -> Client
+export interface QueueJoinedMessage extends ServerMessage {
+  type: 'QUEUE_JOINED';
+  rating: number;     // Rating used for pairing (the default for guests)
+  queueSize: number;  // Players waiting, including this one
+}
+
+export interface QueueLeftMessage extends ServerMessage {
+  type: 'QUEUE_LEFT';
+}
+
+// Server -> Client: sent to each matched player once both are seated
+export interface MatchFoundMessage extends ServerMessage {
+  type: 'MATCH_FOUND';
+  roomCode: string;
+  playerId: string;
+  role: PlayerColor;
+  settings: RoomSettings;
+  players: PlayerInfo[];
+  phase: RoomPhase;
+  opponentRating: number;
+}
+
+// =============================================================================
+// Correspondence Messages
+// =============================================================================
+
+// Client -> Server: follow the account's correspondence games on this connection
+export interface CorrespondenceSubscribeMessage extends ClientMessage {
+  type: 'CORRESPONDENCE_SUBSCRIBE';
+  sessionToken: string;
+}
+
+// Client -> Server: the socket alternative to POST /correspondence/:id/move
+export interface CorrespondenceMoveMessage extends ClientMessage {
+  type: 'CORRESPONDENCE_MOVE';
+  gameId: string;
+  from: Position;
+  to: Position;
+  promotionPieceType?: string;
+}
+
+// Server -> Client: sent to both players whenever one of their games changes
+export interface CorrespondenceUpdatedMessage extends ServerMessage {
+  type: 'CORRESPONDENCE_UPDATED';
+  gameId: string;
+}
+
+// Server -> Client: sent only to the player whose socket action failed
+export interface CorrespondenceRejectedMessage extends ServerMessage {
+  type: 'CORRESPONDENCE_REJECTED';
+  gameId: string | null;
+  reason: string;
+}
+
 // =============================================================================
 // Connection & Sync Messages
 // =============================================================================
@@ -382,9 +499,11 @@ export interface SyncStateMessage extends ServerMessage {
   players: PlayerInfo[];
   myColor: PlayerColor | null;
   gameState?: GameState;
+  clock?: ClockState;
   placementState?: PlacementState;
   whiteDraft?: DraftPick[];
   blackDraft?: DraftPick[];
+  drafts?: Partial<Record<PlayerColor, DraftPick[]>>; // Every seat's draft in a free-for-all, once revealed
   draftState?: {
     myDraft?: DraftPick[];
     opponentSubmitted: boolean;
@@ -395,11 +514,13 @@ export interface SyncStateMessage extends ServerMessage {
     myReady: boolean;
     opponentReady: boolean;
   };
+  chat?: ChatEntry[];
 }
 
 export interface GameStartMessage extends ServerMessage {
   type: 'GAME_START';
   gameState: GameState;
+  clock?: ClockState; // The first player's clock is already running
 }
 
 export interface PlayerDisconnectedMessage extends ServerMessage {
@@ -419,6 +540,29 @@ export interface PongMessage extends ServerMessage {
   serverTime: number;
 }
 
+// =============================================================================
+// Chat Messages
+// =============================================================================
+
+// Client -> Server: either free text or one of the quick messages
+export interface SendChatMessage extends ClientMessage {
+  type: 'SEND_CHAT';
+  text?: string;
+  quickMessageId?: string;
+}
+
+// Server -> Client
+export interface ChatMessageMessage extends ServerMessage {
+  type: 'CHAT_MESSAGE';
+  entry: ChatEntry;
+}
+
+// Server -> Client: sent only to the player whose message wasn't relayed
+export interface ChatRejectedMessage extends ServerMessage {
+  type: 'CHAT_REJECTED';
+  reason: string;
+}
+
 // =============================================================================
 // Rematch Messages
 // =============================================================================
@@ -439,6 +583,7 @@ export interface RematchStartMessage extends ServerMessage {
   type: 'REMATCH_START';
   placementState: PlacementState;
   gameState: GameState;
+  timeLimit?: number; // seconds for blind placement, 0 = no limit
 }
 
 // =============================================================================
@@ -450,6 +595,10 @@ export type ClientToServerMessage =
   | JoinRoomMessage
   | LeaveRoomMessage
   | GetLobbyMessage
+  | JoinQueueMessage
+  | LeaveQueueMessage
+  | CorrespondenceSubscribeMessage
+  | CorrespondenceMoveMessage
   | DraftSubmitMessage
   | PlacePieceMessage
   | BlindPlacePieceMessage
@@ -457,11 +606,13 @@ export type ClientToServerMessage =
   | BlindPlacementReadyMessage
   | BlindPlacementUnreadyMessage
   | MakeMoveMessage
+  | DropPieceMessage
   | OfferDrawMessage
   | RespondDrawMessage
   | ResignMessage
   | ReconnectMessage
   | PingMessage
+  | SendChatMessage
   | ProposeRematchMessage;
 
 export type ServerToClientMessage =
@@ -487,6 +638,7 @@ export type ServerToClientMessage =
   | GameStartMessage
   | MoveMadeMessage
   | MoveRejectedMessage
+  | PlayerEliminatedMessage
   | DrawOfferedMessage
   | DrawDeclinedMessage
   | GameOverMessage
@@ -494,7 +646,14 @@ export type ServerToClientMessage =
   | SyncStateMessage
   | PlayerDisconnectedMessage
   | PongMessage
+  | ChatMessageMessage
+  | ChatRejectedMessage
   | RematchProposedMessage
   | RematchStartMessage
   | LobbyListMessage
-  | LobbyUpdatedMessage;
+  | LobbyUpdatedMessage
+  | QueueJoinedMessage
+  | QueueLeftMessage
+  | MatchFoundMessage
+  | CorrespondenceUpdatedMessage
+  | CorrespondenceRejectedMessage;
@@ -0,0 +1,80 @@
+/**
+ * Tests for matchmaking
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { MatchPreferences, QueueEntry } from './matchmaking';
+import {
+  MATCHMAKING_WINDOW,
+  arePreferencesCompatible,
+  findBestMatch,
+  getRatingWindow,
+  matchPreferencesToSettings,
+} from './matchmaking';
+
+const STANDARD: MatchPreferences = {
+  budget: 360,
+  boardSize: '8x8',
+  placementMode: 'blind',
+  clock: { baseTime: 300, increment: 3, mode: 'fischer' },
+};
+
+function entry(id: string, rating: number, queuedAt = 0, preferences = STANDARD, userId: string | null = null): QueueEntry {
+  return { id, userId, rating, preferences, queuedAt };
+}
+
+describe('getRatingWindow', () => {
+  it('widens the longer a player waits, up to the maximum', () => {
+    expect(getRatingWindow(0, 0)).toBe(MATCHMAKING_WINDOW.initial);
+    expect(getRatingWindow(0, 10_000)).toBe(MATCHMAKING_WINDOW.initial + 10 * MATCHMAKING_WINDOW.perSecond);
+    expect(getRatingWindow(0, 3_600_000)).toBe(MATCHMAKING_WINDOW.max);
+  });
+});
+
+describe('arePreferencesCompatible', () => {
+  it('needs the same budget, board, placement and time control', () => {
+    expect(arePreferencesCompatible(STANDARD, { ...STANDARD, clock: { ...STANDARD.clock! } })).toBe(true);
+    expect(arePreferencesCompatible(STANDARD, { ...STANDARD, budget: 500 })).toBe(false);
+    expect(arePreferencesCompatible(STANDARD, { ...STANDARD, placementMode: 'alternating' })).toBe(false);
+    expect(arePreferencesCompatible(STANDARD, { ...STANDARD, clock: null })).toBe(false);
+    expect(arePreferencesCompatible({ ...STANDARD, clock: null }, { ...STANDARD, clock: null })).toBe(true);
+  });
+});
+
+describe('findBestMatch', () => {
+  it('pairs the closest ratings', () => {
+    const match = findBestMatch([entry('a', 1200), entry('b', 1290), entry('c', 1240)], 0);
+    expect(match?.map((e) => e.id)).toEqual(['a', 'c']);
+  });
+
+  it('waits until both windows cover the rating gap', () => {
+    const queue = [entry('a', 1200, 0), entry('b', 1400, 5_000)];
+    expect(findBestMatch(queue, 5_000)).toBeNull();
+    expect(findBestMatch(queue, 15_000)?.map((e) => e.id)).toEqual(['a', 'b']);
+  });
+
+  it('never pairs players who want different games', () => {
+    const queue = [entry('a', 1200), entry('b', 1200, 0, { ...STANDARD, boardSize: '10x10' })];
+    expect(findBestMatch(queue, 3_600_000)).toBeNull();
+  });
+
+  it('never pairs an account with itself from two tabs', () => {
+    const queue = [entry('tab-1', 1200, 0, STANDARD, 'user-1'), entry('tab-2', 1200, 0, STANDARD, 'user-1')];
+    expect(findBestMatch(queue, 0)).toBeNull();
+    queue.push(entry('c', 1250, 0, STANDARD, 'user-2'));
+    expect(findBestMatch(queue, 0)?.map((e) => e.id)).toEqual(['tab-1', 'c']);
+  });
+
+  it('pairs guests, who have no account id', () => {
+    expect(findBestMatch([entry('a', 1200), entry('b', 1200)], 0)?.map((e) => e.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('matchPreferencesToSettings', () => {
+  it('builds a two-player room from the preferences', () => {
+    const settings = matchPreferencesToSettings({ ...STANDARD, clock: null });
+    expect(settings).toMatchObject({ budget: 360, boardSize: '8x8', placementMode: 'blind', moveTimeLimit: null });
+    expect(settings.clock).toBeUndefined();
+    expect(settings.playerCount).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Matchmaking - pairing queued players by rating and preferences
+ *
+ * Players queue with the game they want to play. Two players can be paired
+ * when they want the same game and their ratings are close enough; the gap
+ * each will accept starts small and widens the longer they wait.
+ */
+
+import type { BoardSize } from '../game/types';
+import type { ClockSettings } from '../game/rules/clock';
+import type { RoomSettings } from './index';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MatchPreferences {
+  budget: number;
+  boardSize: BoardSize;
+  placementMode: 'alternating' | 'blind';
+  clock: ClockSettings | null; // null = untimed
+}
+
+export interface QueueEntry {
+  id: string;
+  userId: string | null; // null = guest
+  rating: number;
+  preferences: MatchPreferences;
+  queuedAt: number; // ms since epoch
+}
+
+// =============================================================================
+// Rating Window
+// =============================================================================
+
+/** Rating gap accepted on joining, how fast it widens, and where it stops */
+export const MATCHMAKING_WINDOW = { initial: 100, perSecond: 10, max: 800 };
+
+/** Rating used for guests and for accounts whose rating can't be read */
+export const MATCHMAKING_DEFAULT_RATING = 1200;
+
+/** Draft time for matched games; the other settings come from the preferences */
+const MATCHED_DRAFT_TIME_LIMIT = 180;
+
+/**
+ * The largest rating gap a player who queued at `queuedAt` will accept now
+ */
+export function getRatingWindow(queuedAt: number, now: number): number {
+  const waitedSeconds = Math.max(0, now - queuedAt) / 1000;
+  return Math.min(
+    MATCHMAKING_WINDOW.max,
+    MATCHMAKING_WINDOW.initial + Math.floor(waitedSeconds) * MATCHMAKING_WINDOW.perSecond
+  );
+}
+
+// =============================================================================
+// Pairing
+// =============================================================================
+
+function sameClock(a: ClockSettings | null, b: ClockSettings | null): boolean {
+  if (!a || !b) return a === b;
+  return a.baseTime === b.baseTime && a.increment === b.increment && a.mode === b.mode;
+}
+
+/**
+ * Whether two players want the same game
+ */
+export function arePreferencesCompatible(a: MatchPreferences, b: MatchPreferences): boolean {
+  return (
+    a.budget === b.budget &&
+    a.boardSize === b.boardSize &&
+    a.placementMode === b.placementMode &&
+    sameClock(a.clock, b.clock)
+  );
+}
+
+/**
+ * Find the best pair in the queue: compatible players whose rating gap is
+ * within both of their windows, closest ratings first and then whoever has
+ * waited longest. One account queued from two tabs is never paired with
+ * itself. Returns null when nobody can be paired yet.
+ */
+export function findBestMatch(entries: QueueEntry[], now: number): [QueueEntry, QueueEntry] | null {
+  let best: [QueueEntry, QueueEntry] | null = null;
+  let bestGap = Infinity;
+  let bestWaitedSince = Infinity;
+
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const a = entries[i];
+      const b = entries[j];
+      if (a.userId !== null && a.userId === b.userId) continue;
+      if (!arePreferencesCompatible(a.preferences, b.preferences)) continue;
+
+      const gap = Math.abs(a.rating - b.rating);
+      const window = Math.min(getRatingWindow(a.queuedAt, now), getRatingWindow(b.queuedAt, now));
+      if (gap > window) continue;
+
+      const waitedSince = Math.min(a.queuedAt, b.queuedAt);
+      if (gap < bestGap || (gap === bestGap && waitedSince < bestWaitedSince)) {
+        best = a.queuedAt <= b.queuedAt ? [a, b] : [b, a];
+        bestGap = gap;
+        bestWaitedSince = waitedSince;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Room settings for a game between two matched players
+ */
+export function matchPreferencesToSettings(preferences: MatchPreferences): RoomSettings {
+  return {
+    budget: preferences.budget,
+    boardSize: preferences.boardSize,
+    draftTimeLimit: MATCHED_DRAFT_TIME_LIMIT,
+    moveTimeLimit: null,
+    placementMode: preferences.placementMode,
+    clock: preferences.clock ?? undefined,
+  };
+}